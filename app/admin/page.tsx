@@ -2,6 +2,7 @@ import { getAdminStats } from '@/lib/actions/admin'
 import Link from 'next/link'
 import { Users, BarChart2, TrendingUp, Activity } from 'lucide-react'
 import { PLAN_BADGE } from '@/lib/utils/admin-constants'
+import PurgeCacheButton from '@/components/admin/PurgeCacheButton'
 
 export const dynamic = 'force-dynamic'
 
@@ -58,9 +59,12 @@ export default async function AdminOverviewPage() {
 
   return (
     <div className="p-8 max-w-7xl mx-auto space-y-8">
-      <div>
-        <h1 className="text-xl font-semibold text-ink">Overview</h1>
-        <p className="text-sm text-ink-faint mt-0.5">Platform at a glance</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-ink">Overview</h1>
+          <p className="text-sm text-ink-faint mt-0.5">Platform at a glance</p>
+        </div>
+        <PurgeCacheButton />
       </div>
 
       {/* Main stats */}
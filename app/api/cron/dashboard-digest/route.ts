@@ -2,20 +2,81 @@ import * as Sentry from '@sentry/nextjs';
 import { type NextRequest, NextResponse } from 'next/server';
 import { connectToDatabase } from '@/lib/database/mongodb';
 import { DashboardModel, VisualizationModel, UserModel } from '@/lib/database/models';
-import { fetchAndParseSheet } from '@/lib/utils/sheet-fetch';
+import type { FetchedSheet } from '@/lib/utils/sheet-fetch';
+import { fetchLiveSource } from '@/lib/services/live-source';
+import { describeLiveSource, hasLiveSource } from '@/lib/utils/live-source';
 import { refreshChartData } from '@/lib/utils/chart-data-refresh';
+import { computeChartDelta } from '@/lib/utils/chart-delta';
+import { verifyChartData } from '@/lib/utils/data-verifier';
+import { recordRevision } from '@/lib/utils/revisions';
+import { recordSnapshot } from '@/lib/utils/snapshots';
+import type { SavedVisualization } from '@/lib/types/visualization';
+import type { EChartsOption } from 'echarts';
+import type { HydratedDocument } from 'mongoose';
 import { sendDashboardDigest, sendVisualizationDigest, type DigestChartSummary } from '@/lib/services/email-service';
+import { dueOccurrence, resolveSchedule } from '@/lib/utils/schedule';
+import { chartUrl, dispatchChartAlerts } from '@/lib/services/alert-service';
+import type { RecurringSchedule } from '@/lib/types/schedule';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
-// Guards against the cron firing more than once on the same UTC day.
-const LAST_SENT_COOLDOWN_MS = 20 * 60 * 60 * 1000;
+type StoredSchedule = Partial<RecurringSchedule> & { dayOfWeek?: number };
+
+/** Due schedules among `docs`, with the occurrence each should run for. */
+function dueSchedules(docs: Array<{ _id: unknown; schedule?: StoredSchedule }>, now: Date) {
+  return docs.flatMap(doc => {
+    const occurrence = dueOccurrence({ ...resolveSchedule(doc.schedule), lastOccurrence: doc.schedule?.lastOccurrence }, now);
+    return occurrence ? [{ id: String(doc._id), previous: doc.schedule?.lastOccurrence ?? null, key: occurrence.key }] : [];
+  });
+}
+
+/**
+ * Write a refreshed option back (re-verified against the new rows), record
+ * it as a revision and a data snapshot, and fire any alert rules the new
+ * values trip.
+ */
+async function persistRefresh(
+  viz: HydratedDocument<SavedVisualization>,
+  sheet: FetchedSheet,
+  result: { option: EChartsOption; summary: string },
+  now: Date
+) {
+  const verification = verifyChartData(result.option, sheet.rows, describeLiveSource(viz.liveData!), viz.spec.encoding, viz.spec.transforms);
+  await VisualizationModel.updateOne(
+    { _id: viz._id },
+    { $set: { 'spec.option': result.option, 'spec.verification': verification, 'liveData.lastRefreshed': now.toISOString() } }
+  );
+  await recordRevision({
+    userId: viz.userId,
+    visualizationId: viz._id.toString(),
+    spec: { ...viz.spec, option: result.option, verification },
+    action: 'live-refresh',
+    prompt: result.summary,
+    sessionExpiresAt: viz.sessionExpiresAt,
+  });
+  await recordSnapshot({
+    userId: viz.userId,
+    visualizationId: viz._id.toString(),
+    option: result.option,
+    sheet,
+    trigger: 'scheduled',
+    summary: result.summary,
+    capturedAt: now,
+    sessionExpiresAt: viz.sessionExpiresAt,
+  });
+  await dispatchChartAlerts(viz, viz.spec.option, result.option, now);
+}
 
 /**
- * Daily cron (see vercel.json) — finds dashboards whose weekly digest is due
- * today, re-fetches each connected live sheet, patches chart data in place
- * (no AI calls), and emails the owner a summary.
+ * Hourly cron (see vercel.json) — finds dashboards and charts with a
+ * schedule occurrence due (lib/utils/schedule.ts), re-fetches each connected
+ * live sheet, patches chart data in place (no AI calls), and emails the
+ * owner a summary.
+ *
+ * Each occurrence is claimed with a compare-and-set on
+ * `schedule.lastOccurrence` before any work, so overlapping or retried
+ * invocations run it once — a missed digest is preferable to a duplicate.
  */
 export async function GET(request: NextRequest) {
   const cronSecret = process.env.CRON_SECRET;
@@ -32,12 +93,13 @@ export async function GET(request: NextRequest) {
   await connectToDatabase();
 
   const now = new Date();
-  const todayUTC = now.getUTCDay();
 
-  const dueDashboards = await DashboardModel.find({
-    'schedule.enabled': true,
-    'schedule.dayOfWeek': todayUTC,
-  });
+  const scheduledDashboards = await DashboardModel.find({ 'schedule.enabled': true }).select('_id schedule').lean<Array<{ _id: unknown; schedule?: StoredSchedule }>>();
+  const dashboardDue = dueSchedules(scheduledDashboards, now);
+  const dueDashboards = dashboardDue.length
+    ? await DashboardModel.find({ _id: { $in: dashboardDue.map(d => d.id) } })
+    : [];
+  const dashboardOccurrences = new Map(dashboardDue.map(d => [d.id, d]));
 
   let processed = 0;
   let sent = 0;
@@ -50,10 +112,12 @@ export async function GET(request: NextRequest) {
   const dashboardUserMap = new Map(dashboardUsers.map(u => [u.clerkId, u.email]));
 
   for (const dashboard of dueDashboards) {
-    const lastSentAt = dashboard.schedule?.lastSentAt;
-    if (lastSentAt && now.getTime() - new Date(lastSentAt as unknown as string).getTime() < LAST_SENT_COOLDOWN_MS) {
-      continue;
-    }
+    const occurrence = dashboardOccurrences.get(dashboard._id.toString())!;
+    const claim = await DashboardModel.updateOne(
+      { _id: dashboard._id, 'schedule.lastOccurrence': occurrence.previous },
+      { $set: { 'schedule.lastOccurrence': occurrence.key } }
+    );
+    if (claim.modifiedCount === 0) continue;
 
     try {
       processed++;
@@ -66,24 +130,23 @@ export async function GET(request: NextRequest) {
       const charts: DigestChartSummary[] = [];
 
       for (const viz of vizDocs) {
-        const url = viz.liveData?.url;
-        if (!url) continue;
+        if (!viz.liveData || !hasLiveSource(viz.liveData)) continue;
 
-        const sheet = await fetchAndParseSheet(url);
+        const sheet = await fetchLiveSource(viz.liveData, viz.userId);
         if (!sheet.ok) {
           charts.push({ title: viz.title, refreshed: false, summary: `Couldn't fetch live data: ${sheet.error}` });
           continue;
         }
 
-        const result = refreshChartData(viz.spec.option, sheet);
-        charts.push({ title: viz.title, refreshed: result.refreshed, summary: result.summary });
+        const result = refreshChartData(viz.spec.option, sheet, viz.spec.encoding, viz.spec.transforms);
+        charts.push({
+          title: viz.title,
+          refreshed: result.refreshed,
+          summary: result.summary,
+          delta: result.refreshed ? computeChartDelta(viz.spec.option, result.option) : null,
+        });
 
-        if (result.refreshed) {
-          await VisualizationModel.updateOne(
-            { _id: viz._id },
-            { $set: { 'spec.option': result.option, 'liveData.lastRefreshed': now.toISOString() } }
-          );
-        }
+        if (result.refreshed) await persistRefresh(viz, sheet, result, now);
       }
 
       if (charts.length > 0) {
@@ -95,9 +158,6 @@ export async function GET(request: NextRequest) {
               ? `${baseUrl}/share/dashboard/${dashboard.dashboardId}`
               : `${baseUrl}/dashboard/builder`;
 
-          // Write lastSentAt before the email send — if the function times out
-          // between the send and this write, the next cron run would re-send.
-          // A missed digest is preferable to a duplicate.
           await DashboardModel.updateOne({ _id: dashboard._id }, { $set: { 'schedule.lastSentAt': now } });
 
           await sendDashboardDigest({
@@ -109,9 +169,7 @@ export async function GET(request: NextRequest) {
           sent++;
         }
       }
-      // lastSentAt is only written when an email is actually sent above.
-      // Dashboards with no live-data slots produce charts.length === 0 and
-      // are intentionally left un-stamped so their schedule isn't silently consumed.
+      // Dashboards with no live-data slots produce charts.length === 0 — no email, no lastSentAt.
     } catch (err) {
       console.error(err);
       Sentry.captureException(err);
@@ -119,11 +177,19 @@ export async function GET(request: NextRequest) {
   }
 
   // ── Per-visualization digests (Playground/session charts) ──
-  const dueVisualizations = await VisualizationModel.find({
+  const scheduledVisualizations = await VisualizationModel.find({
     'schedule.enabled': true,
-    'schedule.dayOfWeek': todayUTC,
-    'liveData.url': { $exists: true, $ne: null },
-  });
+    $or: [
+      { 'liveData.url': { $exists: true, $ne: null } },
+      { 'liveData.sql.connectionId': { $exists: true } },
+      { 'liveData.json.url': { $exists: true } },
+    ],
+  }).select('_id schedule').lean<Array<{ _id: unknown; schedule?: StoredSchedule }>>();
+  const vizDue = dueSchedules(scheduledVisualizations, now);
+  const dueVisualizations = vizDue.length
+    ? await VisualizationModel.find({ _id: { $in: vizDue.map(v => v.id) } })
+    : [];
+  const vizOccurrences = new Map(vizDue.map(v => [v.id, v]));
 
   // Batch-fetch all users for due visualizations in a single query
   const vizUserIds = [...new Set(dueVisualizations.map(v => v.userId))];
@@ -133,47 +199,41 @@ export async function GET(request: NextRequest) {
   const vizUserMap = new Map(vizUsers.map(u => [u.clerkId, u.email]));
 
   for (const viz of dueVisualizations) {
-    const lastSentAt = viz.schedule?.lastSentAt;
-    if (lastSentAt && now.getTime() - new Date(lastSentAt as unknown as string).getTime() < LAST_SENT_COOLDOWN_MS) {
-      continue;
-    }
+    const occurrence = vizOccurrences.get(viz._id.toString())!;
+    const claim = await VisualizationModel.updateOne(
+      { _id: viz._id, 'schedule.lastOccurrence': occurrence.previous },
+      { $set: { 'schedule.lastOccurrence': occurrence.key } }
+    );
+    if (claim.modifiedCount === 0) continue;
 
     try {
       processed++;
 
-      const url = viz.liveData!.url;
       let summary: DigestChartSummary;
 
-      const sheet = await fetchAndParseSheet(url);
+      const sheet = await fetchLiveSource(viz.liveData!, viz.userId);
       if (!sheet.ok) {
         summary = { title: viz.title, refreshed: false, summary: `Couldn't fetch live data: ${sheet.error}` };
       } else {
-        const result = refreshChartData(viz.spec.option, sheet);
-        summary = { title: viz.title, refreshed: result.refreshed, summary: result.summary };
-
-        if (result.refreshed) {
-          await VisualizationModel.updateOne(
-            { _id: viz._id },
-            { $set: { 'spec.option': result.option, 'liveData.lastRefreshed': now.toISOString() } }
-          );
-        }
+        const result = refreshChartData(viz.spec.option, sheet, viz.spec.encoding, viz.spec.transforms);
+        summary = {
+          title: viz.title,
+          refreshed: result.refreshed,
+          summary: result.summary,
+          delta: result.refreshed ? computeChartDelta(viz.spec.option, result.option) : null,
+        };
+
+        if (result.refreshed) await persistRefresh(viz, sheet, result, now);
       }
 
       const email = vizUserMap.get(viz.userId);
       if (email) {
-        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-        const chartUrl =
-          viz.isPublic && viz.shareId
-            ? `${baseUrl}/share/${viz.shareId}`
-            : `${baseUrl}/my-visualizations`;
-
-        // Write lastSentAt before the email send — same reasoning as dashboards above.
         await VisualizationModel.updateOne({ _id: viz._id }, { $set: { 'schedule.lastSentAt': now } });
 
         await sendVisualizationDigest({
           to: email,
           chartTitle: viz.title,
-          chartUrl,
+          chartUrl: chartUrl(viz),
           summary,
         });
         sent++;
@@ -1,7 +1,9 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { checkRateLimit } from '@/lib/utils/rate-limit';
-import { fetchAndParseSheet } from '@/lib/utils/sheet-fetch';
+import { fetchAndParseSheet, type FetchedSheet, type FetchedSheetError } from '@/lib/utils/sheet-fetch';
+import { fetchJsonSource, fetchSqlSource } from '@/lib/services/live-source';
+import type { JsonLiveSource, SqlLiveSource } from '@/lib/types/visualization';
 
 /*
  * Client IP — NextRequest.ip was removed in Next 15+. `x-real-ip` is the
@@ -16,22 +18,47 @@ function getClientIp(request: NextRequest): string {
   return 'unknown';
 }
 
-export async function GET(request: NextRequest) {
+function sheetResponse(result: FetchedSheet | FetchedSheetError) {
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  return NextResponse.json({
+    rawCsv: result.rawCsv,
+    headers: result.headers,
+    rowCount: result.rowCount,
+    schema: result.schema,
+    truncated: result.truncated,
+    fetchedAt: new Date().toISOString(),
+  });
+}
+
+/** Auth + per-IP rate limit shared by both methods — returns the caller's id or an error response. */
+async function guard(request: NextRequest): Promise<{ userId: string } | { response: NextResponse }> {
   // ── Auth (middleware guards this route, but check explicitly for defense-in-depth)
   const { userId } = await auth();
   if (!userId) {
-    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    return { response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
   }
 
   // ── Rate limiting (per-IP, before any outbound fetch) ──────────────────────
   const ip = getClientIp(request);
   const rateCheck = await checkRateLimit(ip, 'live-data');
   if (!rateCheck.allowed) {
-    return NextResponse.json(
-      { error: `Too many requests. Please wait ${rateCheck.retryAfter ?? 60} seconds before trying again.` },
-      { status: 429, headers: { 'Retry-After': String(rateCheck.retryAfter ?? 60) } }
-    );
+    return {
+      response: NextResponse.json(
+        { error: `Too many requests. Please wait ${rateCheck.retryAfter ?? 60} seconds before trying again.` },
+        { status: 429, headers: { 'Retry-After': String(rateCheck.retryAfter ?? 60) } }
+      ),
+    };
   }
+  return { userId };
+}
+
+/** Sheet / CSV sources — `?url=`. */
+export async function GET(request: NextRequest) {
+  const guarded = await guard(request);
+  if ('response' in guarded) return guarded.response;
 
   const rawUrl = request.nextUrl.searchParams.get('url');
   if (!rawUrl) {
@@ -39,18 +66,33 @@ export async function GET(request: NextRequest) {
   }
 
   // searchParams.get() already percent-decodes — do NOT call decodeURIComponent again
-  const result = await fetchAndParseSheet(rawUrl);
+  return sheetResponse(await fetchAndParseSheet(rawUrl));
+}
 
-  if (!result.ok) {
-    return NextResponse.json({ error: result.error }, { status: result.status });
+/**
+ * SQL and JSON API sources — `{ sql: { connectionId, query, params } }` or
+ * `{ json: { url, path?, connectionId? } }` in the body. Connections must be
+ * the caller's own; credentials are resolved server-side and never sent to or
+ * from the client.
+ */
+export async function POST(request: NextRequest) {
+  const guarded = await guard(request);
+  if ('response' in guarded) return guarded.response;
+
+  let body: { sql?: SqlLiveSource; json?: JsonLiveSource } | null;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
   }
 
-  return NextResponse.json({
-    rawCsv: result.rawCsv,
-    headers: result.headers,
-    rowCount: result.rowCount,
-    schema: result.schema,
-    truncated: result.truncated,
-    fetchedAt: new Date().toISOString(),
-  });
+  const { sql, json } = body ?? {};
+  if (json && typeof json === 'object' && typeof json.url === 'string') {
+    return sheetResponse(await fetchJsonSource(json, guarded.userId));
+  }
+  if (!sql || typeof sql !== 'object' || typeof sql.connectionId !== 'string') {
+    return NextResponse.json({ error: 'Missing sql or json source' }, { status: 400 });
+  }
+
+  return sheetResponse(await fetchSqlSource(sql, guarded.userId));
 }
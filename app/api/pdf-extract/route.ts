@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { checkRateLimit } from '@/lib/utils/rate-limit';
+import { validateFileSize } from '@/lib/utils/helpers';
+import { VALIDATION_LIMITS } from '@/lib/utils/constants';
+import { extractPdf } from '@/lib/services/pdf-extract';
+
+/**
+ * Text and detected tables of an uploaded PDF — multipart body with a single
+ * `file` field. PDF parsing runs here rather than in the browser (see
+ * lib/services/pdf-extract.ts); the composer builds the attachment from the
+ * response.
+ */
+export async function POST(request: NextRequest) {
+  // ── Auth (middleware guards this route, but check explicitly for defense-in-depth)
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const rateCheck = await checkRateLimit(userId, 'pdf-extract');
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: `Too many requests. Please wait ${rateCheck.retryAfter ?? 60} seconds before trying again.` },
+      { status: 429, headers: { 'Retry-After': String(rateCheck.retryAfter ?? 60) } }
+    );
+  }
+
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await request.formData()).get('file');
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (!(file instanceof File) || !file.name.toLowerCase().endsWith('.pdf')) {
+    return NextResponse.json({ error: 'Missing PDF file' }, { status: 400 });
+  }
+  if (!validateFileSize(file.size, VALIDATION_LIMITS.MAX_PDF_UPLOAD_MB)) {
+    return NextResponse.json({ error: `PDFs can be at most ${VALIDATION_LIMITS.MAX_PDF_UPLOAD_MB}MB` }, { status: 413 });
+  }
+
+  const result = await extractPdf(new Uint8Array(await file.arrayBuffer()));
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ text: result.text, sheets: result.sheets });
+}
@@ -2,7 +2,16 @@ import * as Sentry from '@sentry/nextjs';
 import { verifyWebhook } from '@clerk/nextjs/webhooks';
 import { NextRequest, NextResponse } from 'next/server';
 import { connectToDatabase } from '@/lib/database/mongodb';
-import { UserModel, UserUsageModel, VisualizationModel, DashboardModel } from '@/lib/database/models';
+import {
+  UserModel,
+  UserUsageModel,
+  VisualizationModel,
+  DashboardModel,
+  DataConnectionModel,
+  DatasetModel,
+  DataSnapshotModel,
+  VisualizationRevisionModel,
+} from '@/lib/database/models';
 
 export async function POST(req: NextRequest) {
   try {
@@ -62,6 +71,10 @@ export async function POST(req: NextRequest) {
         UserUsageModel.deleteOne({ userId: id }),
         VisualizationModel.deleteMany({ userId: id }),
         DashboardModel.deleteMany({ userId: id }),
+        DataConnectionModel.deleteMany({ userId: id }),
+        DatasetModel.deleteMany({ userId: id }),
+        VisualizationRevisionModel.deleteMany({ userId: id }),
+        DataSnapshotModel.deleteMany({ userId: id }),
       ]);
     }
 
@@ -1,12 +1,14 @@
 'use client';
 
-import React, { useState, useCallback, Suspense } from 'react';
+import React, { useState, useCallback, useEffect, useRef, Suspense } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { useAuth, useUser } from '@clerk/nextjs';
 import { useSearchParams } from 'next/navigation';
 import type { FileAttachment } from '@/lib/utils/file-attachment';
-import { readFileAttachment, buildSampleAttachment } from '@/lib/utils/file-attachment';
+import { readFileAttachment, buildSampleAttachment, buildDatasetAttachment } from '@/lib/utils/file-attachment';
+import { createDataset, createLiveDataset, getDataset } from '@/lib/actions/datasets';
+import { describeLiveSource, pickLiveSource } from '@/lib/utils/live-source';
 import { type ChartSelection } from '@/lib/utils/chart-types';
 import type { LiveSheetData } from '@/lib/utils/live-sheet';
 import type { StarterTemplate } from '@/lib/utils/starter-templates';
@@ -44,7 +46,8 @@ function DashboardContent() {
     handleNew, handleDeleteThread, handleTitleChange,
     handleChatMessage, handleSave, handleUndo,
     handleAnnotate, handleThemeChange,
-    handleLiveDataChange, handleScheduleChange,
+    handleRestoreRevision, handleForkRevision, handleBranchFromTurn, handleTransformsChange,
+    handleLiveDataChange, handleScheduleChange, handleAlertsChange,
     handleRefreshLiveData, handleSubmit,
     handlePrepareStatTest,
     isEditing, saving, isRefreshing,
@@ -83,6 +86,12 @@ function DashboardContent() {
     setStatRun(null);
   }, [setStatRun]);
 
+  // A different sheet/range is a different dataset — the last test result no longer applies.
+  const handleChangeAttachment = useCallback((updated: FileAttachment) => {
+    setAttachment(updated);
+    setStatRun(null);
+  }, [setStatRun]);
+
   /* ── Forced chart type (gallery picker) — overrides the AI's own type judgment for the next request ── */
   const [chartType, setChartType] = useState<ChartSelection | null>(null);
   const handleClearChartType = useCallback(() => setChartType(null), []);
@@ -99,6 +108,39 @@ function DashboardContent() {
     setStatRun(null);
   }, [setStatRun]);
 
+  /* ── Dataset library — save the attached rows, or arrive with `?dataset=<id>` to chart a saved one ── */
+  const handleSaveAttachment = useCallback(async () => {
+    if (!attachment?.rows) return;
+    const saved = attachment;
+    const res = await createDataset(saved.name.replace(/\.[^.]+$/, ''), saved.rows!, saved.name);
+    if (!res.success || !res.data) { toast.error(res.error || 'Failed to save dataset'); return; }
+    const datasetId = res.data.id;
+    setAttachment(prev => prev?.id === saved.id ? { ...prev, datasetId } : prev);
+    toast.success(`Saved "${res.data.name}" to your datasets`);
+  }, [attachment]);
+
+  const handleSaveLiveSheet = useCallback(async () => {
+    if (!liveSheet) return false;
+    const res = await createLiveDataset(describeLiveSource(liveSheet).slice(0, 120), pickLiveSource(liveSheet));
+    if (!res.success || !res.data) { toast.error(res.error || 'Failed to save dataset'); return false; }
+    toast.success(`Saved "${res.data.name}" to your datasets — rename it from the library`);
+    return true;
+  }, [liveSheet]);
+
+  const datasetFromUrl = searchParams.get('dataset');
+  const seenDatasetIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!datasetFromUrl || datasetFromUrl === seenDatasetIdRef.current || isSignedIn !== true) return;
+    seenDatasetIdRef.current = datasetFromUrl;
+    getDataset(datasetFromUrl).then(res => {
+      if (!res.success || !res.data) { toast.error(res.error || 'Failed to load dataset'); return; }
+      setAttachment(buildDatasetAttachment(res.data));
+      setLiveSheet(null);
+      setStatRun(null);
+      toast.success(`Attached "${res.data.name}" — describe the chart you want`);
+    }).catch(() => { toast.error('Failed to load dataset'); });
+  }, [datasetFromUrl, isSignedIn]);
+
   /* ── Starter template gallery — pre-fills prompt, sample data, and chart type for the empty composer ── */
   const handleUseTemplate = useCallback((template: StarterTemplate) => {
     setInput(template.prompt);
@@ -194,6 +236,8 @@ function DashboardContent() {
                   attaching={attaching}
                   onAttach={handleAttach}
                   onRemoveAttachment={handleRemoveAttachment}
+                  onChangeAttachment={handleChangeAttachment}
+                  onSaveAttachment={isSignedIn ? handleSaveAttachment : undefined}
                   chartType={chartType}
                   onChooseChartType={setChartType}
                   onClearChartType={handleClearChartType}
@@ -203,6 +247,7 @@ function DashboardContent() {
                   liveSheet={liveSheet}
                   onConnectLiveSheet={handleConnectLiveSheet}
                   onDisconnectLiveSheet={handleDisconnectLiveSheet}
+                  onSaveLiveSheet={isSignedIn ? handleSaveLiveSheet : undefined}
                   onDelete={handleDeleteThread}
                   onUseTemplate={handleUseTemplate}
                 />
@@ -252,6 +297,7 @@ function DashboardContent() {
             onRefreshLiveData={handleRefreshLiveData}
             isRefreshing={isRefreshing}
             onScheduleChange={handleScheduleChange}
+            onAlertsChange={handleAlertsChange}
             statRun={statRun}
             datasetColumns={datasetColumns}
             datasetRowCount={datasetRowCount}
@@ -262,6 +308,10 @@ function DashboardContent() {
             canUndo={Boolean(activeThread?.specHistory?.length)}
             onAnnotate={handleAnnotate}
             onSuggestPrompt={setInput}
+            onRestoreRevision={handleRestoreRevision}
+            onForkRevision={handleForkRevision}
+            onBranchFromTurn={handleBranchFromTurn}
+            onTransformsChange={handleTransformsChange}
           />
         </div>
       </div>
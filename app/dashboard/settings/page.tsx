@@ -3,8 +3,8 @@
 import React, { useEffect, useState } from 'react';
 import Header from '@/components/dashboard/Header';
 import { useUser, useClerk } from '@clerk/nextjs';
-import { User, Mail, CheckCircle, Check, Zap, RotateCcw, CalendarDays, Bell } from 'lucide-react';
-import { getUserProfile, getUserLimits, updateNotificationPreferences, UserProfile } from '@/lib/actions/profile';
+import { User, Mail, CheckCircle, Check, Zap, RotateCcw, CalendarDays, Bell, DatabaseZap } from 'lucide-react';
+import { getUserProfile, getUserLimits, updateNotificationPreferences, updatePrivacyPreferences, UserProfile } from '@/lib/actions/profile';
 import { toast } from 'sonner';
 
 type Limits = Awaited<ReturnType<typeof getUserLimits>>['data'];
@@ -16,6 +16,7 @@ export default function SettingsPage() {
   const [limits, setLimits] = useState<Limits | null>(null);
   const [loading, setLoading] = useState(true);
   const [usageAlerts, setUsageAlerts] = useState(true);
+  const [cacheGenerations, setCacheGenerations] = useState(true);
   const [savingPrefs, setSavingPrefs] = useState(false);
 
   useEffect(() => {
@@ -29,6 +30,7 @@ export default function SettingsPage() {
         if (profileRes.success && profileRes.data) {
           setProfile(profileRes.data);
           setUsageAlerts(profileRes.data.notificationPreferences.usageAlerts);
+          setCacheGenerations(profileRes.data.privacyPreferences.cacheGenerations);
         } else {
           toast.error('Failed to load profile data');
         }
@@ -64,6 +66,24 @@ export default function SettingsPage() {
     }
   };
 
+  const handleToggleCacheGenerations = async () => {
+    const next = !cacheGenerations;
+    setCacheGenerations(next);
+    setSavingPrefs(true);
+    try {
+      const res = await updatePrivacyPreferences({ cacheGenerations: next });
+      if (!res.success) {
+        setCacheGenerations(!next);
+        toast.error(res.error || 'Failed to update preference');
+      }
+    } catch {
+      setCacheGenerations(!next);
+      toast.error('Failed to update preference');
+    } finally {
+      setSavingPrefs(false);
+    }
+  };
+
   const plan = profile?.plan === 'pro'
     ? 'Pro Plan'
     : profile?.plan === 'enterprise'
@@ -346,6 +366,28 @@ export default function SettingsPage() {
                 />
               </button>
             </div>
+            <div className="flex items-center justify-between py-3 border-t border-edge">
+              <div className="flex items-center gap-3">
+                <DatabaseZap className="w-4 h-4 text-ink-faint shrink-0" />
+                <div>
+                  <h3 className="text-sm font-medium text-ink">Cache my generations</h3>
+                  <p className="text-xs text-ink-muted">Reuse results for repeated prompts. Prompts with your data are only ever cached for you; turning this off clears them</p>
+                </div>
+              </div>
+              <button
+                onClick={handleToggleCacheGenerations}
+                disabled={loading || savingPrefs}
+                aria-pressed={cacheGenerations}
+                className={`w-11 h-6 rounded-full relative transition-colors focus:outline-none disabled:opacity-50 ${
+                  cacheGenerations ? 'bg-accent' : 'bg-surface-3'
+                }`}
+              >
+                <span
+                  className="block w-4 h-4 rounded-full bg-white shadow absolute top-1 transition-transform"
+                  style={{ left: cacheGenerations ? 'calc(100% - 20px)' : '4px' }}
+                />
+              </button>
+            </div>
           </section>
         </div>
       </div>
@@ -3,14 +3,17 @@
 import { getUserVisualizations, deleteVisualization, duplicateVisualization } from '@/lib/actions/visualize';
 import Header from '@/components/dashboard/Header';
 import { toast } from 'sonner';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import type { SavedVisualization } from '@/lib/types/visualization';
 import type { VisualizationSpec } from '@/lib/types/echarts-spec';
 import VisualizationModal from '@/components/visualizations/VisualizationModal';
+import DatasetLibrary from '@/components/dashboard/DatasetLibrary';
 import EChartsRenderer from '@/components/visualizations/EChartsRenderer';
 import { getChartTypeInfo, getSeriesType } from '@/lib/utils/series-icon';
 import { STARTER_TEMPLATES } from '@/lib/utils/starter-templates';
 import { relativeTime } from '@/lib/utils/helpers';
+import { hasLiveSource } from '@/lib/utils/live-source';
 import Link from 'next/link';
 import {
   Search, Grid, List, SearchX, Plus, Trash2, BarChart3,
@@ -192,7 +195,7 @@ function VisualizationsContent() {
   const allSelected = filtered.length > 0 && filtered.every(v => selected.has(v._id!));
 
   return (
-    <div className="flex-1 w-full max-w-7xl mx-auto p-6 pt-24">
+    <div className="flex-1 w-full max-w-7xl mx-auto p-6 pt-4">
       {/* Page header */}
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
         <div>
@@ -419,7 +422,7 @@ function VisualizationsContent() {
                           <ChartIcon size={9} />
                           <span className="hidden sm:inline">{chartLabel}</span>
                         </div>
-                        {viz.liveData?.url && (
+                        {hasLiveSource(viz.liveData) && (
                           <span className="flex items-center gap-1 text-[10px] font-medium text-success shrink-0">
                             <span className="w-1.5 h-1.5 rounded-full bg-success animate-pulse shrink-0" style={{ boxShadow: '0 0 4px var(--color-success)' }} />
                             Live
@@ -506,7 +509,7 @@ function VisualizationsContent() {
                       </div>
                     </td>
                     <td className="px-4 py-3 hidden sm:table-cell">
-                      {viz.liveData?.url ? (
+                      {hasLiveSource(viz.liveData) ? (
                         <span className="flex items-center gap-1 text-[11px] font-medium text-success">
                           <span className="w-1.5 h-1.5 rounded-full bg-success animate-pulse" style={{ boxShadow: '0 0 4px var(--color-success)' }} />
                           Live
@@ -550,11 +553,32 @@ function VisualizationsContent() {
   );
 }
 
+/* Charts | Datasets — the tab lives in the URL (`?tab=datasets`) so it survives reloads and links. */
+function LibraryTabs() {
+  const tab = useSearchParams().get('tab') === 'datasets' ? 'datasets' : 'charts';
+  const tabClass = (active: boolean) =>
+    `px-3.5 py-1.5 rounded-md text-sm font-medium transition-colors ${active ? 'bg-accent/12 text-accent' : 'text-ink-faint hover:text-ink'}`;
+
+  return (
+    <>
+      <div className="w-full max-w-7xl mx-auto px-6 pt-24">
+        <nav className="inline-flex p-1 rounded-lg bg-surface-2 border border-edge">
+          <Link href="/my-visualizations" scroll={false} className={tabClass(tab === 'charts')}>Charts</Link>
+          <Link href="/my-visualizations?tab=datasets" scroll={false} className={tabClass(tab === 'datasets')}>Datasets</Link>
+        </nav>
+      </div>
+      {tab === 'datasets' ? <DatasetLibrary /> : <VisualizationsContent />}
+    </>
+  );
+}
+
 export default function MyVisualizationsPage() {
   return (
     <div className="min-h-screen bg-surface-0 relative selection:bg-accent/20">
       <Header label="Library" />
-      <VisualizationsContent />
+      <Suspense fallback={null}>
+        <LibraryTabs />
+      </Suspense>
     </div>
   );
 }
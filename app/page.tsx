@@ -50,7 +50,7 @@ const CAPABILITIES = [
   { Icon: RefreshCw, text: 'Live data from Google Sheets' },
   { Icon: Share2, text: 'Export PNG, SVG, PDF, HTML, JSON, CSV' },
   { Icon: Code2, text: 'Dashboard builder' },
-  { Icon: BarChart3, text: 'Weekly email digests' },
+  { Icon: BarChart3, text: 'Scheduled email digests' },
 ];
 
 /* ── FAQ ── */
@@ -0,0 +1,45 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { DatabaseZap } from 'lucide-react'
+import { adminPurgeLegacyCache } from '@/lib/actions/admin'
+
+export default function PurgeCacheButton() {
+  const [confirmed, setConfirmed] = useState(false)
+  const [isPending, startTransition] = useTransition()
+
+  const handleClick = () => {
+    if (!confirmed) {
+      setConfirmed(true)
+      setTimeout(() => setConfirmed(false), 3000)
+      return
+    }
+    startTransition(async () => {
+      const result = await adminPurgeLegacyCache()
+      if (result.success) {
+        toast.success(`Purged ${result.deleted ?? 0} shared cache entr${result.deleted === 1 ? 'y' : 'ies'}`)
+      } else {
+        toast.error(result.error ?? 'Failed to purge cache')
+      }
+      setConfirmed(false)
+    })
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isPending}
+      title="Delete generation-cache entries written before per-user cache scoping"
+      className={`flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg border transition-colors disabled:opacity-50 ${
+        confirmed
+          ? 'bg-danger/15 text-danger border-danger/30 hover:bg-danger/25'
+          : 'border-edge text-ink-faint hover:text-ink hover:bg-surface-2'
+      }`}
+    >
+      <DatabaseZap className="w-3.5 h-3.5" />
+      {isPending ? 'Purging…' : confirmed ? 'Confirm purge?' : 'Purge legacy cache'}
+    </button>
+  )
+}
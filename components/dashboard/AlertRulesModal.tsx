@@ -0,0 +1,290 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { nanoid } from 'nanoid';
+import { X, Bell, Plus, Trash2, Loader2, Check } from 'lucide-react';
+import type { AlertChannel, AlertCondition, AlertConditionKind, AlertRule } from '@/lib/types/alert';
+import { DEFAULT_ALERT_COOLDOWN_MINUTES, MAX_ALERT_RULES, describeAlertCondition } from '@/lib/utils/alert-rules';
+import { relativeTime } from '@/lib/utils/helpers';
+
+const KIND_LABELS: Record<AlertConditionKind, string> = {
+  threshold: 'Latest value crosses a threshold',
+  change: 'A category changes by more than',
+  record: 'Hits a new high or low',
+};
+
+const COOLDOWN_OPTIONS = [
+  { label: '1 hour', value: 60 },
+  { label: '6 hours', value: 360 },
+  { label: '1 day', value: 1440 },
+  { label: '1 week', value: 10080 },
+] as const;
+
+const DEFAULT_CONDITIONS: Record<AlertConditionKind, AlertCondition> = {
+  threshold: { kind: 'threshold', comparator: 'below', value: 0 },
+  change: { kind: 'change', percent: 20, direction: 'any' },
+  record: { kind: 'record', extreme: 'max' },
+};
+
+const FIELD = 'px-2.5 py-1.5 rounded-lg bg-surface-2 border border-edge text-[11.5px] text-ink focus:outline-none focus:border-accent/40';
+
+interface AlertRulesModalProps {
+  open: boolean;
+  onClose: () => void;
+  chartTitle: string;
+  /** Series names in the chart, offered as the series to watch. */
+  seriesNames: string[];
+  rules: AlertRule[];
+  /** Persists the rules — resolves false when the save failed (the modal stays open). */
+  onSave: (rules: AlertRule[]) => Promise<boolean>;
+}
+
+function RuleEditor({ rule, seriesNames, onChange, onRemove }: {
+  rule: AlertRule;
+  seriesNames: string[];
+  onChange: (rule: AlertRule) => void;
+  onRemove: () => void;
+}) {
+  const { condition } = rule;
+  const webhook = rule.channels.find((c): c is Extract<AlertChannel, { kind: 'webhook' }> => c.kind === 'webhook');
+  const emailOn = rule.channels.some(c => c.kind === 'email');
+
+  const setCondition = (patch: Partial<AlertCondition>) => onChange({ ...rule, condition: { ...condition, ...patch } as AlertCondition });
+  const setChannels = (email: boolean, url: string | null) => onChange({
+    ...rule,
+    channels: [...(email ? [{ kind: 'email' } as const] : []), ...(url !== null ? [{ kind: 'webhook', url } as const] : [])],
+  });
+
+  return (
+    <div className={`rounded-lg border border-edge p-3 space-y-2.5 ${rule.enabled ? 'bg-surface-1' : 'bg-surface-1/50 opacity-70'}`}>
+      <div className="flex items-center gap-2">
+        <select
+          value={condition.kind}
+          onChange={e => onChange({ ...rule, condition: { ...DEFAULT_CONDITIONS[e.target.value as AlertConditionKind], series: condition.series } })}
+          className={`${FIELD} flex-1`}
+          aria-label="Alert condition"
+        >
+          {(Object.keys(KIND_LABELS) as AlertConditionKind[]).map(kind => <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-[10.5px] text-ink-faint">
+          <input type="checkbox" checked={rule.enabled} onChange={e => onChange({ ...rule, enabled: e.target.checked })} className="accent-[var(--color-accent)]" />
+          On
+        </label>
+        <button type="button" onClick={onRemove} title="Remove alert" className="w-7 h-7 rounded-lg flex items-center justify-center text-ink-faint hover:text-danger hover:bg-surface-3 transition-colors">
+          <Trash2 size={12} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5 text-[11px] text-ink-muted">
+        <select value={condition.series ?? ''} onChange={e => setCondition({ series: e.target.value || undefined })} className={FIELD} aria-label="Series">
+          <option value="">Any series</option>
+          {seriesNames.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+
+        {condition.kind === 'threshold' && (
+          <>
+            <select value={condition.comparator} onChange={e => setCondition({ comparator: e.target.value as 'above' | 'below' })} className={FIELD} aria-label="Comparator">
+              <option value="below">drops below</option>
+              <option value="above">rises above</option>
+            </select>
+            <input
+              type="number"
+              value={Number.isFinite(condition.value) ? condition.value : ''}
+              onChange={e => setCondition({ value: e.target.valueAsNumber })}
+              className={`${FIELD} w-28`}
+              aria-label="Threshold"
+            />
+          </>
+        )}
+
+        {condition.kind === 'change' && (
+          <>
+            <select value={condition.direction} onChange={e => setCondition({ direction: e.target.value as 'up' | 'down' | 'any' })} className={FIELD} aria-label="Direction">
+              <option value="any">moves</option>
+              <option value="up">rises</option>
+              <option value="down">falls</option>
+            </select>
+            <span>more than</span>
+            <input
+              type="number"
+              min={1}
+              value={Number.isFinite(condition.percent) ? condition.percent : ''}
+              onChange={e => setCondition({ percent: e.target.valueAsNumber })}
+              className={`${FIELD} w-20`}
+              aria-label="Percent"
+            />
+            <span>% since the last refresh</span>
+          </>
+        )}
+
+        {condition.kind === 'record' && (
+          <select value={condition.extreme} onChange={e => setCondition({ extreme: e.target.value as 'max' | 'min' })} className={FIELD} aria-label="Record">
+            <option value="max">hits a new high</option>
+            <option value="min">hits a new low</option>
+          </select>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-[11px] text-ink-muted">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={emailOn} onChange={e => setChannels(e.target.checked, webhook ? webhook.url : null)} className="accent-[var(--color-accent)]" />
+          Email me
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={Boolean(webhook)} onChange={e => setChannels(emailOn, e.target.checked ? '' : null)} className="accent-[var(--color-accent)]" />
+          Webhook
+        </label>
+        {webhook && (
+          <input
+            value={webhook.url}
+            onChange={e => setChannels(emailOn, e.target.value)}
+            placeholder="https://hooks.example.com/…"
+            spellCheck={false}
+            className={`${FIELD} flex-1 min-w-[180px] font-mono`}
+            aria-label="Webhook URL"
+          />
+        )}
+        <span className="ml-auto flex items-center gap-1">
+          at most every
+          <select value={rule.cooldownMinutes} onChange={e => onChange({ ...rule, cooldownMinutes: Number(e.target.value) })} className={FIELD} aria-label="Cooldown">
+            {COOLDOWN_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+            {!COOLDOWN_OPTIONS.some(opt => opt.value === rule.cooldownMinutes) && <option value={rule.cooldownMinutes}>{rule.cooldownMinutes} min</option>}
+          </select>
+        </span>
+      </div>
+
+      <p className="text-[10.5px] text-ink-faint">
+        {describeAlertCondition(condition)}
+        {rule.lastTriggeredAt && ` · last fired ${relativeTime(rule.lastTriggeredAt)}`}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Alert rules for a live chart — checked after every refresh (scheduled or
+ * manual), each with its own channels and cooldown.
+ */
+export default function AlertRulesModal({ open, onClose, chartTitle, seriesNames, rules, onSave }: AlertRulesModalProps) {
+  const [draft, setDraft] = useState<AlertRule[]>(rules);
+  const [saving, setSaving] = useState(false);
+
+  const [prevOpen, setPrevOpen] = useState(open);
+  if (open !== prevOpen) {
+    setPrevOpen(open);
+    if (open) setDraft(rules);
+  }
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [open, onClose]);
+
+  const addRule = () => setDraft(prev => [...prev, {
+    id: nanoid(10),
+    enabled: true,
+    condition: { ...DEFAULT_CONDITIONS.threshold, series: seriesNames[0] },
+    channels: [{ kind: 'email' }],
+    cooldownMinutes: DEFAULT_ALERT_COOLDOWN_MINUTES,
+  }]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      if (await onSave(draft)) onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.15 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.96, y: 16 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.96, y: 16 }}
+            transition={{ duration: 0.16 }}
+            role="dialog"
+            aria-modal="true"
+            aria-label="Chart alerts"
+            className="w-full max-w-2xl max-h-[85vh] rounded-2xl overflow-hidden flex flex-col surface-panel shadow-[0_24px_64px_rgba(0,0,0,0.35)]"
+            onClick={e => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-5 py-4 border-b border-edge shrink-0">
+              <div className="min-w-0">
+                <h2 className="text-sm font-semibold text-ink flex items-center gap-2">
+                  <Bell size={14} className="text-accent" />
+                  Alerts
+                </h2>
+                <p className="text-[11px] text-ink-faint mt-0.5 truncate">{chartTitle} · checked after every live refresh</p>
+              </div>
+              <button
+                onClick={onClose}
+                title="Close"
+                className="w-7 h-7 rounded-lg flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors"
+              >
+                <X size={15} />
+              </button>
+            </div>
+
+            {/* Body */}
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-2.5">
+              {draft.length === 0 && (
+                <p className="text-[12px] text-ink-muted">
+                  No alerts yet. Add one to get an email or webhook call when a refresh moves this chart past a limit.
+                </p>
+              )}
+              {draft.map((rule, i) => (
+                <RuleEditor
+                  key={rule.id}
+                  rule={rule}
+                  seriesNames={seriesNames}
+                  onChange={next => setDraft(prev => prev.map((r, j) => (j === i ? next : r)))}
+                  onRemove={() => setDraft(prev => prev.filter((_, j) => j !== i))}
+                />
+              ))}
+              {draft.length < MAX_ALERT_RULES && (
+                <button
+                  type="button"
+                  onClick={addRule}
+                  className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[11.5px] font-medium text-ink-muted border border-dashed border-edge hover:text-ink hover:border-accent/40 transition-colors"
+                >
+                  <Plus size={12} /> Add alert
+                </button>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="flex justify-end gap-2 px-5 py-3 border-t border-edge shrink-0">
+              <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-[12px] text-ink-muted hover:text-ink hover:bg-surface-3 transition-colors">
+                Cancel
+              </button>
+              <button
+                onClick={save}
+                disabled={saving}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium text-white transition-colors disabled:opacity-50"
+                style={{ background: 'var(--color-accent)' }}
+              >
+                {saving ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />}
+                Save alerts
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,7 +1,12 @@
 "use client";
 
-import { FileSpreadsheet, FileJson, FileText, FileType, X } from 'lucide-react';
-import { formatFileSize, type FileAttachment } from '@/lib/utils/file-attachment';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { FileSpreadsheet, FileJson, FileText, FileType, Library, ShieldAlert, ShieldCheck, Table2, X } from 'lucide-react';
+import { cleanAttachment, formatFileSize, type FileAttachment } from '@/lib/utils/file-attachment';
+import type { QualityFix } from '@/lib/types/data-quality';
+import SheetRangePickerModal from '@/components/dashboard/SheetRangePickerModal';
+import DataQualityModal from '@/components/dashboard/DataQualityModal';
 
 const EXTENSION_ICONS: Record<FileAttachment['extension'], React.ElementType> = {
   csv: FileSpreadsheet,
@@ -14,10 +19,42 @@ const EXTENSION_ICONS: Record<FileAttachment['extension'], React.ElementType> =
 interface AttachmentChipProps {
   attachment: FileAttachment;
   onRemove: () => void;
+  /** Receives the re-sliced (or cleaned) attachment when the user picks another sheet/range or applies a quality fix — the picker and fixes are hidden without it. */
+  onChange?: (attachment: FileAttachment) => void;
+  /** Saves the attached rows to the dataset library — the button is hidden without it, or once the rows are saved. */
+  onSaveDataset?: () => Promise<void>;
 }
 
-export default function AttachmentChip({ attachment, onRemove }: AttachmentChipProps) {
+export default function AttachmentChip({ attachment, onRemove, onChange, onSaveDataset }: AttachmentChipProps) {
   const Icon = EXTENSION_ICONS[attachment.extension];
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [savingDataset, setSavingDataset] = useState(false);
+  const [qualityOpen, setQualityOpen] = useState(false);
+  const workbook = attachment.workbook;
+  const quality = attachment.quality;
+  const canPickRange = Boolean(workbook && onChange);
+  const canSaveDataset = Boolean(onSaveDataset && attachment.rows && !attachment.datasetId);
+  const canClean = Boolean(onChange && attachment.rows);
+  const warnings = quality?.issues.filter(i => i.severity === 'warning').length ?? 0;
+
+  const handleFix = (fix: QualityFix) => {
+    const { attachment: cleaned, error } = cleanAttachment(attachment, fix);
+    if (!cleaned) {
+      toast.error(error ?? 'Could not apply the fix');
+      return;
+    }
+    onChange!(cleaned);
+  };
+
+  const handleSaveDataset = async () => {
+    if (savingDataset) return;
+    setSavingDataset(true);
+    try {
+      await onSaveDataset!();
+    } finally {
+      setSavingDataset(false);
+    }
+  };
 
   return (
     <div className="flex items-center gap-2 pl-2 pr-1 py-1 rounded-lg bg-surface-2 border border-edge max-w-full">
@@ -26,11 +63,55 @@ export default function AttachmentChip({ attachment, onRemove }: AttachmentChipP
       </div>
       <div className="min-w-0 leading-tight">
         <p className="text-[11px] font-medium text-ink-muted truncate max-w-[180px]">{attachment.name}</p>
-        <p className="text-[10px] text-ink-faint">
+        <p className="text-[10px] text-ink-faint truncate max-w-[220px]">
           {formatFileSize(attachment.size)}
+          {workbook ? ` · ${workbook.sheets.length > 1 ? `${workbook.selection.sheet} ` : ''}${workbook.selection.range}` : ''}
           {attachment.rowCount !== undefined ? ` · ${attachment.rowCount.toLocaleString()} rows` : ''}
+          {attachment.datasetId ? ' · in library' : ''}
+          {attachment.cleaning?.length ? ' · cleaned' : ''}
         </p>
       </div>
+      {quality && quality.columns.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setQualityOpen(true)}
+          title={quality.issues.length > 0 ? `Data quality: ${quality.issues.length} ${quality.issues.length === 1 ? 'issue' : 'issues'}` : 'Data quality: no issues'}
+          className={`h-5 px-1 rounded-md flex items-center gap-0.5 hover:bg-surface-3 transition-colors shrink-0 ${
+            warnings > 0 ? 'text-warning' : 'text-ink-faint hover:text-ink'
+          }`}
+        >
+          {warnings > 0 ? <ShieldAlert size={11} /> : <ShieldCheck size={11} />}
+          {warnings > 0 && <span className="text-[10px] font-medium tabular-nums">{warnings}</span>}
+        </button>
+      )}
+      {canSaveDataset && (
+        <button
+          type="button"
+          onClick={handleSaveDataset}
+          disabled={savingDataset}
+          title="Save to dataset library"
+          className="w-5 h-5 rounded-md flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors shrink-0 disabled:opacity-50"
+        >
+          {savingDataset
+            ? <div className="w-2.5 h-2.5 border-2 border-ink-faint/30 border-t-ink-muted rounded-full animate-spin" />
+            : <Library size={11} />
+          }
+        </button>
+      )}
+      {canPickRange && (
+        <button
+          type="button"
+          onClick={() => setPickerOpen(true)}
+          title={
+            attachment.extension === 'pdf'
+              ? `Choose table and range (${workbook!.sheets.length} ${workbook!.sheets.length === 1 ? 'table' : 'tables'} found)`
+              : workbook!.sheets.length > 1 ? `Choose sheet and range (${workbook!.sheets.length} sheets)` : 'Choose range'
+          }
+          className="w-5 h-5 rounded-md flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors shrink-0"
+        >
+          <Table2 size={11} />
+        </button>
+      )}
       <button
         type="button"
         onClick={onRemove}
@@ -39,6 +120,25 @@ export default function AttachmentChip({ attachment, onRemove }: AttachmentChipP
       >
         <X size={11} />
       </button>
+      {canPickRange && (
+        <SheetRangePickerModal
+          open={pickerOpen}
+          onClose={() => setPickerOpen(false)}
+          attachment={attachment}
+          onChange={onChange!}
+        />
+      )}
+      {quality && (
+        <DataQualityModal
+          open={qualityOpen}
+          onClose={() => setQualityOpen(false)}
+          title={attachment.name}
+          report={quality}
+          cleaning={attachment.cleaning}
+          onFix={canClean ? handleFix : undefined}
+          readOnlyNote={onChange ? 'This file is too large to clean in the browser — fix it at the source and re-attach.' : undefined}
+        />
+      )}
     </div>
   );
 }
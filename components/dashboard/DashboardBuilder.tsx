@@ -13,6 +13,7 @@ import {
 } from 'lucide-react';
 import Link from 'next/link';
 import ThemeToggle from '@/components/dashboard/ThemeToggle';
+import ScheduleEditor, { localTimeZone } from '@/components/dashboard/ScheduleEditor';
 import EChartsRenderer from '@/components/visualizations/EChartsRenderer';
 import {
   createDashboard,
@@ -24,7 +25,10 @@ import {
 } from '@/lib/actions/dashboard';
 import { exportDashboardAsPDF, exportDashboardAsSlidePNGs } from '@/lib/utils/export-dashboard';
 import type { Dashboard, DashboardLayoutItem, DashboardVizSlot } from '@/lib/types/dashboard';
+import type { ScheduleInput } from '@/lib/types/schedule';
+import { DEFAULT_SCHEDULE_RULE } from '@/lib/utils/schedule';
 import type { SavedVisualization } from '@/lib/types/visualization';
+import { hasLiveSource } from '@/lib/utils/live-source';
 import type { VisualizationSpec } from '@/lib/types/echarts-spec';
 
 // ─── constants ──────────────────────────────────────────────────────────────
@@ -209,7 +213,7 @@ const GridCell = memo(function GridCell({
           <EChartsRenderer spec={viz.spec} className="w-full h-full" />
 
           {/* Persistent live indicator — always visible so users can tell at a glance which charts are connected */}
-          {liveData?.url && (
+          {liveData && hasLiveSource(liveData) && (
             <div
               className="absolute top-2 right-2 flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[10px] font-medium text-success"
               style={{ background: 'var(--color-surface-0)', border: '1px solid var(--color-edge)' }}
@@ -224,7 +228,7 @@ const GridCell = memo(function GridCell({
             style={{ background: 'linear-gradient(to top, var(--color-surface-0) 70%, transparent)' }}
           >
             <span className="text-[10px] font-medium text-ink-muted truncate min-w-0 flex-1">{viz.title}</span>
-            {liveData?.url && (
+            {liveData && hasLiveSource(liveData) && (
               <div className="flex items-center gap-1.5 shrink-0">
                 {liveData.lastRefreshed && (
                   <span className="text-[10px] text-ink-faint" title={new Date(liveData.lastRefreshed).toLocaleString()}>
@@ -361,8 +365,6 @@ function ShareModal({
 
 // ─── schedule modal ───────────────────────────────────────────────────────────
 
-const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-
 function ScheduleModal({
   dashboard,
   hasLiveData,
@@ -373,14 +375,18 @@ function ScheduleModal({
   dashboard: Dashboard;
   hasLiveData: boolean;
   onClose: () => void;
-  onSave: (schedule: { enabled: boolean; dayOfWeek: number }) => Promise<void>;
+  onSave: (schedule: ScheduleInput) => Promise<void>;
   saving: boolean;
 }) {
   const [enabled, setEnabled] = useState(dashboard.schedule?.enabled ?? false);
-  const [dayOfWeek, setDayOfWeek] = useState(dashboard.schedule?.dayOfWeek ?? 1);
+  const [rule, setRule] = useState<ScheduleInput>(() => ({
+    enabled,
+    rrule: dashboard.schedule?.rrule ?? DEFAULT_SCHEDULE_RULE,
+    timezone: dashboard.schedule?.timezone ?? localTimeZone(),
+  }));
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Weekly email digest" onClick={onClose}>
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label="Email digest schedule" onClick={onClose}>
       <div className="absolute inset-0 bg-surface-0/60 backdrop-blur-sm" />
       <motion.div
         initial={{ opacity: 0, scale: 0.96, y: 8 }}
@@ -391,7 +397,7 @@ function ScheduleModal({
         onClick={e => e.stopPropagation()}
       >
         <div className="flex items-center justify-between mb-5">
-          <h2 className="font-display text-lg font-semibold text-ink">Weekly Email Digest</h2>
+          <h2 className="font-display text-lg font-semibold text-ink">Email Digest</h2>
           <button onClick={onClose} aria-label="Close" className="w-8 h-8 rounded-lg flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-2 transition-colors">
             <X size={15} />
           </button>
@@ -424,20 +430,10 @@ function ScheduleModal({
           </button>
         </div>
 
-        {/* Day of week */}
+        {/* Schedule */}
         {enabled && (
           <div className="mb-4">
-            <label className="text-[11px] font-medium text-ink-faint block mb-1.5">Send on</label>
-            <select
-              value={dayOfWeek}
-              onChange={e => setDayOfWeek(Number(e.target.value))}
-              disabled={saving}
-              className="w-full px-3 py-2.5 rounded-xl bg-surface-2 border border-edge text-[12px] text-ink focus:outline-none focus:border-accent/40 disabled:opacity-50"
-            >
-              {DAY_LABELS.map((label, i) => (
-                <option key={i} value={i}>{label}</option>
-              ))}
-            </select>
+            <ScheduleEditor value={rule} onChange={setRule} disabled={saving} />
           </div>
         )}
 
@@ -445,7 +441,7 @@ function ScheduleModal({
         {!hasLiveData && (
           <p className="flex items-start gap-1.5 text-[11px] text-ink-faint mb-4">
             <AlertCircle size={12} className="shrink-0 mt-0.5" />
-            Connect a live Google Sheet to a chart to enable refresh.
+            Connect a live Google Sheet or SQL query to a chart to enable refresh.
           </p>
         )}
 
@@ -457,7 +453,7 @@ function ScheduleModal({
         )}
 
         <button
-          onClick={() => onSave({ enabled, dayOfWeek })}
+          onClick={() => onSave({ ...rule, enabled })}
           disabled={saving}
           className="w-full flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-xl text-[12px] font-medium text-white transition-colors disabled:opacity-50"
           style={{ background: 'var(--color-accent)' }}
@@ -680,7 +676,7 @@ export default function DashboardBuilder({ initialVizzes, initialDashboards }: D
 
   // ── schedule ─────────────────────────────────────────────────────────────
 
-  const updateSchedule = async (schedule: { enabled: boolean; dayOfWeek: number }) => {
+  const updateSchedule = async (schedule: ScheduleInput) => {
     if (!activeDashboardId) { toast.error('Save the dashboard first'); return; }
     setSavingSchedule(true);
     try {
@@ -688,7 +684,7 @@ export default function DashboardBuilder({ initialVizzes, initialDashboards }: D
       if (!res.success) throw new Error(res.error);
       const updated = res.data!;
       setDashboards(prev => prev.map(d => d._id === updated._id ? updated : d));
-      toast.success(schedule.enabled ? 'Weekly digest enabled' : 'Weekly digest disabled');
+      toast.success(schedule.enabled ? 'Email digest scheduled' : 'Email digest disabled');
       setScheduleModalOpen(false);
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Failed to update schedule');
@@ -760,7 +756,7 @@ export default function DashboardBuilder({ initialVizzes, initialDashboards }: D
   const currentSavedDashboard = dashboards.find(d => d._id === activeDashboardId) ?? null;
 
   // ── any connected live sheet? (for schedule modal hint) ─────────────────
-  const hasLiveData = (currentSavedDashboard?.slots ?? []).some(s => !!vizMap.get(s.vizId)?.liveData?.url);
+  const hasLiveData = (currentSavedDashboard?.slots ?? []).some(s => hasLiveSource(vizMap.get(s.vizId)?.liveData));
 
   return (
     <div className="h-screen flex flex-col bg-surface-0 overflow-hidden">
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, ShieldCheck, AlertTriangle, Info, Wand2, Check } from 'lucide-react';
+import type { DataQualityReport, QualityFix, QualityIssue, QualityIssueKind } from '@/lib/types/data-quality';
+import { describeQualityFix } from '@/lib/utils/data-quality';
+
+const KIND_LABELS: Record<QualityIssueKind, string> = {
+  missing: 'Missing values',
+  duplicates: 'Duplicate rows',
+  'mixed-type': 'Mixed types',
+  outliers: 'Outliers',
+  spelling: 'Spelling variants',
+  'date-gaps': 'Date gaps',
+};
+
+interface DataQualityModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** File name or source description, shown under the title. */
+  title: string;
+  report: DataQualityReport;
+  /** Fixes already applied to these rows, in order. */
+  cleaning?: string[];
+  /** Applies a fix to the rows — fix buttons are hidden without it. */
+  onFix?: (fix: QualityFix) => void;
+  /** Shown in place of the fix buttons when `onFix` is absent. */
+  readOnlyNote?: string;
+}
+
+function IssueRow({ issue, onFix }: { issue: QualityIssue; onFix?: (fix: QualityFix) => void }) {
+  const warning = issue.severity === 'warning';
+  const Icon = warning ? AlertTriangle : Info;
+  return (
+    <div className={`rounded-lg px-3.5 py-2.5 border ${warning ? 'bg-warning/8 border-warning/25' : 'bg-surface-1 border-edge'}`}>
+      <div className="flex items-start gap-2">
+        <Icon size={13} className={`shrink-0 mt-0.5 ${warning ? 'text-warning' : 'text-ink-faint'}`} />
+        <div className="min-w-0 flex-1">
+          <p className="text-[11px] font-medium text-ink-faint">
+            {KIND_LABELS[issue.kind]}
+            {issue.column && <span className="ml-1.5 px-1.5 py-0.5 rounded bg-surface-3 text-ink-muted font-mono">{issue.column}</span>}
+          </p>
+          <p className="text-[12px] text-ink leading-snug mt-1">{issue.message}</p>
+          {issue.examples && issue.examples.length > 0 && issue.kind !== 'spelling' && (
+            <div className="flex flex-wrap gap-1 mt-1.5">
+              {issue.examples.map(example => (
+                <span key={example} className="px-1.5 py-0.5 rounded bg-surface-2 border border-edge text-[10.5px] text-ink-muted font-mono truncate max-w-[220px]">
+                  {example}
+                </span>
+              ))}
+            </div>
+          )}
+          {onFix && issue.fixes && issue.fixes.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {issue.fixes.map(fix => (
+                <button
+                  key={fix.kind}
+                  type="button"
+                  onClick={() => onFix(fix)}
+                  className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-[11px] font-medium text-ink-muted border border-edge hover:text-ink hover:border-accent/40 hover:bg-accent/5 transition-colors"
+                >
+                  <Wand2 size={11} /> {describeQualityFix(fix)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The data-quality report for an attached file or connected source: a
+ * per-column summary plus every issue the profiler found, with one-click
+ * fixes that produce a cleaned copy of the rows before generation.
+ */
+export default function DataQualityModal({ open, onClose, title, report, cleaning, onFix, readOnlyNote }: DataQualityModalProps) {
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [open, onClose]);
+
+  const warnings = report.issues.filter(i => i.severity === 'warning').length;
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.15 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.96, y: 16 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.96, y: 16 }}
+            transition={{ duration: 0.16 }}
+            role="dialog"
+            aria-modal="true"
+            aria-label="Data quality report"
+            className="w-full max-w-2xl max-h-[85vh] rounded-2xl overflow-hidden flex flex-col surface-panel shadow-[0_24px_64px_rgba(0,0,0,0.35)]"
+            onClick={e => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-5 py-4 border-b border-edge shrink-0">
+              <div className="min-w-0">
+                <h2 className="text-sm font-semibold text-ink flex items-center gap-2">
+                  <ShieldCheck size={14} className="text-accent" />
+                  Data quality
+                </h2>
+                <p className="text-[11px] text-ink-faint mt-0.5 truncate">
+                  {title} · {report.rowCount.toLocaleString()} rows · {report.columns.length} columns
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                title="Close"
+                className="w-7 h-7 rounded-lg flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors"
+              >
+                <X size={15} />
+              </button>
+            </div>
+
+            {/* Body */}
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-4">
+              {cleaning && cleaning.length > 0 && (
+                <div className="rounded-lg px-3.5 py-2.5 bg-success/10 border border-success/20">
+                  <p className="text-[10.5px] font-medium text-success uppercase tracking-wide mb-1">Applied</p>
+                  {cleaning.map((step, i) => (
+                    <p key={i} className="text-[11.5px] text-ink-muted flex items-center gap-1.5"><Check size={11} className="text-success shrink-0" />{step}</p>
+                  ))}
+                </div>
+              )}
+
+              {report.issues.length === 0 ? (
+                <div className="flex items-center gap-2 px-3.5 py-3 rounded-lg bg-success/10 border border-success/20">
+                  <ShieldCheck size={14} className="text-success shrink-0" />
+                  <p className="text-[12px] text-ink-muted">No issues found — the data looks ready to chart.</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-[11px] font-medium text-ink-faint">
+                    {report.issues.length} {report.issues.length === 1 ? 'issue' : 'issues'}
+                    {warnings > 0 ? ` · ${warnings} likely to skew a chart` : ''}
+                  </p>
+                  {report.issues.map((issue, i) => <IssueRow key={`${issue.kind}-${issue.column ?? ''}-${i}`} issue={issue} onFix={onFix} />)}
+                  {!onFix && readOnlyNote && <p className="text-[10.5px] text-ink-faint">{readOnlyNote}</p>}
+                </div>
+              )}
+
+              {/* Column summary */}
+              <div className="overflow-auto custom-scrollbar rounded-lg border border-edge">
+                <table className="w-full text-[11px] border-collapse">
+                  <thead>
+                    <tr className="text-left text-ink-faint">
+                      <th className="bg-surface-2 px-2.5 py-1.5 border-b border-edge font-medium">Column</th>
+                      <th className="bg-surface-2 px-2.5 py-1.5 border-b border-edge font-medium">Type</th>
+                      <th className="bg-surface-2 px-2.5 py-1.5 border-b border-edge font-medium text-right">Missing</th>
+                      <th className="bg-surface-2 px-2.5 py-1.5 border-b border-edge font-medium text-right">Distinct</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.columns.map(col => (
+                      <tr key={col.name} className="text-ink-muted">
+                        <td className="px-2.5 py-1.5 border-b border-edge/60 text-ink truncate max-w-[200px]">{col.name}</td>
+                        <td className="px-2.5 py-1.5 border-b border-edge/60">{col.semantic ?? col.type}</td>
+                        <td className={`px-2.5 py-1.5 border-b border-edge/60 text-right tabular-nums ${col.missing > 0 ? 'text-warning' : ''}`}>
+                          {col.missing.toLocaleString()}
+                        </td>
+                        <td className="px-2.5 py-1.5 border-b border-edge/60 text-right tabular-nums">{col.distinct.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Database, Braces, Rss, FileSpreadsheet, Pencil, RefreshCw, Trash2, Plus, BarChart3, Search } from 'lucide-react';
+import { listDatasets, renameDataset, refreshDataset, deleteDataset } from '@/lib/actions/datasets';
+import { describeLiveSource } from '@/lib/utils/live-source';
+import { relativeTime } from '@/lib/utils/helpers';
+import type { DatasetSummary } from '@/lib/types/dataset';
+
+function SourceBadge({ dataset }: { dataset: DatasetSummary }) {
+  const live = dataset.liveSource;
+  if (!live) {
+    return (
+      <span className="flex items-center gap-1.5 text-[11px] text-ink-faint" title={dataset.sourceFileName}>
+        <FileSpreadsheet size={11} className="shrink-0" />
+        <span className="truncate">{dataset.sourceFileName ?? 'Uploaded'}</span>
+      </span>
+    );
+  }
+  const Icon = live.sql ? Database : live.json ? Braces : Rss;
+  return (
+    <span className="flex items-center gap-1.5 text-[11px] font-medium text-success" title={describeLiveSource(live)}>
+      <Icon size={11} className="shrink-0" />
+      <span className="truncate">{describeLiveSource(live)}</span>
+    </span>
+  );
+}
+
+/**
+ * The user's saved datasets — rename, refresh live ones from their source,
+ * delete, or open one in the playground to chart it again.
+ */
+export default function DatasetLibrary() {
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listDatasets().then(res => {
+      if (res.success && res.data) setDatasets(res.data);
+      else toast.error(res.error || 'Failed to load datasets');
+      setLoading(false);
+    }).catch(() => { toast.error('An unexpected error occurred'); setLoading(false); });
+  }, []);
+
+  const startRename = (dataset: DatasetSummary) => {
+    setRenamingId(dataset.id);
+    setRenameValue(dataset.name);
+  };
+
+  const commitRename = async () => {
+    const id = renamingId;
+    const name = renameValue.trim();
+    setRenamingId(null);
+    const current = datasets.find(d => d.id === id);
+    if (!id || !current || !name || name === current.name) return;
+
+    setDatasets(prev => prev.map(d => d.id === id ? { ...d, name } : d));
+    const res = await renameDataset(id, name);
+    if (!res.success) {
+      setDatasets(prev => prev.map(d => d.id === id ? { ...d, name: current.name } : d));
+      toast.error(res.error || 'Failed to rename');
+    }
+  };
+
+  const handleRefresh = async (id: string) => {
+    if (refreshingId) return;
+    setRefreshingId(id);
+    try {
+      const res = await refreshDataset(id);
+      if (res.success && res.data) {
+        const updated = res.data;
+        setDatasets(prev => prev.map(d => d.id === id ? updated : d));
+        toast.success(`Refreshed — ${updated.rowCount.toLocaleString()} rows`);
+      } else toast.error(res.error || 'Failed to refresh');
+    } catch {
+      toast.error('An unexpected error occurred');
+    } finally {
+      setRefreshingId(null);
+    }
+  };
+
+  const handleDelete = (dataset: DatasetSummary) => {
+    const usage = dataset.usedBy > 0
+      ? ` ${dataset.usedBy} chart${dataset.usedBy > 1 ? 's' : ''} will keep their data but lose the link.`
+      : '';
+    toast(`Delete "${dataset.name}"?`, {
+      description: usage || undefined,
+      action: {
+        label: 'Delete',
+        onClick: async () => {
+          const res = await deleteDataset(dataset.id);
+          if (res.success) {
+            setDatasets(prev => prev.filter(d => d.id !== dataset.id));
+            toast.success('Deleted');
+          } else toast.error(res.error || 'Failed to delete');
+        },
+      },
+      cancel: { label: 'Cancel', onClick: () => {} },
+      duration: 5000,
+    });
+  };
+
+  const filtered = datasets.filter(d => d.name.toLowerCase().includes(searchQuery.toLowerCase()));
+
+  return (
+    <div className="flex-1 w-full max-w-7xl mx-auto p-6 pt-4">
+      {/* Page header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="font-display text-3xl font-bold text-ink mb-1">Datasets</h1>
+          <p className="text-ink-muted text-sm">{datasets.length} saved dataset{datasets.length !== 1 ? 's' : ''}</p>
+        </div>
+
+        <div className="relative">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-ink-faint" />
+          <input
+            type="text"
+            placeholder="Search by name…"
+            value={searchQuery}
+            onChange={e => setSearchQuery(e.target.value)}
+            className="pl-9 pr-4 py-2 rounded-lg text-sm w-48 md:w-56 bg-surface-2 border border-edge text-ink placeholder:text-ink-faint outline-none focus:border-accent/40 transition-colors"
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map(i => (
+            <div key={i} className="h-12 rounded-xl animate-pulse surface-panel" />
+          ))}
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="flex flex-col items-center py-16">
+          <div className="w-20 h-20 rounded-full flex items-center justify-center mb-4 bg-surface-2 border border-edge">
+            <Database size={36} className="text-ink-faint" />
+          </div>
+          <h3 className="text-xl font-semibold text-ink mb-2">
+            {searchQuery ? 'No results' : 'No datasets yet'}
+          </h3>
+          <p className="text-ink-muted text-sm max-w-md mx-auto mb-8 text-center">
+            {searchQuery
+              ? 'Try adjusting your search.'
+              : 'Attach a file or connect a live source in the playground, then use the library button on its chip to save it here.'}
+          </p>
+          {!searchQuery && (
+            <Link href="/dashboard" className="px-5 py-2.5 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 bg-accent text-surface-0 hover:bg-accent-hover">
+              <Plus size={15} /> Open Playground
+            </Link>
+          )}
+        </div>
+      ) : (
+        <div className="rounded-xl overflow-hidden border border-edge">
+          <table className="w-full text-sm table-fixed">
+            <thead>
+              <tr className="border-b border-edge bg-surface-1">
+                <th className="px-4 py-2.5 text-left text-[11px] font-semibold text-ink-faint uppercase tracking-wide">Name</th>
+                <th className="px-4 py-2.5 text-left text-[11px] font-semibold text-ink-faint uppercase tracking-wide hidden md:table-cell">Source</th>
+                <th className="w-28 px-4 py-2.5 text-left text-[11px] font-semibold text-ink-faint uppercase tracking-wide hidden sm:table-cell">Size</th>
+                <th className="w-24 px-4 py-2.5 text-left text-[11px] font-semibold text-ink-faint uppercase tracking-wide hidden lg:table-cell">Used by</th>
+                <th className="w-32 px-4 py-2.5 text-left text-[11px] font-semibold text-ink-faint uppercase tracking-wide">Updated</th>
+                <th className="w-40 px-3 py-2.5" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-edge">
+              {filtered.map(dataset => (
+                <tr key={dataset.id} className="group transition-colors hover:bg-surface-1">
+                  <td className="px-4 py-3">
+                    {renamingId === dataset.id ? (
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        maxLength={120}
+                        onChange={e => setRenameValue(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="w-full px-2 py-1 rounded-md text-[13px] bg-surface-2 border border-accent/40 text-ink outline-none"
+                      />
+                    ) : (
+                      <span className="font-medium text-ink line-clamp-1 text-[13px]" title={dataset.headers.join(', ')}>{dataset.name}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 hidden md:table-cell">
+                    <SourceBadge dataset={dataset} />
+                  </td>
+                  <td className="px-4 py-3 text-[11px] text-ink-faint hidden sm:table-cell">
+                    {dataset.rowCount.toLocaleString()} × {dataset.headers.length}
+                  </td>
+                  <td className="px-4 py-3 text-[11px] text-ink-faint hidden lg:table-cell">
+                    {dataset.usedBy > 0 ? `${dataset.usedBy} chart${dataset.usedBy > 1 ? 's' : ''}` : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-[11px] text-ink-faint">
+                    {relativeTime(dataset.lastRefreshed ?? dataset.updatedAt)}
+                  </td>
+                  <td className="px-3 py-3">
+                    <div className="flex items-center justify-end gap-1">
+                      <Link
+                        href={`/dashboard?dataset=${dataset.id}`}
+                        className="flex items-center gap-1.5 h-7 px-2.5 rounded-lg text-[11px] font-medium text-accent hover:bg-accent/10 transition-colors"
+                        title="Open in the playground to chart or test it"
+                      >
+                        <BarChart3 size={12} />
+                        Chart it
+                      </Link>
+                      {dataset.liveSource && (
+                        <button
+                          onClick={() => handleRefresh(dataset.id)}
+                          disabled={refreshingId !== null}
+                          className="w-7 h-7 rounded-lg flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors disabled:opacity-50"
+                          title="Re-fetch from source"
+                        >
+                          <RefreshCw size={13} className={refreshingId === dataset.id ? 'animate-spin' : ''} />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => startRename(dataset)}
+                        className="w-7 h-7 rounded-lg flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors"
+                        title="Rename"
+                      >
+                        <Pencil size={13} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(dataset)}
+                        className="w-7 h-7 rounded-lg flex items-center justify-center text-ink-faint hover:text-danger hover:bg-danger/10 transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 size={13} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
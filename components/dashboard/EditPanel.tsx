@@ -7,11 +7,12 @@ import { Sparkles, Palette } from 'lucide-react';
 import type { BrandTheme } from '@/lib/types/echarts-spec';
 
 interface EditPanelProps {
-  chatHistory: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date | string }>;
+  chatHistory: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date | string; changes?: string[]; revision?: number }>;
   handleChatMessage: (message: string) => Promise<void>;
   isEditing: boolean;
   theme: BrandTheme;
   onThemeChange: (theme: BrandTheme) => void;
+  onBranchFromTurn?: (turnIndex: number) => Promise<void>;
 }
 
 const EditPanel = ({
@@ -20,6 +21,7 @@ const EditPanel = ({
   isEditing,
   theme,
   onThemeChange,
+  onBranchFromTurn,
 }: EditPanelProps) => {
   const [activeTab, setActiveTab] = useState<'ai' | 'brand'>('ai');
 
@@ -58,6 +60,7 @@ const EditPanel = ({
             initialHistory={chatHistory}
             onSendMessage={async (message) => await handleChatMessage(message)}
             isProcessing={isEditing}
+            onBranchFromTurn={onBranchFromTurn}
           />
         )}
         {activeTab === 'brand' && (
@@ -6,7 +6,7 @@ import {
   Share2, CheckCircle,
   Pencil, Sparkles, X, Download, ImageIcon,
   Globe, FileJson, FileSpreadsheet, FileCode, FileText,
-  Rss, RefreshCw, Clock, Unlink, Mail, Sigma, Copy, Check, Maximize2, Minimize2, Code2, Undo2, Highlighter,
+  Rss, RefreshCw, Clock, Unlink, Mail, Bell, Sigma, Copy, Check, Maximize2, Minimize2, Code2, Undo2, Highlighter, History, ListFilter,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import type { ThreadEntry, StatRun } from '@/components/dashboard/VizThread';
@@ -23,7 +23,21 @@ import type { DatasetColumn } from '@/lib/types/statistics';
 import type { BrandTheme, Annotation } from '@/lib/types/echarts-spec';
 import { DEFAULT_SUNSET_THEME } from '@/lib/types/echarts-spec';
 import AnnotationPanel from '@/components/dashboard/AnnotationPanel';
+import RevisionPanel from '@/components/dashboard/RevisionPanel';
+import TransformPanel from '@/components/dashboard/TransformPanel';
+import ScheduleEditor, { localTimeZone } from '@/components/dashboard/ScheduleEditor';
+import AlertRulesModal from '@/components/dashboard/AlertRulesModal';
+import SnapshotTimeline from '@/components/dashboard/SnapshotTimeline';
+import VerificationBadge from '@/components/visualizations/VerificationBadge';
 import { relativeTime } from '@/lib/utils/helpers';
+import { describeLiveSource, hasLiveSource } from '@/lib/utils/live-source';
+import type { LiveDataConfig } from '@/lib/types/visualization';
+import type { TransformStep } from '@/lib/types/transform';
+import type { ScheduleInput } from '@/lib/types/schedule';
+import type { AlertRule } from '@/lib/types/alert';
+import type { EChartsOption } from 'echarts';
+import { extractSeriesPoints } from '@/lib/utils/option-series';
+import { DEFAULT_SCHEDULE_RULE } from '@/lib/utils/schedule';
 
 /* ── Header action button ── */
 const ActionBtn = memo(function ActionBtn({
@@ -121,22 +135,24 @@ export interface FocusPanelProps {
   onSave: () => void;
   onShare: () => void;
   onExportData: (format: 'json' | 'csv' | 'html') => Promise<void>;
-  chatHistory: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date | string }>;
+  chatHistory: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date | string; changes?: string[]; revision?: number }>;
   handleChatMessage: (message: string) => Promise<void>;
   isEditing: boolean;
   onThemeChange: (theme: BrandTheme) => void;
   onTitleChange?: (title: string) => void;
-  onLiveDataChange?: (config: { url: string; interval: number } | null) => void;
+  onLiveDataChange?: (config: LiveDataConfig | null) => void;
   onRefreshLiveData?: () => Promise<void>;
   isRefreshing?: boolean;
-  onScheduleChange?: (schedule: { enabled: boolean; dayOfWeek: number }) => void;
+  onScheduleChange?: (schedule: ScheduleInput) => void;
+  /** Saves the chart's alert rules — resolves false when the save failed. */
+  onAlertsChange?: (rules: AlertRule[]) => Promise<boolean>;
   /** Last verified jStat result from the composer's stat test picker — independent of this chart, shown as a "fact check" alongside it. */
   statRun?: StatRun | null;
   /** Columns detected from whichever dataset (file attachment or live sheet) is currently connected — enables running a stat test from this panel too. */
   datasetColumns?: DatasetColumn[];
   datasetRowCount?: number;
   onRunStat?: (run: StatRun) => void;
-  /** Lazily fetches & detects columns for this thread's connected live data source, so the Test button works even before `datasetColumns` is populated. */
+  /** Lazily fetches & detects columns for this thread's connected live data source or library dataset, so the Test button works even before `datasetColumns` is populated. */
   onPrepareStatTest?: () => Promise<void>;
   /** True while `onPrepareStatTest` is fetching/parsing the connected live source. */
   preparingStatTest?: boolean;
@@ -148,6 +164,14 @@ export interface FocusPanelProps {
   onAnnotate?: (annotations: Annotation[]) => void;
   /** Called when user clicks a suggested prompt in the empty state — parent should populate the composer input. */
   onSuggestPrompt?: (prompt: string) => void;
+  /** Make a stored revision the chart's current spec. */
+  onRestoreRevision?: (revision: number) => Promise<void>;
+  /** Open a stored revision as a new, independent thread. */
+  onForkRevision?: (revision: number) => Promise<void>;
+  /** Fork a new thread from an earlier assistant turn of this conversation (stored threads only). */
+  onBranchFromTurn?: (turnIndex: number) => Promise<void>;
+  /** Replace the transform steps of a chart computed from a dataset and rebuild it; resolves true on success. */
+  onTransformsChange?: (transforms: TransformStep[]) => Promise<boolean>;
 }
 
 const INTERVAL_OPTIONS = [
@@ -157,33 +181,44 @@ const INTERVAL_OPTIONS = [
   { label: 'Daily', value: 1440 },
 ] as const;
 
-const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+/** The thread's saved schedule, or Monday mornings in the browser's timezone for a new one. */
+const threadScheduleRule = (thread: ThreadEntry | null | undefined): ScheduleInput => ({
+  enabled: thread?.schedule?.enabled ?? false,
+  rrule: thread?.schedule?.rrule ?? DEFAULT_SCHEDULE_RULE,
+  timezone: thread?.schedule?.timezone ?? localTimeZone(),
+});
 
 export default function FocusPanel({
   thread, saving, onSave, onShare, onExportData,
   chatHistory, handleChatMessage, isEditing,
   onThemeChange, onTitleChange,
-  onLiveDataChange, onRefreshLiveData, isRefreshing, onScheduleChange,
+  onLiveDataChange, onRefreshLiveData, isRefreshing, onScheduleChange, onAlertsChange,
   statRun, datasetColumns, datasetRowCount, onRunStat,
   onPrepareStatTest, preparingStatTest,
   onUndo, canUndo, onAnnotate, onSuggestPrompt,
+  onRestoreRevision, onForkRevision, onBranchFromTurn, onTransformsChange,
 }: FocusPanelProps) {
   const [editOpen, setEditOpen] = useState(false);
   const [annotateOpen, setAnnotateOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [transformOpen, setTransformOpen] = useState(false);
   const [exportOpen, setExportOpen] = useState(false);
   const [liveOpen, setLiveOpen] = useState(false);
   const [statPickerOpen, setStatPickerOpen] = useState(false);
+  const [alertsOpen, setAlertsOpen] = useState(false);
   const [editingTitle, setEditingTitle] = useState(false);
   const [editTitleValue, setEditTitleValue] = useState('');
   const [exporting, setExporting] = useState(false);
   const [liveInterval, setLiveInterval] = useState(0);
   const [scheduleEnabled, setScheduleEnabled] = useState(false);
-  const [scheduleDayOfWeek, setScheduleDayOfWeek] = useState(1);
+  const [scheduleRule, setScheduleRule] = useState<ScheduleInput>(() => threadScheduleRule(thread));
   const [statCopied, setStatCopied] = useState(false);
   const [presentMode, setPresentMode] = useState(false);
   const [embedCopied, setEmbedCopied] = useState(false);
   const [shareOpen, setShareOpen] = useState(false);
   const [linkCopied, setLinkCopied] = useState(false);
+  /* A past data snapshot (or a ghost comparison) shown in place of the live option */
+  const [snapshotPreview, setSnapshotPreview] = useState<EChartsOption | null>(null);
   const exportRef = useRef<HTMLDivElement>(null);
   const liveRef = useRef<HTMLDivElement>(null);
   const shareRef = useRef<HTMLDivElement>(null);
@@ -235,12 +270,15 @@ export default function FocusPanel({
     setPrevThreadId(thread?.id);
     setLiveInterval(thread?.liveData?.interval ?? 0);
     setScheduleEnabled(thread?.schedule?.enabled ?? false);
-    setScheduleDayOfWeek(thread?.schedule?.dayOfWeek ?? 1);
+    setScheduleRule(threadScheduleRule(thread));
     setLiveOpen(false);
     setShareOpen(false);
     setEditingTitle(false);
     setEditTitleValue('');
     setAnnotateOpen(false);
+    setHistoryOpen(false);
+    setTransformOpen(false);
+    setSnapshotPreview(null);
   }
 
   const vizAreaRef = useRef<HTMLDivElement | null>(null);
@@ -321,9 +359,10 @@ export default function FocusPanel({
 
   /* ── Render viz ── */
   const renderViz = useCallback((t: ThreadEntry) => {
+    const spec = snapshotPreview ? { ...t.spec, option: snapshotPreview } : t.spec;
     // The header above already shows the title — don't render it again inside the chart.
-    return <EChartsRenderer spec={t.spec} className="w-full h-full p-6" hideTitle />;
-  }, []);
+    return <EChartsRenderer spec={spec} className="w-full h-full p-6" hideTitle />;
+  }, [snapshotPreview]);
 
   if (!thread) {
     return (
@@ -353,6 +392,7 @@ export default function FocusPanel({
             <BadgeIcon size={12} className="text-accent" />
             <span className="hidden sm:inline text-[11px] font-semibold text-accent">{badgeLabel}</span>
           </div>
+          {thread.spec.verification && <VerificationBadge verification={thread.spec.verification} />}
           {thread.isDemoThread && (
             <span className="hidden sm:inline text-[10px] font-semibold px-2 py-0.5 rounded-full shrink-0"
               style={{ background: 'oklch(72% 0.13 55 / 0.12)', color: 'oklch(55% 0.10 55)', border: '1px solid oklch(72% 0.13 55 / 0.25)' }}>
@@ -465,7 +505,7 @@ export default function FocusPanel({
               </AnimatePresence>
             </div>
 
-            {(thread.liveData?.url || (datasetColumns && datasetColumns.length > 0)) && (
+            {(hasLiveSource(thread.liveData) || thread.dataset?.kind === 'dataset' || (datasetColumns && datasetColumns.length > 0)) && (
               <ActionBtn
                 title="Run a statistical test on the connected dataset"
                 onClick={async () => {
@@ -563,7 +603,7 @@ export default function FocusPanel({
             </ActionBtn>
 
             {/* Live Data dropdown — only shown once a sheet is connected (via the chat composer) */}
-            {thread.liveData?.url && (
+            {thread.liveData && hasLiveSource(thread.liveData) && (
               <div className="relative" ref={liveRef}>
                 <ActionBtn
                   title="Live data connected"
@@ -600,8 +640,8 @@ export default function FocusPanel({
                         </div>
 
                         {/* Source */}
-                        <p className="text-[10px] text-ink-faint truncate" title={thread.liveData.url}>
-                          {thread.liveData.url}
+                        <p className="text-[10px] text-ink-faint truncate" title={thread.liveData.sql?.query ?? thread.liveData.url}>
+                          {describeLiveSource(thread.liveData)}
                         </p>
 
                         {/* Refresh interval */}
@@ -615,7 +655,7 @@ export default function FocusPanel({
                                 key={opt.value}
                                 onClick={() => {
                                   setLiveInterval(opt.value);
-                                  onLiveDataChange?.({ url: thread.liveData!.url, interval: opt.value });
+                                  onLiveDataChange?.({ ...thread.liveData!, interval: opt.value });
                                 }}
                                 className="text-[10px] font-medium px-2 py-0.5 rounded-md border transition-colors"
                                 style={{
@@ -648,7 +688,7 @@ export default function FocusPanel({
                                 if (!thread.vizId) { toast.error('Save the visualization first to enable email digest'); return; }
                                 const next = !scheduleEnabled;
                                 setScheduleEnabled(next);
-                                onScheduleChange?.({ enabled: next, dayOfWeek: scheduleDayOfWeek });
+                                onScheduleChange?.({ ...scheduleRule, enabled: next });
                               }}
                               className={`w-7 h-4 rounded-full relative transition-colors focus:outline-none ${scheduleEnabled ? 'bg-accent' : 'bg-surface-3'}`}
                             >
@@ -660,19 +700,15 @@ export default function FocusPanel({
                           </div>
 
                           {scheduleEnabled && (
-                            <select
-                              value={scheduleDayOfWeek}
-                              onChange={e => {
-                                const day = Number(e.target.value);
-                                setScheduleDayOfWeek(day);
-                                onScheduleChange?.({ enabled: scheduleEnabled, dayOfWeek: day });
+                            <ScheduleEditor
+                              key={thread.id}
+                              compact
+                              value={scheduleRule}
+                              onChange={next => {
+                                setScheduleRule(next);
+                                onScheduleChange?.({ ...next, enabled: scheduleEnabled });
                               }}
-                              className="w-full px-2 py-1 rounded-md bg-surface-1 border border-edge text-[10px] text-ink focus:outline-none focus:border-accent/40"
-                            >
-                              {DAY_LABELS.map((label, i) => (
-                                <option key={i} value={i}>Weekly on {label}</option>
-                              ))}
-                            </select>
+                            />
                           )}
 
                           {!thread.vizId && (
@@ -686,6 +722,24 @@ export default function FocusPanel({
                           )}
                         </div>
 
+                        {/* Alerts */}
+                        <div className="flex items-center justify-between pt-2 border-t border-edge">
+                          <label className="text-[10px] font-medium text-ink-faint flex items-center gap-1">
+                            <Bell size={9} /> Alerts
+                            {thread.alerts && thread.alerts.length > 0 && <span className="text-ink-muted">({thread.alerts.filter(r => r.enabled).length} on)</span>}
+                          </label>
+                          <button
+                            onClick={() => {
+                              if (!thread.vizId) { toast.error('Save the visualization first to set alerts'); return; }
+                              setAlertsOpen(true);
+                              setLiveOpen(false);
+                            }}
+                            className="text-[10px] font-medium px-2 py-0.5 rounded-md border border-edge text-ink-muted hover:text-ink hover:bg-surface-3 transition-colors"
+                          >
+                            Manage
+                          </button>
+                        </div>
+
                         {/* Actions */}
                         <div className="flex gap-1.5 pt-0.5">
                           <button
@@ -714,16 +768,36 @@ export default function FocusPanel({
 
             <div className="hidden sm:block w-px h-4 bg-edge mx-0.5" />
 
+            {thread.spec.encoding && onTransformsChange && (
+              <ActionBtn
+                title="Data steps — filter, group, pivot, sort or derive columns before charting"
+                onClick={() => { setTransformOpen(p => !p); setEditOpen(false); setAnnotateOpen(false); setHistoryOpen(false); }}
+                active={transformOpen}
+              >
+                <ListFilter size={12} />
+                <span className="hidden sm:inline">Steps</span>
+              </ActionBtn>
+            )}
+
             <ActionBtn
               title="Add annotations (reference lines, text labels)"
-              onClick={() => { setAnnotateOpen(p => !p); if (editOpen) setEditOpen(false); }}
+              onClick={() => { setAnnotateOpen(p => !p); setEditOpen(false); setHistoryOpen(false); setTransformOpen(false); }}
               active={annotateOpen}
             >
               <Highlighter size={12} />
               <span className="hidden sm:inline">Annotate</span>
             </ActionBtn>
 
-            <ActionBtn title="Refine with AI" onClick={() => { setEditOpen(p => !p); if (annotateOpen) setAnnotateOpen(false); }} active={editOpen}>
+            <ActionBtn
+              title="Revision history — compare, restore or fork"
+              onClick={() => { setHistoryOpen(p => !p); setEditOpen(false); setAnnotateOpen(false); setTransformOpen(false); }}
+              active={historyOpen}
+            >
+              <History size={12} />
+              <span className="hidden sm:inline">History</span>
+            </ActionBtn>
+
+            <ActionBtn title="Refine with AI" onClick={() => { setEditOpen(p => !p); setAnnotateOpen(false); setHistoryOpen(false); setTransformOpen(false); }} active={editOpen}>
               <Pencil size={12} />
               <span className="hidden sm:inline">Refine</span>
             </ActionBtn>
@@ -753,6 +827,18 @@ export default function FocusPanel({
           </AnimatePresence>
         </div>
 
+        {/* Data history — scrub through the snapshots stored on each live refresh */}
+        {thread.vizId && thread.liveData && hasLiveSource(thread.liveData) && (
+          <SnapshotTimeline
+            key={thread.id}
+            vizId={thread.vizId}
+            option={thread.spec.option}
+            palette={resolvedTheme.palette}
+            refreshKey={thread.liveData.lastRefreshed}
+            onPreviewChange={setSnapshotPreview}
+          />
+        )}
+
         {/* Verified result — real jStat output from the stat test picker, shown as a fact-check alongside the chart */}
         {statRun?.result && (
           <div className="shrink-0 border-t border-edge bg-accent/5 px-6 py-3 flex items-start gap-2.5">
@@ -852,6 +938,7 @@ export default function FocusPanel({
                   isEditing={isEditing}
                   theme={resolvedTheme}
                   onThemeChange={onThemeChange}
+                  onBranchFromTurn={thread?.vizId ? onBranchFromTurn : undefined}
                 />
               </div>
             </div>
@@ -918,6 +1005,126 @@ export default function FocusPanel({
         )}
       </AnimatePresence>
 
+      {/* ── Transform steps panel (slide in from right) ── */}
+      <AnimatePresence>
+        {transformOpen && thread && (
+          <>
+            {isMobile && (
+              <motion.div
+                key="transform-backdrop"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.18 }}
+                className="fixed inset-0 z-30 bg-black/50"
+                onClick={() => setTransformOpen(false)}
+                aria-hidden="true"
+              />
+            )}
+            <motion.div
+              key="transform-panel"
+              initial={isMobile ? { x: '100%' } : { width: 0, opacity: 0 }}
+              animate={isMobile ? { x: 0 } : { width: 320, opacity: 1 }}
+              exit={isMobile ? { x: '100%' } : { width: 0, opacity: 0 }}
+              transition={{ duration: 0.22, ease: [0.16, 1, 0.3, 1] }}
+              className={
+                isMobile
+                  ? 'fixed top-16 inset-x-0 bottom-0 z-40 overflow-hidden'
+                  : 'shrink-0 overflow-hidden relative border-l border-edge'
+              }
+            >
+              <div className={isMobile ? 'w-full h-full flex flex-col bg-surface-1' : 'w-[320px] h-full flex flex-col bg-surface-1'}>
+                <div className="flex items-center justify-between px-4 h-12 shrink-0 border-b border-edge">
+                  <div className="flex items-center gap-2">
+                    <ListFilter className="w-3.5 h-3.5 text-accent/70" />
+                    <span className="text-xs font-semibold text-ink-muted">Data steps</span>
+                    {(thread.spec.transforms?.length ?? 0) > 0 && (
+                      <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded-full bg-accent/12 text-accent">
+                        {thread.spec.transforms!.length}
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => setTransformOpen(false)}
+                    className="w-6 h-6 rounded flex items-center justify-center text-ink-faint hover:text-ink-muted hover:bg-surface-3 transition-colors"
+                  >
+                    <X size={13} />
+                  </button>
+                </div>
+                <div className="flex-1 overflow-hidden min-h-0">
+                  {/* Keyed on the stored steps so an AI edit or restore resets the draft */}
+                  <TransformPanel
+                    key={`${thread.id}:${JSON.stringify(thread.spec.transforms ?? [])}`}
+                    transforms={thread.spec.transforms ?? []}
+                    columns={[
+                      ...(datasetColumns?.map(c => c.name) ?? []),
+                      ...[thread.spec.encoding?.x, thread.spec.encoding?.y, thread.spec.encoding?.series].filter((c): c is string => Boolean(c)),
+                    ]}
+                    onApply={transforms => onTransformsChange?.(transforms) ?? Promise.resolve(false)}
+                    disabledReason={thread.vizId ? undefined : 'Save this chart to edit its data steps.'}
+                  />
+                </div>
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
+      {/* ── History panel (slide in from right) ── */}
+      <AnimatePresence>
+        {historyOpen && (
+          <>
+            {isMobile && (
+              <motion.div
+                key="history-backdrop"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.18 }}
+                className="fixed inset-0 z-30 bg-black/50"
+                onClick={() => setHistoryOpen(false)}
+                aria-hidden="true"
+              />
+            )}
+            <motion.div
+              key="history-panel"
+              initial={isMobile ? { x: '100%' } : { width: 0, opacity: 0 }}
+              animate={isMobile ? { x: 0 } : { width: 300, opacity: 1 }}
+              exit={isMobile ? { x: '100%' } : { width: 0, opacity: 0 }}
+              transition={{ duration: 0.22, ease: [0.16, 1, 0.3, 1] }}
+              className={
+                isMobile
+                  ? 'fixed top-16 inset-x-0 bottom-0 z-40 overflow-hidden'
+                  : 'shrink-0 overflow-hidden relative border-l border-edge'
+              }
+            >
+              <div className={isMobile ? 'w-full h-full flex flex-col bg-surface-1' : 'w-[300px] h-full flex flex-col bg-surface-1'}>
+                <div className="flex items-center justify-between px-4 h-12 shrink-0 border-b border-edge">
+                  <div className="flex items-center gap-2">
+                    <History className="w-3.5 h-3.5 text-accent/70" />
+                    <span className="text-xs font-semibold text-ink-muted">History</span>
+                  </div>
+                  <button
+                    onClick={() => setHistoryOpen(false)}
+                    className="w-6 h-6 rounded flex items-center justify-center text-ink-faint hover:text-ink-muted hover:bg-surface-3 transition-colors"
+                  >
+                    <X size={13} />
+                  </button>
+                </div>
+                <div className="flex-1 overflow-hidden min-h-0">
+                  <RevisionPanel
+                    vizId={thread?.vizId ?? null}
+                    refreshKey={thread?.spec}
+                    onRestore={async revision => { await onRestoreRevision?.(revision); }}
+                    onFork={async revision => { await onForkRevision?.(revision); }}
+                  />
+                </div>
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
       {datasetColumns && datasetColumns.length > 0 && (
         <StatTestPickerModal
           open={statPickerOpen}
@@ -929,6 +1136,17 @@ export default function FocusPanel({
         />
       )}
 
+      {thread && onAlertsChange && (
+        <AlertRulesModal
+          open={alertsOpen}
+          onClose={() => setAlertsOpen(false)}
+          chartTitle={thread.title}
+          seriesNames={extractSeriesPoints(thread.spec.option).map(s => s.name)}
+          rules={thread.alerts ?? []}
+          onSave={onAlertsChange}
+        />
+      )}
+
       {/* Presentation mode — fullscreen overlay */}
       <AnimatePresence>
         {presentMode && (
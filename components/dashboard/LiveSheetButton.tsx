@@ -3,8 +3,12 @@
 import { useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Rss, Link as LinkIcon, Loader2, Unlink, AlertCircle } from 'lucide-react';
-import { detectLiveSheetColumns, type LiveSheetData } from '@/lib/utils/live-sheet';
+import { Rss, Link as LinkIcon, Loader2, Unlink, AlertCircle, Database, Plus, Trash2, Braces, KeyRound } from 'lucide-react';
+import { detectLiveSheetColumns, liveSourceNoun, requestLiveData, type LiveSheetData } from '@/lib/utils/live-sheet';
+import type { LiveSourceRef } from '@/lib/utils/live-source';
+import { createApiCredential, createDataConnection, deleteDataConnection, listDataConnections } from '@/lib/actions/data-connections';
+import type { DataConnectionSummary } from '@/lib/types/data-connection';
+import type { SqlParam } from '@/lib/types/visualization';
 import { useMounted } from '@/lib/hooks/useMounted';
 
 interface LiveSheetButtonProps {
@@ -14,9 +18,32 @@ interface LiveSheetButtonProps {
   disabled?: boolean;
 }
 
+/** "2024-01-01, 5, true" → ['2024-01-01', 5, true] — bound to $1, $2, … in order. */
+function parseSqlParams(text: string): SqlParam[] {
+  if (!text.trim()) return [];
+  return text.split(',').map(part => {
+    const value = part.trim();
+    if (value === 'null') return null;
+    if (value === 'true' || value === 'false') return value === 'true';
+    return value !== '' && Number.isFinite(Number(value)) ? Number(value) : value;
+  });
+}
+
+const inputClass = 'w-full text-[11px] px-2.5 py-1.5 rounded-lg bg-surface-3 border border-edge text-ink placeholder:text-ink-faint focus:outline-none focus:border-accent/50 transition-colors';
+
 export default function LiveSheetButton({ liveSheet, onConnect, onDisconnect, disabled }: LiveSheetButtonProps) {
   const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<'sheet' | 'sql' | 'json'>('sheet');
   const [urlInput, setUrlInput] = useState('');
+  const [jsonUrlInput, setJsonUrlInput] = useState('');
+  const [jsonPathInput, setJsonPathInput] = useState('');
+  const [credentialId, setCredentialId] = useState('');
+  const [newCredential, setNewCredential] = useState<{ name: string; headerName: string; headerValue: string } | null>(null);
+  const [connections, setConnections] = useState<DataConnectionSummary[] | null>(null);
+  const [connectionId, setConnectionId] = useState('');
+  const [queryInput, setQueryInput] = useState('');
+  const [paramsInput, setParamsInput] = useState('');
+  const [newConnection, setNewConnection] = useState<{ name: string; url: string } | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [coords, setCoords] = useState<{ left: number; bottom: number } | null>(null);
@@ -54,20 +81,34 @@ export default function LiveSheetButton({ liveSheet, onConnect, onDisconnect, di
     };
   }, [open]);
 
-  const handleConnect = async () => {
-    const url = urlInput.trim();
-    if (!url) return;
+  // Saved connections are loaded the first time the SQL or JSON tab is shown.
+  useEffect(() => {
+    if (!open || mode === 'sheet' || connections) return;
+    listDataConnections().then(res => {
+      const list = res.success ? res.data ?? [] : [];
+      const databases = list.filter(c => c.engine === 'postgres');
+      setConnections(list);
+      setConnectionId(id => id || databases[0]?.id || '');
+      if (mode === 'sql' && databases.length === 0) setNewConnection({ name: '', url: '' });
+      if (!res.success) setError(res.error || 'Failed to load database connections');
+    });
+  }, [open, mode, connections]);
+
+  const databases = connections?.filter(c => c.engine === 'postgres') ?? [];
+  const credentials = connections?.filter(c => c.engine === 'http') ?? [];
+
+  const connect = async (source: LiveSourceRef) => {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch(`/api/live-data?url=${encodeURIComponent(url)}`);
+      const res = await requestLiveData(source);
       const data = await res.json();
       if (!res.ok || data.error) {
         setError(data.error || 'Failed to fetch data source');
         return;
       }
       onConnect({
-        url,
+        ...source,
         rawCsv: data.rawCsv,
         headers: data.headers,
         rowCount: data.rowCount,
@@ -75,6 +116,7 @@ export default function LiveSheetButton({ liveSheet, onConnect, onDisconnect, di
         datasetColumns: detectLiveSheetColumns(data.rawCsv),
       });
       setUrlInput('');
+      setJsonUrlInput('');
       setOpen(false);
     } catch {
       setError('Failed to fetch data source');
@@ -83,11 +125,76 @@ export default function LiveSheetButton({ liveSheet, onConnect, onDisconnect, di
     }
   };
 
+  const handleConnect = () => {
+    if (mode === 'sql') {
+      if (!connectionId || !queryInput.trim()) return;
+      connect({ sql: { connectionId, query: queryInput.trim(), params: parseSqlParams(paramsInput) } });
+      return;
+    }
+    if (mode === 'json') {
+      const url = jsonUrlInput.trim();
+      const path = jsonPathInput.trim();
+      if (url) connect({ json: { url, ...(path ? { path } : {}), ...(credentialId ? { connectionId: credentialId } : {}) } });
+      return;
+    }
+    const url = urlInput.trim();
+    if (url) connect({ url });
+  };
+
+  const handleSaveConnection = async () => {
+    if (!newConnection?.name.trim() || !newConnection.url.trim()) return;
+    setLoading(true);
+    setError(null);
+    const res = await createDataConnection(newConnection.name, newConnection.url);
+    setLoading(false);
+    if (!res.success || !res.data) {
+      setError(res.error || 'Failed to save database connection');
+      return;
+    }
+    setConnections(list => [res.data!, ...(list ?? [])]);
+    setConnectionId(res.data.id);
+    setNewConnection(null);
+  };
+
+  const handleSaveCredential = async () => {
+    if (!newCredential?.name.trim() || !newCredential.headerName.trim() || !newCredential.headerValue || !jsonUrlInput.trim()) return;
+    setLoading(true);
+    setError(null);
+    const res = await createApiCredential(newCredential.name, jsonUrlInput, newCredential.headerName, newCredential.headerValue);
+    setLoading(false);
+    if (!res.success || !res.data) {
+      setError(res.error || 'Failed to save API credential');
+      return;
+    }
+    setConnections(list => [res.data!, ...(list ?? [])]);
+    setCredentialId(res.data.id);
+    setNewCredential(null);
+  };
+
+  const handleDeleteConnection = async (id: string) => {
+    const target = connections?.find(c => c.id === id);
+    if (!target || !window.confirm(`Delete the ${target.engine === 'http' ? 'credential' : 'connection'} "${target.name}"?`)) return;
+    setError(null);
+    const res = await deleteDataConnection(target.id);
+    if (!res.success) {
+      setError(res.error || 'Failed to delete connection');
+      return;
+    }
+    const remaining = (connections ?? []).filter(c => c.id !== target.id);
+    setConnections(remaining);
+    if (target.engine === 'http') setCredentialId('');
+    else setConnectionId(remaining.find(c => c.engine === 'postgres')?.id ?? '');
+  };
+
+  const canConnect = mode === 'sql'
+    ? !!connectionId && !!queryInput.trim() && !newConnection
+    : mode === 'json' ? !!jsonUrlInput.trim() && !newCredential : !!urlInput.trim();
+
   return (
     <div className="relative" ref={ref}>
       <button
         type="button"
-        title={liveSheet ? 'Live Google Sheet connected' : 'Connect a live Google Sheet or CSV link'}
+        title={liveSheet ? 'Live data source connected' : 'Connect a live Google Sheet, CSV link, SQL query or JSON API'}
         onClick={() => setOpen(p => !p)}
         disabled={disabled}
         className={`w-7 h-7 rounded-lg flex items-center justify-center transition-colors disabled:opacity-35 ${
@@ -107,12 +214,12 @@ export default function LiveSheetButton({ liveSheet, onConnect, onDisconnect, di
               exit={{ opacity: 0, y: 4, scale: 0.96 }}
               transition={{ duration: 0.13 }}
               style={{ position: 'fixed', left: coords.left, bottom: coords.bottom }}
-              className="w-72 rounded-xl z-50 bg-surface-2 border border-edge shadow-[0_16px_48px_rgba(0,0,0,0.5)]"
+              className={`${mode !== 'sheet' && !liveSheet ? 'w-80' : 'w-72'} rounded-xl z-50 bg-surface-2 border border-edge shadow-[0_16px_48px_rgba(0,0,0,0.5)]`}
             >
               <div className="p-3 flex flex-col gap-2.5">
                 <div className="flex items-center gap-2">
                   <Rss size={12} className="text-success" />
-                  <span className="text-xs font-semibold text-ink">Live Google Sheet</span>
+                  <span className="text-xs font-semibold text-ink">Live data</span>
                   {liveSheet && (
                     <span className="ml-auto text-[10px] font-medium text-success flex items-center gap-1">
                       <span className="w-1.5 h-1.5 rounded-full bg-success animate-pulse" />
@@ -124,7 +231,7 @@ export default function LiveSheetButton({ liveSheet, onConnect, onDisconnect, di
                 {liveSheet ? (
                   <>
                     <p className="text-[11px] text-ink-faint">
-                      {liveSheet.rowCount.toLocaleString()} rows · {liveSheet.headers.length} columns
+                      {liveSheet.url ? '' : `${liveSourceNoun(liveSheet)} · `}{liveSheet.rowCount.toLocaleString()} rows · {liveSheet.headers.length} columns
                     </p>
                     <button
                       type="button"
@@ -137,19 +244,239 @@ export default function LiveSheetButton({ liveSheet, onConnect, onDisconnect, di
                   </>
                 ) : (
                   <>
-                    <div className="flex flex-col gap-1">
-                      <label className="text-[10px] font-medium text-ink-faint flex items-center gap-1">
-                        <LinkIcon size={9} /> Google Sheets or CSV URL
-                      </label>
-                      <input
-                        value={urlInput}
-                        onChange={e => setUrlInput(e.target.value)}
-                        onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleConnect(); } }}
-                        placeholder="https://docs.google.com/spreadsheets/…"
-                        className="w-full text-[11px] px-2.5 py-1.5 rounded-lg bg-surface-3 border border-edge text-ink placeholder:text-ink-faint focus:outline-none focus:border-accent/50 transition-colors"
-                      />
+                    <div className="flex gap-1 p-0.5 rounded-lg bg-surface-3">
+                      {([['sheet', 'Sheet / CSV', LinkIcon], ['sql', 'SQL', Database], ['json', 'JSON API', Braces]] as const).map(([key, label, Icon]) => (
+                        <button
+                          key={key}
+                          type="button"
+                          onClick={() => {
+                            setMode(key);
+                            setError(null);
+                            if (key === 'sql' && connections && databases.length === 0) setNewConnection({ name: '', url: '' });
+                          }}
+                          className={`flex-1 flex items-center justify-center gap-1 text-[10.5px] font-medium py-1 rounded-md transition-colors ${
+                            mode === key ? 'bg-surface-1 text-ink shadow-sm' : 'text-ink-faint hover:text-ink'
+                          }`}
+                        >
+                          <Icon size={10} /> {label}
+                        </button>
+                      ))}
                     </div>
 
+                    {mode === 'sheet' ? (
+                      <div className="flex flex-col gap-1">
+                        <label className="text-[10px] font-medium text-ink-faint flex items-center gap-1">
+                          <LinkIcon size={9} /> Google Sheets or CSV URL
+                        </label>
+                        <input
+                          value={urlInput}
+                          onChange={e => setUrlInput(e.target.value)}
+                          onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleConnect(); } }}
+                          placeholder="https://docs.google.com/spreadsheets/…"
+                          className={inputClass}
+                        />
+                      </div>
+                    ) : mode === 'json' ? (
+                      <div className="flex flex-col gap-1.5">
+                        <label className="text-[10px] font-medium text-ink-faint flex items-center gap-1">
+                          <Braces size={9} /> JSON endpoint
+                        </label>
+                        <input
+                          value={jsonUrlInput}
+                          onChange={e => setJsonUrlInput(e.target.value)}
+                          placeholder="https://api.example.com/v1/orders?limit=500"
+                          className={inputClass}
+                        />
+                        <input
+                          value={jsonPathInput}
+                          onChange={e => setJsonPathInput(e.target.value)}
+                          onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleConnect(); } }}
+                          placeholder="Rows at JSONPath, e.g. $.data.items[*] (optional)"
+                          spellCheck={false}
+                          className={`${inputClass} font-mono`}
+                        />
+                        <label className="text-[10px] font-medium text-ink-faint flex items-center gap-1 mt-0.5">
+                          <KeyRound size={9} /> Auth
+                        </label>
+                        {connections === null ? (
+                          <p className="text-[11px] text-ink-faint flex items-center gap-1.5">
+                            <Loader2 size={11} className="animate-spin" /> Loading credentials…
+                          </p>
+                        ) : newCredential ? (
+                          <>
+                            <input
+                              value={newCredential.name}
+                              onChange={e => setNewCredential({ ...newCredential, name: e.target.value })}
+                              placeholder="Name, e.g. Billing API key"
+                              className={inputClass}
+                            />
+                            <div className="flex gap-1">
+                              <input
+                                value={newCredential.headerName}
+                                onChange={e => setNewCredential({ ...newCredential, headerName: e.target.value })}
+                                placeholder="Header, e.g. X-API-Key"
+                                className={`${inputClass} font-mono`}
+                              />
+                              <input
+                                type="password"
+                                value={newCredential.headerValue}
+                                onChange={e => setNewCredential({ ...newCredential, headerValue: e.target.value })}
+                                placeholder="Value"
+                                autoComplete="off"
+                                className={`${inputClass} font-mono`}
+                              />
+                            </div>
+                            <p className="text-[10px] text-ink-faint leading-snug">
+                              Stored encrypted and only ever sent to the endpoint&apos;s host. Use a read-only key.
+                            </p>
+                            <div className="flex gap-1.5">
+                              <button
+                                type="button"
+                                onClick={() => { setNewCredential(null); setError(null); }}
+                                className="flex-1 text-[11px] font-medium px-2.5 py-1.5 rounded-lg border border-edge text-ink-muted hover:bg-surface-3 transition-colors"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                type="button"
+                                onClick={handleSaveCredential}
+                                disabled={!newCredential.name.trim() || !newCredential.headerName.trim() || !newCredential.headerValue || !jsonUrlInput.trim() || loading}
+                                className="flex-1 flex items-center justify-center gap-1.5 text-[11px] font-medium px-2.5 py-1.5 rounded-lg border border-edge text-ink hover:bg-surface-3 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                {loading ? <Loader2 size={11} className="animate-spin" /> : <Plus size={11} />}
+                                Save credential
+                              </button>
+                            </div>
+                          </>
+                        ) : (
+                          <div className="flex gap-1">
+                            <select
+                              value={credentialId}
+                              onChange={e => setCredentialId(e.target.value)}
+                              className={`${inputClass} min-w-0`}
+                            >
+                              <option value="">None — public endpoint</option>
+                              {credentials.map(c => (
+                                <option key={c.id} value={c.id}>{c.name} — {c.headerName} for {c.host}</option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              title="Add a credential"
+                              onClick={() => { setNewCredential({ name: '', headerName: 'Authorization', headerValue: '' }); setError(null); }}
+                              className="w-7 shrink-0 rounded-lg flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors"
+                            >
+                              <Plus size={12} />
+                            </button>
+                            {credentialId && (
+                              <button
+                                type="button"
+                                title="Delete this credential"
+                                onClick={() => handleDeleteConnection(credentialId)}
+                                className="w-7 shrink-0 rounded-lg flex items-center justify-center text-ink-faint hover:text-danger hover:bg-surface-3 transition-colors"
+                              >
+                                <Trash2 size={12} />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    ) : connections === null ? (
+                      <p className="text-[11px] text-ink-faint flex items-center gap-1.5">
+                        <Loader2 size={11} className="animate-spin" /> Loading connections…
+                      </p>
+                    ) : newConnection ? (
+                      <div className="flex flex-col gap-1.5">
+                        <label className="text-[10px] font-medium text-ink-faint flex items-center gap-1">
+                          <Database size={9} /> New Postgres connection
+                        </label>
+                        <input
+                          value={newConnection.name}
+                          onChange={e => setNewConnection({ ...newConnection, name: e.target.value })}
+                          placeholder="Name, e.g. Analytics replica"
+                          className={inputClass}
+                        />
+                        <input
+                          type="password"
+                          value={newConnection.url}
+                          onChange={e => setNewConnection({ ...newConnection, url: e.target.value })}
+                          placeholder="postgres://readonly:…@host:5432/db"
+                          autoComplete="off"
+                          className={`${inputClass} font-mono`}
+                        />
+                        <p className="text-[10px] text-ink-faint leading-snug">
+                          Stored encrypted and never shown again. Use a read-only role — queries also run in a read-only transaction.
+                        </p>
+                        <div className="flex gap-1.5">
+                          {databases.length > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => { setNewConnection(null); setError(null); }}
+                              className="flex-1 text-[11px] font-medium px-2.5 py-1.5 rounded-lg border border-edge text-ink-muted hover:bg-surface-3 transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={handleSaveConnection}
+                            disabled={!newConnection.name.trim() || !newConnection.url.trim() || loading}
+                            className="flex-1 flex items-center justify-center gap-1.5 text-[11px] font-medium px-2.5 py-1.5 rounded-lg border border-edge text-ink hover:bg-surface-3 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {loading ? <Loader2 size={11} className="animate-spin" /> : <Plus size={11} />}
+                            {loading ? 'Testing…' : 'Test & save'}
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex flex-col gap-1.5">
+                        <label className="text-[10px] font-medium text-ink-faint flex items-center gap-1">
+                          <Database size={9} /> Connection
+                        </label>
+                        <div className="flex gap-1">
+                          <select
+                            value={connectionId}
+                            onChange={e => setConnectionId(e.target.value)}
+                            className={`${inputClass} min-w-0`}
+                          >
+                            {databases.map(c => (
+                              <option key={c.id} value={c.id}>{c.name} — {c.host}/{c.database}</option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            title="Add a connection"
+                            onClick={() => { setNewConnection({ name: '', url: '' }); setError(null); }}
+                            className="w-7 shrink-0 rounded-lg flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors"
+                          >
+                            <Plus size={12} />
+                          </button>
+                          <button
+                            type="button"
+                            title="Delete this connection"
+                            onClick={() => handleDeleteConnection(connectionId)}
+                            className="w-7 shrink-0 rounded-lg flex items-center justify-center text-ink-faint hover:text-danger hover:bg-surface-3 transition-colors"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </div>
+                        <textarea
+                          value={queryInput}
+                          onChange={e => setQueryInput(e.target.value)}
+                          placeholder={'SELECT month, region, revenue\nFROM sales\nWHERE year = $1'}
+                          rows={4}
+                          spellCheck={false}
+                          className={`${inputClass} font-mono resize-y`}
+                        />
+                        <input
+                          value={paramsInput}
+                          onChange={e => setParamsInput(e.target.value)}
+                          placeholder="Parameters for $1, $2… (comma-separated)"
+                          className={inputClass}
+                        />
+                      </div>
+                    )}
+
                     {error && (
                       <p className="text-[10px] text-danger flex items-start gap-1">
                         <AlertCircle size={11} className="shrink-0 mt-px" />
@@ -160,7 +487,7 @@ export default function LiveSheetButton({ liveSheet, onConnect, onDisconnect, di
                     <button
                       type="button"
                       onClick={handleConnect}
-                      disabled={!urlInput.trim() || loading}
+                      disabled={!canConnect || loading}
                       className="flex items-center justify-center gap-1.5 text-[11px] font-medium px-2.5 py-1.5 rounded-lg text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       style={{ background: 'var(--color-accent)' }}
                     >
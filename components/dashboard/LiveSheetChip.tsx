@@ -1,36 +1,95 @@
 "use client";
 
-import { Rss, X } from 'lucide-react';
-import type { LiveSheetData } from '@/lib/utils/live-sheet';
+import { useMemo, useState } from 'react';
+import { Braces, Database, Library, Rss, ShieldAlert, ShieldCheck, X } from 'lucide-react';
+import { parseLiveSheetRows, type LiveSheetData } from '@/lib/utils/live-sheet';
+import { describeLiveSource } from '@/lib/utils/live-source';
+import { profileDataQuality } from '@/lib/utils/data-quality';
+import DataQualityModal from '@/components/dashboard/DataQualityModal';
 
 interface LiveSheetChipProps {
   sheet: LiveSheetData;
   onRemove: () => void;
+  /** Saves the source to the dataset library; resolves true once saved, which hides the button. */
+  onSaveDataset?: () => Promise<boolean>;
 }
 
-export default function LiveSheetChip({ sheet, onRemove }: LiveSheetChipProps) {
-  let host = sheet.url;
-  try { host = new URL(sheet.url).hostname; } catch {}
+export default function LiveSheetChip({ sheet, onRemove, onSaveDataset }: LiveSheetChipProps) {
+  let host = sheet.json?.url ?? sheet.url ?? '';
+  try { host = new URL(host).hostname; } catch {}
+  const SourceIcon = sheet.sql ? Database : sheet.json ? Braces : Rss;
+  const [savingDataset, setSavingDataset] = useState(false);
+  const [savedSheet, setSavedSheet] = useState<LiveSheetData | null>(null);
+  const [qualityOpen, setQualityOpen] = useState(false);
+  const quality = useMemo(() => profileDataQuality(parseLiveSheetRows(sheet.rawCsv)), [sheet.rawCsv]);
+  const warnings = quality.issues.filter(i => i.severity === 'warning').length;
+
+  const handleSaveDataset = async () => {
+    if (savingDataset) return;
+    setSavingDataset(true);
+    try {
+      if (await onSaveDataset!()) setSavedSheet(sheet);
+    } finally {
+      setSavingDataset(false);
+    }
+  };
 
   return (
     <div className="flex items-center gap-2 pl-2 pr-1 py-1 rounded-lg bg-surface-2 border border-edge max-w-full">
       <div className="w-6 h-6 rounded-md flex items-center justify-center shrink-0 bg-success/10 border border-success/20">
-        <Rss size={12} className="text-success" />
+        <SourceIcon size={12} className="text-success" />
       </div>
       <div className="min-w-0 leading-tight">
-        <p className="text-[11px] font-medium text-ink-muted truncate max-w-[180px]">{host}</p>
+        <p className="text-[11px] font-medium text-ink-muted truncate max-w-[180px]" title={sheet.sql?.query ?? (sheet.json ? describeLiveSource(sheet) : undefined)}>
+          {sheet.sql ? describeLiveSource(sheet) : host}
+        </p>
         <p className="text-[10px] text-ink-faint">
           {sheet.rowCount.toLocaleString()} rows · {sheet.headers.length} cols
+          {savedSheet === sheet ? ' · in library' : ''}
         </p>
       </div>
+      {quality.columns.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setQualityOpen(true)}
+          title={quality.issues.length > 0 ? `Data quality: ${quality.issues.length} ${quality.issues.length === 1 ? 'issue' : 'issues'}` : 'Data quality: no issues'}
+          className={`h-5 px-1 rounded-md flex items-center gap-0.5 hover:bg-surface-3 transition-colors shrink-0 ${
+            warnings > 0 ? 'text-warning' : 'text-ink-faint hover:text-ink'
+          }`}
+        >
+          {warnings > 0 ? <ShieldAlert size={11} /> : <ShieldCheck size={11} />}
+          {warnings > 0 && <span className="text-[10px] font-medium tabular-nums">{warnings}</span>}
+        </button>
+      )}
+      {onSaveDataset && savedSheet !== sheet && (
+        <button
+          type="button"
+          onClick={handleSaveDataset}
+          disabled={savingDataset}
+          title="Save to dataset library"
+          className="w-5 h-5 rounded-md flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors shrink-0 disabled:opacity-50"
+        >
+          {savingDataset
+            ? <div className="w-2.5 h-2.5 border-2 border-ink-faint/30 border-t-ink-muted rounded-full animate-spin" />
+            : <Library size={11} />
+          }
+        </button>
+      )}
       <button
         type="button"
         onClick={onRemove}
-        title="Disconnect live sheet"
+        title="Disconnect live data"
         className="w-5 h-5 rounded-md flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors shrink-0"
       >
         <X size={11} />
       </button>
+      <DataQualityModal
+        open={qualityOpen}
+        onClose={() => setQualityOpen(false)}
+        title={sheet.sql ? describeLiveSource(sheet) : host}
+        report={quality}
+        readOnlyNote="Live data is re-fetched on every refresh, so fixes can't be applied here — clean it at the source, or filter it with the chart's transform steps."
+      />
     </div>
   );
 }
@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { GitCompare, RotateCcw, GitBranch, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { listRevisions, compareRevisions } from '@/lib/actions/revisions';
+import { relativeTime } from '@/lib/utils/helpers';
+import type { RevisionAction, RevisionSummary, SpecDiffEntry } from '@/lib/types/revision';
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  generate: 'Generated',
+  'ai-edit': 'AI edit',
+  theme: 'Theme',
+  annotation: 'Annotation',
+  'live-refresh': 'Live refresh',
+  transform: 'Data transform',
+  save: 'Saved',
+  restore: 'Restored',
+  fork: 'Forked',
+};
+
+const KIND_COLORS: Record<SpecDiffEntry['kind'], string> = {
+  added: 'var(--color-success)',
+  removed: 'var(--color-danger)',
+  changed: 'var(--color-warning)',
+};
+
+interface RevisionPanelProps {
+  vizId: string | null;
+  /** Changes whenever the thread's spec does — triggers a reload so new revisions appear. */
+  refreshKey: unknown;
+  onRestore: (revision: number) => Promise<void>;
+  onFork: (revision: number) => Promise<void>;
+}
+
+export default function RevisionPanel({ vizId, refreshKey, onRestore, onFork }: RevisionPanelProps) {
+  // null until the first load — later reloads keep showing the previous list.
+  const [revisions, setRevisions] = useState<RevisionSummary[] | null>(null);
+  const [compareSel, setCompareSel] = useState<number[]>([]);
+  const [diff, setDiff] = useState<SpecDiffEntry[] | null>(null);
+  const [busy, setBusy] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!vizId) return;
+    let cancelled = false;
+    listRevisions(vizId).then(res => {
+      if (cancelled) return;
+      if (res.success && res.data) setRevisions(res.data);
+      else { setRevisions([]); toast.error(res.error || 'Failed to load history'); }
+    });
+    return () => { cancelled = true; };
+  }, [vizId, refreshKey]);
+
+  /* ── Compare: pick two revisions, older one is always the "before" side ── */
+  useEffect(() => {
+    if (!vizId || compareSel.length !== 2) return;
+    let cancelled = false;
+    const [from, to] = [...compareSel].sort((a, b) => a - b);
+    compareRevisions(vizId, from, to).then(res => {
+      if (cancelled) return;
+      if (res.success && res.data) setDiff(res.data);
+      else toast.error(res.error || 'Failed to compare revisions');
+    });
+    return () => { cancelled = true; };
+  }, [vizId, compareSel]);
+
+  const toggleCompare = (revision: number) => {
+    setDiff(null);
+    setCompareSel(prev =>
+      prev.includes(revision) ? prev.filter(r => r !== revision) : [...prev.slice(-1), revision]
+    );
+  };
+
+  const run = useCallback(async (revision: number, fn: (revision: number) => Promise<void>) => {
+    setBusy(revision);
+    try { await fn(revision); } finally { setBusy(null); }
+  }, []);
+
+  if (!vizId) {
+    return (
+      <p className="p-4 text-[11px] text-ink-faint leading-relaxed">
+        History starts once the chart is stored — it appears here after generation finishes saving.
+      </p>
+    );
+  }
+
+  const [fromRev, toRev] = [...compareSel].sort((a, b) => a - b);
+
+  return (
+    <div className="flex flex-col h-full overflow-y-auto custom-scrollbar">
+      {/* ── Diff view ── */}
+      {compareSel.length > 0 && (
+        <div className="p-3 border-b border-edge space-y-2 shrink-0">
+          <p className="text-[10px] font-semibold text-ink-faint uppercase tracking-wide flex items-center gap-1.5">
+            <GitCompare size={11} />
+            {compareSel.length === 2 ? `Revision ${fromRev} → ${toRev}` : 'Pick one more revision to compare'}
+          </p>
+          {compareSel.length === 2 && !diff && <Loader2 size={12} className="animate-spin text-ink-faint" />}
+          {diff && diff.length === 0 && <p className="text-[11px] text-ink-faint">No structural differences.</p>}
+          {diff && diff.length > 0 && (
+            <ul className="space-y-1">
+              {diff.map((d, i) => (
+                <li key={i} className="flex items-start gap-1.5 text-[11px] leading-snug text-ink-muted">
+                  <span className="mt-1 w-1.5 h-1.5 rounded-full shrink-0" style={{ background: KIND_COLORS[d.kind] }} />
+                  <span><span className="text-ink-faint">{d.section} · </span>{d.summary}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* ── Revision list ── */}
+      <div className="flex-1 p-3 space-y-1.5">
+        {revisions === null && <Loader2 size={14} className="animate-spin text-ink-faint mx-auto" />}
+        {revisions?.length === 0 && (
+          <p className="text-[11px] text-ink-faint">No revisions recorded yet.</p>
+        )}
+        {revisions?.map((r, i) => {
+          const selected = compareSel.includes(r.revision);
+          return (
+            <div
+              key={r.revision}
+              className={`rounded-lg border px-2.5 py-2 transition-colors ${selected ? 'border-accent/40 bg-accent/6' : 'border-edge bg-surface-0'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] font-mono text-ink-faint">#{r.revision}</span>
+                <span className="text-[11px] font-semibold text-ink">{ACTION_LABELS[r.action]}</span>
+                {i === 0 && <span className="text-[9px] font-semibold px-1.5 py-0.5 rounded-full bg-accent/12 text-accent">Current</span>}
+                <span className="ml-auto text-[10px] text-ink-faint">{relativeTime(r.createdAt)}</span>
+              </div>
+              {r.prompt && <p className="mt-1 text-[11px] text-ink-muted line-clamp-2" title={r.prompt}>{r.prompt}</p>}
+              <div className="mt-1.5 flex items-center gap-1">
+                <button
+                  onClick={() => toggleCompare(r.revision)}
+                  className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors ${selected ? 'text-accent' : 'text-ink-faint hover:text-ink'}`}
+                >
+                  <GitCompare size={10} /> Compare
+                </button>
+                {i > 0 && (
+                  <button
+                    onClick={() => run(r.revision, onRestore)}
+                    disabled={busy !== null}
+                    className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-ink-faint hover:text-ink transition-colors disabled:opacity-40"
+                  >
+                    {busy === r.revision ? <Loader2 size={10} className="animate-spin" /> : <RotateCcw size={10} />} Restore
+                  </button>
+                )}
+                <button
+                  onClick={() => run(r.revision, onFork)}
+                  disabled={busy !== null}
+                  className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-ink-faint hover:text-ink transition-colors disabled:opacity-40"
+                >
+                  <GitBranch size={10} /> Fork
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { parseRecurrenceRule, describeSchedule } from '@/lib/utils/schedule';
+import type { ScheduleInput } from '@/lib/types/schedule';
+
+type Preset = 'hourly' | 'daily' | 'weekly' | 'first-business-day' | 'month-day' | 'custom';
+
+const PRESET_LABELS: Record<Preset, string> = {
+  hourly: 'Every hour',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  'first-business-day': 'Monthly, first business day',
+  'month-day': 'Monthly, on a day',
+  custom: 'Custom (RRULE)',
+};
+
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+interface PresetFields {
+  hour: number;
+  weekday: number;
+  monthDay: number;
+}
+
+/** The browser's timezone — what a new schedule runs in. */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** Which preset `rrule` is exactly, and its fields — `custom` when no preset produces it. */
+function readPreset(rrule: string): { preset: Preset; fields: PresetFields } {
+  const fields: PresetFields = { hour: 9, weekday: 1, monthDay: 1 };
+  const parsed = parseRecurrenceRule(rrule);
+  if (!parsed.valid) return { preset: 'custom', fields };
+  const { rule } = parsed;
+  const plain = rule.interval === 1 && rule.byMinute === 0 && !rule.byDay.some(d => d.ordinal !== undefined);
+  if (!plain) return { preset: 'custom', fields };
+  if (rule.byHour.length === 1) fields.hour = rule.byHour[0];
+
+  if (rule.freq === 'HOURLY' && !rule.byHour.length && !rule.byDay.length) return { preset: 'hourly', fields };
+  if (rule.byHour.length !== 1) return { preset: 'custom', fields };
+  if (rule.freq === 'DAILY' && !rule.byDay.length) return { preset: 'daily', fields };
+  if (rule.freq === 'WEEKLY' && rule.byDay.length === 1) return { preset: 'weekly', fields: { ...fields, weekday: rule.byDay[0].weekday } };
+  if (rule.freq === 'MONTHLY') {
+    const weekdays = rule.byDay.map(d => d.weekday).sort().join() === '1,2,3,4,5';
+    if (weekdays && rule.bySetPos.join() === '1' && !rule.byMonthDay.length) return { preset: 'first-business-day', fields };
+    if (!rule.byDay.length && !rule.bySetPos.length && rule.byMonthDay.length === 1 && rule.byMonthDay[0] > 0) {
+      return { preset: 'month-day', fields: { ...fields, monthDay: rule.byMonthDay[0] } };
+    }
+  }
+  return { preset: 'custom', fields };
+}
+
+function buildRule(preset: Exclude<Preset, 'custom'>, { hour, weekday, monthDay }: PresetFields): string {
+  switch (preset) {
+    case 'hourly': return 'FREQ=HOURLY';
+    case 'daily': return `FREQ=DAILY;BYHOUR=${hour}`;
+    case 'weekly': return `FREQ=WEEKLY;BYDAY=${DAY_CODES[weekday]};BYHOUR=${hour}`;
+    case 'first-business-day': return `FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1;BYHOUR=${hour}`;
+    case 'month-day': return `FREQ=MONTHLY;BYMONTHDAY=${monthDay};BYHOUR=${hour}`;
+  }
+}
+
+interface ScheduleEditorProps {
+  value: ScheduleInput;
+  /** Called with each complete change — custom rules only once they parse. */
+  onChange: (next: ScheduleInput) => void;
+  disabled?: boolean;
+  /** Popover sizing (the chart's Live menu) rather than modal sizing. */
+  compact?: boolean;
+}
+
+/**
+ * Frequency / time / day pickers for the common digest schedules, a raw
+ * RRULE field for anything else, and the timezone the schedule runs in.
+ */
+export default function ScheduleEditor({ value, onChange, disabled, compact }: ScheduleEditorProps) {
+  const read = useMemo(() => readPreset(value.rrule), [value.rrule]);
+  const [customMode, setCustomMode] = useState(read.preset === 'custom');
+  const [draft, setDraft] = useState(value.rrule);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const timeZones = useMemo(() => {
+    const zones = Intl.supportedValuesOf('timeZone');
+    return [...new Set(['UTC', value.timezone, ...zones])];
+  }, [value.timezone]);
+
+  const preset: Preset = customMode ? 'custom' : read.preset;
+  const { fields } = read;
+
+  const field = compact
+    ? 'w-full px-2 py-1 rounded-md bg-surface-1 border border-edge text-[10px] text-ink focus:outline-none focus:border-accent/40 disabled:opacity-50'
+    : 'w-full px-3 py-2.5 rounded-xl bg-surface-2 border border-edge text-[12px] text-ink focus:outline-none focus:border-accent/40 disabled:opacity-50';
+  const label = compact ? 'text-[10px] text-ink-faint block mb-1' : 'text-[11px] font-medium text-ink-faint block mb-1.5';
+
+  const setPreset = (next: Preset) => {
+    if (next === 'custom') {
+      setCustomMode(true);
+      setDraft(value.rrule);
+      setDraftError(null);
+      return;
+    }
+    setCustomMode(false);
+    onChange({ ...value, rrule: buildRule(next, fields) });
+  };
+
+  const setField = (patch: Partial<PresetFields>) => {
+    if (preset === 'custom') return;
+    onChange({ ...value, rrule: buildRule(preset, { ...fields, ...patch }) });
+  };
+
+  const commitDraft = () => {
+    const parsed = parseRecurrenceRule(draft);
+    if (!parsed.valid) { setDraftError(parsed.error); return; }
+    setDraftError(null);
+    if (draft.trim() !== value.rrule) onChange({ ...value, rrule: draft.trim() });
+  };
+
+  return (
+    <div className={compact ? 'flex flex-col gap-1.5' : 'flex flex-col gap-3'}>
+      <div>
+        <label className={label}>Repeat</label>
+        <select value={preset} onChange={e => setPreset(e.target.value as Preset)} disabled={disabled} className={field}>
+          {(Object.keys(PRESET_LABELS) as Preset[]).map(p => <option key={p} value={p}>{PRESET_LABELS[p]}</option>)}
+        </select>
+      </div>
+
+      {preset === 'custom' ? (
+        <div>
+          <input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={commitDraft}
+            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); commitDraft(); } }}
+            disabled={disabled}
+            placeholder="FREQ=DAILY;BYHOUR=8"
+            spellCheck={false}
+            aria-label="Recurrence rule"
+            className={`${field} font-mono`}
+          />
+          {draftError && <p className="text-[10px] text-danger mt-1">{draftError}</p>}
+        </div>
+      ) : preset !== 'hourly' && (
+        <div className="flex gap-1.5">
+          {preset === 'weekly' && (
+            <select value={fields.weekday} onChange={e => setField({ weekday: Number(e.target.value) })} disabled={disabled} className={field} aria-label="Day of week">
+              {DAY_LABELS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+            </select>
+          )}
+          {preset === 'month-day' && (
+            <select value={fields.monthDay} onChange={e => setField({ monthDay: Number(e.target.value) })} disabled={disabled} className={field} aria-label="Day of month">
+              {Array.from({ length: 28 }, (_, i) => i + 1).map(d => <option key={d} value={d}>Day {d}</option>)}
+            </select>
+          )}
+          <select value={fields.hour} onChange={e => setField({ hour: Number(e.target.value) })} disabled={disabled} className={field} aria-label="Time">
+            {HOURS.map(h => <option key={h} value={h}>{String(h).padStart(2, '0')}:00</option>)}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label className={label}>Timezone</label>
+        <select value={value.timezone} onChange={e => onChange({ ...value, timezone: e.target.value })} disabled={disabled} className={field}>
+          {timeZones.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+        </select>
+      </div>
+
+      <p className={compact ? 'text-[10px] text-ink-faint' : 'text-[11px] text-ink-faint'}>{describeSchedule(value)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Table2, Wand2, AlertTriangle, Check } from 'lucide-react';
+import { applySheetSelection, type FileAttachment } from '@/lib/utils/file-attachment';
+import {
+  MAX_HEADER_ROWS,
+  columnLetter,
+  defaultSheetSelection,
+  extractSelection,
+  parseA1Range,
+  sheetWidth,
+  type SheetSelection,
+} from '@/lib/utils/sheet-range';
+
+const PREVIEW_ROWS = 40;
+const PREVIEW_COLS = 14;
+
+interface SheetRangePickerModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** A workbook attachment — `attachment.workbook` must be set. */
+  attachment: FileAttachment;
+  onChange: (attachment: FileAttachment) => void;
+}
+
+/**
+ * Lets the user choose which sheet of an attached workbook — and which A1
+ * range and how many header rows within it — becomes the table composed
+ * into the prompt. Opens on the current selection (auto-detected on
+ * attach); the preview grid highlights the header and data rows, and a
+ * click / shift-click sets the range's corners.
+ */
+export default function SheetRangePickerModal({ open, onClose, attachment, onChange }: SheetRangePickerModalProps) {
+  const sheets = useMemo(() => attachment.workbook?.sheets ?? [], [attachment.workbook]);
+  // A PDF's "sheets" are the tables detected in it.
+  const isPdf = attachment.extension === 'pdf';
+  const [selection, setSelection] = useState<SheetSelection | null>(attachment.workbook?.selection ?? null);
+  const [prevOpen, setPrevOpen] = useState(open);
+
+  if (open && open !== prevOpen) {
+    setPrevOpen(open);
+    setSelection(attachment.workbook?.selection ?? null);
+  } else if (open !== prevOpen) {
+    setPrevOpen(open);
+  }
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [open, onClose]);
+
+  const sheet = sheets.find(s => s.name === selection?.sheet) ?? sheets[0];
+  const range = selection ? parseA1Range(selection.range) : null;
+  const preview = useMemo(() => (selection ? extractSelection(sheets, selection) : null), [sheets, selection]);
+
+  if (!selection || !sheet) return null;
+
+  const pickSheet = (name: string) => {
+    const target = sheets.find(s => s.name === name);
+    if (!target || name === selection.sheet) return;
+    setSelection(defaultSheetSelection(target) ?? { sheet: name, range: 'A1:A1', headerRows: 1 });
+  };
+
+  const autoDetect = () => {
+    const detected = defaultSheetSelection(sheet);
+    if (detected) setSelection(detected);
+  };
+
+  // Click sets the top-left corner; shift-click stretches to the bottom-right.
+  const pickCell = (row: number, col: number, extend: boolean) => {
+    const cell = `${columnLetter(col)}${row + 1}`;
+    const anchor = selection.range.split(':')[0];
+    const end = range && row <= range.endRow && col <= range.endCol ? `${columnLetter(range.endCol)}${range.endRow + 1}` : cell;
+    setSelection({ ...selection, range: extend ? `${anchor}:${cell}` : `${cell}:${end}` });
+  };
+
+  const apply = () => {
+    const { attachment: updated } = applySheetSelection(attachment, selection);
+    if (!updated) return;
+    onChange(updated);
+    onClose();
+  };
+
+  const cols = Math.min(sheetWidth(sheet.cells), PREVIEW_COLS);
+  const rows = Math.min(sheet.cells.length, PREVIEW_ROWS);
+  const headerEnd = range ? range.startRow + selection.headerRows - 1 : -1;
+  const cellTone = (r: number, c: number) => {
+    if (!range || r < range.startRow || r > range.endRow || c < range.startCol || c > range.endCol) return '';
+    return r <= headerEnd ? 'bg-accent/18 font-semibold text-ink' : 'bg-accent/6';
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.15 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.96, y: 16 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.96, y: 16 }}
+            transition={{ duration: 0.16 }}
+            role="dialog"
+            aria-modal="true"
+            aria-label={isPdf ? 'Choose table and range' : 'Choose sheet and range'}
+            className="w-full max-w-4xl max-h-[85vh] rounded-2xl overflow-hidden flex flex-col surface-panel shadow-[0_24px_64px_rgba(0,0,0,0.35)]"
+            onClick={e => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-5 py-4 border-b border-edge shrink-0">
+              <div className="min-w-0">
+                <h2 className="text-sm font-semibold text-ink flex items-center gap-2">
+                  <Table2 size={14} className="text-accent" />
+                  {isPdf ? 'Choose table & range' : 'Choose sheet & range'}
+                </h2>
+                <p className="text-[11px] text-ink-faint mt-0.5 truncate">
+                  {attachment.name} · {sheets.length} {isPdf ? (sheets.length === 1 ? 'table found' : 'tables found') : sheets.length === 1 ? 'sheet' : 'sheets'}
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                title="Close"
+                className="w-7 h-7 rounded-lg flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors"
+              >
+                <X size={15} />
+              </button>
+            </div>
+
+            {/* Sheet tabs */}
+            <div className="flex gap-1 px-5 pt-3 overflow-x-auto custom-scrollbar shrink-0">
+              {sheets.map(s => (
+                <button
+                  key={s.name}
+                  type="button"
+                  onClick={() => pickSheet(s.name)}
+                  className={`px-3 py-1.5 rounded-lg text-[11.5px] font-medium border whitespace-nowrap transition-colors ${
+                    s.name === sheet.name
+                      ? 'bg-accent/15 border-accent/40 text-accent'
+                      : 'bg-surface-1 border-edge text-ink-muted hover:border-accent/30'
+                  }`}
+                >
+                  {s.name}
+                  <span className="ml-1.5 opacity-60">{s.cells.length.toLocaleString()} rows</span>
+                </button>
+              ))}
+            </div>
+
+            {/* Body */}
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-4">
+              <div className="flex flex-wrap items-end gap-3">
+                <label className="text-[11px] font-medium text-ink-faint">
+                  Range
+                  <input
+                    value={selection.range}
+                    onChange={e => setSelection({ ...selection, range: e.target.value })}
+                    spellCheck={false}
+                    className="mt-1 block w-32 px-2.5 py-1.5 rounded-lg bg-surface-1 border border-edge text-[12px] font-mono text-ink focus:outline-none focus:border-accent/50"
+                  />
+                </label>
+                <div className="text-[11px] font-medium text-ink-faint">
+                  Header rows
+                  <div className="mt-1 flex gap-1">
+                    {Array.from({ length: MAX_HEADER_ROWS + 1 }, (_, n) => (
+                      <button
+                        key={n}
+                        type="button"
+                        onClick={() => setSelection({ ...selection, headerRows: n })}
+                        className={`w-8 py-1.5 rounded-lg text-[12px] border transition-colors ${
+                          selection.headerRows === n
+                            ? 'bg-accent/15 border-accent/40 text-accent'
+                            : 'bg-surface-1 border-edge text-ink-muted hover:border-accent/30'
+                        }`}
+                      >
+                        {n}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={autoDetect}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[11.5px] font-medium text-ink-muted border border-edge hover:text-ink hover:border-accent/30 transition-colors"
+                >
+                  <Wand2 size={12} /> Auto-detect
+                </button>
+              </div>
+
+              {/* Sheet preview */}
+              <div className="overflow-auto custom-scrollbar rounded-lg border border-edge max-h-[40vh]">
+                <table className="text-[11px] border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="sticky top-0 bg-surface-2 px-2 py-1 border-b border-edge" />
+                      {Array.from({ length: cols }, (_, c) => (
+                        <th key={c} className="sticky top-0 bg-surface-2 px-2 py-1 border-b border-edge font-mono font-normal text-ink-faint">
+                          {columnLetter(c)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Array.from({ length: rows }, (_, r) => (
+                      <tr key={r}>
+                        <td className="bg-surface-2 px-2 py-1 font-mono text-ink-faint text-right border-r border-edge">{r + 1}</td>
+                        {Array.from({ length: cols }, (_, c) => {
+                          const value = sheet.cells[r]?.[c];
+                          return (
+                            <td
+                              key={c}
+                              onClick={e => pickCell(r, c, e.shiftKey)}
+                              className={`px-2 py-1 border-b border-r border-edge/60 max-w-[140px] truncate cursor-cell text-ink-muted ${cellTone(r, c)}`}
+                            >
+                              {value === null || value === undefined ? '' : String(value)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-[10.5px] text-ink-faint">
+                Click a cell to set the range&apos;s top-left corner, shift-click to set its bottom-right.
+                {(sheet.cells.length > PREVIEW_ROWS || sheetWidth(sheet.cells) > PREVIEW_COLS) && ' Preview shows the top-left of the sheet — type the range to reach further.'}
+              </p>
+
+              {/* Resulting table */}
+              {preview && 'error' in preview ? (
+                <div className="flex items-start gap-2 px-3.5 py-2.5 rounded-lg bg-danger/10 border border-danger/20">
+                  <AlertTriangle size={13} className="text-danger shrink-0 mt-0.5" />
+                  <p className="text-[11.5px] text-danger leading-snug">{preview.error}</p>
+                </div>
+              ) : preview && (
+                <div>
+                  <p className="text-[11px] font-medium text-ink-faint mb-2">
+                    {preview.table.rows.length.toLocaleString()} rows · {preview.table.headers.length} columns
+                  </p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {preview.table.headers.map(h => (
+                      <span key={h} className="px-2 py-1 rounded-md bg-surface-1 border border-edge text-[11px] text-ink">{h}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-edge shrink-0">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg text-[12px] font-medium text-ink-muted hover:text-ink transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={apply}
+                disabled={!preview || 'error' in preview}
+                className="px-4 py-2 rounded-lg text-[12px] font-semibold bg-accent text-white hover:bg-accent/90 disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex items-center gap-1.5"
+              >
+                <Check size={13} /> Use this range
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { EChartsOption } from 'echarts';
+import { Clock, GitCompare, Loader2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { listSnapshots, getSnapshotData } from '@/lib/actions/snapshots';
+import { applySnapshotData, canCompareSnapshot, withSnapshotGhost } from '@/lib/utils/snapshot-data';
+import { relativeTime } from '@/lib/utils/helpers';
+import type { SnapshotData, SnapshotSummary } from '@/lib/types/snapshot';
+
+interface SnapshotTimelineProps {
+  vizId: string;
+  /** The chart's current option — what "Now" shows and what ghosts are drawn over. */
+  option: EChartsOption;
+  /** Theme palette, so each ghost line matches its series' color. */
+  palette: string[];
+  /** Changes on every live refresh — reloads the timeline and returns to "Now". */
+  refreshKey: unknown;
+  /** The option to render instead of the current one, or null for the live chart. */
+  onPreviewChange: (option: EChartsOption | null) => void;
+}
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Timeline scrubber under a live chart — drag back through the data stored
+ * on each refresh to view the chart as it was, or keep today's chart and
+ * draw the chosen snapshot behind it as dashed ghost lines.
+ */
+export default function SnapshotTimeline({ vizId, option, palette, refreshKey, onPreviewChange }: SnapshotTimelineProps) {
+  // null until the first load. `position` runs 0..snapshots.length, the last being "Now".
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[] | null>(null);
+  const [position, setPosition] = useState<number | null>(null);
+  const [compare, setCompare] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const cache = useRef(new Map<string, SnapshotData>());
+
+  useEffect(() => {
+    let cancelled = false;
+    listSnapshots(vizId).then(res => {
+      if (cancelled) return;
+      if (res.success && res.data) setSnapshots(res.data);
+      else { setSnapshots([]); toast.error(res.error || 'Failed to load data history'); }
+      setPosition(null);
+      setCompare(false);
+    });
+    return () => { cancelled = true; };
+  }, [vizId, refreshKey]);
+
+  // Whatever unmounts the timeline (disconnecting the source, say) also ends the preview.
+  useEffect(() => () => onPreviewChange(null), [onPreviewChange]);
+
+  const now = snapshots?.length ?? 0;
+  const selected = snapshots && position !== null && position < now ? snapshots[position] : null;
+  const comparable = canCompareSnapshot(option);
+
+  useEffect(() => {
+    if (!selected) { onPreviewChange(null); return; }
+    let cancelled = false;
+    const show = (data: SnapshotData) => {
+      if (cancelled) return;
+      onPreviewChange(compare && comparable
+        ? withSnapshotGhost(option, data, formatWhen(selected.capturedAt), palette)
+        : applySnapshotData(option, data));
+    };
+
+    const cached = cache.current.get(selected.id);
+    if (cached) { show(cached); return; }
+    setLoading(true);
+    getSnapshotData(vizId, selected.id).then(res => {
+      if (cancelled) return;
+      setLoading(false);
+      if (!res.success || !res.data) { toast.error(res.error || 'Failed to load snapshot'); return; }
+      cache.current.set(selected.id, res.data);
+      show(res.data);
+    });
+    return () => { cancelled = true; };
+  }, [vizId, selected, compare, comparable, option, palette, onPreviewChange]);
+
+  if (!snapshots || snapshots.length === 0) return null;
+
+  const toggleCompare = () => {
+    const next = !compare;
+    setCompare(next);
+    // The newest snapshot usually matches the live chart — compare against the one before it.
+    if (next && !selected) setPosition(Math.max(0, now - 2));
+  };
+
+  return (
+    <div className="shrink-0 border-t border-edge bg-surface-1 px-4 py-2 flex items-center gap-3">
+      <span className="flex items-center gap-1.5 text-[10.5px] font-semibold text-ink-faint uppercase tracking-wider shrink-0">
+        <Clock size={11} /> Data history
+      </span>
+
+      <input
+        type="range"
+        min={0}
+        max={now}
+        step={1}
+        value={position ?? now}
+        onChange={e => setPosition(Number(e.target.value))}
+        className="flex-1 min-w-[80px] accent-[var(--color-accent)]"
+        aria-label="Data snapshot"
+        aria-valuetext={selected ? formatWhen(selected.capturedAt) : 'Now'}
+      />
+
+      <div className="min-w-0 w-48 shrink-0 text-[11px] leading-tight">
+        {selected ? (
+          <>
+            <p className="text-ink font-medium truncate" title={new Date(selected.capturedAt).toLocaleString()}>
+              {formatWhen(selected.capturedAt)}
+              <span className="text-ink-faint font-normal"> · {relativeTime(selected.capturedAt)}</span>
+            </p>
+            <p className="text-ink-faint truncate" title={selected.summary}>
+              {selected.rowCount.toLocaleString()} rows · {selected.trigger === 'scheduled' ? 'scheduled' : 'manual'} refresh
+            </p>
+          </>
+        ) : (
+          <>
+            <p className="text-ink font-medium">Now</p>
+            <p className="text-ink-faint">{now} {now === 1 ? 'snapshot' : 'snapshots'} stored</p>
+          </>
+        )}
+      </div>
+
+      {loading && <Loader2 size={12} className="animate-spin text-ink-faint shrink-0" />}
+
+      <button
+        type="button"
+        onClick={toggleCompare}
+        disabled={!comparable}
+        title={comparable ? 'Draw the selected snapshot behind the current chart' : 'Compare is available for bar and line charts'}
+        className={`shrink-0 flex items-center gap-1 px-2 py-1 rounded-md border text-[10.5px] font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+          compare ? 'border-accent/40 bg-accent/10 text-accent' : 'border-edge text-ink-muted hover:text-ink hover:bg-surface-3'
+        }`}
+      >
+        <GitCompare size={11} /> Compare
+      </button>
+
+      {selected && (
+        <button
+          type="button"
+          onClick={() => { setPosition(null); setCompare(false); }}
+          title="Back to the live chart"
+          className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-md text-[10.5px] font-medium text-ink-muted hover:text-ink hover:bg-surface-3 transition-colors"
+        >
+          <Undo2 size={11} /> Now
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, ArrowUp, ArrowDown, RotateCcw, Check } from 'lucide-react';
+import { AGGREGATES, FILTER_OPS } from '@/lib/utils/aggregation-engine';
+import { TRANSFORM_KINDS, validateTransformSteps } from '@/lib/utils/transform-engine';
+import { EXPRESSION_FUNCTIONS, parseExpression } from '@/lib/utils/transform-expression';
+import type { EncodingAggregate, EncodingFilterOp } from '@/lib/types/encoding-plan';
+import type { TransformKind, TransformStep } from '@/lib/types/transform';
+
+const KIND_LABELS: Record<TransformKind, string> = {
+  filter: 'Filter',
+  aggregate: 'Group & aggregate',
+  pivot: 'Pivot (long → wide)',
+  unpivot: 'Unpivot (wide → long)',
+  sort: 'Sort',
+  limit: 'Limit',
+  derive: 'Derived column',
+};
+
+const OP_LABELS: Record<EncodingFilterOp, string> = {
+  eq: '=', neq: '≠', gt: '>', gte: '≥', lt: '<', lte: '≤', in: 'in', contains: 'contains',
+};
+
+const inputClass = 'w-full min-w-0 px-2 py-1 rounded-md bg-surface-0 border border-edge text-[11px] text-ink placeholder:text-ink-faint/50 focus:outline-none focus:border-accent/40 transition-colors';
+const selectClass = 'px-1.5 py-1 rounded-md bg-surface-0 border border-edge text-[11px] text-ink focus:outline-none focus:border-accent/40';
+
+interface TransformPanelProps {
+  transforms: TransformStep[];
+  /** Column names offered as suggestions — the source columns plus any the steps create. */
+  columns: string[];
+  /** Apply the steps to the stored chart; resolves true when the chart was rebuilt. */
+  onApply: (transforms: TransformStep[]) => Promise<boolean>;
+  /** Set when the chart isn't stored yet, so steps can't be applied. */
+  disabledReason?: string;
+}
+
+function defaultStep(kind: TransformKind): TransformStep {
+  switch (kind) {
+    case 'filter': return { kind, filters: [{ column: '', op: 'eq', value: '' }] };
+    case 'aggregate': return { kind, groupBy: [], measures: [{ column: '', aggregate: 'sum', as: '' }] };
+    case 'pivot': return { kind, index: [], columns: '', values: '', aggregate: 'sum' };
+    case 'unpivot': return { kind, columns: [], key: 'Measure', value: 'Value' };
+    case 'sort': return { kind, by: [{ column: '', direction: 'desc' }] };
+    case 'limit': return { kind, count: 10 };
+    case 'derive': return { kind, as: '', expression: '' };
+  }
+}
+
+const splitList = (text: string) => text.split(',').map(s => s.trimStart());
+
+/** Drop the blank entries comma-list inputs leave behind while typing. */
+function normalize(steps: TransformStep[]): TransformStep[] {
+  const clean = (list: string[]) => list.map(s => s.trim()).filter(Boolean);
+  return steps.map(step => {
+    if (step.kind === 'aggregate') return { ...step, groupBy: clean(step.groupBy) };
+    if (step.kind === 'pivot') return { ...step, index: clean(step.index) };
+    if (step.kind === 'unpivot') return { ...step, columns: clean(step.columns) };
+    if (step.kind === 'filter') {
+      return {
+        ...step,
+        filters: step.filters.map(f => ({ ...f, value: f.op === 'in' ? clean(String(f.value).split(',')) : f.value })),
+      };
+    }
+    return step;
+  });
+}
+
+/**
+ * Step-by-step editor for a chart's transform recipe. Edits stay local until
+ * Apply, which rebuilds the chart from its rows — so a half-written step
+ * never touches the stored chart.
+ */
+export default function TransformPanel({ transforms, columns, onApply, disabledReason }: TransformPanelProps) {
+  const [draft, setDraft] = useState<TransformStep[]>(transforms);
+  const [applying, setApplying] = useState(false);
+  const [newKind, setNewKind] = useState<TransformKind>('filter');
+
+  const normalized = normalize(draft);
+  const errors = validateTransformSteps(normalized);
+  const dirty = JSON.stringify(normalized) !== JSON.stringify(transforms);
+  const listId = 'transform-columns';
+
+  const update = (index: number, step: TransformStep) => setDraft(d => d.map((s, i) => (i === index ? step : s)));
+  const remove = (index: number) => setDraft(d => d.filter((_, i) => i !== index));
+  const move = (index: number, delta: number) => setDraft(d => {
+    const target = index + delta;
+    if (target < 0 || target >= d.length) return d;
+    const next = [...d];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  });
+
+  const apply = async () => {
+    setApplying(true);
+    try {
+      const ok = await onApply(normalized);
+      if (ok) setDraft(normalized);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const created = draft.flatMap(s =>
+    s.kind === 'derive' ? [s.as]
+      : s.kind === 'aggregate' ? s.measures.map(m => m.as)
+      : s.kind === 'unpivot' ? [s.key, s.value]
+      : []
+  );
+  const suggestions = [...new Set([...columns, ...created.filter(Boolean)])];
+
+  return (
+    <div className="flex flex-col h-full">
+      <datalist id={listId}>
+        {suggestions.map(c => <option key={c} value={c} />)}
+      </datalist>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-2.5">
+        <p className="text-[10px] text-ink-faint leading-relaxed">
+          Steps run in order over the dataset before the chart is built, so they re-apply on every refresh.
+          The chart&apos;s columns refer to the last step&apos;s output.
+        </p>
+
+        {draft.length === 0 && (
+          <p className="text-[11px] text-ink-muted text-center py-4">No steps — the chart reads the raw rows.</p>
+        )}
+
+        {draft.map((step, i) => (
+          <div key={i} className="rounded-lg bg-surface-2 border border-edge p-2.5 space-y-2">
+            <div className="flex items-center gap-1.5">
+              <span className="text-[10px] font-semibold text-ink-faint tabular-nums">{i + 1}</span>
+              <span className="flex-1 text-[11px] font-semibold text-ink-muted">{KIND_LABELS[step.kind]}</span>
+              <IconBtn title="Move up" onClick={() => move(i, -1)} disabled={i === 0}><ArrowUp size={11} /></IconBtn>
+              <IconBtn title="Move down" onClick={() => move(i, 1)} disabled={i === draft.length - 1}><ArrowDown size={11} /></IconBtn>
+              <IconBtn title="Remove step" onClick={() => remove(i)} danger><Trash2 size={11} /></IconBtn>
+            </div>
+            <StepFields step={step} listId={listId} onChange={s => update(i, s)} />
+          </div>
+        ))}
+
+        <div className="flex gap-1.5">
+          <select value={newKind} onChange={e => setNewKind(e.target.value as TransformKind)} className={`${selectClass} flex-1`}>
+            {TRANSFORM_KINDS.map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+          </select>
+          <button
+            onClick={() => setDraft(d => [...d, defaultStep(newKind)])}
+            className="flex items-center gap-1 px-2.5 py-1 rounded-md text-[11px] font-medium border border-edge text-ink-muted hover:bg-surface-3 transition-colors"
+          >
+            <Plus size={11} /> Add step
+          </button>
+        </div>
+      </div>
+
+      <div className="shrink-0 p-3 border-t border-edge space-y-2">
+        {dirty && errors.length > 0 && (
+          <p className="text-[10px] text-danger leading-relaxed line-clamp-3" title={errors.join('\n')}>{errors[0]}</p>
+        )}
+        {disabledReason && <p className="text-[10px] text-ink-faint">{disabledReason}</p>}
+        <div className="flex gap-1.5">
+          <button
+            onClick={() => setDraft(transforms)}
+            disabled={!dirty || applying}
+            className="flex items-center justify-center gap-1 px-2.5 py-1.5 rounded-lg text-[11px] font-medium border border-edge text-ink-muted hover:bg-surface-3 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <RotateCcw size={11} /> Reset
+          </button>
+          <button
+            onClick={apply}
+            disabled={!dirty || errors.length > 0 || applying || Boolean(disabledReason)}
+            className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-xs font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            style={{ background: 'var(--color-accent)', color: 'var(--color-surface-0)' }}
+          >
+            <Check size={12} /> {applying ? 'Applying…' : 'Apply steps'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function IconBtn({ title, onClick, disabled, danger, children }: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  danger?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      aria-label={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={`w-5 h-5 rounded flex items-center justify-center text-ink-faint transition-colors disabled:opacity-30 ${danger ? 'hover:text-danger' : 'hover:text-ink'}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <label className="block text-[10px] font-semibold text-ink-faint uppercase tracking-wide">{label}</label>
+      {children}
+    </div>
+  );
+}
+
+function AggregateSelect({ value, onChange }: { value: EncodingAggregate; onChange: (a: EncodingAggregate) => void }) {
+  return (
+    <select value={value} onChange={e => onChange(e.target.value as EncodingAggregate)} className={selectClass}>
+      {AGGREGATES.map(a => <option key={a} value={a}>{a}</option>)}
+    </select>
+  );
+}
+
+function StepFields({ step, listId, onChange }: { step: TransformStep; listId: string; onChange: (step: TransformStep) => void }) {
+  const column = (value: string, set: (v: string) => void, placeholder = 'Column') => (
+    <input list={listId} value={value} placeholder={placeholder} onChange={e => set(e.target.value)} className={inputClass} />
+  );
+  const columnList = (value: string[], set: (v: string[]) => void, placeholder: string) => (
+    <input list={listId} value={value.join(', ')} placeholder={placeholder} onChange={e => set(splitList(e.target.value))} className={inputClass} />
+  );
+
+  switch (step.kind) {
+    case 'filter':
+      return (
+        <div className="space-y-1.5">
+          {step.filters.map((f, j) => {
+            const set = (patch: Partial<typeof f>) => onChange({ ...step, filters: step.filters.map((g, k) => (k === j ? { ...g, ...patch } : g)) });
+            return (
+              <div key={j} className="flex items-center gap-1">
+                {column(f.column, v => set({ column: v }))}
+                <select value={f.op} onChange={e => set({ op: e.target.value as EncodingFilterOp })} className={selectClass}>
+                  {FILTER_OPS.map(op => <option key={op} value={op}>{OP_LABELS[op]}</option>)}
+                </select>
+                <input
+                  value={Array.isArray(f.value) ? f.value.join(', ') : String(f.value)}
+                  placeholder={f.op === 'in' ? 'a, b, c' : 'Value'}
+                  onChange={e => set({ value: e.target.value })}
+                  className={inputClass}
+                />
+                {step.filters.length > 1 && (
+                  <IconBtn title="Remove condition" onClick={() => onChange({ ...step, filters: step.filters.filter((_, k) => k !== j) })} danger>
+                    <Trash2 size={10} />
+                  </IconBtn>
+                )}
+              </div>
+            );
+          })}
+          <AddRow label="Condition" onClick={() => onChange({ ...step, filters: [...step.filters, { column: '', op: 'eq', value: '' }] })} />
+        </div>
+      );
+
+    case 'aggregate':
+      return (
+        <div className="space-y-1.5">
+          <Field label="Group by">{columnList(step.groupBy, v => onChange({ ...step, groupBy: v }), 'Region, Year (blank for one total row)')}</Field>
+          <Field label="Measures">
+            <div className="space-y-1">
+              {step.measures.map((m, j) => {
+                const set = (patch: Partial<typeof m>) => onChange({ ...step, measures: step.measures.map((n, k) => (k === j ? { ...n, ...patch } : n)) });
+                return (
+                  <div key={j} className="flex items-center gap-1">
+                    <AggregateSelect value={m.aggregate} onChange={a => set({ aggregate: a })} />
+                    {m.aggregate !== 'count' && column(m.column ?? '', v => set({ column: v }))}
+                    <input value={m.as} placeholder="As" onChange={e => set({ as: e.target.value })} className={inputClass} />
+                    {step.measures.length > 1 && (
+                      <IconBtn title="Remove measure" onClick={() => onChange({ ...step, measures: step.measures.filter((_, k) => k !== j) })} danger>
+                        <Trash2 size={10} />
+                      </IconBtn>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </Field>
+          <AddRow label="Measure" onClick={() => onChange({ ...step, measures: [...step.measures, { column: '', aggregate: 'sum', as: '' }] })} />
+        </div>
+      );
+
+    case 'pivot':
+      return (
+        <div className="space-y-1.5">
+          <Field label="Rows (index)">{columnList(step.index, v => onChange({ ...step, index: v }), 'Region')}</Field>
+          <Field label="New columns from">{column(step.columns, v => onChange({ ...step, columns: v }), 'Quarter')}</Field>
+          <Field label="Cell values">
+            <div className="flex items-center gap-1">
+              <AggregateSelect value={step.aggregate} onChange={a => onChange({ ...step, aggregate: a })} />
+              {column(step.values, v => onChange({ ...step, values: v }), 'Revenue')}
+            </div>
+          </Field>
+        </div>
+      );
+
+    case 'unpivot':
+      return (
+        <div className="space-y-1.5">
+          <Field label="Columns to stack">{columnList(step.columns, v => onChange({ ...step, columns: v }), 'Q1, Q2, Q3, Q4')}</Field>
+          <div className="flex gap-1.5">
+            <Field label="Name column"><input value={step.key} onChange={e => onChange({ ...step, key: e.target.value })} className={inputClass} /></Field>
+            <Field label="Value column"><input value={step.value} onChange={e => onChange({ ...step, value: e.target.value })} className={inputClass} /></Field>
+          </div>
+        </div>
+      );
+
+    case 'sort':
+      return (
+        <div className="space-y-1.5">
+          {step.by.map((key, j) => {
+            const set = (patch: Partial<typeof key>) => onChange({ ...step, by: step.by.map((k, n) => (n === j ? { ...k, ...patch } : k)) });
+            return (
+              <div key={j} className="flex items-center gap-1">
+                {column(key.column, v => set({ column: v }))}
+                <select value={key.direction} onChange={e => set({ direction: e.target.value as 'asc' | 'desc' })} className={selectClass}>
+                  <option value="asc">asc</option>
+                  <option value="desc">desc</option>
+                </select>
+                {step.by.length > 1 && (
+                  <IconBtn title="Remove sort key" onClick={() => onChange({ ...step, by: step.by.filter((_, n) => n !== j) })} danger>
+                    <Trash2 size={10} />
+                  </IconBtn>
+                )}
+              </div>
+            );
+          })}
+          <AddRow label="Then by" onClick={() => onChange({ ...step, by: [...step.by, { column: '', direction: 'asc' }] })} />
+        </div>
+      );
+
+    case 'limit':
+      return (
+        <Field label="Keep first N rows">
+          <input
+            type="number"
+            min={1}
+            value={Number.isFinite(step.count) ? step.count : ''}
+            onChange={e => onChange({ ...step, count: Math.floor(Number(e.target.value)) })}
+            className={inputClass}
+          />
+        </Field>
+      );
+
+    case 'derive': {
+      const parsed = step.expression.trim() ? parseExpression(step.expression) : null;
+      return (
+        <div className="space-y-1.5">
+          <Field label="New column">
+            <input value={step.as} placeholder="e.g. YoY %" onChange={e => onChange({ ...step, as: e.target.value })} className={inputClass} />
+          </Field>
+          <Field label="Expression">
+            <textarea
+              value={step.expression}
+              rows={2}
+              spellCheck={false}
+              placeholder="([Revenue] - lag([Revenue])) / lag([Revenue]) * 100"
+              onChange={e => onChange({ ...step, expression: e.target.value })}
+              className={`${inputClass} font-mono resize-y`}
+            />
+          </Field>
+          {parsed && !parsed.ok
+            ? <p className="text-[10px] text-danger">{parsed.error}</p>
+            : <p className="text-[10px] text-ink-faint leading-relaxed" title={EXPRESSION_FUNCTIONS.join(', ')}>[Column], + − × ÷, comparisons, and/or, if(), round(), lag() …</p>}
+        </div>
+      );
+    }
+  }
+}
+
+function AddRow({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <button onClick={onClick} className="flex items-center gap-1 text-[10px] font-medium text-accent hover:text-accent-hover transition-colors">
+      <Plus size={10} /> {label}
+    </button>
+  );
+}
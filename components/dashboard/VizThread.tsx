@@ -1,18 +1,24 @@
 'use client';
 
-import { useRef, useEffect, useState, memo } from 'react';
+import { useRef, useEffect, useState, useMemo, memo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'sonner';
 import {
   Plus, Sparkles, ArrowUp, CheckCircle2, Paperclip, Loader2, LayoutGrid, Sigma, Trash2,
-  TrendingUp, FlaskConical, ClipboardList, Workflow, Megaphone, Wallet, Activity, Target,
+  TrendingUp, FlaskConical, ClipboardList, Workflow, Megaphone, Wallet, Activity, Target, GitBranch,
 } from 'lucide-react';
 import { getChartTypeInfo } from '@/lib/utils/series-icon';
 import type { VisualizationSpec } from '@/lib/types/echarts-spec';
 import type { FileAttachment } from '@/lib/utils/file-attachment';
-import { ATTACHMENT_ACCEPT } from '@/lib/utils/file-attachment';
+import { ATTACHMENT_ACCEPT, buildPastedAttachment } from '@/lib/utils/file-attachment';
+import { parseClipboardTable } from '@/lib/utils/clipboard-table';
 import type { ChartSelection } from '@/lib/utils/chart-types';
 import type { StatTestResult, StatTestSelection, DatasetColumn } from '@/lib/types/statistics';
 import type { LiveSheetData } from '@/lib/utils/live-sheet';
+import type { DatasetSource } from '@/lib/types/encoding-plan';
+import type { ForkOrigin, LiveDataConfig, VisualizationSchedule } from '@/lib/types/visualization';
+import type { AlertRule } from '@/lib/types/alert';
+import { hasLiveSource } from '@/lib/utils/live-source';
 import { STARTER_TEMPLATES, type StarterTemplate } from '@/lib/utils/starter-templates';
 import AttachmentChip from '@/components/dashboard/AttachmentChip';
 import ChartTypeChip from '@/components/dashboard/ChartTypeChip';
@@ -37,7 +43,7 @@ export interface ThreadEntry {
   prompt: string;
   spec: VisualizationSpec;
   title: string;
-  chatHistory: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date | string }>;
+  chatHistory: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date | string; changes?: string[]; revision?: number }>;
   vizId: string | null;
   isSaved: boolean;
   isPublic?: boolean;
@@ -48,35 +54,69 @@ export interface ThreadEntry {
     aiModel?: string;
     fromCache?: boolean;
   };
-  liveData?: {
-    url: string;
-    interval: number;
-    lastRefreshed?: string;
-  };
-  schedule?: {
-    enabled: boolean;
-    dayOfWeek: number;
-    lastSentAt?: string;
-  };
+  liveData?: LiveDataConfig;
+  schedule?: VisualizationSchedule;
+  alerts?: AlertRule[];
   /**
    * The dataset behind the attachment/live sheet this chart was generated
    * from, kept with the thread so the "Test" button stays available for the
    * rest of the session — not just while that attachment is still the active
-   * composer state. Not persisted to the DB (re-derived via `liveData.url`
-   * for live threads after reload; unavailable for plain attachments).
+   * composer state. Not persisted to the DB (re-derived from `liveData` or
+   * the library dataset after reload; unavailable for plain attachments).
    */
   datasetColumns?: DatasetColumn[];
   datasetRowCount?: number;
+  /**
+   * Uploaded rows the chart was generated from — sent with each edit so the
+   * server can re-verify the edited numbers — or, for a chart built from the
+   * dataset library, a reference the server loads the rows from. Only the
+   * library reference survives a reload; live threads are re-verified against
+   * `liveData` server-side instead.
+   */
+  dataset?: DatasetSource;
   /** Client-only undo stack — spec snapshots taken before each successful AI edit. Not persisted. */
   specHistory?: VisualizationSpec[];
   /** True for the hardcoded example chart shown on first visit. Cleared when the user edits it. */
   isDemoThread?: boolean;
+  /** Set on branches — the sidebar nests this thread under the one whose `vizId` it names. */
+  forkedFrom?: ForkOrigin;
+}
+
+/**
+ * Sidebar order: each branch directly under its parent, indented by depth.
+ * A branch whose parent isn't loaded (deleted or expired) shows as a root.
+ */
+function toBranchTree(threads: ThreadEntry[]): Array<{ entry: ThreadEntry; depth: number }> {
+  const vizIds = new Set(threads.map(t => t.vizId).filter(Boolean));
+  const children = new Map<string, ThreadEntry[]>();
+  const roots: ThreadEntry[] = [];
+  for (const t of threads) {
+    const parentId = t.forkedFrom?.visualizationId;
+    if (parentId && parentId !== t.vizId && vizIds.has(parentId)) {
+      children.set(parentId, [...(children.get(parentId) ?? []), t]);
+    } else {
+      roots.push(t);
+    }
+  }
+
+  const ordered: Array<{ entry: ThreadEntry; depth: number }> = [];
+  const seen = new Set<string>();
+  const visit = (entry: ThreadEntry, depth: number) => {
+    if (seen.has(entry.id)) return;
+    seen.add(entry.id);
+    ordered.push({ entry, depth });
+    for (const child of entry.vizId ? children.get(entry.vizId) ?? [] : []) visit(child, depth + 1);
+  };
+  roots.forEach(r => visit(r, 0));
+  // Anything left is part of a parent cycle — show it flat rather than drop it.
+  threads.forEach(t => visit(t, 0));
+  return ordered;
 }
 
 /* ── Thread card ── */
-const ThreadCard = memo(function ThreadCard({ entry, active, onClick, onDelete }: { entry: ThreadEntry; active: boolean; onClick: () => void; onDelete: (id: string) => void }) {
+const ThreadCard = memo(function ThreadCard({ entry, depth, active, onClick, onDelete }: { entry: ThreadEntry; depth: number; active: boolean; onClick: () => void; onDelete: (id: string) => void }) {
   const editCount = entry.chatHistory.filter(m => m.role === 'user').length;
-  const isLive = Boolean(entry.liveData?.url);
+  const isLive = hasLiveSource(entry.liveData);
   const { Icon: ChartIcon } = getChartTypeInfo(entry.spec.option);
 
   return (
@@ -96,6 +136,8 @@ const ThreadCard = memo(function ThreadCard({ entry, active, onClick, onDelete }
       }}
       className="w-full text-left rounded-xl p-3 transition-colors relative group overflow-hidden cursor-pointer"
       style={{
+        marginLeft: Math.min(depth, 3) * 14,
+        width: `calc(100% - ${Math.min(depth, 3) * 14}px)`,
         background: active ? 'oklch(72% 0.13 55 / 0.08)' : 'transparent',
         border: `1px solid ${active ? 'oklch(72% 0.13 55 / 0.3)' : 'var(--color-edge)'}`,
       }}
@@ -135,6 +177,12 @@ const ThreadCard = memo(function ThreadCard({ entry, active, onClick, onDelete }
           <p className="text-[12px] text-ink-muted font-medium leading-snug line-clamp-2">
             {entry.title}
           </p>
+          {entry.forkedFrom && (
+            <p className="text-[10px] text-ink-faint/70 mt-1 flex items-center gap-1">
+              <GitBranch size={9} className="shrink-0" />
+              {entry.forkedFrom.turnIndex !== undefined ? `Branched at turn ${entry.forkedFrom.turnIndex + 1}` : 'Forked from a revision'}
+            </p>
+          )}
           {editCount > 0 && (
             <p className="text-[10px] text-ink-faint/70 mt-1">
               {editCount} refinement{editCount > 1 ? 's' : ''}
@@ -179,6 +227,8 @@ interface ThreadInputProps {
   attaching: boolean;
   onAttach: (file: File) => void;
   onRemoveAttachment: () => void;
+  onChangeAttachment: (attachment: FileAttachment) => void;
+  onSaveAttachment?: () => Promise<void>;
   chartType: ChartSelection | null;
   onChooseChartType: (selection: ChartSelection) => void;
   onClearChartType: () => void;
@@ -188,14 +238,15 @@ interface ThreadInputProps {
   liveSheet: LiveSheetData | null;
   onConnectLiveSheet: (data: LiveSheetData) => void;
   onDisconnectLiveSheet: () => void;
+  onSaveLiveSheet?: () => Promise<boolean>;
 }
 
 function ThreadInput({
   input, setInput, onSubmit, loading,
-  attachment, attaching, onAttach, onRemoveAttachment,
+  attachment, attaching, onAttach, onRemoveAttachment, onChangeAttachment, onSaveAttachment,
   chartType, onChooseChartType, onClearChartType,
   statRun, onRunStat, onClearStat,
-  liveSheet, onConnectLiveSheet, onDisconnectLiveSheet,
+  liveSheet, onConnectLiveSheet, onDisconnectLiveSheet, onSaveLiveSheet,
 }: ThreadInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -217,31 +268,23 @@ function ThreadInput({
     if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); onSubmit(e); }
   };
 
+  // Spreadsheet ranges and web tables become a real attachment instead of
+  // raw text — the HTML flavour when present, tab-separated text otherwise.
   const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
     if (!canAttach) return;
-    const text = e.clipboardData.getData('text');
-    if (!text) return;
-    const lines = text.trim().split('\n');
-    if (lines.length < 2) return;
-    const tabs = lines[0].split('\t').length;
-    const commas = lines[0].split(',').length;
-    const isTabular = (tabs > 1 && lines.every(l => l.split('\t').length === tabs))
-      || (commas > 1 && lines.every(l => l.split(',').length === commas));
-    if (!isTabular) return;
-    e.preventDefault();
-    const sep = tabs > 1 ? '\t' : ',';
-    const rows: Record<string, string>[] = [];
-    const headers = lines[0].split(sep).map(h => h.trim().replace(/^"|"$/g, ''));
-    for (const line of lines.slice(1)) {
-      if (!line.trim()) continue;
-      const vals = line.split(sep).map(v => v.trim().replace(/^"|"$/g, ''));
-      const row: Record<string, string> = {};
-      headers.forEach((h, i) => { row[h] = vals[i] ?? ''; });
-      rows.push(row);
+    const table = parseClipboardTable({
+      html: e.clipboardData.getData('text/html'),
+      text: e.clipboardData.getData('text/plain'),
+    });
+    if (!table) return;
+    const { attachment: pasted, error } = buildPastedAttachment(table);
+    if (!pasted) {
+      if (error) toast.error(error);
+      return;
     }
-    const csvContent = [headers.join(','), ...rows.map(r => headers.map(h => JSON.stringify(r[h] ?? '')).join(','))].join('\n');
-    const file = new File([csvContent], 'pasted-data.csv', { type: 'text/csv' });
-    onAttach(file);
+    e.preventDefault();
+    onChangeAttachment(pasted);
+    toast.success(`Pasted ${pasted.rowCount?.toLocaleString() ?? 0} rows as a table`);
   };
 
   const handleFilePick = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -271,8 +314,8 @@ function ThreadInput({
     >
       {(attachment || chartType || statRun || liveSheet) && (
         <div className="px-3 pt-3 flex flex-wrap gap-1.5">
-          {attachment && <AttachmentChip attachment={attachment} onRemove={onRemoveAttachment} />}
-          {liveSheet && <LiveSheetChip sheet={liveSheet} onRemove={onDisconnectLiveSheet} />}
+          {attachment && <AttachmentChip attachment={attachment} onRemove={onRemoveAttachment} onChange={onChangeAttachment} onSaveDataset={onSaveAttachment} />}
+          {liveSheet && <LiveSheetChip sheet={liveSheet} onRemove={onDisconnectLiveSheet} onSaveDataset={onSaveLiveSheet} />}
           {chartType && <ChartTypeChip selection={chartType} onRemove={onClearChartType} />}
           {statRun && (
             <StatTestChip
@@ -304,7 +347,7 @@ function ThreadInput({
         <input ref={fileInputRef} type="file" accept={ATTACHMENT_ACCEPT} onChange={handleFilePick} className="hidden" />
         <button
           type="button"
-          title="Attach a data file (CSV, JSON, TXT)"
+          title="Attach a data file (CSV, JSON, XLSX, PDF, TXT)"
           onClick={() => fileInputRef.current?.click()}
           disabled={!canAttach}
           className="w-7 h-7 rounded-lg flex items-center justify-center text-ink-faint hover:text-ink hover:bg-surface-3 transition-colors disabled:opacity-35 disabled:hover:bg-transparent"
@@ -396,6 +439,8 @@ export interface VizThreadProps {
   attaching: boolean;
   onAttach: (file: File) => void;
   onRemoveAttachment: () => void;
+  onChangeAttachment: (attachment: FileAttachment) => void;
+  onSaveAttachment?: () => Promise<void>;
   chartType: ChartSelection | null;
   onChooseChartType: (selection: ChartSelection) => void;
   onClearChartType: () => void;
@@ -405,6 +450,7 @@ export interface VizThreadProps {
   liveSheet: LiveSheetData | null;
   onConnectLiveSheet: (data: LiveSheetData) => void;
   onDisconnectLiveSheet: () => void;
+  onSaveLiveSheet?: () => Promise<boolean>;
   onDelete: (id: string) => void;
   onUseTemplate: (template: StarterTemplate) => void;
 }
@@ -412,13 +458,14 @@ export interface VizThreadProps {
 export default function VizThread({
   threads, activeId, onSelect, onNew, loading, loadingPrompt,
   input, setInput, onSubmit,
-  attachment, attaching, onAttach, onRemoveAttachment,
+  attachment, attaching, onAttach, onRemoveAttachment, onChangeAttachment, onSaveAttachment,
   chartType, onChooseChartType, onClearChartType,
   statRun, onRunStat, onClearStat,
-  liveSheet, onConnectLiveSheet, onDisconnectLiveSheet,
+  liveSheet, onConnectLiveSheet, onDisconnectLiveSheet, onSaveLiveSheet,
   onDelete, onUseTemplate,
 }: VizThreadProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const tree = useMemo(() => toBranchTree(threads), [threads]);
 
   useEffect(() => {
     if (threads.length > 0 || loading) {
@@ -487,10 +534,11 @@ export default function VizThread({
         )}
 
         <AnimatePresence mode="popLayout">
-          {threads.map(entry => (
+          {tree.map(({ entry, depth }) => (
             <ThreadCard
               key={entry.id}
               entry={entry}
+              depth={depth}
               active={entry.id === activeId}
               onClick={() => onSelect(entry.id)}
               onDelete={onDelete}
@@ -512,6 +560,8 @@ export default function VizThread({
           attaching={attaching}
           onAttach={onAttach}
           onRemoveAttachment={onRemoveAttachment}
+          onChangeAttachment={onChangeAttachment}
+          onSaveAttachment={onSaveAttachment}
           chartType={chartType}
           onChooseChartType={onChooseChartType}
           onClearChartType={onClearChartType}
@@ -521,6 +571,7 @@ export default function VizThread({
           liveSheet={liveSheet}
           onConnectLiveSheet={onConnectLiveSheet}
           onDisconnectLiveSheet={onDisconnectLiveSheet}
+          onSaveLiveSheet={onSaveLiveSheet}
         />
       </div>
     </div>
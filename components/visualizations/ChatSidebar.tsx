@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState, useRef, useEffect } from "react";
-import { Send, Loader2, Bot, User, Paperclip } from "lucide-react";
+import { Send, Loader2, Bot, User, Paperclip, GitBranch } from "lucide-react";
 import { motion } from "framer-motion";
 import { toast } from "sonner";
 import AttachmentChip from "@/components/dashboard/AttachmentChip";
@@ -16,12 +16,18 @@ interface Message {
   role: "user" | "assistant";
   content: string;
   timestamp: Date | string;
+  /** Per-operation summary of what an edit changed (assistant turns only). */
+  changes?: string[];
+  /** Revision the edit produced (assistant turns only). */
+  revision?: number;
 }
 
 interface ChatSidebarProps {
   initialHistory?: Message[];
   onSendMessage: (message: string) => Promise<void>;
   isProcessing: boolean;
+  /** Fork a new thread from the assistant turn at this index. Omit to hide the "Branch" action. */
+  onBranchFromTurn?: (turnIndex: number) => Promise<void>;
 }
 
 const SUGGESTIONS = [
@@ -35,8 +41,10 @@ export default function ChatSidebar({
   initialHistory = [],
   onSendMessage,
   isProcessing,
+  onBranchFromTurn,
 }: ChatSidebarProps) {
   const [input, setInput] = useState("");
+  const [branchingAt, setBranchingAt] = useState<number | null>(null);
   const [attachment, setAttachment] = useState<FileAttachment | null>(null);
   const [attaching, setAttaching] = useState(false);
   const [dragActive, setDragActive] = useState(false);
@@ -86,6 +94,16 @@ export default function ChatSidebar({
 
   const send = (text: string) => onSendMessage(text);
 
+  const branch = async (turnIndex: number) => {
+    if (!onBranchFromTurn || branchingAt !== null) return;
+    setBranchingAt(turnIndex);
+    try {
+      await onBranchFromTurn(turnIndex);
+    } finally {
+      setBranchingAt(null);
+    }
+  };
+
   return (
     <div className="flex flex-col h-full bg-surface-1">
       {/* Header */}
@@ -146,7 +164,25 @@ export default function ChatSidebar({
                   : "bg-surface-2 border-edge text-ink-muted rounded-tl-sm"
               }`}>
                 <p className="whitespace-pre-wrap">{msg.content}</p>
-                <div className="text-[9px] text-ink-faint/70 mt-1 flex justify-end">
+                {msg.changes && msg.changes.length > 0 && (
+                  <ul className="mt-1.5 pt-1.5 border-t border-edge space-y-0.5">
+                    {msg.changes.map((change, i) => (
+                      <li key={i} className="font-mono text-[10.5px] text-ink-faint break-all">{change}</li>
+                    ))}
+                  </ul>
+                )}
+                <div className="text-[9px] text-ink-faint/70 mt-1 flex items-center justify-end gap-2">
+                  {msg.role === "assistant" && onBranchFromTurn && (
+                    <button
+                      onClick={() => branch(idx)}
+                      disabled={isProcessing || branchingAt !== null}
+                      title="Fork a new thread from this point in the conversation"
+                      className="mr-auto flex items-center gap-1 text-ink-faint hover:text-accent transition-colors disabled:opacity-40"
+                    >
+                      {branchingAt === idx ? <Loader2 size={9} className="animate-spin" /> : <GitBranch size={9} />}
+                      Branch
+                    </button>
+                  )}
                   {new Date(msg.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
                 </div>
               </div>
@@ -184,7 +220,7 @@ export default function ChatSidebar({
         >
           {attachment && (
             <div className="px-3 pt-3">
-              <AttachmentChip attachment={attachment} onRemove={() => setAttachment(null)} />
+              <AttachmentChip attachment={attachment} onRemove={() => setAttachment(null)} onChange={setAttachment} />
             </div>
           )}
           <input
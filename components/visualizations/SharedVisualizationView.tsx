@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { Sparkles, Copy, Check, Code2, ExternalLink } from 'lucide-react';
 import type { SavedVisualization } from '@/lib/types/visualization';
 import EChartsRenderer from '@/components/visualizations/EChartsRenderer';
+import VerificationBadge from '@/components/visualizations/VerificationBadge';
 import { getChartTypeInfo } from '@/lib/utils/series-icon';
 import { toast } from 'sonner';
 
@@ -46,6 +47,9 @@ export default function SharedVisualizationView({ visualization }: { visualizati
             <ChartIcon size={11} className="text-accent" />
             <span className="text-[11px] font-semibold text-accent">{chartLabel}</span>
           </div>
+          {visualization.spec.verification && (
+            <VerificationBadge verification={visualization.spec.verification} align="right" className="hidden sm:block" />
+          )}
 
           {/* Embed code button */}
           <button
@@ -0,0 +1,57 @@
+'use client';
+
+import { ShieldCheck, Sigma, ShieldAlert } from 'lucide-react';
+import type { DataVerification, VerificationStatus } from '@/lib/types/data-verification';
+
+const STATUS_STYLE: Record<VerificationStatus, { Icon: React.ElementType; label: string; text: string; surface: string }> = {
+  verified:     { Icon: ShieldCheck, label: 'Verified',     text: 'text-success', surface: 'bg-success/10 border-success/25' },
+  derived:      { Icon: Sigma,       label: 'Derived',      text: 'text-accent',  surface: 'bg-accent/8 border-accent/22' },
+  unverifiable: { Icon: ShieldAlert, label: 'Unverifiable', text: 'text-warning', surface: 'bg-warning/10 border-warning/25' },
+};
+
+/** Data-backing badge for a chart — hover/focus lists how each series was matched against the dataset. */
+export default function VerificationBadge({ verification, align = 'left', className = '' }: {
+  verification: DataVerification;
+  /** Which edge the details popover lines up with — `right` for badges near the right of a header. */
+  align?: 'left' | 'right';
+  className?: string;
+}) {
+  const { Icon, label, text, surface } = STATUS_STYLE[verification.status];
+
+  return (
+    <div className={`relative group shrink-0 ${className}`}>
+      <button
+        type="button"
+        aria-label={`Data ${label.toLowerCase()} — show details`}
+        className={`flex items-center gap-1.5 px-2 py-0.5 rounded-md border text-[11px] font-semibold ${text} ${surface}`}
+      >
+        <Icon size={11} />
+        <span className="hidden sm:inline">{label}</span>
+      </button>
+
+      <div
+        role="tooltip"
+        className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} top-full mt-1.5 z-30 w-72 p-3 rounded-lg bg-surface-1 border border-edge shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible group-focus-within:opacity-100 group-focus-within:visible transition-opacity`}
+      >
+        <p className="text-[11px] text-ink-muted leading-snug mb-2">
+          Checked against {verification.rowCount.toLocaleString()} rows
+          {verification.source && <> of <span className="text-ink break-all">{verification.source}</span></>}
+        </p>
+        <ul className="space-y-1.5">
+          {verification.series.map((s, i) => {
+            const { Icon: SeriesIcon, text: seriesText } = STATUS_STYLE[s.status];
+            return (
+              <li key={`${s.name}-${i}`} className="flex items-start gap-1.5 text-[11px] leading-snug">
+                <SeriesIcon size={11} className={`mt-0.5 shrink-0 ${seriesText}`} />
+                <span className="min-w-0">
+                  <span className="font-medium text-ink">{s.name}</span>
+                  <span className="text-ink-faint"> — {s.detail}</span>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { UserModel, VisualizationModel, UserUsageModel } from '@/lib/database/mo
 import { checkRole } from '@/lib/utils/roles'
 import { sanitizeError, validateObjectId, escapeRegex } from '@/lib/utils/validation'
 import { updateUserTier } from '@/lib/utils/tokens'
+import { purgeLegacySharedCache } from '@/lib/utils/cache'
 
 async function requireAdmin() {
   const isAdmin = await checkRole('admin')
@@ -344,6 +345,18 @@ export async function adminDeleteVisualization(
   }
 }
 
+// Generation-cache entries from before caching was scoped per user were
+// readable by everyone, data or not — this drops them.
+export async function adminPurgeLegacyCache(): Promise<{ success: boolean; deleted?: number; error?: string }> {
+  try {
+    await requireAdmin()
+    const deleted = await purgeLegacySharedCache()
+    return { success: true, deleted }
+  } catch (error) {
+    return { success: false, error: sanitizeError(error, 'Failed to purge cache') }
+  }
+}
+
 export async function getAdminVisualizations({
   page = 1,
   search = '',
@@ -8,10 +8,17 @@ import { DashboardModel, VisualizationModel } from '@/lib/database/models';
 import { validateObjectId, sanitizeError } from '@/lib/utils/validation';
 import { sanitizeVisualization, sanitizeForPublicShare } from '@/lib/utils/helpers';
 import { checkRateLimit } from '@/lib/utils/rate-limit';
-import { fetchAndParseSheet } from '@/lib/utils/sheet-fetch';
+import { fetchLiveSource } from '@/lib/services/live-source';
+import { describeLiveSource, hasLiveSource } from '@/lib/utils/live-source';
 import { refreshChartData } from '@/lib/utils/chart-data-refresh';
+import { verifyChartData } from '@/lib/utils/data-verifier';
+import { recordRevision } from '@/lib/utils/revisions';
+import { recordSnapshot } from '@/lib/utils/snapshots';
+import { dispatchChartAlerts } from '@/lib/services/alert-service';
+import { resolveSchedule, seedLastOccurrence, validateScheduleInput } from '@/lib/utils/schedule';
 import type { EChartsOption } from 'echarts';
 import type { Dashboard, DashboardLayoutItem, DashboardSchedule, DashboardVizSlot, DashboardWithVizzes } from '@/lib/types/dashboard';
+import type { ScheduleInput } from '@/lib/types/schedule';
 
 const MAX_SLOTS = 12;
 
@@ -39,6 +46,9 @@ interface RawLayoutItem {
 
 interface RawSchedule {
   enabled?: unknown;
+  rrule?: unknown;
+  timezone?: unknown;
+  lastOccurrence?: unknown;
   dayOfWeek?: unknown;
   lastSentAt?: unknown;
 }
@@ -52,7 +62,12 @@ function sanitizeSchedule(raw: unknown): DashboardSchedule | undefined {
   if (typeof s.enabled !== 'boolean') return undefined;
   return {
     enabled: s.enabled,
-    dayOfWeek: typeof s.dayOfWeek === 'number' ? s.dayOfWeek : 1,
+    ...resolveSchedule({
+      rrule: typeof s.rrule === 'string' ? s.rrule : undefined,
+      timezone: typeof s.timezone === 'string' ? s.timezone : undefined,
+      dayOfWeek: typeof s.dayOfWeek === 'number' ? s.dayOfWeek : undefined,
+    }),
+    ...(typeof s.lastOccurrence === 'string' ? { lastOccurrence: s.lastOccurrence } : {}),
     ...(s.lastSentAt ? { lastSentAt: toIsoString(s.lastSentAt) } : {}),
   };
 }
@@ -217,8 +232,8 @@ export async function publishDashboard(id: string, isPublic: boolean) {
   }
 }
 
-/** Enable/disable and configure the weekly email digest for a dashboard. */
-export async function updateDashboardSchedule(id: string, schedule: { enabled: boolean; dayOfWeek: number }) {
+/** Enable/disable and configure the email digest schedule for a dashboard. */
+export async function updateDashboardSchedule(id: string, schedule: ScheduleInput) {
   try {
     const { userId } = await auth();
     if (!userId) return { success: false, error: 'Authentication required' };
@@ -226,15 +241,25 @@ export async function updateDashboardSchedule(id: string, schedule: { enabled: b
     const idValidation = validateObjectId(id);
     if (!idValidation.valid) return { success: false, error: idValidation.error };
 
-    if (!Number.isInteger(schedule.dayOfWeek) || schedule.dayOfWeek < 0 || schedule.dayOfWeek > 6) {
-      return { success: false, error: 'dayOfWeek must be between 0 and 6' };
-    }
+    const scheduleValidation = validateScheduleInput(schedule);
+    if (!scheduleValidation.valid) return { success: false, error: scheduleValidation.error };
 
     await connectToDatabase();
 
+    // Seeding the latest past occurrence keeps a just-saved rule from firing
+    // for one that passed moments before it was saved.
+    const lastOccurrence = seedLastOccurrence(schedule, new Date());
     const doc = await DashboardModel.findOneAndUpdate(
       { _id: id, userId },
-      { $set: { 'schedule.enabled': schedule.enabled, 'schedule.dayOfWeek': schedule.dayOfWeek } },
+      {
+        $set: {
+          'schedule.enabled': schedule.enabled,
+          'schedule.rrule': schedule.rrule,
+          'schedule.timezone': schedule.timezone,
+          ...(lastOccurrence ? { 'schedule.lastOccurrence': lastOccurrence } : {}),
+        },
+        $unset: { 'schedule.dayOfWeek': 1, ...(lastOccurrence ? {} : { 'schedule.lastOccurrence': 1 }) },
+      },
       { new: true }
     );
     if (!doc) return { success: false, error: 'Dashboard not found or unauthorized' };
@@ -319,27 +344,47 @@ export async function refreshDashboardVizLiveData(visualizationId: string) {
     const viz = await VisualizationModel.findOne({ _id: visualizationId, userId });
     if (!viz) return { success: false, error: 'Visualization not found or unauthorized' };
 
-    const url = viz.liveData?.url;
-    if (!url) return { success: false, error: 'This visualization has no connected live data source' };
+    const liveData = viz.liveData;
+    if (!liveData || !hasLiveSource(liveData)) return { success: false, error: 'This visualization has no connected live data source' };
 
-    const sheet = await fetchAndParseSheet(url);
+    const sheet = await fetchLiveSource(liveData, userId);
     if (!sheet.ok) return { success: false, error: sheet.error };
 
-    const result = refreshChartData(viz.spec.option as EChartsOption, sheet);
+    const result = refreshChartData(viz.spec.option as EChartsOption, sheet, viz.spec.encoding, viz.spec.transforms);
 
     if (!result.refreshed) {
       return { success: true, data: { refreshed: false, summary: result.summary } };
     }
 
     const lastRefreshed = new Date().toISOString();
+    const verification = verifyChartData(result.option, sheet.rows, describeLiveSource(liveData), viz.spec.encoding, viz.spec.transforms);
     await VisualizationModel.updateOne(
       { _id: visualizationId },
-      { $set: { 'spec.option': result.option, 'liveData.lastRefreshed': lastRefreshed } }
+      { $set: { 'spec.option': result.option, 'spec.verification': verification, 'liveData.lastRefreshed': lastRefreshed } }
     );
+    await recordRevision({
+      userId,
+      visualizationId,
+      spec: { ...viz.spec, option: result.option, verification },
+      action: 'live-refresh',
+      prompt: result.summary,
+      sessionExpiresAt: viz.sessionExpiresAt,
+    });
+    await recordSnapshot({
+      userId,
+      visualizationId,
+      option: result.option,
+      sheet,
+      trigger: 'manual',
+      summary: result.summary,
+      capturedAt: new Date(lastRefreshed),
+      sessionExpiresAt: viz.sessionExpiresAt,
+    });
+    await dispatchChartAlerts(viz, viz.spec.option as EChartsOption, result.option);
 
     return {
       success: true,
-      data: { refreshed: true, option: result.option, lastRefreshed, summary: result.summary },
+      data: { refreshed: true, option: result.option, verification, lastRefreshed, summary: result.summary },
     };
   } catch (error) {
     console.error(error);
@@ -0,0 +1,210 @@
+"use server";
+
+import * as Sentry from '@sentry/nextjs';
+import { auth } from "@clerk/nextjs/server";
+import { connectToDatabase } from "@/lib/database/mongodb";
+import { DataConnectionModel, VisualizationModel } from "@/lib/database/models";
+import { sanitizeError, validateObjectId } from "@/lib/utils/validation";
+import { checkRateLimit } from "@/lib/utils/rate-limit";
+import { encryptSecret, isSecretBoxConfigured } from "@/lib/utils/secret-box";
+import { isBlockedSheetUrl } from "@/lib/utils/outbound-fetch";
+import { parseConnectionUrl, runSqlQuery } from "@/lib/services/sql-source";
+import type { DataConnection, DataConnectionSummary } from "@/lib/types/data-connection";
+
+const MAX_CONNECTIONS = 20;
+
+// Headers an API credential may not set — they'd change how the request is
+// routed or framed rather than authenticate it.
+const RESERVED_HEADERS = new Set([
+  'host', 'cookie', 'content-length', 'content-type', 'transfer-encoding', 'connection',
+  'accept', 'accept-encoding', 'te', 'upgrade', 'expect', 'proxy-authorization',
+]);
+
+function toSummary(doc: DataConnection & { _id: unknown }): DataConnectionSummary {
+  return {
+    id: String(doc._id),
+    name: doc.name,
+    engine: doc.engine,
+    host: doc.host,
+    database: doc.database,
+    headerName: doc.headerName,
+    createdAt: new Date(doc.createdAt).toISOString(),
+  };
+}
+
+/**
+ * List the current user's saved database connections and API credentials —
+ * names and hosts only; the encrypted secrets are never selected.
+ */
+export async function listDataConnections(): Promise<{ success: boolean; data?: DataConnectionSummary[]; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    await connectToDatabase();
+    const docs = await DataConnectionModel.find({ userId }).sort({ createdAt: -1 }).lean();
+
+    return { success: true, data: docs.map(toSummary) };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to fetch database connections') };
+  }
+}
+
+/**
+ * Save a Postgres connection for use by SQL live sources. The connection is
+ * tried once (`SELECT 1`) before it's stored, and the connection string is
+ * encrypted at rest — use credentials for a read-only role.
+ */
+export async function createDataConnection(
+  name: string,
+  connectionUrl: string
+): Promise<{ success: boolean; data?: DataConnectionSummary; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const rl = await checkRateLimit(userId, 'save');
+    if (!rl.allowed) {
+      return { success: false, error: `Too many requests. Try again in ${rl.retryAfter ?? 60}s.` };
+    }
+
+    const trimmedName = typeof name === 'string' ? name.trim() : '';
+    if (!trimmedName || trimmedName.length > 80) return { success: false, error: 'Name must be 1–80 characters' };
+    if (typeof connectionUrl !== 'string') return { success: false, error: 'Invalid connection string' };
+
+    const parsed = parseConnectionUrl(connectionUrl);
+    if (!parsed.ok) return { success: false, error: parsed.error };
+
+    if (!isSecretBoxConfigured()) {
+      return { success: false, error: 'Database connections are not enabled on this server' };
+    }
+
+    await connectToDatabase();
+    const count = await DataConnectionModel.countDocuments({ userId });
+    if (count >= MAX_CONNECTIONS) {
+      return { success: false, error: `You can save up to ${MAX_CONNECTIONS} database connections` };
+    }
+
+    const probe = await runSqlQuery(connectionUrl.trim(), 'SELECT 1', []);
+    if (!probe.ok) return { success: false, error: probe.error };
+
+    const doc = await DataConnectionModel.create({
+      userId,
+      name: trimmedName,
+      engine: 'postgres',
+      encryptedUrl: encryptSecret(connectionUrl.trim()),
+      host: parsed.host,
+      database: parsed.database,
+    });
+
+    return { success: true, data: toSummary(doc.toObject()) };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to save database connection') };
+  }
+}
+
+/**
+ * Save an auth header for JSON API live sources. The header is bound to the
+ * host of `apiUrl` and is never sent anywhere else; its value is encrypted at
+ * rest. Unlike database connections there's no probe — the endpoint is
+ * fetched when a source using it is connected.
+ */
+export async function createApiCredential(
+  name: string,
+  apiUrl: string,
+  headerName: string,
+  headerValue: string
+): Promise<{ success: boolean; data?: DataConnectionSummary; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const rl = await checkRateLimit(userId, 'save');
+    if (!rl.allowed) {
+      return { success: false, error: `Too many requests. Try again in ${rl.retryAfter ?? 60}s.` };
+    }
+
+    const trimmedName = typeof name === 'string' ? name.trim() : '';
+    if (!trimmedName || trimmedName.length > 80) return { success: false, error: 'Name must be 1–80 characters' };
+
+    if (typeof apiUrl !== 'string' || isBlockedSheetUrl(apiUrl.trim())) {
+      return { success: false, error: 'Only HTTPS URLs to public APIs are allowed' };
+    }
+    const host = new URL(apiUrl.trim()).host;
+
+    const header = typeof headerName === 'string' ? headerName.trim() : '';
+    if (!/^[A-Za-z0-9-]{1,64}$/.test(header) || RESERVED_HEADERS.has(header.toLowerCase())) {
+      return { success: false, error: 'Header name must be a custom auth header such as Authorization or X-API-Key' };
+    }
+    if (typeof headerValue !== 'string' || !headerValue.trim() || headerValue.length > 4096 || /[\r\n]/.test(headerValue)) {
+      return { success: false, error: 'Header value must be a single line of up to 4096 characters' };
+    }
+
+    if (!isSecretBoxConfigured()) {
+      return { success: false, error: 'API credentials are not enabled on this server' };
+    }
+
+    await connectToDatabase();
+    const count = await DataConnectionModel.countDocuments({ userId });
+    if (count >= MAX_CONNECTIONS) {
+      return { success: false, error: `You can save up to ${MAX_CONNECTIONS} connections` };
+    }
+
+    const doc = await DataConnectionModel.create({
+      userId,
+      name: trimmedName,
+      engine: 'http',
+      encryptedHeaderValue: encryptSecret(headerValue.trim()),
+      headerName: header,
+      host,
+    });
+
+    return { success: true, data: toSummary(doc.toObject()) };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to save API credential') };
+  }
+}
+
+/**
+ * Delete a saved connection. Refused while any visualization's live source
+ * still uses it — disconnect those first, so no chart silently stops
+ * refreshing.
+ */
+export async function deleteDataConnection(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const rl = await checkRateLimit(userId, 'delete');
+    if (!rl.allowed) {
+      return { success: false, error: `Too many requests. Try again in ${rl.retryAfter ?? 60}s.` };
+    }
+
+    const idValidation = validateObjectId(id);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+
+    await connectToDatabase();
+    const inUse = await VisualizationModel.countDocuments({
+      userId,
+      $or: [{ 'liveData.sql.connectionId': id }, { 'liveData.json.connectionId': id }],
+    });
+    if (inUse > 0) {
+      return { success: false, error: `Used by ${inUse} visualization${inUse === 1 ? '' : 's'} — disconnect ${inUse === 1 ? 'it' : 'them'} first` };
+    }
+
+    const result = await DataConnectionModel.deleteOne({ _id: id, userId });
+    if (result.deletedCount === 0) return { success: false, error: 'Connection not found or unauthorized' };
+
+    return { success: true };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to delete database connection') };
+  }
+}
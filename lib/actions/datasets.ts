@@ -0,0 +1,297 @@
+"use server";
+
+import * as Sentry from '@sentry/nextjs';
+import { auth } from "@clerk/nextjs/server";
+import { connectToDatabase } from "@/lib/database/mongodb";
+import { DatasetModel, VisualizationModel } from "@/lib/database/models";
+import { sanitizeError, validateDataSize, validateObjectId, validateTitle } from "@/lib/utils/validation";
+import { checkRateLimit } from "@/lib/utils/rate-limit";
+import { VALIDATION_LIMITS } from "@/lib/utils/constants";
+import { inferSchema } from "@/lib/utils/csv-schema";
+import { hasLiveSource, pickLiveSource, type LiveSourceRef } from "@/lib/utils/live-source";
+import { fetchLiveSource, validateLiveSourceRef } from "@/lib/services/live-source";
+import type { Dataset, DatasetDetail, DatasetSummary } from "@/lib/types/dataset";
+
+const MAX_DATASETS = 100;
+const MAX_NAME_LENGTH = 120;
+
+type DatasetDoc = Omit<Dataset, 'rows'> & { _id: unknown; rows?: Dataset['rows'] };
+
+function toSummary(doc: DatasetDoc, usedBy: number): DatasetSummary {
+  return {
+    id: String(doc._id),
+    name: doc.name,
+    sourceFileName: doc.sourceFileName,
+    headers: doc.headers,
+    rowCount: doc.rowCount,
+    liveSource: doc.liveSource && hasLiveSource(doc.liveSource) ? pickLiveSource(doc.liveSource) : undefined,
+    lastRefreshed: doc.lastRefreshed ? new Date(doc.lastRefreshed).toISOString() : undefined,
+    usedBy,
+    createdAt: new Date(doc.createdAt).toISOString(),
+    updatedAt: new Date(doc.updatedAt).toISOString(),
+  };
+}
+
+function toDetail(doc: DatasetDoc): DatasetDetail {
+  const { usedBy: _usedBy, ...summary } = toSummary(doc, 0);
+  return { ...summary, rows: doc.rows ?? [], schema: doc.columnSchema };
+}
+
+/**
+ * Check rows are a storable table — non-empty, objects only, under the
+ * dataset size limit — and derive headers (union of keys, first-seen order)
+ * and schema from them.
+ */
+function prepareRows(rows: unknown): { rows: Record<string, unknown>[]; headers: string[]; columnSchema: Dataset['columnSchema'] } | { error: string } {
+  if (!Array.isArray(rows) || rows.length === 0 || !rows.every(r => r && typeof r === 'object' && !Array.isArray(r))) {
+    return { error: 'A dataset must be a non-empty table of rows' };
+  }
+  const sizeValidation = validateDataSize(rows, VALIDATION_LIMITS.MAX_DATASET_SIZE);
+  if (!sizeValidation.valid) return { error: sizeValidation.error ?? 'Dataset is too large to save' };
+
+  const headers = [...new Set(rows.flatMap(r => Object.keys(r as Record<string, unknown>)))];
+  const table = rows as Record<string, unknown>[];
+  return { rows: table, headers, columnSchema: inferSchema(table) };
+}
+
+/** Shared auth + rate-limit + name checks for the create actions. */
+async function beginCreate(name: string): Promise<{ userId: string; name: string } | { error: string }> {
+  const { userId } = await auth();
+  if (!userId) return { error: 'Authentication required' };
+
+  const rl = await checkRateLimit(userId, 'save');
+  if (!rl.allowed) return { error: `Too many requests. Try again in ${rl.retryAfter ?? 60}s.` };
+
+  const nameValidation = validateTitle(name, MAX_NAME_LENGTH);
+  if (!nameValidation.valid) return { error: nameValidation.error ?? 'Invalid name' };
+
+  await connectToDatabase();
+  const count = await DatasetModel.countDocuments({ userId });
+  if (count >= MAX_DATASETS) return { error: `You can save up to ${MAX_DATASETS} datasets — delete some first` };
+
+  return { userId, name: nameValidation.sanitized! };
+}
+
+/**
+ * List the current user's datasets, newest first — without their rows —
+ * with how many visualizations use each.
+ */
+export async function listDatasets(): Promise<{ success: boolean; data?: DatasetSummary[]; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    await connectToDatabase();
+    const docs = await DatasetModel.find({ userId }).select('-rows -columnSchema').sort({ updatedAt: -1 }).lean();
+
+    const usage = await VisualizationModel.aggregate<{ _id: string; count: number }>([
+      { $match: { userId, datasetId: { $in: docs.map(d => String(d._id)) } } },
+      { $group: { _id: '$datasetId', count: { $sum: 1 } } },
+    ]);
+    const usedBy = new Map(usage.map(u => [u._id, u.count]));
+
+    return { success: true, data: docs.map(d => toSummary(d, usedBy.get(String(d._id)) ?? 0)) };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to fetch datasets') };
+  }
+}
+
+/** Load one of the current user's datasets with its rows. */
+export async function getDataset(id: string): Promise<{ success: boolean; data?: DatasetDetail; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const idValidation = validateObjectId(id);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+
+    await connectToDatabase();
+    const doc = await DatasetModel.findOne({ _id: id, userId }).lean();
+    if (!doc) return { success: false, error: 'Dataset not found' };
+
+    return { success: true, data: toDetail(doc) };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to load dataset') };
+  }
+}
+
+/**
+ * Save uploaded rows as a dataset. The schema is inferred here, from the
+ * rows as stored, rather than taken from the client.
+ */
+export async function createDataset(
+  name: string,
+  rows: Record<string, unknown>[],
+  sourceFileName?: string
+): Promise<{ success: boolean; data?: DatasetSummary; error?: string }> {
+  try {
+    const begun = await beginCreate(name);
+    if ('error' in begun) return { success: false, error: begun.error };
+
+    const prepared = prepareRows(rows);
+    if ('error' in prepared) return { success: false, error: prepared.error };
+
+    const doc = await DatasetModel.create({
+      userId: begun.userId,
+      name: begun.name,
+      ...(typeof sourceFileName === 'string' && sourceFileName.trim() ? { sourceFileName: sourceFileName.trim().slice(0, 255) } : {}),
+      headers: prepared.headers,
+      rows: prepared.rows,
+      columnSchema: prepared.columnSchema,
+      rowCount: prepared.rows.length,
+    });
+
+    return { success: true, data: toSummary(doc.toObject(), 0) };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to save dataset') };
+  }
+}
+
+/**
+ * Save a live source's current data as a dataset that remembers the source,
+ * so `refreshDataset` can re-fetch it later.
+ */
+export async function createLiveDataset(
+  name: string,
+  source: LiveSourceRef
+): Promise<{ success: boolean; data?: DatasetSummary; error?: string }> {
+  try {
+    const begun = await beginCreate(name);
+    if ('error' in begun) return { success: false, error: begun.error };
+
+    const validation = await validateLiveSourceRef(source, begun.userId);
+    if (!validation.ok) return { success: false, error: validation.error };
+
+    const fetched = await fetchLiveSource(validation.ref, begun.userId);
+    if (!fetched.ok) return { success: false, error: fetched.error };
+
+    const prepared = prepareRows(fetched.rows);
+    if ('error' in prepared) return { success: false, error: prepared.error };
+
+    const doc = await DatasetModel.create({
+      userId: begun.userId,
+      name: begun.name,
+      headers: fetched.headers,
+      rows: prepared.rows,
+      columnSchema: fetched.schema,
+      rowCount: prepared.rows.length,
+      liveSource: validation.ref,
+      lastRefreshed: new Date(),
+    });
+
+    return { success: true, data: toSummary(doc.toObject(), 0) };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to save dataset') };
+  }
+}
+
+/** Re-fetch a live dataset's source and replace its rows. */
+export async function refreshDataset(id: string): Promise<{ success: boolean; data?: DatasetSummary; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const rl = await checkRateLimit(userId, 'save');
+    if (!rl.allowed) {
+      return { success: false, error: `Too many requests. Try again in ${rl.retryAfter ?? 60}s.` };
+    }
+
+    const idValidation = validateObjectId(id);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+
+    await connectToDatabase();
+    const doc = await DatasetModel.findOne({ _id: id, userId }).select('-rows');
+    if (!doc) return { success: false, error: 'Dataset not found' };
+
+    const summary = toSummary(doc.toObject(), 0);
+    if (!summary.liveSource) return { success: false, error: 'This dataset was uploaded — there is no source to refresh from' };
+
+    const fetched = await fetchLiveSource(summary.liveSource, userId);
+    if (!fetched.ok) return { success: false, error: fetched.error };
+
+    const prepared = prepareRows(fetched.rows);
+    if ('error' in prepared) return { success: false, error: prepared.error };
+
+    doc.headers = fetched.headers;
+    doc.rows = prepared.rows;
+    doc.columnSchema = fetched.schema;
+    doc.rowCount = prepared.rows.length;
+    doc.lastRefreshed = new Date();
+    await doc.save();
+
+    const usedBy = await VisualizationModel.countDocuments({ userId, datasetId: id });
+    return { success: true, data: toSummary(doc.toObject(), usedBy) };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to refresh dataset') };
+  }
+}
+
+export async function renameDataset(id: string, name: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const rl = await checkRateLimit(userId, 'save');
+    if (!rl.allowed) {
+      return { success: false, error: `Too many requests. Try again in ${rl.retryAfter ?? 60}s.` };
+    }
+
+    const idValidation = validateObjectId(id);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+
+    const nameValidation = validateTitle(name, MAX_NAME_LENGTH);
+    if (!nameValidation.valid) return { success: false, error: nameValidation.error };
+
+    await connectToDatabase();
+    const result = await DatasetModel.updateOne({ _id: id, userId }, { $set: { name: nameValidation.sanitized } });
+    if (result.matchedCount === 0) return { success: false, error: 'Dataset not found or unauthorized' };
+
+    return { success: true };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to rename dataset') };
+  }
+}
+
+/**
+ * Delete a dataset. Charts built from it keep their spec — they just lose
+ * the link, so re-verification and tests fall back to whatever other data
+ * they have.
+ */
+export async function deleteDataset(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const rl = await checkRateLimit(userId, 'delete');
+    if (!rl.allowed) {
+      return { success: false, error: `Too many requests. Try again in ${rl.retryAfter ?? 60}s.` };
+    }
+
+    const idValidation = validateObjectId(id);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+
+    await connectToDatabase();
+    const result = await DatasetModel.deleteOne({ _id: id, userId });
+    if (result.deletedCount === 0) return { success: false, error: 'Dataset not found or unauthorized' };
+
+    await VisualizationModel.updateMany({ userId, datasetId: id }, { $unset: { datasetId: 1 } });
+
+    return { success: true };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to delete dataset') };
+  }
+}
@@ -6,6 +6,7 @@ import { connectToDatabase } from "@/lib/database/mongodb";
 import { UserModel } from "@/lib/database/models";
 import { sanitizeError, getTokenCosts } from "@/lib/utils/validation";
 import { getTokenBalance } from "@/lib/utils/tokens";
+import { purgeUserCache } from "@/lib/utils/cache";
 
 export interface UserProfile {
   clerkId: string;
@@ -22,6 +23,9 @@ export interface UserProfile {
   notificationPreferences: {
     usageAlerts: boolean;
   };
+  privacyPreferences: {
+    cacheGenerations: boolean;
+  };
 }
 
 /**
@@ -72,6 +76,9 @@ export async function getUserProfile(): Promise<{ success: boolean; data?: UserP
       notificationPreferences: {
         usageAlerts: user.notificationPreferences?.usageAlerts ?? true,
       },
+      privacyPreferences: {
+        cacheGenerations: user.privacyPreferences?.cacheGenerations ?? true,
+      },
     };
 
     return { success: true, data: profile };
@@ -181,6 +188,40 @@ export async function updateNotificationPreferences(
   }
 }
 
+/**
+ * Update the current user's privacy preferences. Opting out of caching also
+ * drops anything already cached for them.
+ */
+export async function updatePrivacyPreferences(
+  prefs: { cacheGenerations: boolean }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return { success: false, error: 'Authentication required' };
+    }
+
+    if (typeof prefs?.cacheGenerations !== 'boolean') {
+      return { success: false, error: 'Invalid preferences' };
+    }
+
+    await connectToDatabase();
+
+    await UserModel.findOneAndUpdate(
+      { clerkId: userId },
+      { $set: { 'privacyPreferences.cacheGenerations': prefs.cacheGenerations } }
+    );
+
+    if (!prefs.cacheGenerations) await purgeUserCache(userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to update preferences') };
+  }
+}
+
 /**
  * Mark onboarding as completed for the current user
  */
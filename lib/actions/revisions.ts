@@ -0,0 +1,235 @@
+'use server';
+
+import * as Sentry from '@sentry/nextjs';
+import { auth } from '@clerk/nextjs/server';
+import { connectToDatabase } from '@/lib/database/mongodb';
+import { VisualizationModel, VisualizationRevisionModel } from '@/lib/database/models';
+import { validateObjectId, sanitizeError, VALIDATION_LIMITS } from '@/lib/utils/validation';
+import { checkRateLimit } from '@/lib/utils/rate-limit';
+import { sanitizeVisualization } from '@/lib/utils/helpers';
+import { recordRevision } from '@/lib/utils/revisions';
+import { diffSpecs } from '@/lib/utils/spec-diff';
+import type { VisualizationSpec } from '@/lib/types/echarts-spec';
+import type { RevisionSummary, SpecDiffEntry } from '@/lib/types/revision';
+import type { SavedVisualization } from '@/lib/types/visualization';
+
+function isRevisionNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * List a visualization's revisions, newest first (specs omitted — fetch one
+ * via `compareRevisions` or act on it via restore/fork).
+ */
+export async function listRevisions(
+  visualizationId: string
+): Promise<{ success: boolean; data?: RevisionSummary[]; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const idValidation = validateObjectId(visualizationId);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+
+    await connectToDatabase();
+
+    const revisions = await VisualizationRevisionModel.find({ visualizationId, userId })
+      .sort({ revision: -1 })
+      .select('revision action prompt spec.title createdAt')
+      .lean();
+
+    return {
+      success: true,
+      data: revisions.map(r => ({
+        revision: r.revision,
+        action: r.action,
+        prompt: r.prompt,
+        title: r.spec?.title,
+        createdAt: new Date(r.createdAt).toISOString(),
+      })),
+    };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to load revision history') };
+  }
+}
+
+/**
+ * One revision's full spec — what a conversation branch starts from when it
+ * forks at an earlier turn than the latest.
+ */
+export async function getRevisionSpec(
+  visualizationId: string,
+  revision: number
+): Promise<{ success: boolean; spec?: VisualizationSpec; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const idValidation = validateObjectId(visualizationId);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+    if (!isRevisionNumber(revision)) return { success: false, error: 'Invalid revision number' };
+
+    await connectToDatabase();
+
+    const target = await VisualizationRevisionModel.findOne({ visualizationId, userId, revision }).select('spec').lean();
+    if (!target) return { success: false, error: 'That revision is no longer in this chart\'s history' };
+
+    return { success: true, spec: target.spec };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to load revision') };
+  }
+}
+
+/**
+ * Structural diff between two revisions of the same visualization — `from`
+ * is treated as the "before" side regardless of which number is larger.
+ */
+export async function compareRevisions(
+  visualizationId: string,
+  from: number,
+  to: number
+): Promise<{ success: boolean; data?: SpecDiffEntry[]; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const idValidation = validateObjectId(visualizationId);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+    if (!isRevisionNumber(from) || !isRevisionNumber(to)) return { success: false, error: 'Invalid revision number' };
+
+    await connectToDatabase();
+
+    const revisions = await VisualizationRevisionModel.find({ visualizationId, userId, revision: { $in: [from, to] } })
+      .select('revision spec')
+      .lean();
+    const before = revisions.find(r => r.revision === from);
+    const after = revisions.find(r => r.revision === to);
+    if (!before || !after) return { success: false, error: 'Revision not found' };
+
+    return { success: true, data: diffSpecs(before.spec, after.spec) };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to compare revisions') };
+  }
+}
+
+/**
+ * Make an old revision the visualization's current spec. Recorded as a new
+ * `restore` revision, so the restore itself can be undone the same way.
+ */
+export async function restoreRevision(
+  visualizationId: string,
+  revision: number
+): Promise<{ success: boolean; spec?: VisualizationSpec; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const rl = await checkRateLimit(userId, 'save');
+    if (!rl.allowed) {
+      return { success: false, error: `Too many requests. Try again in ${rl.retryAfter ?? 60}s.` };
+    }
+
+    const idValidation = validateObjectId(visualizationId);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+    if (!isRevisionNumber(revision)) return { success: false, error: 'Invalid revision number' };
+
+    await connectToDatabase();
+
+    const [visualization, target] = await Promise.all([
+      VisualizationModel.findOne({ _id: visualizationId, userId }),
+      VisualizationRevisionModel.findOne({ visualizationId, userId, revision }).lean(),
+    ]);
+    if (!visualization) return { success: false, error: 'Visualization not found or unauthorized' };
+    if (!target) return { success: false, error: 'Revision not found' };
+
+    visualization.spec = target.spec;
+    visualization.updatedAt = new Date();
+    await visualization.save();
+
+    await recordRevision({
+      userId,
+      visualizationId,
+      spec: target.spec,
+      action: 'restore',
+      prompt: `Restored revision ${revision}`,
+      sessionExpiresAt: visualization.sessionExpiresAt,
+    });
+
+    return { success: true, spec: target.spec };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to restore revision') };
+  }
+}
+
+/**
+ * Start a new visualization from an old revision, leaving the original
+ * untouched. The fork is an ephemeral session (like a fresh generation)
+ * until the user saves it, so it doesn't count against the saved limit.
+ */
+export async function forkRevision(
+  visualizationId: string,
+  revision: number
+): Promise<{ success: boolean; data?: SavedVisualization | null; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const rl = await checkRateLimit(userId, 'duplicate');
+    if (!rl.allowed) {
+      return { success: false, error: `Too many requests. Try again in ${rl.retryAfter ?? 60}s.` };
+    }
+
+    const idValidation = validateObjectId(visualizationId);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+    if (!isRevisionNumber(revision)) return { success: false, error: 'Invalid revision number' };
+
+    await connectToDatabase();
+
+    const [source, target] = await Promise.all([
+      VisualizationModel.findOne({ _id: visualizationId, userId }),
+      VisualizationRevisionModel.findOne({ visualizationId, userId, revision }).lean(),
+    ]);
+    if (!source) return { success: false, error: 'Visualization not found or unauthorized' };
+    if (!target) return { success: false, error: 'Revision not found' };
+
+    const suffix = ` (rev ${revision})`;
+    const maxBase = VALIDATION_LIMITS.MAX_TITLE_LENGTH - suffix.length;
+    const sessionExpiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    const fork = await VisualizationModel.create({
+      userId,
+      title: `${(source.title as string).slice(0, maxBase)}${suffix}`,
+      spec: target.spec,
+      metadata: { ...source.metadata, generatedAt: new Date() },
+      isPublic: false,
+      isSaved: false,
+      sessionExpiresAt,
+      forkedFrom: { visualizationId },
+      ...(source.datasetId ? { datasetId: source.datasetId } : {}),
+      history: [],
+    });
+
+    await recordRevision({
+      userId,
+      visualizationId: fork._id.toString(),
+      spec: target.spec,
+      action: 'fork',
+      prompt: `Forked from revision ${revision} of "${source.title}"`,
+      sessionExpiresAt,
+    });
+
+    return { success: true, data: sanitizeVisualization(fork) };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to fork revision') };
+  }
+}
@@ -0,0 +1,74 @@
+'use server';
+
+import * as Sentry from '@sentry/nextjs';
+import { auth } from '@clerk/nextjs/server';
+import { connectToDatabase } from '@/lib/database/mongodb';
+import { DataSnapshotModel } from '@/lib/database/models';
+import { validateObjectId, sanitizeError } from '@/lib/utils/validation';
+import type { SnapshotData, SnapshotSummary } from '@/lib/types/snapshot';
+
+/**
+ * List a visualization's live data snapshots, oldest first — the order the
+ * timeline scrubber runs in (data omitted — fetch one via `getSnapshotData`).
+ */
+export async function listSnapshots(
+  visualizationId: string
+): Promise<{ success: boolean; data?: SnapshotSummary[]; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const idValidation = validateObjectId(visualizationId);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+
+    await connectToDatabase();
+
+    const snapshots = await DataSnapshotModel.find({ visualizationId, userId })
+      .sort({ capturedAt: 1 })
+      .select('capturedAt rowHash rowCount trigger summary')
+      .lean();
+
+    return {
+      success: true,
+      data: snapshots.map(s => ({
+        id: s._id.toString(),
+        capturedAt: new Date(s.capturedAt).toISOString(),
+        rowHash: s.rowHash,
+        rowCount: s.rowCount,
+        trigger: s.trigger,
+        summary: s.summary,
+      })),
+    };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to load data history') };
+  }
+}
+
+/** One snapshot's stored chart data, for viewing it or drawing it as a ghost series. */
+export async function getSnapshotData(
+  visualizationId: string,
+  snapshotId: string
+): Promise<{ success: boolean; data?: SnapshotData; error?: string }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    for (const id of [visualizationId, snapshotId]) {
+      const idValidation = validateObjectId(id);
+      if (!idValidation.valid) return { success: false, error: idValidation.error };
+    }
+
+    await connectToDatabase();
+
+    const snapshot = await DataSnapshotModel.findOne({ _id: snapshotId, visualizationId, userId }).select('data').lean();
+    if (!snapshot) return { success: false, error: 'That snapshot is no longer in this chart\'s history' };
+
+    return { success: true, data: snapshot.data };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to load snapshot') };
+  }
+}
@@ -5,10 +5,12 @@ import { after } from 'next/server';
 import mongoose, { Types } from 'mongoose';
 import { auth } from '@clerk/nextjs/server';
 import { connectToDatabase } from '@/lib/database/mongodb';
-import { VisualizationModel, UserUsageModel, UserModel } from '@/lib/database/models';
+import { VisualizationModel, UserUsageModel, UserModel, VisualizationRevisionModel, DatasetModel, DataSnapshotModel } from '@/lib/database/models';
 import { generateChartSpec } from '@/lib/services/spec-generator';
+import { planEncoding } from '@/lib/services/encoding-planner';
 import { generateNarrative } from '@/lib/services/narrative-generator';
 import { editChartSpec } from '@/lib/services/spec-editor';
+import { describeValidationFailure } from '@/lib/services/spec-validator';
 import { sanitizeVisualization } from '@/lib/utils/helpers';
 import { resolveVariant } from '@/lib/utils/chart-types';
 import { DEFAULT_SUNSET_THEME, type VisualizationSpec, type ChartStyleEffect } from '@/lib/types/echarts-spec';
@@ -26,13 +28,36 @@ import {
 } from '@/lib/utils/validation';
 import { checkTokenBalance, deductTokens } from '@/lib/utils/tokens';
 import { checkRateLimit } from '@/lib/utils/rate-limit';
-import { getCachedVisualization, setCachedVisualization } from '@/lib/utils/cache';
-import { isBlockedSheetUrl } from '@/lib/utils/sheet-fetch';
+import {
+  getCachedVisualization, setCachedVisualization, resolveCacheScope,
+  findSimilarCachedVisualization, getSimilarCachedVisualization,
+} from '@/lib/utils/cache';
+import { fetchAndParseSheet } from '@/lib/utils/sheet-fetch';
+import { isBlockedSheetUrl } from '@/lib/utils/outbound-fetch';
+import { fetchJsonSource, fetchSqlSource, validateLiveSourceRef } from '@/lib/services/live-source';
+import { describeLiveSource, hasLiveSource, liveSourceDataset } from '@/lib/utils/live-source';
+import { inferSchema } from '@/lib/utils/csv-schema';
+import { planSelection } from '@/lib/utils/aggregation-engine';
+import { describeTransform, runPipeline, validateTransformSteps } from '@/lib/utils/transform-engine';
+import { verifyChartData } from '@/lib/utils/data-verifier';
+import { refreshChartData } from '@/lib/utils/chart-data-refresh';
+import { seedLastOccurrence, validateScheduleInput } from '@/lib/utils/schedule';
+import { validateAlertRules } from '@/lib/utils/alert-rules';
+import type { DatasetSource, EncodingPlan } from '@/lib/types/encoding-plan';
+import type { TransformStep } from '@/lib/types/transform';
+import type { ScheduleInput } from '@/lib/types/schedule';
+import type { AlertRule } from '@/lib/types/alert';
+import type { DataVerification } from '@/lib/types/data-verification';
+import type { RevisionAction } from '@/lib/types/revision';
+import { recordRevision } from '@/lib/utils/revisions';
+import { syncSnapshotExpiry } from '@/lib/utils/snapshots';
 import type {
   VisualizationResponse,
   VisualizationMetadata,
   LiveDataConfig,
   SavedVisualization,
+  ForkOrigin,
+  SimilarCacheChoice,
 } from '@/lib/types/visualization';
 
 /** Pulls the display title out of an ECharts option's `title` component, if any. */
@@ -43,9 +68,120 @@ function getOptionTitleText(option: EChartsOption): string {
 }
 
 /**
- * Generate a new visualization from user input
+ * Resolve the rows behind a dataset-grounded request — uploaded rows are
+ * shape/size-checked, live sheets, SQL queries and JSON APIs are re-fetched
+ * server-side (only over `userId`'s own connections) and library datasets
+ * are loaded from `userId`'s own library, rather than trusting
+ * client-supplied data.
+ */
+async function loadDatasetRows(source: DatasetSource, userId: string): Promise<{ rows?: Record<string, unknown>[]; error?: string }> {
+  if (source.kind === 'dataset') {
+    if (!validateObjectId(source.datasetId).valid) return { error: 'Invalid dataset' };
+    await connectToDatabase();
+    const stored = await DatasetModel.findOne({ _id: source.datasetId, userId }).select('rows').lean();
+    return stored ? { rows: stored.rows } : { error: 'Dataset not found — it may have been deleted' };
+  }
+
+  if (source.kind === 'sql') {
+    const { connectionId, query, params } = source;
+    const result = await fetchSqlSource({ connectionId, query, params }, userId);
+    return result.ok ? { rows: result.rows } : { error: result.error };
+  }
+
+  if (source.kind === 'json') {
+    const { url, path, connectionId } = source;
+    const result = await fetchJsonSource({ url, path, connectionId }, userId);
+    return result.ok ? { rows: result.rows } : { error: result.error };
+  }
+
+  if (source.kind === 'sheet') {
+    if (typeof source.url !== 'string' || isBlockedSheetUrl(source.url)) {
+      return { error: 'Only HTTPS URLs to public data sources are allowed' };
+    }
+    const sheet = await fetchAndParseSheet(source.url);
+    return sheet.ok ? { rows: sheet.rows } : { error: sheet.error };
+  }
+
+  const { rows } = source;
+  if (!Array.isArray(rows) || rows.length === 0 || !rows.every(r => r && typeof r === 'object' && !Array.isArray(r))) {
+    return { error: 'Attached dataset must be a non-empty table of rows' };
+  }
+  const sizeValidation = validateDataSize(rows, VALIDATION_LIMITS.MAX_DATASET_SIZE);
+  if (!sizeValidation.valid) return { error: sizeValidation.error };
+  return { rows };
+}
+
+/** Display name for a dataset in the verification badge — file / dataset name, sheet / API URL or query. */
+function datasetLabel(source: DatasetSource): string {
+  if (source.kind === 'rows' || source.kind === 'dataset') return source.name;
+  if (source.kind === 'sql') return describeLiveSource({ sql: source });
+  if (source.kind === 'json') return describeLiveSource({ json: source });
+  return source.url;
+}
+
+/**
+ * Where a stored chart's rows come from — the client's attached dataset,
+ * else the visualization's live source, else its library dataset.
+ */
+function resolveDatasetSource(
+  dataset: DatasetSource | undefined,
+  visualization: Pick<SavedVisualization, 'liveData' | 'datasetId'> | null
+): DatasetSource | undefined {
+  const liveData = visualization?.liveData;
+  return dataset
+    ?? (liveData && hasLiveSource(liveData) ? liveSourceDataset(liveData) : undefined)
+    ?? (visualization?.datasetId ? { kind: 'dataset', datasetId: visualization.datasetId, name: 'Library dataset' } : undefined);
+}
+
+/**
+ * Check an edited chart against its dataset. Best-effort — if the rows can't
+ * be loaded (sheet offline, oversized upload) the chart simply has no badge.
+ */
+async function verifyAgainstDataset(
+  option: EChartsOption,
+  source: DatasetSource,
+  userId: string,
+  encoding?: EncodingPlan,
+  transforms?: TransformStep[]
+): Promise<DataVerification | undefined> {
+  try {
+    const loaded = await loadDatasetRows(source, userId);
+    return loaded.rows ? verifyChartData(option, loaded.rows, datasetLabel(source), encoding, transforms) : undefined;
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return undefined;
+  }
+}
+
+/**
+ * Bill the AI calls behind an attempt that failed after they were made (a
+ * chart that never passed validation, say) — the spend happened either way.
+ * Best-effort: a balance too short to cover it is logged, not surfaced, so
+ * the user still sees why the attempt failed.
+ */
+async function chargeFailedAttempt(userId: string, promptTokens: number, completionTokens: number): Promise<void> {
+  const cost = calcInternalTokens(promptTokens, completionTokens);
+  const deduction = await deductTokens(userId, cost);
+  if (!deduction.success) {
+    console.error(`[billing] failed-attempt deduction failed userId=${userId} cost=${cost}: ${deduction.error}`);
+    Sentry.captureMessage(`[billing] failed-attempt deduction failed userId=${userId} cost=${cost}: ${deduction.error}`, 'warning');
+  }
+}
+
+/**
+ * Generate a new visualization from user input. When `dataset` is given the
+ * AI only plans the encoding and every value is computed from the rows —
+ * falling back to free-form generation for charts the engine can't express.
+ * A near-duplicate of a cached prompt comes back as `similarMatch` (no spec,
+ * no charge) until the caller answers with `similarChoice`.
  */
-export async function generateVisualization(input: string, styleEffect?: ChartStyleEffect): Promise<VisualizationResponse> {
+export async function generateVisualization(
+  input: string,
+  styleEffect?: ChartStyleEffect,
+  dataset?: DatasetSource,
+  similarChoice?: SimilarCacheChoice
+): Promise<VisualizationResponse> {
   const startTime = Date.now();
 
   const fail = (error: string, reason = ''): VisualizationResponse => ({
@@ -77,8 +213,34 @@ export async function generateVisualization(input: string, styleEffect?: ChartSt
     // otherwise the built-in sunset theme. Applies to every newly generated chart.
     const defaultTheme = (await getDefaultBrandTheme(userId)) ?? DEFAULT_SUNSET_THEME;
 
+    // ── Dataset rows (dataset-grounded requests only) ────────────────────────
+    let rows: Record<string, unknown>[] | undefined;
+    if (dataset) {
+      const loaded = await loadDatasetRows(dataset, userId);
+      if (!loaded.rows) return fail(loaded.error || 'Failed to load the attached dataset');
+      rows = loaded.rows;
+    }
+
     // ── Cache lookup (instant result, tokens still charged) ──────────────────
-    const cached = await getCachedVisualization(input);
+    // Skipped for datasets: the prompt only embeds a truncated excerpt, so two
+    // different datasets can share a cache key. Prompts carrying inlined data
+    // are cached per user; nothing is cached for users who opted out.
+    const cachePrefs = await UserModel.findOne({ clerkId: userId }).select('privacyPreferences').lean();
+    const cacheScope = rows ? null : resolveCacheScope(input, userId, cachePrefs?.privacyPreferences?.cacheGenerations === false);
+    let cached = cacheScope ? await getCachedVisualization(input, cacheScope) : null;
+
+    // ── Near-duplicate tier (shared scope only) — an unanswered match is
+    // offered back uncharged; accepting it serves it like an exact hit, and
+    // an expired match falls through to a fresh generation.
+    if (!cached && cacheScope?.kind === 'global') {
+      if (similarChoice?.mode === 'use') {
+        cached = await getSimilarCachedVisualization(similarChoice.matchId);
+      } else if (!similarChoice) {
+        const similarMatch = await findSimilarCachedVisualization(input);
+        if (similarMatch) return { success: true, reason: '', similarMatch };
+      }
+    }
+
     if (cached) {
       const cachedDeduction = await deductTokens(userId, TOKEN_COSTS.GENERATE_VISUALIZATION);
       if (!cachedDeduction.success) return fail(cachedDeduction.error || 'Insufficient tokens');
@@ -111,11 +273,57 @@ export async function generateVisualization(input: string, styleEffect?: ChartSt
       };
     }
 
-    // ── Generate with AI ─────────────────────────────────────────────────────
-    const { data, visualizable, promptTokens, completionTokens } = await generateChartSpec(input);
-    if (!visualizable) {
-      return fail('This content is not suitable for visualization', data.reason);
+    // ── Dataset-grounded: AI plans the encoding, the engine computes data ────
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let model: string | undefined;
+    let composed: { title: string; option: EChartsOption; reason: string; seriesType: string; variantKey: string | null } | null = null;
+    let encoding: EncodingPlan | undefined;
+    let transforms: TransformStep[] | undefined;
+
+    if (rows) {
+      const schema = inferSchema(rows);
+      const planned = await planEncoding(input, rows, schema);
+      promptTokens += planned.promptTokens;
+      completionTokens += planned.completionTokens;
+      model = planned.model;
+
+      const plan = planned.data.plan;
+      const steps = planned.data.transforms.length ? planned.data.transforms : undefined;
+      const built = plan ? runPipeline(rows, plan, steps, schema) : null;
+      if (plan && built?.ok) {
+        encoding = plan;
+        transforms = steps;
+        composed = { title: plan.title, option: built.option, reason: planned.data.reason, ...planSelection(plan) };
+      } else if (built && !built.ok) {
+        Sentry.captureMessage(`[aggregation-engine] plan failed on rows: ${built.errors.join('; ')}`, 'warning');
+      }
+    }
+
+    // ── Generate with AI (free-form — no dataset, or not plannable) ──────────
+    if (!composed) {
+      const generated = await generateChartSpec(input);
+      promptTokens += generated.promptTokens;
+      completionTokens += generated.completionTokens;
+      model = generated.model;
+      // Being told there's nothing to chart stays free, as it always has —
+      // the call answered the request rather than failing it.
+      if (!generated.visualizable) {
+        return fail('This content is not suitable for visualization', generated.data.reason);
+      }
+      // Still structurally broken after the bounded retry — surface a clear
+      // error instead of a chart that would only fail inside the renderer.
+      if (generated.validationErrors) {
+        Sentry.captureMessage(`[spec-validator] generation failed validation: ${generated.validationErrors.join('; ')}`, 'warning');
+        await chargeFailedAttempt(userId, promptTokens, completionTokens);
+        return fail(describeValidationFailure(generated.validationErrors), generated.data.reason);
+      }
+      composed = generated.data;
     }
+    const data = composed;
+
+    // ── Verify the numbers against the rows (cheap, no AI) ───────────────────
+    const verification = rows && dataset ? verifyChartData(data.option, rows, datasetLabel(dataset), encoding, transforms) : undefined;
 
     // ── Resolve variant + styleEffect ─────────────────────────────────────────
     // When the user explicitly picked a chart type via the modal, `styleEffect`
@@ -149,9 +357,9 @@ export async function generateVisualization(input: string, styleEffect?: ChartSt
         const narrative = narrativeResult.data.narrative;
         const narrativeCost = calcInternalTokens(narrativeResult.promptTokens, narrativeResult.completionTokens);
         await deductTokens(userId, narrativeCost).catch(() => {});
-        await setCachedVisualization(input, { title: data.title, option: data.option, reason: data.reason, narrative }).catch(() => {});
+        if (cacheScope) await setCachedVisualization(input, cacheScope, { title: data.title, option: data.option, reason: data.reason, narrative }).catch(() => {});
       } catch {
-        await setCachedVisualization(input, { title: data.title, option: data.option, reason: data.reason }).catch(() => {});
+        if (cacheScope) await setCachedVisualization(input, cacheScope, { title: data.title, option: data.option, reason: data.reason }).catch(() => {});
       }
     });
     await Promise.all([
@@ -166,6 +374,9 @@ export async function generateVisualization(input: string, styleEffect?: ChartSt
       theme: defaultTheme,
       title: data.title,
       styleEffect: resolvedStyleEffect,
+      encoding,
+      transforms,
+      verification,
     };
 
     return {
@@ -178,7 +389,7 @@ export async function generateVisualization(input: string, styleEffect?: ChartSt
       metadata: {
         generatedAt: new Date(),
         processingTime,
-        aiModel: 'gpt-5.4-mini',
+        aiModel: model ?? 'unknown',
         cost: 0,
         originalInput: input,
       },
@@ -199,13 +410,19 @@ export async function generateVisualization(input: string, styleEffect?: ChartSt
  * Exception: a session connected to a live data source never expires, so
  * it's marked `isSaved: true` immediately — otherwise it would persist
  * forever yet stay invisible on the "My Visualizations" page.
+ *
+ * Branches of a conversation are sessions too: `forkedFrom` links one to the
+ * parent visualization (and turn) it was forked from. `datasetId` links the
+ * library dataset the chart was generated from.
  */
 export async function createSession(
   title: string,
   spec: VisualizationSpec,
   metadata: VisualizationMetadata,
-  history?: { role: 'user' | 'assistant'; content: string; timestamp: Date | string }[],
-  liveData?: LiveDataConfig | null
+  history?: { role: 'user' | 'assistant'; content: string; timestamp: Date | string; changes?: string[] }[],
+  liveData?: LiveDataConfig | null,
+  forkedFrom?: ForkOrigin | null,
+  datasetId?: string | null
 ): Promise<{ success: boolean; id?: string; error?: string }> {
   try {
     const { userId } = await auth();
@@ -217,9 +434,39 @@ export async function createSession(
     const dataValidation = validateDataSize(spec);
     if (!dataValidation.valid) return { success: false, error: dataValidation.error };
 
+    if (forkedFrom) {
+      const parentValidation = validateObjectId(forkedFrom.visualizationId);
+      if (!parentValidation.valid) return { success: false, error: parentValidation.error };
+      if (forkedFrom.turnIndex !== undefined && (!Number.isInteger(forkedFrom.turnIndex) || forkedFrom.turnIndex < 0)) {
+        return { success: false, error: 'Invalid turn index' };
+      }
+    }
+
+    if (datasetId) {
+      const datasetValidation = validateObjectId(datasetId);
+      if (!datasetValidation.valid) return { success: false, error: datasetValidation.error };
+    }
+
     await connectToDatabase();
 
-    const isLive = !!liveData?.url;
+    // A dataset link, like a branch, may only point at something the caller owns.
+    if (datasetId && !(await DatasetModel.exists({ _id: datasetId, userId }))) {
+      return { success: false, error: 'Dataset not found or unauthorized' };
+    }
+
+    // A branch may only point at a visualization the caller owns.
+    const parent = forkedFrom
+      ? await VisualizationModel.findOne({ _id: forkedFrom.visualizationId, userId }).select('title').lean()
+      : null;
+    if (forkedFrom && !parent) return { success: false, error: 'Parent visualization not found or unauthorized' };
+
+    let isLive = false;
+    if (liveData && hasLiveSource(liveData)) {
+      const sourceValidation = await validateLiveSourceRef(liveData, userId);
+      if (!sourceValidation.ok) return { success: false, error: sourceValidation.error };
+      liveData = { ...sourceValidation.ref, interval: liveData.interval, lastRefreshed: liveData.lastRefreshed };
+      isLive = true;
+    }
     const sessionExpiresAt = isLive ? undefined : new Date(Date.now() + 24 * 60 * 60 * 1000);
 
     const visualization = await VisualizationModel.create({
@@ -230,13 +477,29 @@ export async function createSession(
       isPublic: false,
       isSaved: isLive,
       sessionExpiresAt,
-      ...(isLive ? { liveData } : {}),
-      history: (history || []).map(h => ({
-        ...h,
+      ...(isLive && liveData ? { liveData } : {}),
+      ...(forkedFrom ? { forkedFrom: { visualizationId: forkedFrom.visualizationId, turnIndex: forkedFrom.turnIndex } } : {}),
+      ...(datasetId ? { datasetId } : {}),
+      // Revision numbers on inherited turns belong to the parent's history, so they're dropped.
+      history: (history || []).slice(-VALIDATION_LIMITS.DB_HISTORY_CAP).map(h => ({
+        role: h.role,
+        content: h.content,
         timestamp: typeof h.timestamp === 'string' ? new Date(h.timestamp) : h.timestamp,
+        ...(h.changes?.length ? { changes: h.changes.slice(0, VALIDATION_LIMITS.MAX_EDIT_CHANGE_LINES) } : {}),
       })),
     });
 
+    await recordRevision({
+      userId,
+      visualizationId: visualization._id.toString(),
+      spec,
+      action: parent ? 'fork' : 'generate',
+      prompt: parent
+        ? `Branched from ${forkedFrom?.turnIndex !== undefined ? `turn ${forkedFrom.turnIndex + 1} of ` : ''}"${parent.title}"`
+        : metadata.originalInput,
+      sessionExpiresAt,
+    });
+
     return { success: true, id: visualization._id.toString() };
   } catch (error) {
     console.error(error);
@@ -246,13 +509,20 @@ export async function createSession(
 }
 
 /**
- * Edit an existing visualization's chart spec via AI (or answer a question about it)
+ * Edit an existing visualization's chart spec via AI (or answer a question about it).
+ * When the chart has a dataset — passed in, or the saved visualization's live
+ * sheet — a changed option is re-verified against it. A chart computed by an
+ * encoding plan also offers its pipeline to the editor, so data edits come
+ * back as new transforms / plan and are rebuilt from the rows. `revisionAction`
+ * labels the resulting revision (the AI-driven live refresh reuses this action).
  */
 export async function editVisualizationAction(
   editPrompt: string,
   existingOption: EChartsOption,
   visualizationId?: string,
-  messages?: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date | string }>
+  messages?: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date | string; changes?: string[]; revision?: number }>,
+  dataset?: DatasetSource,
+  revisionAction: Extract<RevisionAction, 'ai-edit' | 'live-refresh'> = 'ai-edit'
 ) {
   try {
     const { userId } = await auth();
@@ -283,19 +553,74 @@ export async function editVisualizationAction(
 
     await connectToDatabase();
 
-    // TOKEN SYSTEM: Pre-check balance before AI spend
+    // TOKEN SYSTEM: Pre-check balance before AI spend — a patch edit's price;
+    // the full-replacement price is only required if the edit falls back to it.
     const tokenCheck = await checkTokenBalance(userId, TOKEN_COSTS.EDIT_VISUALIZATION);
     if (!tokenCheck.allowed) {
       return { success: false, error: tokenCheck.error || 'Insufficient tokens' };
     }
 
     const AI_CONTEXT_WINDOW = 20; // messages sent to the AI — keeps prompts lean
-    const { DB_HISTORY_CAP } = VALIDATION_LIMITS;
+    const { DB_HISTORY_CAP, MAX_EDIT_CHANGE_LINES } = VALIDATION_LIMITS;
     const contextHistory = messages
       ? messages.slice(-AI_CONTEXT_WINDOW).map(m => ({ role: m.role, content: m.content }))
       : [];
 
-    const result = await editChartSpec(existingOption, editPrompt, contextHistory);
+    const visualization = visualizationId
+      ? await VisualizationModel.findOne({ _id: visualizationId, userId })
+      : null;
+    const source = resolveDatasetSource(dataset, visualization);
+
+    // ── Pipeline context — only for plan-built charts whose rows load.
+    // Best-effort: without rows the edit falls back to patching the option.
+    const encodingBefore = visualization?.spec.encoding;
+    let sourceRows: Record<string, unknown>[] | undefined;
+    if (encodingBefore && source && revisionAction === 'ai-edit') {
+      try {
+        sourceRows = (await loadDatasetRows(source, userId)).rows;
+      } catch (error) {
+        console.error(error);
+        Sentry.captureException(error);
+      }
+    }
+    const sourceSchema = sourceRows ? inferSchema(sourceRows) : undefined;
+    const pipeline = encodingBefore && sourceRows && sourceSchema
+      ? {
+          schema: sourceSchema,
+          rowCount: sourceRows.length,
+          encoding: encodingBefore,
+          transforms: visualization?.spec.transforms ?? [],
+          rebuild: (transforms: TransformStep[], encoding: EncodingPlan) => runPipeline(sourceRows!, encoding, transforms, sourceSchema),
+        }
+      : undefined;
+
+    let fullReplacementError: string | undefined;
+    const result = await editChartSpec(existingOption, editPrompt, contextHistory, pipeline, async () => {
+      const fullCheck = await checkTokenBalance(userId, TOKEN_COSTS.EDIT_VISUALIZATION_FULL);
+      fullReplacementError = fullCheck.error;
+      return fullCheck.allowed;
+    });
+    if (result.fullReplacementDeclined) {
+      await chargeFailedAttempt(userId, result.promptTokens, result.completionTokens);
+      return { success: false, error: `This edit needs the whole chart rewritten. ${fullReplacementError || 'Insufficient tokens'}` };
+    }
+    if (result.validationErrors) {
+      Sentry.captureMessage(`[spec-validator] edit failed validation: ${result.validationErrors.join('; ')}`, 'warning');
+      await chargeFailedAttempt(userId, result.promptTokens, result.completionTokens);
+      return { success: false, error: describeValidationFailure(result.validationErrors) };
+    }
+
+    // Patch edits report one line per operation — capped so a sprawling patch
+    // doesn't bloat the thread (or the stored history).
+    const changes = result.changes?.length ? result.changes.slice(0, MAX_EDIT_CHANGE_LINES) : undefined;
+
+    // A re-planned pipeline is carried into the existing option the same way
+    // a live refresh is, so styling edits made since generation survive.
+    const encoding = result.pipeline?.encoding ?? encodingBefore;
+    const transforms = result.pipeline ? (result.pipeline.transforms.length ? result.pipeline.transforms : undefined) : visualization?.spec.transforms;
+    const option = result.pipeline && sourceRows && sourceSchema
+      ? refreshChartData(existingOption, { headers: sourceSchema.map(c => c.name), rows: sourceRows, schema: sourceSchema }, encoding, transforms).option
+      : result.option;
 
     // ── Narrative summary — regenerate only when the chart's data actually
     // changed (a question response leaves `option` undefined, so the old
@@ -304,9 +629,9 @@ export async function editVisualizationAction(
     let narrative: string | undefined;
     let narrativePromptTokens = 0;
     let narrativeCompletionTokens = 0;
-    if (result.option) {
+    if (option) {
       try {
-        const narrativeResult = await generateNarrative(result.option, getOptionTitleText(result.option));
+        const narrativeResult = await generateNarrative(option, getOptionTitleText(option));
         narrative = narrativeResult.data.narrative;
         narrativePromptTokens = narrativeResult.promptTokens;
         narrativeCompletionTokens = narrativeResult.completionTokens;
@@ -326,46 +651,75 @@ export async function editVisualizationAction(
     }
 
     let updatedVisualization: SavedVisualization | null = null;
+    let revision: number | undefined;
+
+    // ── Re-verify the edited numbers — a chart with no reachable dataset
+    // loses its old verification rather than keep a stale badge.
+    let verification: DataVerification | undefined;
+    if (option && source) {
+      verification = sourceRows
+        ? verifyChartData(option, sourceRows, datasetLabel(source), encoding, transforms)
+        : await verifyAgainstDataset(option, source, userId, encoding, transforms);
+    }
 
     // If the option was modified and we have an ID, update the database
-    if (result.option && visualizationId) {
-       const visualization = await VisualizationModel.findOne({ _id: visualizationId, userId });
-
-       if (visualization) {
-         visualization.spec = { ...visualization.spec, option: result.option, narrative: narrative ?? visualization.spec.narrative };
-         visualization.updatedAt = new Date();
+    if (option && visualization) {
+      visualization.spec = {
+        ...visualization.spec,
+        option,
+        narrative: narrative ?? visualization.spec.narrative,
+        verification,
+        ...(result.pipeline ? { encoding, transforms } : {}),
+      };
+      visualization.updatedAt = new Date();
 
-         // Keep an active, non-saved, non-live session alive while in use
-         if (visualization.isSaved === false && !visualization.liveData?.url) {
-           visualization.sessionExpiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
-         }
+      // Keep an active, non-saved, non-live session alive while in use
+      if (visualization.isSaved === false && !hasLiveSource(visualization.liveData)) {
+        visualization.sessionExpiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      }
 
-         // Update history — messages already includes the new user message, so only append assistant reply.
-         // Cap at MAX_HISTORY to prevent unbounded document growth.
-         if (messages) {
-            const historyItems: { role: "user" | "assistant"; content: string; timestamp: Date }[] = [
-                ...messages.map(h => ({
-                    role: h.role as "user" | "assistant",
-                    content: h.content,
-                    timestamp: typeof h.timestamp === 'string' ? new Date(h.timestamp) : h.timestamp
-                })),
-                { role: 'assistant' as const, content: result.message, timestamp: new Date() }
-            ];
-            visualization.history = historyItems.slice(-DB_HISTORY_CAP);
-         }
+      // Recorded before the save so the assistant turn can point at the
+      // revision it produced — branching from that turn later starts there.
+      revision = await recordRevision({
+        userId,
+        visualizationId: visualization._id.toString(),
+        spec: visualization.spec,
+        action: revisionAction,
+        prompt: revisionAction === 'live-refresh' ? 'Refreshed from live data' : editPrompt,
+        sessionExpiresAt: visualization.sessionExpiresAt,
+      }) ?? undefined;
+
+      // Update history — messages already includes the new user message, so only append assistant reply.
+      // Cap at MAX_HISTORY to prevent unbounded document growth.
+      if (messages) {
+         const historyItems: { role: "user" | "assistant"; content: string; timestamp: Date; changes?: string[]; revision?: number }[] = [
+             ...messages.map(h => ({
+                 role: h.role as "user" | "assistant",
+                 content: h.content,
+                 timestamp: typeof h.timestamp === 'string' ? new Date(h.timestamp) : h.timestamp,
+                 ...(h.changes?.length ? { changes: h.changes.slice(0, MAX_EDIT_CHANGE_LINES) } : {}),
+                 ...(h.revision ? { revision: h.revision } : {})
+             })),
+             { role: 'assistant' as const, content: result.message, timestamp: new Date(), ...(changes ? { changes } : {}), ...(revision ? { revision } : {}) }
+         ];
+         visualization.history = historyItems.slice(-DB_HISTORY_CAP);
+      }
 
-         await visualization.save();
+      await visualization.save();
 
-         // Manually sanitize to return a plain object
-         updatedVisualization = sanitizeVisualization(visualization);
-       }
+      // Manually sanitize to return a plain object
+      updatedVisualization = sanitizeVisualization(visualization);
     }
 
     return {
       success: true,
       message: result.message,
-      option: result.option, // Updated option payload (or undefined if just a question)
+      option, // Updated option payload (or undefined if just a question)
+      changes, // Per-operation summary of a patch edit (undefined for questions / full replacements)
       narrative, // Updated narrative (only set when `option` changed)
+      pipeline: result.pipeline ? { encoding, transforms } : undefined, // New plan + steps (only when the edit re-planned the data)
+      verification, // Fresh dataset check (only when `option` changed and a dataset was reachable)
+      revision, // Revision the edit produced (only when `option` changed on a stored visualization)
       visualization: updatedVisualization
     };
 
@@ -377,7 +731,86 @@ export async function editVisualizationAction(
 }
 
 /**
- * Save a visualization to database
+ * Replace a plan-built chart's transform steps (from the transform editor)
+ * and rebuild it from its rows — no AI, no token cost. The new data is
+ * carried into the existing option like a live refresh, re-verified, and
+ * recorded as a `transform` revision.
+ */
+export async function updateVisualizationTransforms(
+  visualizationId: string,
+  transforms: TransformStep[],
+  dataset?: DatasetSource
+): Promise<{ success: boolean; error?: string; data?: Pick<VisualizationSpec, 'option' | 'transforms' | 'verification'>; revision?: number }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const rateCheck = await checkRateLimit(userId, 'save');
+    if (!rateCheck.allowed) {
+      return { success: false, error: `Too many requests. Please wait ${rateCheck.retryAfter ?? 60} seconds.` };
+    }
+
+    const idValidation = validateObjectId(visualizationId);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+
+    const stepErrors = validateTransformSteps(transforms);
+    if (stepErrors.length > 0) return { success: false, error: stepErrors[0] };
+
+    await connectToDatabase();
+    const visualization = await VisualizationModel.findOne({ _id: visualizationId, userId });
+    if (!visualization) return { success: false, error: 'Visualization not found' };
+
+    const encoding = visualization.spec.encoding;
+    if (!encoding) return { success: false, error: "This chart wasn't computed from a dataset, so it has no transform steps" };
+
+    const source = resolveDatasetSource(dataset, visualization);
+    if (!source) return { success: false, error: 'The dataset behind this chart is no longer available' };
+
+    const loaded = await loadDatasetRows(source, userId);
+    if (!loaded.rows) return { success: false, error: loaded.error ?? 'Failed to load the dataset' };
+
+    const steps = transforms.length ? transforms : undefined;
+    const schema = inferSchema(loaded.rows);
+    const built = runPipeline(loaded.rows, encoding, steps, schema);
+    if (!built.ok) return { success: false, error: built.errors[0] };
+
+    const { option } = refreshChartData(
+      visualization.spec.option,
+      { headers: schema.map(c => c.name), rows: loaded.rows, schema },
+      encoding,
+      steps
+    );
+    const verification = verifyChartData(option, loaded.rows, datasetLabel(source), encoding, steps);
+
+    visualization.spec = { ...visualization.spec, option, transforms: steps, verification };
+    visualization.updatedAt = new Date();
+    if (visualization.isSaved === false && !hasLiveSource(visualization.liveData)) {
+      visualization.sessionExpiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    }
+
+    const revision = await recordRevision({
+      userId,
+      visualizationId,
+      spec: visualization.spec,
+      action: 'transform',
+      prompt: steps ? steps.map(describeTransform).join('; ') : 'Removed all transform steps',
+      sessionExpiresAt: visualization.sessionExpiresAt,
+    }) ?? undefined;
+
+    await visualization.save();
+
+    return { success: true, data: { option, transforms: steps, verification }, revision };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to update transforms') };
+  }
+}
+
+/**
+ * Save a visualization to database. `revisionAction` labels the revision
+ * recorded when the spec changed — theme and annotation autosaves pass their
+ * own so the history shows what actually happened.
  */
 export async function saveVisualization(
   title: string,
@@ -385,7 +818,8 @@ export async function saveVisualization(
   metadata: VisualizationMetadata,
   isPublic: boolean = false,
   id?: string,
-  history?: { role: 'user' | 'assistant'; content: string; timestamp: Date | string }[]
+  history?: { role: 'user' | 'assistant'; content: string; timestamp: Date | string; changes?: string[]; revision?: number }[],
+  revisionAction: Extract<RevisionAction, 'save' | 'theme' | 'annotation'> = 'save'
 ): Promise<{ success: boolean; id?: string; error?: string; data?: SavedVisualization | null }> {
   try {
     const { userId } = await auth();
@@ -462,7 +896,8 @@ export async function saveVisualization(
          if (history) {
            visualization.history = history.slice(-VALIDATION_LIMITS.DB_HISTORY_CAP).map(h => ({
              ...h,
-             timestamp: typeof h.timestamp === 'string' ? new Date(h.timestamp) : h.timestamp
+             timestamp: typeof h.timestamp === 'string' ? new Date(h.timestamp) : h.timestamp,
+             changes: h.changes?.slice(0, VALIDATION_LIMITS.MAX_EDIT_CHANGE_LINES)
            }));
          }
          visualization.updatedAt = new Date();
@@ -594,6 +1029,14 @@ export async function saveVisualization(
       }
     }
 
+    await recordRevision({
+      userId,
+      visualizationId: visualization._id.toString(),
+      spec: visualization.spec,
+      action: revisionAction,
+      sessionExpiresAt: visualization.sessionExpiresAt,
+    });
+
     const sanitizedData = sanitizeVisualization(visualization);
 
     return { success: true, id: visualization._id.toString(), data: sanitizedData };
@@ -621,7 +1064,7 @@ export async function getUserVisualizations(limit?: number) {
     await connectToDatabase();
 
     const query = VisualizationModel.find({ userId, isSaved: { $ne: false } })
-      .select('_id userId title spec metadata isPublic createdAt updatedAt liveData schedule shareId')
+      .select('_id userId title spec metadata isPublic createdAt updatedAt liveData schedule alerts shareId datasetId')
       .sort({ updatedAt: -1 });
 
     const visualizations = await (limit ? query.limit(limit) : query).lean();
@@ -640,7 +1083,7 @@ export async function getUserVisualizations(limit?: number) {
 /**
  * Get the current user's "session" chats for hydrating the sidebar on load:
  * ephemeral, not-yet-expired sessions (`isSaved: false`), plus any
- * live-connected visualization (`liveData.url` set) regardless of
+ * live-connected visualization (`liveData.url`, `.sql` or `.json` set) regardless of
  * `isSaved` — lives stay in the sidebar forever, until deleted, even though
  * connecting live data also promotes them to "My Visualizations". All other
  * explicitly saved visualizations live only in "My Visualizations" and are
@@ -658,9 +1101,14 @@ export async function getUserSessions(limit: number = 50) {
 
     const visualizations = await VisualizationModel.find({
       userId,
-      $or: [{ isSaved: false }, { 'liveData.url': { $exists: true, $nin: [null, ''] } }],
+      $or: [
+        { isSaved: false },
+        { 'liveData.url': { $exists: true, $nin: [null, ''] } },
+        { 'liveData.sql.connectionId': { $exists: true } },
+        { 'liveData.json.url': { $exists: true } },
+      ],
     })
-      .select('_id title spec metadata isPublic shareId createdAt updatedAt history liveData schedule isSaved')
+      .select('_id title spec metadata isPublic shareId createdAt updatedAt history liveData schedule alerts isSaved datasetId')
       .sort({ updatedAt: -1 })
       .limit(limit)
       .lean();
@@ -754,7 +1202,7 @@ export async function getVisualizationById(id: string) {
  */
 export async function saveLiveDataConfig(
   visualizationId: string,
-  liveData: { url: string; interval: number; lastRefreshed?: string } | null
+  liveData: LiveDataConfig | null
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const { userId } = await auth();
@@ -764,9 +1212,9 @@ export async function saveLiveDataConfig(
     if (!idValidation.valid) return { success: false, error: idValidation.error };
 
     if (liveData) {
-      if (isBlockedSheetUrl(liveData.url)) {
-        return { success: false, error: 'Only HTTPS URLs to public data sources are allowed' };
-      }
+      const sourceValidation = await validateLiveSourceRef(liveData, userId);
+      if (!sourceValidation.ok) return { success: false, error: sourceValidation.error };
+      liveData = { ...sourceValidation.ref, interval: liveData.interval, lastRefreshed: liveData.lastRefreshed };
     }
 
     await connectToDatabase();
@@ -777,6 +1225,7 @@ export async function saveLiveDataConfig(
     }
 
     let update: Record<string, unknown>;
+    let sessionExpiresAt: Date | undefined;
     if (liveData) {
       // Connecting to a live source: never expires, and promotes the
       // session to "saved" so it shows up on the "My Visualizations" page.
@@ -785,11 +1234,15 @@ export async function saveLiveDataConfig(
       update = { $unset: { liveData: '' } };
       if (doc.isSaved === false) {
         // Disconnecting from an unsaved session: resume normal session TTL.
-        update.$set = { sessionExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) };
+        sessionExpiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        update.$set = { sessionExpiresAt };
       }
     }
 
     await VisualizationModel.updateOne({ _id: visualizationId, userId }, update);
+    // No refresh records a snapshot once disconnected — hand the TTL to the
+    // ones it has now, so they expire with the session.
+    await syncSnapshotExpiry(visualizationId, sessionExpiresAt);
 
     return { success: true };
   } catch (error) {
@@ -800,12 +1253,12 @@ export async function saveLiveDataConfig(
 }
 
 /**
- * Enable/disable and configure the weekly email digest for a single
+ * Enable/disable and configure the email digest schedule for a single
  * visualization's live data (mirrors `updateDashboardSchedule`).
  */
 export async function updateVisualizationSchedule(
   visualizationId: string,
-  schedule: { enabled: boolean; dayOfWeek: number }
+  schedule: ScheduleInput
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const { userId } = await auth();
@@ -814,15 +1267,23 @@ export async function updateVisualizationSchedule(
     const idValidation = validateObjectId(visualizationId);
     if (!idValidation.valid) return { success: false, error: idValidation.error };
 
-    if (!Number.isInteger(schedule.dayOfWeek) || schedule.dayOfWeek < 0 || schedule.dayOfWeek > 6) {
-      return { success: false, error: 'dayOfWeek must be between 0 and 6' };
-    }
+    const scheduleValidation = validateScheduleInput(schedule);
+    if (!scheduleValidation.valid) return { success: false, error: scheduleValidation.error };
 
     await connectToDatabase();
 
+    const lastOccurrence = seedLastOccurrence(schedule, new Date());
     const result = await VisualizationModel.updateOne(
       { _id: visualizationId, userId },
-      { $set: { 'schedule.enabled': schedule.enabled, 'schedule.dayOfWeek': schedule.dayOfWeek } }
+      {
+        $set: {
+          'schedule.enabled': schedule.enabled,
+          'schedule.rrule': schedule.rrule,
+          'schedule.timezone': schedule.timezone,
+          ...(lastOccurrence ? { 'schedule.lastOccurrence': lastOccurrence } : {}),
+        },
+        $unset: { 'schedule.dayOfWeek': 1, ...(lastOccurrence ? {} : { 'schedule.lastOccurrence': 1 }) },
+      }
     );
 
     if (result.matchedCount === 0) {
@@ -837,6 +1298,52 @@ export async function updateVisualizationSchedule(
   }
 }
 
+/**
+ * Replace a visualization's alert rules. Rules keep their `lastTriggeredAt`
+ * across edits (matched by id), so re-saving doesn't reset a cooldown.
+ */
+export async function updateVisualizationAlerts(
+  visualizationId: string,
+  rules: AlertRule[]
+): Promise<{ success: boolean; error?: string; data?: AlertRule[] }> {
+  try {
+    const { userId } = await auth();
+    if (!userId) return { success: false, error: 'Authentication required' };
+
+    const rl = await checkRateLimit(userId, 'save');
+    if (!rl.allowed) return { success: false, error: `Too many requests. Try again in ${rl.retryAfter ?? 60}s.` };
+
+    const idValidation = validateObjectId(visualizationId);
+    if (!idValidation.valid) return { success: false, error: idValidation.error };
+
+    const validation = validateAlertRules(rules);
+    if (!validation.valid) return { success: false, error: validation.error };
+    for (const rule of validation.rules) {
+      if (rule.channels.some(c => c.kind === 'webhook' && isBlockedSheetUrl(c.url))) {
+        return { success: false, error: 'Webhook URL not allowed — use a public HTTPS endpoint' };
+      }
+    }
+
+    await connectToDatabase();
+
+    const existing = await VisualizationModel.findOne({ _id: visualizationId, userId }).select('alerts').lean();
+    if (!existing) return { success: false, error: 'Visualization not found or unauthorized' };
+
+    const lastTriggered = new Map((existing.alerts ?? []).map(r => [r.id, r.lastTriggeredAt]));
+    const next = validation.rules.map(rule => {
+      const lastTriggeredAt = lastTriggered.get(rule.id);
+      return lastTriggeredAt ? { ...rule, lastTriggeredAt } : rule;
+    });
+
+    await VisualizationModel.updateOne({ _id: visualizationId, userId }, { $set: { alerts: next } });
+    return { success: true, data: next };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { success: false, error: sanitizeError(error, 'Failed to update alerts') };
+  }
+}
+
 /** Duplicate a visualization */
 export async function duplicateVisualization(
   visualizationId: string
@@ -879,6 +1386,7 @@ export async function duplicateVisualization(
       metadata: { ...source.metadata, generatedAt: new Date() },
       isPublic: false,
       isSaved: true,
+      ...(source.datasetId ? { datasetId: source.datasetId } : {}),
       history: [],
     });
     user.savedVisualizations.push(new Types.ObjectId(copy._id));
@@ -892,6 +1400,14 @@ export async function duplicateVisualization(
       session.endSession();
     }
 
+    await recordRevision({
+      userId,
+      visualizationId: copy._id.toString(),
+      spec: copy.spec,
+      action: 'fork',
+      prompt: `Copied from "${source.title}"`,
+    });
+
     return { success: true, data: sanitizeVisualization(copy) };
   } catch (error) {
     return { success: false, error: sanitizeError(error, 'Failed to duplicate visualization') };
@@ -934,6 +1450,8 @@ export async function deleteVisualization(visualizationId: string) {
       { clerkId: userId },
       { $pull: { savedVisualizations: new Types.ObjectId(visualizationId) } }
     );
+    await VisualizationRevisionModel.deleteMany({ visualizationId, userId });
+    await DataSnapshotModel.deleteMany({ visualizationId, userId });
 
     return { success: true };
   } catch (error) {
@@ -49,11 +49,16 @@ const DashboardSchema = new Schema<Dashboard>(
       ],
       default: [],
     },
-    // Weekly email digest: re-fetches connected sheets for this dashboard's
-    // charts and emails a summary on `dayOfWeek` (UTC).
+    // Email digest: re-fetches connected sheets for this dashboard's charts
+    // and emails a summary on each occurrence of `rrule` in `timezone`
+    // (lib/types/schedule.ts). `dayOfWeek` is the pre-rule weekly schedule,
+    // still read for dashboards saved before rules existed.
     schedule: {
       enabled: { type: Boolean, default: false },
-      dayOfWeek: { type: Number, min: 0, max: 6, default: 1 }, // Monday
+      rrule: String,
+      timezone: String,
+      lastOccurrence: String,
+      dayOfWeek: { type: Number, min: 0, max: 6 },
       lastSentAt: Date,
     },
   },
@@ -62,7 +67,7 @@ const DashboardSchema = new Schema<Dashboard>(
 
 DashboardSchema.index({ userId: 1, createdAt: -1 });
 DashboardSchema.index({ dashboardId: 1 }, { unique: true, sparse: true });
-DashboardSchema.index({ 'schedule.enabled': 1, 'schedule.dayOfWeek': 1 });
+DashboardSchema.index({ 'schedule.enabled': 1 });
 
 const DashboardModel: Model<Dashboard> =
   mongoose.models.Dashboard || mongoose.model<Dashboard>('Dashboard', DashboardSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import type { DataConnection } from '@/lib/types/data-connection';
+
+const DataConnectionSchema = new Schema<DataConnection>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      maxlength: 80,
+    },
+    engine: {
+      type: String,
+      enum: ['postgres', 'http'],
+      required: true,
+    },
+    // Ciphertext only — `select: false` keeps the secrets out of every query
+    // that doesn't explicitly ask for them with `+encryptedUrl` etc.
+    encryptedUrl: {
+      type: String,
+      select: false,
+    },
+    encryptedHeaderValue: {
+      type: String,
+      select: false,
+    },
+    headerName: {
+      type: String,
+    },
+    host: {
+      type: String,
+      required: true,
+    },
+    database: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const DataConnectionModel: Model<DataConnection> =
+  mongoose.models.DataConnection ||
+  mongoose.model<DataConnection>('DataConnection', DataConnectionSchema);
+
+export default DataConnectionModel;
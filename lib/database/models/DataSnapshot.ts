@@ -0,0 +1,50 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import type { DataSnapshot } from '@/lib/types/snapshot';
+
+const DataSnapshotSchema = new Schema<DataSnapshot>({
+  visualizationId: {
+    type: String,
+    required: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  capturedAt: {
+    type: Date,
+    required: true,
+  },
+  rowHash: {
+    type: String,
+    required: true,
+  },
+  rowCount: {
+    type: Number,
+    required: true,
+  },
+  data: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  trigger: {
+    type: String,
+    enum: ['manual', 'scheduled'],
+    required: true,
+  },
+  summary: String,
+  // Kept in sync with the parent visualization's `sessionExpiresAt`, like
+  // its revisions — an expired session's history goes with it.
+  sessionExpiresAt: {
+    type: Date,
+  },
+});
+
+DataSnapshotSchema.index({ visualizationId: 1, capturedAt: -1 });
+DataSnapshotSchema.index({ sessionExpiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const DataSnapshotModel: Model<DataSnapshot> =
+  mongoose.models.DataSnapshot ||
+  mongoose.model<DataSnapshot>('DataSnapshot', DataSnapshotSchema);
+
+export default DataSnapshotModel;
@@ -0,0 +1,68 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import type { Dataset } from '@/lib/types/dataset';
+
+const DatasetSchema = new Schema<Dataset>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 120,
+    },
+    sourceFileName: {
+      type: String,
+    },
+    headers: {
+      type: [String],
+      default: [],
+    },
+    // Capped at VALIDATION_LIMITS.MAX_DATASET_SIZE when serialized, well under
+    // the 16 MB document limit. Excluded from list queries.
+    rows: {
+      type: Schema.Types.Mixed,
+      default: [],
+    },
+    // `inferSchema` output — named so it doesn't shadow the document's `schema`.
+    columnSchema: {
+      type: Schema.Types.Mixed,
+      default: [],
+    },
+    rowCount: {
+      type: Number,
+      required: true,
+    },
+    // Same shape as Visualization.liveData, minus interval / refresh state.
+    liveSource: {
+      url: { type: String },
+      sql: {
+        connectionId: { type: String },
+        query: { type: String },
+        params: { type: [Schema.Types.Mixed], default: undefined },
+      },
+      json: {
+        url: { type: String },
+        path: { type: String },
+        connectionId: { type: String },
+      },
+    },
+    lastRefreshed: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+DatasetSchema.index({ userId: 1, updatedAt: -1 });
+
+const DatasetModel: Model<Dataset> =
+  mongoose.models.Dataset ||
+  mongoose.model<Dataset>('Dataset', DatasetSchema);
+
+export default DatasetModel;
@@ -27,6 +27,10 @@ interface IUser extends Document {
     usageAlerts: boolean;
   };
 
+  privacyPreferences: {
+    cacheGenerations: boolean;
+  };
+
   createdAt: Date;
   updatedAt: Date;
   lastLoginAt?: Date;
@@ -93,6 +97,13 @@ const UserSchema = new Schema<IUser>(
         default: true,
       },
     },
+    // Off = generations are never read from or written to the result cache.
+    privacyPreferences: {
+      cacheGenerations: {
+        type: Boolean,
+        default: true,
+      },
+    },
     lastLoginAt: Date,
   },
   {
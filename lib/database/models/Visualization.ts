@@ -47,20 +47,51 @@ const VisualizationSchema = new Schema<SavedVisualization>(
           role: { type: String, enum: ['user', 'assistant'], required: true },
           content: { type: String, required: true },
           timestamp: { type: Date, default: Date.now },
+          changes: { type: [String], default: undefined },
+          revision: { type: Number },
         },
       ],
       default: [],
     },
+    forkedFrom: {
+      visualizationId: { type: String },
+      turnIndex: { type: Number },
+    },
+    // The library dataset (lib/types/dataset.ts) this chart was built from.
+    datasetId: {
+      type: String,
+      index: true,
+    },
     liveData: {
       url: { type: String },
+      sql: {
+        connectionId: { type: String },
+        query: { type: String },
+        params: { type: [Schema.Types.Mixed], default: undefined },
+      },
+      json: {
+        url: { type: String },
+        path: { type: String },
+        connectionId: { type: String },
+      },
       interval: { type: Number, default: 0 },
       lastRefreshed: { type: String },
     },
+    // Same shape as the dashboard schedule — `dayOfWeek` is the legacy weekly field.
     schedule: {
       enabled: { type: Boolean, default: false },
+      rrule: { type: String },
+      timezone: { type: String },
+      lastOccurrence: { type: String },
       dayOfWeek: { type: Number },
       lastSentAt: { type: String },
     },
+    // AlertRule[] (lib/types/alert.ts) — validated by `validateAlertRules`
+    // before every write; `lastTriggeredAt` is set by the alert service.
+    alerts: {
+      type: [Schema.Types.Mixed],
+      default: undefined,
+    },
     // Auto-persisted "session" docs (created on every generation) are
     // ephemeral until the user explicitly saves — `isSaved: false` plus
     // `sessionExpiresAt` marks them for TTL cleanup. Pre-existing docs and
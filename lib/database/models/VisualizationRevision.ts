@@ -0,0 +1,47 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import type { VisualizationRevision } from '@/lib/types/revision';
+
+const VisualizationRevisionSchema = new Schema<VisualizationRevision>(
+  {
+    visualizationId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    revision: {
+      type: Number,
+      required: true,
+    },
+    spec: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ['generate', 'ai-edit', 'theme', 'annotation', 'live-refresh', 'transform', 'save', 'restore', 'fork'],
+      required: true,
+    },
+    prompt: String,
+    // Kept in sync with the parent visualization's `sessionExpiresAt` — an
+    // ephemeral session's revisions expire with it; a saved one's never do.
+    sessionExpiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+VisualizationRevisionSchema.index({ visualizationId: 1, revision: -1 }, { unique: true });
+VisualizationRevisionSchema.index({ sessionExpiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const VisualizationRevisionModel: Model<VisualizationRevision> =
+  mongoose.models.VisualizationRevision ||
+  mongoose.model<VisualizationRevision>('VisualizationRevision', VisualizationRevisionSchema);
+
+export default VisualizationRevisionModel;
@@ -2,3 +2,7 @@ export { default as VisualizationModel } from './Visualization';
 export { default as UserUsageModel } from './UserUsage';
 export { default as UserModel } from './User';
 export { default as DashboardModel } from './Dashboard';
+export { default as VisualizationRevisionModel } from './VisualizationRevision';
+export { default as DataConnectionModel } from './DataConnection';
+export { default as DatasetModel } from './Dataset';
+export { default as DataSnapshotModel } from './DataSnapshot';
@@ -0,0 +1,152 @@
+// ============================================================================
+// SPEC EVAL CLI — `npm run eval:spec -- <command>`
+//
+//   run [--candidate prompt.txt] [--baseline prompt.txt] [--mode replay|record]
+//       [--cassettes dir] [--out dir]
+//     Score the golden set with the baseline prompt (default: the current
+//     SPEC_SYSTEM_PROMPT) and, given --candidate, with a second prompt too,
+//     printing a comparison. Replay (the default) reads recordings from
+//     --cassettes and never calls the network; record calls the provider
+//     selected by AI_PROVIDER and (re)writes them. --out saves each run as
+//     JSON plus the markdown report.
+//
+//   compare <baseline.json> <candidate.json> [--report file.md]
+//     Compare two saved runs — e.g. one per checkout, to measure a change to
+//     the variant catalog in chart-types.ts rather than to the prompt.
+// ============================================================================
+
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { getAIProvider, setAIProvider } from '@/lib/services/ai-client';
+import { createCassetteProvider, isMissingCassette, type CassetteMode } from '@/lib/services/ai-cassette-provider';
+import { SPEC_SYSTEM_PROMPT } from '@/lib/services/spec-generator';
+import {
+  formatComparisonReport,
+  formatRunReport,
+  runSpecEval,
+  SPEC_METRICS,
+  type SpecCaseResult,
+  type SpecEvalRun,
+} from './spec-eval';
+
+const DEFAULT_CASSETTE_DIR = 'fixtures/evals/spec';
+
+const USAGE = `Usage:
+  npm run eval:spec -- run [--candidate prompt.txt] [--baseline prompt.txt] [--mode replay|record] [--cassettes dir] [--out dir]
+  npm run eval:spec -- compare <baseline.json> <candidate.json> [--report file.md]`;
+
+async function loadPrompt(file: string | undefined): Promise<{ label: string; systemPrompt: string }> {
+  if (!file) return { label: 'current', systemPrompt: SPEC_SYSTEM_PROMPT };
+  return { label: path.basename(file, path.extname(file)), systemPrompt: await readFile(file, 'utf8') };
+}
+
+function logCase(result: SpecCaseResult): void {
+  const failed = SPEC_METRICS.filter(m => result.scores[m] === false);
+  console.log(`  ${failed.length === 0 ? 'pass' : 'FAIL'}  ${result.id}${failed.length > 0 ? `  (${failed.join(', ')})` : ''}`);
+}
+
+/** Whether `dir` holds any recordings — false when it doesn't exist yet. */
+async function hasRecordings(dir: string): Promise<boolean> {
+  try {
+    return (await readdir(dir)).some(file => file.endsWith('.json'));
+  } catch {
+    return false;
+  }
+}
+
+function reportMissingRecordings(dir: string, detail: string): void {
+  console.error(`Setup error: ${detail}`);
+  console.error(`Record them first (calls the provider set by AI_PROVIDER):\n  npm run eval:spec -- run --mode record${dir === DEFAULT_CASSETTE_DIR ? '' : ` --cassettes ${dir}`}`);
+}
+
+async function writeOutput(dir: string, file: string, contents: string): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, file), contents);
+  console.log(`Wrote ${path.join(dir, file)}`);
+}
+
+async function runCommand(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      baseline: { type: 'string' },
+      candidate: { type: 'string' },
+      mode: { type: 'string', default: 'replay' },
+      cassettes: { type: 'string', default: DEFAULT_CASSETTE_DIR },
+      out: { type: 'string' },
+    },
+  });
+  if (values.mode !== 'replay' && values.mode !== 'record') {
+    console.error(`Unknown --mode "${values.mode}" (expected replay or record)`);
+    return 1;
+  }
+
+  const mode = values.mode as CassetteMode;
+  if (mode === 'replay' && !(await hasRecordings(values.cassettes))) {
+    reportMissingRecordings(values.cassettes, `no recordings in ${values.cassettes} to replay.`);
+    return 1;
+  }
+  setAIProvider(createCassetteProvider(mode, values.cassettes, mode === 'record' ? getAIProvider() : undefined));
+
+  const prompts = [await loadPrompt(values.baseline)];
+  if (values.candidate) prompts.push(await loadPrompt(values.candidate));
+  if (prompts.length === 2 && prompts[0].label === prompts[1].label) prompts[1].label += '-candidate';
+
+  const runs: SpecEvalRun[] = [];
+  for (const { label, systemPrompt } of prompts) {
+    console.log(`\n${label} (${mode})`);
+    try {
+      runs.push(await runSpecEval({ label, systemPrompt, onCase: logCase }));
+    } catch (error) {
+      if (!isMissingCassette(error)) throw error;
+      reportMissingRecordings(values.cassettes, `${values.cassettes} is missing recordings for the ${label} prompt.`);
+      return 1;
+    }
+  }
+
+  const report = runs.length === 2 ? formatComparisonReport(runs[0], runs[1]) : formatRunReport(runs[0]);
+  console.log(`\n${report}\n`);
+
+  if (values.out) {
+    for (const run of runs) await writeOutput(values.out, `${run.label}.json`, `${JSON.stringify(run, null, 2)}\n`);
+    await writeOutput(values.out, runs.length === 2 ? 'comparison.md' : `${runs[0].label}.md`, `${report}\n`);
+  }
+
+  // Missing recordings stopped the run above — any error left is the prompt's own, so fail CI on it.
+  return runs.some(run => run.results.some(r => r.error)) ? 1 : 0;
+}
+
+async function compareCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { report: { type: 'string' } },
+  });
+  if (positionals.length !== 2) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const [baseline, candidate] = await Promise.all(
+    positionals.map(async file => JSON.parse(await readFile(file, 'utf8')) as SpecEvalRun)
+  );
+  const report = formatComparisonReport(baseline, candidate);
+  console.log(report);
+  if (values.report) await writeOutput(path.dirname(values.report), path.basename(values.report), `${report}\n`);
+  return 0;
+}
+
+/** Entry point — returns the process exit code. */
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  try {
+    if (command === 'run') return await runCommand(args);
+    if (command === 'compare') return await compareCommand(args);
+    console.error(USAGE);
+    return 1;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+}
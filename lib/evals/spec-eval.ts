@@ -0,0 +1,400 @@
+// ============================================================================
+// SPEC EVAL — score the spec-generation prompt against the golden set
+//
+// Runs every `SPEC_GOLDEN_SET` case through `generateChartSpec` (with
+// whichever system prompt is under test) and scores the output on five
+// axes: series type, variant, structural validity (`validateChartOption`,
+// after the generator's own repair retry), data-entity count against the
+// prompt's "5-20 entities" rule, and styling leakage (keys the prompt forbids
+// because the theme layer owns them). Two runs can then be diffed into a
+// markdown report. The AI provider is whatever `setAIProvider` installed —
+// the CLI (lib/evals/cli.ts) wraps it in a record/replay cassette.
+// ============================================================================
+
+import { createHash } from 'crypto';
+import type { EChartsOption } from 'echarts';
+import { isMissingCassette } from '@/lib/services/ai-cassette-provider';
+import { generateChartSpec, SPEC_SYSTEM_PROMPT } from '@/lib/services/spec-generator';
+import { CHART_TYPES, composePromptWithChartType, resolveVariant } from '@/lib/utils/chart-types';
+import { SPEC_GOLDEN_SET, type SpecGoldenCase } from './spec-golden-set';
+
+type AnyRecord = Record<string, unknown>;
+type Range = [min: number, max: number];
+
+/** Per-type entity bounds, quoted from the prompt's data-quality rule. */
+const PROMPT_ENTITY_RANGES: Record<string, Range> = {
+  pie: [5, 8],
+  bar: [8, 16],
+  line: [12, 24],
+  graph: [10, 20],
+  sankey: [8, 15],
+};
+/** The rule's general "5-20 data entities", for entity-shaped types it gives no example for. */
+const DEFAULT_ENTITY_RANGE: Range = [5, 20];
+const DEFAULT_RANGE_TYPES = new Set(['funnel', 'radar', 'tree', 'treemap', 'sunburst']);
+
+/** Keys the prompt forbids anywhere in the option — `applyBrandTheme` owns them. */
+const STYLING_KEYS = new Set(['color', 'backgroundColor', 'textStyle', 'fontSize', 'fontFamily', 'fontWeight']);
+
+export type SpecMetric = 'series' | 'variant' | 'validity' | 'entities' | 'styling';
+export const SPEC_METRICS: SpecMetric[] = ['series', 'variant', 'validity', 'entities', 'styling'];
+
+const METRIC_LABELS: Record<SpecMetric, string> = {
+  series: 'Series type',
+  variant: 'Variant',
+  validity: 'Structurally valid',
+  entities: 'Entity count in range',
+  styling: 'No styling leakage',
+};
+
+export interface SpecCaseResult {
+  id: string;
+  expectedSeries: string | null;
+  expectedVariant?: string | null;
+  visualizable: boolean;
+  seriesType: string | null;
+  variantKey: string | null;
+  /** Set when generation itself threw (e.g. a missing recording) — every metric then fails. */
+  error?: string;
+  validationErrors?: string[];
+  entityCount: number | null;
+  entityRange: Range | null;
+  /** Paths of forbidden styling keys found in the option, e.g. `series[0].itemStyle.color`. */
+  stylingLeaks: string[];
+  /** Pass/fail per metric; null when the metric doesn't apply to this case. */
+  scores: Record<SpecMetric, boolean | null>;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface SpecMetricSummary {
+  passed: number;
+  scored: number;
+}
+
+export interface SpecEvalRun {
+  label: string;
+  /** First 16 hex chars of sha256(system prompt) — tells runs of different prompts apart. */
+  promptHash: string;
+  model?: string;
+  ranAt: string;
+  results: SpecCaseResult[];
+  summary: Record<SpecMetric, SpecMetricSummary>;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+function asArray(value: unknown): AnyRecord[] {
+  if (value == null) return [];
+  return (Array.isArray(value) ? value : [value]) as AnyRecord[];
+}
+
+function countTreeNodes(nodes: unknown): number {
+  return asArray(nodes).reduce((sum, node) => sum + 1 + countTreeNodes(node.children), 0);
+}
+
+/**
+ * How many data entities the primary series shows — categories for
+ * cartesian bar/line, nodes for graph/sankey/hierarchies, indicators for
+ * radar, data items otherwise.
+ */
+export function countEntities(option: EChartsOption, seriesType: string): number {
+  const all = asArray(option.series);
+  const primary = all.find(s => s.type === seriesType) ?? all[0];
+  if (!primary) return 0;
+
+  switch (seriesType) {
+    case 'bar':
+    case 'line': {
+      const categoryAxis = [...asArray(option.xAxis), ...asArray(option.yAxis)].find(
+        axis => axis.type === 'category' && Array.isArray(axis.data)
+      );
+      return categoryAxis ? (categoryAxis.data as unknown[]).length : asArray(primary.data).length;
+    }
+    case 'graph':
+    case 'sankey':
+      return asArray(primary.data ?? primary.nodes).length;
+    case 'tree':
+    case 'treemap':
+    case 'sunburst':
+      return countTreeNodes(primary.data);
+    case 'radar':
+      return asArray((asArray(option.radar)[0] as AnyRecord | undefined)?.indicator).length;
+    default:
+      return asArray(primary.data).length;
+  }
+}
+
+/** Paths of every forbidden styling key in `value`. */
+export function findStylingLeaks(value: unknown, at = ''): string[] {
+  if (Array.isArray(value)) return value.flatMap((item, i) => findStylingLeaks(item, `${at}[${i}]`));
+  if (!value || typeof value !== 'object') return [];
+  return Object.entries(value).flatMap(([key, child]) => {
+    const childPath = at ? `${at}.${key}` : key;
+    return STYLING_KEYS.has(key) ? [childPath] : findStylingLeaks(child, childPath);
+  });
+}
+
+function entityRangeFor(goldenCase: SpecGoldenCase, seriesType: string): Range | null {
+  if (goldenCase.entities) return goldenCase.entities;
+  return PROMPT_ENTITY_RANGES[seriesType] ?? (DEFAULT_RANGE_TYPES.has(seriesType) ? DEFAULT_ENTITY_RANGE : null);
+}
+
+/** A variant key the catalog actually defines for this series (or null for a type without variants). */
+function isCatalogVariant(seriesType: string, variantKey: string | null): boolean {
+  const variants = CHART_TYPES.find(c => c.series === seriesType)?.variants ?? [];
+  return variantKey === null ? variants.length === 0 : variants.some(v => v.value === variantKey);
+}
+
+function composeCasePrompt(goldenCase: SpecGoldenCase): string {
+  if (!goldenCase.chart) return goldenCase.prompt;
+  const selection = resolveVariant(goldenCase.chart.series, goldenCase.chart.variant);
+  if (!selection || (goldenCase.chart.variant && !selection.variant)) {
+    throw new Error(`Golden case "${goldenCase.id}" names an unknown chart selection`);
+  }
+  return composePromptWithChartType(goldenCase.prompt, selection);
+}
+
+type Generated = Awaited<ReturnType<typeof generateChartSpec>>;
+
+/**
+ * Score one generation against its golden case. The variant metric checks
+ * the expected key when the case pins one, and otherwise only that the key
+ * is one the catalog defines for the returned series type.
+ */
+export function scoreCase(goldenCase: SpecGoldenCase, generated: Generated): SpecCaseResult {
+  const { data, visualizable, validationErrors, promptTokens, completionTokens } = generated;
+  const base = {
+    id: goldenCase.id,
+    expectedSeries: goldenCase.series,
+    expectedVariant: goldenCase.variant,
+    visualizable,
+    seriesType: visualizable ? data.seriesType : null,
+    variantKey: visualizable ? data.variantKey : null,
+    validationErrors,
+    promptTokens,
+    completionTokens,
+  };
+
+  if (goldenCase.series === null || !visualizable) {
+    return {
+      ...base,
+      entityCount: null,
+      entityRange: null,
+      stylingLeaks: [],
+      scores: {
+        series: goldenCase.series === null && !visualizable,
+        variant: null,
+        validity: goldenCase.series === null ? null : false,
+        entities: null,
+        styling: null,
+      },
+    };
+  }
+
+  const seriesType = data.seriesType;
+  const entityRange = entityRangeFor(goldenCase, seriesType);
+  const entityCount = entityRange ? countEntities(data.option, seriesType) : null;
+  const stylingLeaks = findStylingLeaks(data.option);
+
+  return {
+    ...base,
+    entityCount,
+    entityRange,
+    stylingLeaks,
+    scores: {
+      series: seriesType === goldenCase.series,
+      variant: goldenCase.variant !== undefined
+        ? data.variantKey === goldenCase.variant
+        : isCatalogVariant(seriesType, data.variantKey),
+      validity: !validationErrors,
+      entities: entityRange && entityCount !== null
+        ? entityCount >= entityRange[0] && entityCount <= entityRange[1]
+        : null,
+      styling: stylingLeaks.length === 0,
+    },
+  };
+}
+
+function failedCase(goldenCase: SpecGoldenCase, error: unknown): SpecCaseResult {
+  return {
+    id: goldenCase.id,
+    expectedSeries: goldenCase.series,
+    expectedVariant: goldenCase.variant,
+    visualizable: false,
+    seriesType: null,
+    variantKey: null,
+    error: error instanceof Error ? error.message : String(error),
+    entityCount: null,
+    entityRange: null,
+    stylingLeaks: [],
+    scores: { series: false, variant: false, validity: false, entities: false, styling: false },
+    promptTokens: 0,
+    completionTokens: 0,
+  };
+}
+
+export function summarizeResults(results: SpecCaseResult[]): Record<SpecMetric, SpecMetricSummary> {
+  const summary = Object.fromEntries(SPEC_METRICS.map(m => [m, { passed: 0, scored: 0 }])) as Record<SpecMetric, SpecMetricSummary>;
+  for (const result of results) {
+    for (const metric of SPEC_METRICS) {
+      const score = result.scores[metric];
+      if (score === null) continue;
+      summary[metric].scored++;
+      if (score) summary[metric].passed++;
+    }
+  }
+  return summary;
+}
+
+export function hashSystemPrompt(systemPrompt: string): string {
+  return createHash('sha256').update(systemPrompt).digest('hex').slice(0, 16);
+}
+
+/**
+ * Run the golden set (sequentially — recordings and rate limits both prefer
+ * it) against one system prompt. A case whose generation throws is scored
+ * as failing every metric rather than aborting the run.
+ */
+export async function runSpecEval({
+  label,
+  systemPrompt = SPEC_SYSTEM_PROMPT,
+  cases = SPEC_GOLDEN_SET,
+  onCase,
+}: {
+  label: string;
+  systemPrompt?: string;
+  cases?: SpecGoldenCase[];
+  onCase?: (result: SpecCaseResult) => void;
+}): Promise<SpecEvalRun> {
+  const results: SpecCaseResult[] = [];
+  let model: string | undefined;
+
+  for (const goldenCase of cases) {
+    let result: SpecCaseResult;
+    try {
+      const generated = await generateChartSpec(composeCasePrompt(goldenCase), systemPrompt);
+      model ??= generated.model;
+      result = scoreCase(goldenCase, generated);
+    } catch (error) {
+      // A missing recording says nothing about the prompt — stop the whole run instead of scoring it.
+      if (isMissingCassette(error)) throw error;
+      result = failedCase(goldenCase, error);
+    }
+    results.push(result);
+    onCase?.(result);
+  }
+
+  return {
+    label,
+    promptHash: hashSystemPrompt(systemPrompt),
+    model,
+    ranAt: new Date().toISOString(),
+    results,
+    summary: summarizeResults(results),
+    promptTokens: results.reduce((sum, r) => sum + r.promptTokens, 0),
+    completionTokens: results.reduce((sum, r) => sum + r.completionTokens, 0),
+  };
+}
+
+// ── Reporting ───────────────────────────────────────────────────────────────
+
+function rate({ passed, scored }: SpecMetricSummary): string {
+  return scored === 0 ? '—' : `${passed}/${scored} (${Math.round((passed / scored) * 100)}%)`;
+}
+
+function delta(before: SpecMetricSummary, after: SpecMetricSummary): string {
+  if (before.scored === 0 || after.scored === 0) return '—';
+  const points = Math.round((after.passed / after.scored - before.passed / before.scored) * 100);
+  return points === 0 ? '±0' : `${points > 0 ? '+' : ''}${points} pts`;
+}
+
+/** One-line description of what a case produced, for the per-case tables. */
+function describeResult(result: SpecCaseResult): string {
+  if (result.error) return `error: ${result.error}`;
+  if (!result.visualizable) return 'not visualizable';
+  const parts = [`${result.seriesType}${result.variantKey ? `/${result.variantKey}` : ''}`];
+  if (result.entityCount !== null) parts.push(`${result.entityCount} entities`);
+  if (result.validationErrors) parts.push(`invalid: ${result.validationErrors[0]}`);
+  if (result.stylingLeaks.length > 0) parts.push(`styling: ${result.stylingLeaks.slice(0, 3).join(', ')}${result.stylingLeaks.length > 3 ? ', …' : ''}`);
+  return parts.join(' · ');
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/** Markdown summary of a single run. */
+export function formatRunReport(run: SpecEvalRun): string {
+  const lines = [
+    `## ${run.label}`,
+    '',
+    `Prompt \`${run.promptHash}\` · model ${run.model ?? 'unknown'} · ${run.results.length} cases · ${run.promptTokens + run.completionTokens} tokens`,
+    '',
+    '| Metric | Score |',
+    '| --- | --- |',
+    ...SPEC_METRICS.map(m => `| ${METRIC_LABELS[m]} | ${rate(run.summary[m])} |`),
+  ];
+
+  const failures = run.results.filter(r => SPEC_METRICS.some(m => r.scores[m] === false));
+  if (failures.length > 0) {
+    lines.push('', '| Failing case | Failed | Output |', '| --- | --- | --- |');
+    for (const r of failures) {
+      const failed = SPEC_METRICS.filter(m => r.scores[m] === false).join(', ');
+      lines.push(`| ${r.id} | ${failed} | ${escapeCell(describeResult(r))} |`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Markdown comparison of two runs — metric deltas, then every case whose
+ * outcome changed, regressions first. Cases present in only one run (the
+ * golden set changed between them) are listed separately.
+ */
+export function formatComparisonReport(baseline: SpecEvalRun, candidate: SpecEvalRun): string {
+  const lines = [
+    `# Spec prompt comparison: ${baseline.label} → ${candidate.label}`,
+    '',
+    `Baseline prompt \`${baseline.promptHash}\` (${baseline.model ?? 'unknown'}) · candidate prompt \`${candidate.promptHash}\` (${candidate.model ?? 'unknown'})`,
+    '',
+    '| Metric | Baseline | Candidate | Δ |',
+    '| --- | --- | --- | --- |',
+    ...SPEC_METRICS.map(m =>
+      `| ${METRIC_LABELS[m]} | ${rate(baseline.summary[m])} | ${rate(candidate.summary[m])} | ${delta(baseline.summary[m], candidate.summary[m])} |`
+    ),
+    `| Tokens | ${baseline.promptTokens + baseline.completionTokens} | ${candidate.promptTokens + candidate.completionTokens} | |`,
+  ];
+
+  const before = new Map(baseline.results.map(r => [r.id, r]));
+  const after = new Map(candidate.results.map(r => [r.id, r]));
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+
+  for (const [id, b] of before) {
+    const a = after.get(id);
+    if (!a) continue;
+    const lost = SPEC_METRICS.filter(m => b.scores[m] === true && a.scores[m] === false);
+    const gained = SPEC_METRICS.filter(m => b.scores[m] === false && a.scores[m] === true);
+    const row = (metrics: SpecMetric[]) =>
+      `| ${id} | ${metrics.join(', ')} | ${escapeCell(describeResult(b))} | ${escapeCell(describeResult(a))} |`;
+    if (lost.length > 0) regressions.push(row(lost));
+    if (gained.length > 0) improvements.push(row(gained));
+  }
+
+  const header = ['| Case | Metrics | Baseline | Candidate |', '| --- | --- | --- | --- |'];
+  lines.push('', `## Regressions (${regressions.length})`, '');
+  lines.push(...(regressions.length > 0 ? [...header, ...regressions] : ['None.']));
+  lines.push('', `## Improvements (${improvements.length})`, '');
+  lines.push(...(improvements.length > 0 ? [...header, ...improvements] : ['None.']));
+
+  const onlyBaseline = [...before.keys()].filter(id => !after.has(id));
+  const onlyCandidate = [...after.keys()].filter(id => !before.has(id));
+  if (onlyBaseline.length > 0 || onlyCandidate.length > 0) {
+    lines.push('', '## Not compared', '');
+    if (onlyBaseline.length > 0) lines.push(`- Only in baseline: ${onlyBaseline.join(', ')}`);
+    if (onlyCandidate.length > 0) lines.push(`- Only in candidate: ${onlyCandidate.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
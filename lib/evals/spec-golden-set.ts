@@ -0,0 +1,61 @@
+// ============================================================================
+// SPEC GOLDEN SET — prompts with a known-right composition
+//
+// Each case is a prompt the spec generator should answer with a particular
+// series type (and, where the choice is unambiguous, a particular variant
+// from the chart-type catalog). Cases with `chart` go through
+// `composePromptWithChartType` exactly like a gallery pick, so edits to a
+// variant's instruction are exercised too. Keep expectations to what a
+// reviewer would agree on without debate — an ambiguous case measures noise,
+// not regressions. Recordings are keyed by the exact prompt text, so editing
+// a case's prompt (or a variant instruction it composes) needs a re-record.
+// ============================================================================
+
+export interface SpecGoldenCase {
+  /** Stable slug — keys the case across runs and reports. */
+  id: string;
+  prompt: string;
+  /** Forced gallery selection, composed into the prompt before generation. */
+  chart?: { series: string; variant?: string };
+  /** Expected primary series type; null when the prompt must come back `visualizable: false`. */
+  series: string | null;
+  /** Expected `variantKey`. Omit when several variants are defensible — the case is then only checked for a catalog-defined key. */
+  variant?: string | null;
+  /** Entity-count bounds when the prompt itself fixes the count (e.g. "top 5"); otherwise the per-type rule applies. */
+  entities?: [min: number, max: number];
+}
+
+export const SPEC_GOLDEN_SET: SpecGoldenCase[] = [
+  // ── Free-form: the model picks the type ──
+  { id: 'monthly-revenue-trend', prompt: 'Monthly revenue for a mid-size SaaS company over the last two years', series: 'line' },
+  { id: 'step-price-changes', prompt: 'How the US federal minimum wage changed between 1990 and 2024 — it only moves in discrete jumps', series: 'line', variant: 'step', entities: [8, 40] },
+  { id: 'stacked-energy-mix', prompt: 'Share of coal, gas, nuclear, wind and solar in UK electricity generation each year from 2010 to 2023, stacked to show the total', series: 'line' },
+  { id: 'country-gdp-ranking', prompt: 'The 12 largest economies by nominal GDP in 2023', series: 'bar', entities: [12, 12] },
+  { id: 'long-label-ranking', prompt: 'Most spoken languages worldwide by total number of speakers, including second-language speakers', series: 'bar', variant: 'horizontal' },
+  { id: 'profit-loss-by-quarter', prompt: 'Quarterly net profit and loss for an airline from 2019 to 2022, including the pandemic losses', series: 'bar', variant: 'negative' },
+  { id: 'budget-waterfall', prompt: 'Walk from starting cash of $2.4M through each quarter\'s inflows and outflows to year-end cash', series: 'bar', variant: 'waterfall' },
+  { id: 'traffic-sources', prompt: 'Breakdown of website traffic sources for an e-commerce store', series: 'pie' },
+  { id: 'top-five-browsers', prompt: 'Top 5 desktop browsers by market share', series: 'pie', entities: [5, 6] },
+  { id: 'height-weight-correlation', prompt: 'Relationship between height and weight across a sample of adult athletes', series: 'scatter' },
+  { id: 'country-bubble', prompt: 'Countries plotted by life expectancy vs GDP per capita, sized by population', series: 'scatter', variant: 'bubble' },
+  { id: 'weekday-hour-activity', prompt: 'Support ticket volume by weekday and hour of the day', series: 'heatmap', variant: 'cartesian' },
+  { id: 'ml-concept-map', prompt: 'Key concepts in machine learning and how they relate to each other', series: 'graph', variant: 'force' },
+  { id: 'company-org-chart', prompt: 'Org chart of a 40-person startup from the CEO down to team leads', series: 'tree' },
+  { id: 'checkout-funnel', prompt: 'E-commerce conversion funnel from product view to completed purchase', series: 'funnel' },
+  { id: 'energy-flow', prompt: 'How primary energy sources flow into electricity, transport, industry and residential use in the US', series: 'sankey' },
+  { id: 'phone-comparison', prompt: 'Compare three flagship phones on camera, battery, performance, display, price and build quality', series: 'radar' },
+  { id: 'disk-usage', prompt: 'Disk usage of a developer laptop broken down by folder and sub-folder', series: 'treemap' },
+  { id: 'server-cpu-now', prompt: 'Current CPU utilisation of our main database server: 73%', series: 'gauge', entities: [1, 1] },
+
+  // ── Forced by a gallery pick: type (and variant) must be honoured ──
+  { id: 'forced-donut', prompt: 'Household spending categories for an average US family', chart: { series: 'pie', variant: 'donut' }, series: 'pie', variant: 'donut' },
+  { id: 'forced-stacked-bar', prompt: 'Smartphone shipments by vendor for each quarter of 2023', chart: { series: 'bar', variant: 'stacked' }, series: 'bar', variant: 'stacked', entities: [4, 4] },
+  { id: 'forced-area', prompt: 'Daily active users of a mobile game over its first 60 days', chart: { series: 'line', variant: 'area' }, series: 'line', variant: 'area', entities: [30, 60] },
+  { id: 'forced-radial-tree', prompt: 'The taxonomy of the animal kingdom down to a few well-known orders', chart: { series: 'tree', variant: 'radial' }, series: 'tree', variant: 'radial' },
+  { id: 'forced-vertical-sankey', prompt: 'Student journeys from high school through university to first job sector', chart: { series: 'sankey', variant: 'vertical' }, series: 'sankey', variant: 'vertical' },
+  { id: 'forced-bar-over-pie-data', prompt: 'Market share of the major cloud providers', chart: { series: 'bar' }, series: 'bar', entities: [4, 10] },
+
+  // ── Nothing to chart ──
+  { id: 'small-talk', prompt: 'hey, how are you doing today?', series: null },
+  { id: 'gibberish', prompt: 'asdf qwer zxcv', series: null },
+];
@@ -1,19 +1,31 @@
 import * as Sentry from '@sentry/nextjs';
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { SavedVisualization } from '@/lib/types/visualization';
-import type { BrandTheme, Annotation } from '@/lib/types/echarts-spec';
+import type { LiveDataConfig, SavedVisualization, SimilarCacheChoice } from '@/lib/types/visualization';
+import type { BrandTheme, Annotation, VisualizationSpec } from '@/lib/types/echarts-spec';
 import { DEFAULT_SUNSET_THEME } from '@/lib/types/echarts-spec';
 import type { ThreadEntry } from '@/components/dashboard/VizThread';
 import {
   generateVisualization, saveVisualization, editVisualizationAction,
   getVisualizationById, saveLiveDataConfig, createSession, getUserSessions,
-  updateVisualizationTitle, deleteVisualization, updateVisualizationSchedule,
+  updateVisualizationTitle, deleteVisualization, updateVisualizationSchedule, updateVisualizationAlerts,
+  updateVisualizationTransforms,
 } from '@/lib/actions/visualize';
-import { formatLiveDataBlock, detectLiveSheetColumns, type LiveSheetData } from '@/lib/utils/live-sheet';
+import { refreshDashboardVizLiveData } from '@/lib/actions/dashboard';
+import { getDataset } from '@/lib/actions/datasets';
+import { restoreRevision, forkRevision, getRevisionSpec } from '@/lib/actions/revisions';
+import { formatLiveDataBlock, detectLiveSheetColumns, parseLiveSheetRows, requestLiveData, type LiveSheetData } from '@/lib/utils/live-sheet';
+import { describeLiveSource, hasLiveSource, liveSourceDataset, pickLiveSource, sameLiveSource } from '@/lib/utils/live-source';
+import { refreshChartData } from '@/lib/utils/chart-data-refresh';
+import { verifyChartData } from '@/lib/utils/data-verifier';
 import { composePromptWithAttachment, type FileAttachment } from '@/lib/utils/file-attachment';
+import { detectColumns } from '@/lib/services/statistics-service';
 import { composePromptWithChartType, getStyleEffect, type ChartSelection } from '@/lib/utils/chart-types';
-import { composePromptWithLiveSheet } from '@/lib/utils/live-sheet';
+import { composePromptWithLiveSheet, liveSourceNoun } from '@/lib/utils/live-sheet';
 import type { ColumnSchema } from '@/lib/utils/csv-schema';
+import type { DatasetSource } from '@/lib/types/encoding-plan';
+import type { TransformStep } from '@/lib/types/transform';
+import type { ScheduleInput } from '@/lib/types/schedule';
+import type { AlertRule } from '@/lib/types/alert';
 import { toast } from 'sonner';
 
 /* ── Helpers ── */
@@ -59,6 +71,11 @@ function createDemoThread(): ThreadEntry {
   };
 }
 
+/* The library dataset a saved chart was built from, as a reference the server resolves. */
+function libraryDataset(viz: SavedVisualization): DatasetSource | undefined {
+  return viz.datasetId ? { kind: 'dataset', datasetId: viz.datasetId, name: viz.title || 'Library dataset' } : undefined;
+}
+
 /* Consume a "re-visualize" handoff left in sessionStorage by another page. */
 function readRevisualizeHandoff(): { entry: ThreadEntry; title: string } | null {
   if (typeof window === 'undefined') return null;
@@ -82,6 +99,9 @@ function readRevisualizeHandoff(): { entry: ThreadEntry; title: string } | null
       } : undefined,
       liveData: parsed.liveData,
       schedule: parsed.schedule,
+      alerts: parsed.alerts,
+      dataset: libraryDataset(parsed),
+      forkedFrom: parsed.forkedFrom,
     };
     return { entry, title: parsed.title || 'Visualization' };
   } catch {
@@ -148,6 +168,9 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
             } : undefined,
             liveData: viz.liveData,
             schedule: viz.schedule,
+            alerts: viz.alerts,
+            dataset: libraryDataset(viz),
+            forkedFrom: viz.forkedFrom,
           };
           setThreads([entry]);
           setActiveId(entry.id);
@@ -186,6 +209,9 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
             } : undefined,
             liveData: viz.liveData,
             schedule: viz.schedule,
+            alerts: viz.alerts,
+            dataset: libraryDataset(viz),
+            forkedFrom: viz.forkedFrom,
           }));
           if (entries.length === 0) {
             const demo = createDemoThread();
@@ -255,16 +281,23 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
         message.trim(), activeThread.spec.option,
         activeThread.vizId || undefined,
         newHist,
+        activeThread.dataset,
       );
       if (!res.success) throw new Error(res.error || 'Edit failed');
       if (typeof window !== 'undefined') window.dispatchEvent(new Event('tokens-changed'));
       const finalHist: ThreadEntry['chatHistory'] = [
         ...newHist,
-        { role: 'assistant', content: res.message || 'Done.', timestamp: new Date() },
+        {
+          role: 'assistant', content: res.message || 'Done.', timestamp: new Date(),
+          ...(res.changes ? { changes: res.changes } : {}),
+          ...(res.revision ? { revision: res.revision } : {}),
+        },
       ];
       setThreads(p => p.map(t => t.id === id ? {
         ...t,
-        spec: res.option ? { ...t.spec, option: res.option, narrative: res.narrative ?? t.spec.narrative } : t.spec,
+        spec: res.option
+          ? { ...t.spec, option: res.option, narrative: res.narrative ?? t.spec.narrative, verification: res.verification, ...(res.pipeline ?? {}) }
+          : t.spec,
         chatHistory: finalHist,
         specHistory: res.option
           ? [...(t.specHistory ?? []).slice(-9), prevSpec]
@@ -329,44 +362,167 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
     toast.success('Undone');
   }, [activeThread]);
 
+  /* ── Spec autosave — theme and annotation changes are debounced into one save,
+   * labelled with the change that triggered it so revision history reads right. ── */
+  const specSaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+    return () => {
+      if (specSaveTimer.current) clearTimeout(specSaveTimer.current);
+    };
+  }, []);
+  const scheduleSpecSave = useCallback((thread: ThreadEntry, newSpec: VisualizationSpec, action: 'theme' | 'annotation') => {
+    if (!thread.vizId) return;
+    if (specSaveTimer.current) clearTimeout(specSaveTimer.current);
+    specSaveTimer.current = setTimeout(async () => {
+      const res = await saveVisualization(
+        thread.title,
+        newSpec,
+        { generatedAt: new Date(), aiModel: thread.metadata?.aiModel || 'manual', originalInput: thread.prompt },
+        thread.isPublic ?? false,
+        thread.vizId || undefined,
+        thread.chatHistory as { role: 'user' | 'assistant'; content: string; timestamp: Date | string }[],
+        action,
+      );
+      if (!res.success) toast.error(res.error || (action === 'theme' ? 'Failed to save brand styling' : 'Failed to save annotations'));
+    }, 800);
+  }, []);
+
   /* ── Annotations ── */
   const handleAnnotate = useCallback((annotations: Annotation[]) => {
     if (!activeThread) return;
     const id = activeThread.id;
     const newSpec = { ...activeThread.spec, annotations };
     setThreads(p => p.map(t => t.id === id ? { ...t, spec: newSpec } : t));
+    scheduleSpecSave(activeThread, newSpec, 'annotation');
+  }, [activeThread, scheduleSpecSave]);
+
+  /* ── Transform steps — rebuilt server-side from the chart's rows ── */
+  const handleTransformsChange = useCallback(async (transforms: TransformStep[]) => {
+    if (!activeThread?.vizId) return false;
+    const id = activeThread.id;
+    const prevSpec = activeThread.spec;
+    try {
+      const res = await updateVisualizationTransforms(activeThread.vizId, transforms, activeThread.dataset);
+      if (!res.success || !res.data) { toast.error(res.error || 'Failed to apply steps'); return false; }
+      const { option, verification } = res.data;
+      setThreads(p => p.map(t => t.id === id ? {
+        ...t,
+        spec: { ...t.spec, option, transforms: res.data!.transforms, verification },
+        specHistory: [...(t.specHistory ?? []).slice(-9), prevSpec],
+        isDemoThread: false,
+      } : t));
+      toast.success('Data steps applied');
+      return true;
+    } catch {
+      toast.error('An unexpected error occurred');
+      return false;
+    }
   }, [activeThread]);
 
   /* ── Brand theme customization — live restyle + debounced persistence ── */
-  const themeSaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
-  useEffect(() => {
-    return () => {
-      if (themeSaveTimer.current) clearTimeout(themeSaveTimer.current);
-    };
-  }, []);
   const handleThemeChange = useCallback((theme: BrandTheme) => {
     if (!activeThread) return;
     const id = activeThread.id;
     const newSpec = { ...activeThread.spec, theme };
     setThreads(p => p.map(t => t.id === id ? { ...t, spec: newSpec } : t));
+    scheduleSpecSave(activeThread, newSpec, 'theme');
+  }, [activeThread, scheduleSpecSave]);
 
-    if (!activeThread.vizId) return;
-    if (themeSaveTimer.current) clearTimeout(themeSaveTimer.current);
-    themeSaveTimer.current = setTimeout(async () => {
-      const res = await saveVisualization(
-        activeThread.title,
-        newSpec,
-        { generatedAt: new Date(), aiModel: activeThread.metadata?.aiModel || 'manual', originalInput: activeThread.prompt },
-        activeThread.isPublic ?? false,
-        activeThread.vizId || undefined,
-        activeThread.chatHistory as { role: 'user' | 'assistant'; content: string; timestamp: Date | string }[],
-      );
-      if (!res.success) toast.error(res.error || 'Failed to save brand styling');
-    }, 800);
+  /* ── Revision history — restore in place, or fork into a new thread ── */
+  const handleRestoreRevision = useCallback(async (revision: number) => {
+    if (!activeThread?.vizId) return;
+    const id = activeThread.id;
+    const res = await restoreRevision(activeThread.vizId, revision);
+    if (!res.success || !res.spec) { toast.error(res.error || 'Failed to restore'); return; }
+    setThreads(p => p.map(t => t.id === id ? { ...t, spec: res.spec!, isDemoThread: false } : t));
+    toast.success(`Restored revision ${revision}`);
+  }, [activeThread]);
+
+  const handleForkRevision = useCallback(async (revision: number) => {
+    if (!activeThread?.vizId) return;
+    const res = await forkRevision(activeThread.vizId, revision);
+    if (!res.success || !res.data) { toast.error(res.error || 'Failed to fork'); return; }
+    const viz = res.data;
+    const entry: ThreadEntry = {
+      id: genId(),
+      prompt: activeThread.prompt,
+      spec: viz.spec,
+      title: viz.title || 'Visualization',
+      chatHistory: [],
+      vizId: viz._id || null,
+      isSaved: false,
+      isPublic: false,
+      shareId: null,
+      metadata: activeThread.metadata,
+      dataset: activeThread.dataset,
+      datasetColumns: activeThread.datasetColumns,
+      datasetRowCount: activeThread.datasetRowCount,
+      forkedFrom: viz.forkedFrom,
+    };
+    setThreads(p => [...p, entry]);
+    setActiveId(entry.id);
+    toast.success(`Forked revision ${revision} into a new thread`);
+  }, [activeThread]);
+
+  /* ── Conversation branching — a new thread that starts from an earlier assistant turn ── */
+  const handleBranchFromTurn = useCallback(async (turnIndex: number) => {
+    if (!activeThread?.vizId) return;
+    const parent = activeThread;
+    if (parent.chatHistory[turnIndex]?.role !== 'assistant') return;
+
+    // The chart as of that turn: the current spec for the latest reply,
+    // otherwise the revision recorded by the nearest edit at or before it
+    // (a question-only reply leaves the chart as the previous edit did).
+    let spec: VisualizationSpec | undefined;
+    const lastAssistant = parent.chatHistory.map(m => m.role).lastIndexOf('assistant');
+    if (turnIndex === lastAssistant) {
+      spec = parent.spec;
+    } else {
+      const revision = parent.chatHistory.slice(0, turnIndex + 1).reverse().find(m => m.revision)?.revision;
+      if (!revision) { toast.error('The chart at this turn wasn\'t recorded, so it can\'t be branched'); return; }
+      const res = await getRevisionSpec(parent.vizId!, revision);
+      if (!res.success || !res.spec) { toast.error(res.error || 'Failed to load that turn\'s chart'); return; }
+      spec = res.spec;
+    }
+
+    const history = parent.chatHistory.slice(0, turnIndex + 1);
+    const title = `${parent.title} (branch)`;
+    const forkedFrom = { visualizationId: parent.vizId!, turnIndex };
+    const res = await createSession(
+      title,
+      spec,
+      { generatedAt: new Date(), aiModel: parent.metadata?.aiModel, originalInput: parent.prompt },
+      history,
+      null,
+      forkedFrom,
+      parent.dataset?.kind === 'dataset' ? parent.dataset.datasetId : null,
+    );
+    if (!res.success || !res.id) { toast.error(res.error || 'Failed to create branch'); return; }
+
+    const entry: ThreadEntry = {
+      id: genId(),
+      prompt: parent.prompt,
+      spec,
+      title,
+      // Inherited turns' revisions belong to the parent — the server drops them too.
+      chatHistory: history.map(({ revision: _revision, ...m }) => m),
+      vizId: res.id,
+      isSaved: false,
+      isPublic: false,
+      shareId: null,
+      metadata: parent.metadata,
+      dataset: parent.dataset,
+      datasetColumns: parent.datasetColumns,
+      datasetRowCount: parent.datasetRowCount,
+      forkedFrom,
+    };
+    setThreads(p => [...p, entry]);
+    setActiveId(entry.id);
+    toast.success(`Branched from turn ${turnIndex + 1}`);
   }, [activeThread]);
 
   /* ── Live data config ── */
-  const handleLiveDataChange = useCallback(async (config: { url: string; interval: number } | null) => {
+  const handleLiveDataChange = useCallback(async (config: LiveDataConfig | null) => {
     if (!activeThread) return;
     const id = activeThread.id;
 
@@ -391,13 +547,13 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
   }, [activeThread]);
 
   /* ── Email digest schedule ── */
-  const handleScheduleChange = useCallback(async (schedule: { enabled: boolean; dayOfWeek: number }) => {
+  const handleScheduleChange = useCallback(async (schedule: ScheduleInput) => {
     if (!activeThread?.vizId) return;
     const id = activeThread.id;
 
     // Optimistic update
     setThreads(p => p.map(t => t.id === id
-      ? { ...t, schedule: { ...schedule, lastSentAt: t.schedule?.lastSentAt } }
+      ? { ...t, schedule: { ...t.schedule, ...schedule } }
       : t
     ));
 
@@ -406,16 +562,56 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
     else toast.success(schedule.enabled ? 'Email digest enabled' : 'Email digest disabled');
   }, [activeThread]);
 
+  /* ── Metric alerts ── */
+  const handleAlertsChange = useCallback(async (rules: AlertRule[]) => {
+    if (!activeThread?.vizId) return false;
+    const id = activeThread.id;
+
+    const res = await updateVisualizationAlerts(activeThread.vizId, rules);
+    if (!res.success || !res.data) {
+      toast.error(res.error || 'Failed to save alerts');
+      return false;
+    }
+    const saved = res.data;
+    setThreads(p => p.map(t => t.id === id ? { ...t, alerts: saved } : t));
+    toast.success(saved.length ? `${saved.length} ${saved.length === 1 ? 'alert' : 'alerts'} saved` : 'Alerts removed');
+    return true;
+  }, [activeThread]);
+
   /* ── Live data refresh ── */
   const [isRefreshing, setIsRefreshing] = useState(false);
 
   const handleRefreshLiveData = useCallback(async () => {
-    if (!activeThread?.liveData?.url || isRefreshing) return;
+    const liveData = activeThread?.liveData;
+    if (!activeThread || !liveData || !hasLiveSource(liveData) || isRefreshing) return;
     const id = activeThread.id;
+    const encoding = activeThread.spec.encoding;
     setIsRefreshing(true);
 
     try {
-      const res = await fetch(`/api/live-data?url=${encodeURIComponent(activeThread.liveData.url)}`);
+      // Charts built from an encoding plan are recomputed deterministically —
+      // server-side when persisted (recompute + save in one step), no AI call.
+      if (encoding && activeThread.vizId) {
+        const refreshRes = await refreshDashboardVizLiveData(activeThread.vizId);
+        if (!refreshRes.success || !refreshRes.data) {
+          toast.error(refreshRes.error || 'Data refresh failed');
+          return;
+        }
+        if (!refreshRes.data.refreshed || !refreshRes.data.option) {
+          toast.error(refreshRes.data.summary);
+          return;
+        }
+        const { option, verification, lastRefreshed } = refreshRes.data;
+        setThreads(p => p.map(t => t.id === id ? {
+          ...t,
+          spec: { ...t.spec, option, verification },
+          liveData: t.liveData ? { ...t.liveData, lastRefreshed } : undefined,
+        } : t));
+        toast.success(`Chart refreshed — ${refreshRes.data.summary}`);
+        return;
+      }
+
+      const res = await requestLiveData(liveData);
       const data: LiveDataResponse = await res.json();
 
       if (!res.ok || data.error || !data.rawCsv) {
@@ -423,12 +619,38 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
         return;
       }
 
+      if (encoding) {
+        const rows = parseLiveSheetRows(data.rawCsv);
+        const result = refreshChartData(
+          activeThread.spec.option,
+          { headers: data.headers ?? [], rows, schema: data.schema ?? [] },
+          encoding,
+          activeThread.spec.transforms,
+        );
+        if (!result.refreshed) {
+          toast.error(result.summary);
+          return;
+        }
+        const now = new Date().toISOString();
+        const verification = verifyChartData(result.option, rows, describeLiveSource(liveData), encoding, activeThread.spec.transforms);
+        setThreads(p => p.map(t => t.id === id ? {
+          ...t,
+          spec: { ...t.spec, option: result.option, verification },
+          liveData: t.liveData ? { ...t.liveData, lastRefreshed: now } : undefined,
+        } : t));
+        toast.success(`Chart refreshed — ${result.summary}`);
+        return;
+      }
+
       const editPrompt =
         `Update this chart with the latest data from the live source.\n\n` +
         `${formatLiveDataBlock({ rawCsv: data.rawCsv, headers: data.headers ?? [], rowCount: data.rowCount ?? 0, schema: data.schema ?? [] })}\n\n` +
         `Keep the same chart type, structure, axis labels, and series names. Only replace the data values.`;
 
-      const editRes = await editVisualizationAction(editPrompt, activeThread.spec.option, activeThread.vizId || undefined, []);
+      const editRes = await editVisualizationAction(
+        editPrompt, activeThread.spec.option, activeThread.vizId || undefined, [],
+        liveSourceDataset(liveData), 'live-refresh',
+      );
       if (!editRes.success || !editRes.option) {
         toast.error(editRes.error || 'Data refresh failed');
         return;
@@ -437,17 +659,13 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
       const now = new Date().toISOString();
       setThreads(p => p.map(t => t.id === id ? {
         ...t,
-        spec: { ...t.spec, option: editRes.option! },
+        spec: { ...t.spec, option: editRes.option!, verification: editRes.verification },
         liveData: t.liveData ? { ...t.liveData, lastRefreshed: now } : undefined,
       } : t));
 
       // Persist lastRefreshed to DB
-      if (activeThread.vizId && activeThread.liveData) {
-        await saveLiveDataConfig(activeThread.vizId, {
-          url: activeThread.liveData.url,
-          interval: activeThread.liveData.interval,
-          lastRefreshed: now,
-        });
+      if (activeThread.vizId) {
+        await saveLiveDataConfig(activeThread.vizId, { ...liveData, lastRefreshed: now });
       }
 
       toast.success(`Chart refreshed — ${data.rowCount ?? '?'} rows`);
@@ -461,15 +679,15 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
   /* ── Auto-refresh on interval ── */
   const refreshCallbackRef = useRef(handleRefreshLiveData);
   useEffect(() => { refreshCallbackRef.current = handleRefreshLiveData; });
+  const isLive = hasLiveSource(activeThread?.liveData);
+  const liveInterval = activeThread?.liveData?.interval;
 
   useEffect(() => {
-    const url = activeThread?.liveData?.url;
-    const interval = activeThread?.liveData?.interval;
-    if (!url || !interval) return;
-    const ms = interval * 60 * 1000;
+    if (!isLive || !liveInterval) return;
+    const ms = liveInterval * 60 * 1000;
     const timer = setInterval(() => { refreshCallbackRef.current(); }, ms);
     return () => clearInterval(timer);
-  }, [activeThread?.liveData?.url, activeThread?.liveData?.interval, activeThread?.id]);
+  }, [isLive, liveInterval, activeThread?.id]);
 
   /* ── Generation (handleSubmit) ── */
   const [loading, setLoading]       = useState(false);
@@ -495,87 +713,127 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
     const displayPrompt = trimmed
       || (pendingChartType ? `${pendingChartType.type.label}${pendingChartType.variant ? ` — ${pendingChartType.variant.label}` : ''}`
         : pendingAttachment ? `Visualize ${pendingAttachment.name}`
-        : 'Visualize connected Google Sheet');
+        : `Visualize connected ${pendingLiveSheet ? liveSourceNoun(pendingLiveSheet) : 'Google Sheet'}`);
     const aiInput = composePromptWithChartType(
       composePromptWithLiveSheet(composePromptWithAttachment(trimmed, pendingAttachment), pendingLiveSheet),
       pendingChartType,
     );
     const pendingStyleEffect = getStyleEffect(pendingChartType);
-
-    clearComposer();
-    setLoading(true);
-    setLoadingPrompt(displayPrompt);
-    setLoadingStep('analyzing');
-
-    try {
-      const genTimer = setTimeout(() => setLoadingStep('generating'), 250);
-      const data = await generateVisualization(aiInput, pendingStyleEffect);
-      clearTimeout(genTimer);
-
-      if (!data.success || !data.spec) {
-        toast.error(data.error || 'Generation failed');
-        restoreComposer();
-        return;
-      }
-
-      if (typeof window !== 'undefined') window.dispatchEvent(new Event('tokens-changed'));
-      setLoadingStep('finalizing');
-      await new Promise(r => setTimeout(r, 300));
-
-      const liveDataForEntry = pendingLiveSheet
-        ? { url: pendingLiveSheet.url, interval: 0, lastRefreshed: new Date().toISOString() }
+    // Ground the chart in the real rows when we have them — the server then
+    // computes every value instead of the AI writing numbers from the excerpt.
+    // Library datasets are referenced rather than re-sent.
+    const dataset: DatasetSource | undefined = pendingAttachment?.datasetId
+      ? { kind: 'dataset', datasetId: pendingAttachment.datasetId, name: pendingAttachment.name }
+      : pendingAttachment?.rows
+      ? { kind: 'rows', name: pendingAttachment.name, rows: pendingAttachment.rows }
+      : pendingLiveSheet
+        ? liveSourceDataset(pendingLiveSheet)
         : undefined;
 
-      const entry: ThreadEntry = {
-        id: genId(),
-        prompt: displayPrompt,
-        spec: data.spec,
-        title: data.title || displayPrompt.slice(0, 60),
-        chatHistory: [],
-        vizId: null,
-        isSaved: !!liveDataForEntry,
-        isPublic: false,
-        shareId: null,
-        metadata: data.metadata ? {
-          generatedAt: data.metadata.generatedAt?.toString(),
-          processingTime: data.metadata.processingTime,
-          aiModel: data.metadata.aiModel,
-          fromCache: data.fromCache,
-        } : undefined,
-        liveData: liveDataForEntry,
-        datasetColumns: pendingAttachment?.datasetColumns ?? pendingLiveSheet?.datasetColumns,
-        datasetRowCount: pendingAttachment?.rowCount ?? pendingLiveSheet?.rowCount,
-      };
-      setThreads(p => [...p.filter(t => !t.isDemoThread), entry]);
-      setActiveId(entry.id);
+    // Runs (and, after a near-duplicate offer, re-runs) the generation itself.
+    const generate = async (similarChoice?: SimilarCacheChoice) => {
+      setLoading(true);
+      setLoadingPrompt(displayPrompt);
+      setLoadingStep('analyzing');
 
-      // Auto-persist as a session — await so vizId is set before any edit
       try {
-        const sessionRes = await createSession(
-          entry.title,
-          entry.spec,
-          data.metadata ?? { generatedAt: new Date(), originalInput: aiInput },
-          [],
-          liveDataForEntry ?? null,
-        );
-        if (sessionRes.success && sessionRes.id) {
-          setThreads(p => p.map(t => t.id === entry.id ? { ...t, vizId: sessionRes.id! } : t));
-        } else if (!sessionRes.success) {
-          console.error(`Failed to persist session: ${sessionRes.error}`);
-          Sentry.captureMessage(`Failed to persist session: ${sessionRes.error}`, 'error');
+        const genTimer = setTimeout(() => setLoadingStep('generating'), 250);
+        const data = await generateVisualization(aiInput, pendingStyleEffect, dataset, similarChoice);
+        clearTimeout(genTimer);
+
+        // Near-duplicate of a cached prompt — nothing generated or charged
+        // yet; let the user take the cached chart or insist on a fresh one.
+        if (data.success && data.similarMatch) {
+          const match = data.similarMatch;
+          let answered = false;
+          const answer = (choice: SimilarCacheChoice) => { answered = true; generate(choice); };
+          const abandon = () => { if (!answered) restoreComposer(); };
+          toast(`Similar chart found — "${match.title}"`, {
+            description: `A cached chart matches this prompt (${Math.round(match.similarity * 100)}% similar). Use it instantly, or generate a fresh one.`,
+            duration: 20000,
+            action: { label: 'Use it', onClick: () => answer({ mode: 'use', matchId: match.matchId }) },
+            cancel: { label: 'Generate fresh', onClick: () => answer({ mode: 'fresh' }) },
+            onDismiss: abandon,
+            onAutoClose: abandon,
+          });
+          return;
+        }
+
+        if (!data.success || !data.spec) {
+          toast.error(data.error || 'Generation failed');
+          restoreComposer();
+          return;
+        }
+
+        if (typeof window !== 'undefined') window.dispatchEvent(new Event('tokens-changed'));
+        setLoadingStep('finalizing');
+        await new Promise(r => setTimeout(r, 300));
+
+        const liveDataForEntry: LiveDataConfig | undefined = pendingLiveSheet
+          ? {
+              ...pickLiveSource(pendingLiveSheet),
+              interval: 0,
+              lastRefreshed: new Date().toISOString(),
+            }
+          : undefined;
+
+        const entry: ThreadEntry = {
+          id: genId(),
+          prompt: displayPrompt,
+          spec: data.spec,
+          title: data.title || displayPrompt.slice(0, 60),
+          chatHistory: [],
+          vizId: null,
+          isSaved: !!liveDataForEntry,
+          isPublic: false,
+          shareId: null,
+          metadata: data.metadata ? {
+            generatedAt: data.metadata.generatedAt?.toString(),
+            processingTime: data.metadata.processingTime,
+            aiModel: data.metadata.aiModel,
+            fromCache: data.fromCache,
+          } : undefined,
+          liveData: liveDataForEntry,
+          datasetColumns: pendingAttachment?.datasetColumns ?? pendingLiveSheet?.datasetColumns,
+          datasetRowCount: pendingAttachment?.rowCount ?? pendingLiveSheet?.rowCount,
+          dataset: dataset?.kind === 'rows' || dataset?.kind === 'dataset' ? dataset : undefined,
+        };
+        setThreads(p => [...p.filter(t => !t.isDemoThread), entry]);
+        setActiveId(entry.id);
+
+        // Auto-persist as a session — await so vizId is set before any edit
+        try {
+          const sessionRes = await createSession(
+            entry.title,
+            entry.spec,
+            data.metadata ?? { generatedAt: new Date(), originalInput: aiInput },
+            [],
+            liveDataForEntry ?? null,
+            null,
+            dataset?.kind === 'dataset' ? dataset.datasetId : null,
+          );
+          if (sessionRes.success && sessionRes.id) {
+            setThreads(p => p.map(t => t.id === entry.id ? { ...t, vizId: sessionRes.id! } : t));
+          } else if (!sessionRes.success) {
+            console.error(`Failed to persist session: ${sessionRes.error}`);
+            Sentry.captureMessage(`Failed to persist session: ${sessionRes.error}`, 'error');
+          }
+        } catch (err) {
+          console.error(err);
+          Sentry.captureException(err);
         }
-      } catch (err) {
-        console.error(err);
-        Sentry.captureException(err);
+      } catch {
+        toast.error('An unexpected error occurred.');
+        restoreComposer();
+      } finally {
+        setLoading(false);
+        setLoadingStep(null);
+        setLoadingPrompt('');
       }
-    } catch {
-      toast.error('An unexpected error occurred.');
-      restoreComposer();
-    } finally {
-      setLoading(false);
-      setLoadingStep(null);
-      setLoadingPrompt('');
-    }
+    };
+
+    clearComposer();
+    await generate();
   }, [loading]);
 
   /* ── Live sheet data for the *currently loaded* thread's persisted liveData ── */
@@ -590,18 +848,39 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
   }
 
   const handlePrepareStatTest = useCallback(async () => {
-    const url = activeThread?.liveData?.url;
-    if (!url || activeLiveSheet?.url === url) return;
+    // A library-backed chart tests the stored rows — load them once onto the thread.
+    const libraryRef = activeThread?.dataset?.kind === 'dataset' ? activeThread.dataset : null;
+    if (libraryRef && !hasLiveSource(activeThread?.liveData)) {
+      if (activeThread!.datasetColumns?.length) return;
+      const id = activeThread!.id;
+      setPreparingStatTest(true);
+      try {
+        const res = await getDataset(libraryRef.datasetId);
+        if (!res.success || !res.data) { toast.error(res.error || 'Failed to load dataset for testing'); return; }
+        const datasetColumns = detectColumns(res.data.rows);
+        const datasetRowCount = res.data.rowCount;
+        setThreads(p => p.map(t => t.id === id ? { ...t, datasetColumns, datasetRowCount } : t));
+      } catch {
+        toast.error('Failed to load dataset for testing');
+      } finally {
+        setPreparingStatTest(false);
+      }
+      return;
+    }
+
+    const liveData = activeThread?.liveData;
+    if (!liveData || !hasLiveSource(liveData) || sameLiveSource(activeLiveSheet, liveData)) return;
+    const source = pickLiveSource(liveData);
     setPreparingStatTest(true);
     try {
-      const res = await fetch(`/api/live-data?url=${encodeURIComponent(url)}`);
+      const res = await requestLiveData(source);
       const data: LiveDataResponse = await res.json();
       if (!res.ok || data.error || !data.rawCsv) {
         toast.error(data.error || `Failed to fetch live data (HTTP ${res.status})`);
         return;
       }
       setActiveLiveSheet({
-        url,
+        ...source,
         rawCsv: data.rawCsv,
         headers: data.headers ?? [],
         rowCount: data.rowCount ?? 0,
@@ -637,9 +916,14 @@ export function useThreadManager({ searchParams, isSignedIn }: UseThreadManagerO
     handleSave,
     handleUndo,
     handleAnnotate,
+    handleTransformsChange,
     handleThemeChange,
+    handleRestoreRevision,
+    handleForkRevision,
+    handleBranchFromTurn,
     handleLiveDataChange,
     handleScheduleChange,
+    handleAlertsChange,
     handleRefreshLiveData,
     handleSubmit,
     handlePrepareStatTest,
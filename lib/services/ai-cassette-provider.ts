@@ -0,0 +1,78 @@
+// ============================================================================
+// CASSETTE AI PROVIDER — record real completions once, replay them offline
+//
+// Used by the spec eval harness (lib/evals) via `setAIProvider`. In `record`
+// mode every call goes to the upstream provider and its raw completion is
+// written to `<dir>/<task>.<hash>.json`; in `replay` mode the same file is
+// read back and nothing touches the network. Unlike the mock provider's
+// fixtures, the hash covers the system prompt as well as the user input —
+// two prompt revisions asked the same question are different recordings, so
+// a replayed comparison can never score one prompt on the other's answers.
+// ============================================================================
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { AIJSONCompletion, AIJSONRequest, AIProvider } from './ai-client';
+
+export type CassetteMode = 'record' | 'replay';
+
+/** Thrown in replay mode for a call that was never recorded — a setup problem, not a bad completion. */
+export class MissingCassetteError extends Error {}
+
+/** Whether `error`, or anything in its `cause` chain, is a `MissingCassetteError`. */
+export function isMissingCassette(error: unknown): boolean {
+  for (let e = error; e instanceof Error; e = e.cause) {
+    if (e instanceof MissingCassetteError) return true;
+  }
+  return false;
+}
+
+/** What one recording file holds — the completion plus the model that served it. */
+interface CassetteEntry extends AIJSONCompletion {
+  model: string;
+}
+
+/** Recording key for a call — first 16 hex chars of sha256(systemPrompt, userInput). */
+export function hashCassetteCall(systemPrompt: string, userInput: string): string {
+  return createHash('sha256').update(systemPrompt).update('\0').update(userInput).digest('hex').slice(0, 16);
+}
+
+function cassettePath(dir: string, { task, systemPrompt, userInput }: AIJSONRequest): string {
+  return path.join(dir, `${task}.${hashCassetteCall(systemPrompt, userInput)}.json`);
+}
+
+/**
+ * Wrap `upstream` so its completions are recorded to (or replayed from)
+ * `dir`. Replay mode needs no upstream; a call with no recording throws a
+ * `MissingCassetteError`, so a stale cassette fails loudly instead of
+ * silently scoring nothing.
+ */
+export function createCassetteProvider(mode: CassetteMode, dir: string, upstream?: AIProvider): AIProvider {
+  if (mode === 'record' && !upstream) throw new Error('Recording needs an upstream AI provider');
+
+  return {
+    name: upstream?.name ?? 'mock',
+    resolveModel: (tier) => upstream?.resolveModel(tier) ?? `replay-${tier}`,
+    async completeJSON(request) {
+      const file = cassettePath(dir, request);
+
+      if (mode === 'replay') {
+        let raw: string;
+        try {
+          raw = await readFile(file, 'utf8');
+        } catch {
+          throw new MissingCassetteError(`No recording for this ${request.task} call (${path.basename(file)}) — re-run in record mode`);
+        }
+        const { content, promptTokens, completionTokens } = JSON.parse(raw) as CassetteEntry;
+        return { content, promptTokens, completionTokens };
+      }
+
+      const completion = await upstream!.completeJSON(request);
+      const entry: CassetteEntry = { ...completion, model: request.model };
+      await mkdir(dir, { recursive: true });
+      await writeFile(file, `${JSON.stringify(entry, null, 2)}\n`);
+      return completion;
+    },
+  };
+}
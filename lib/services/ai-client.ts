@@ -1,74 +1,159 @@
 // ============================================================================
-// SHARED OPENAI JSON-MODE CLIENT
+// SHARED AI JSON-MODE CLIENT
 //
-// Single place for the OpenAI client + the "send a prompt, get parsed JSON
-// back with real token usage" pattern used by every generation/edit service.
+// Single place for the "send a prompt, get parsed JSON back with real token
+// usage" pattern used by every generation/edit service. The backend is a
+// pluggable `AIProvider` chosen by `AI_PROVIDER` (see ai-provider-config):
+// OpenAI itself, any OpenAI-compatible server (Ollama, vLLM, …), or the
+// offline mock. Services only pick a model tier — the provider maps it to a
+// concrete model name.
 // ============================================================================
 
 import * as Sentry from '@sentry/nextjs';
 import OpenAI from 'openai';
+import { resolveAIProviderName, type AIProviderName } from '@/lib/utils/ai-provider-config';
+import { createMockProvider } from './ai-mock-provider';
 
+/** Model tiers — each provider maps these to a concrete model name. */
 export const MODELS = {
-  COMPLEX: 'gpt-5.4-mini',
-  SIMPLE:  'gpt-5.4-mini',
+  COMPLEX: 'complex',
+  SIMPLE:  'simple',
 } as const;
 
+export type ModelTier = (typeof MODELS)[keyof typeof MODELS];
+
+/** Which service is calling — lets fixture-backed providers answer per task. */
+export type AITask = 'generate' | 'plan' | 'edit' | 'edit-full' | 'narrative';
+
 // Carrier type: every AI call returns its data + real token usage for accurate billing
 export interface AIResult<T> {
   data: T;
   promptTokens: number;
   completionTokens: number;
+  /** Concrete model that served the call (recorded in visualization metadata). */
+  model?: string;
+}
+
+export interface AIJSONRequest {
+  task: AITask;
+  systemPrompt: string;
+  userInput: string;
+  model: string;
 }
 
-let openai: OpenAI | null = null;
+/** Raw completion from a provider — parsing/validation is shared in `callAIJSON`. */
+export interface AIJSONCompletion {
+  content: string | null | undefined;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  resolveModel(tier: ModelTier): string;
+  completeJSON(request: AIJSONRequest): Promise<AIJSONCompletion>;
+}
+
+const MAX_COMPLETION_TOKENS = 16384; // hard cap — prevents runaway output costs
+
+function createOpenAIProvider(name: 'openai' | 'openai-compatible'): AIProvider {
+  const compatible = name === 'openai-compatible';
+  let client: OpenAI | null = null;
 
-function getOpenAIClient() {
-  if (!openai) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OpenAI API key is not configured');
+  function getClient() {
+    if (!client) {
+      if (compatible) {
+        const baseURL = process.env.AI_BASE_URL;
+        if (!baseURL) throw new Error('AI_BASE_URL is not configured');
+        // Local servers usually ignore the key, but the SDK requires one.
+        client = new OpenAI({ baseURL, apiKey: process.env.AI_API_KEY || 'not-needed', maxRetries: 3, timeout: 60_000 });
+      } else {
+        const apiKey = process.env.OPENAI_API_KEY;
+        if (!apiKey) throw new Error('OpenAI API key is not configured');
+        client = new OpenAI({ apiKey, maxRetries: 3, timeout: 30_000 });
+      }
     }
-    openai = new OpenAI({ apiKey, maxRetries: 3, timeout: 30_000 });
+    return client;
   }
-  return openai;
+
+  return {
+    name,
+    resolveModel(tier) {
+      const complex = process.env.AI_MODEL_COMPLEX || (compatible ? undefined : 'gpt-5.4-mini');
+      if (!complex) throw new Error('AI_MODEL_COMPLEX is not configured');
+      return tier === MODELS.COMPLEX ? complex : process.env.AI_MODEL_SIMPLE || complex;
+    },
+    async completeJSON({ systemPrompt, userInput, model }) {
+      const completion = await getClient().chat.completions.create({
+        model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userInput },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.7,
+        // Older OpenAI-compatible servers only understand `max_tokens`.
+        ...(compatible ? { max_tokens: MAX_COMPLETION_TOKENS } : { max_completion_tokens: MAX_COMPLETION_TOKENS }),
+      });
+      return {
+        content: completion.choices[0]?.message?.content,
+        promptTokens:     completion.usage?.prompt_tokens     ?? 0,
+        completionTokens: completion.usage?.completion_tokens ?? 0,
+      };
+    },
+  };
+}
+
+let provider: AIProvider | null = null;
+
+/** The provider selected by `AI_PROVIDER`, created once per process. */
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    const name = resolveAIProviderName();
+    provider = name === 'mock' ? createMockProvider() : createOpenAIProvider(name);
+  }
+  return provider;
 }
 
-export async function callOpenAIJSON<T>(
+/**
+ * Swap in a provider for the rest of the process (null goes back to
+ * `AI_PROVIDER`). Only offline tooling uses this — the eval harness wraps
+ * calls in a record/replay cassette so prompt revisions can be compared
+ * against identical inputs without a network.
+ */
+export function setAIProvider(override: AIProvider | null): void {
+  provider = override;
+}
+
+export async function callAIJSON<T>(
+  task: AITask,
   systemPrompt: string,
   userInput: string,
-  model: string = MODELS.SIMPLE
+  tier: ModelTier = MODELS.SIMPLE
 ): Promise<AIResult<T>> {
   try {
-    const client = getOpenAIClient();
-    const completion = await client.chat.completions.create({
-      model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userInput },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.7,
-      max_completion_tokens: 16384, // hard cap — prevents runaway output costs
-    });
-
-    const responseContent = completion.choices[0]?.message?.content;
-    if (!responseContent) {
-      throw new Error('No response from OpenAI');
+    const ai = getAIProvider();
+    const model = ai.resolveModel(tier);
+    const completion = await ai.completeJSON({ task, systemPrompt, userInput, model });
+
+    if (!completion.content) {
+      throw new Error(`No response from ${ai.name}`);
     }
 
-    const parsed = JSON.parse(responseContent);
+    const parsed = JSON.parse(completion.content);
     if (typeof parsed !== 'object' || parsed === null) {
       throw new Error('AI returned invalid response format');
     }
 
     return {
       data: parsed as T,
-      promptTokens:     completion.usage?.prompt_tokens     ?? 0,
-      completionTokens: completion.usage?.completion_tokens ?? 0,
+      promptTokens:     completion.promptTokens,
+      completionTokens: completion.completionTokens,
+      model,
     };
   } catch (error) {
     console.error(error);
     Sentry.captureException(error);
-    throw new Error(`Failed to generate visualization data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to generate visualization data: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
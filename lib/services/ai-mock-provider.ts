@@ -0,0 +1,91 @@
+// ============================================================================
+// MOCK AI PROVIDER — deterministic, fixture-backed, no network
+//
+// Selected with `AI_PROVIDER=mock`. Lets generateVisualization,
+// editVisualizationAction and generateNarrative run end to end in local dev
+// and CI without an API key. Responses come from JSON fixtures in
+// `AI_MOCK_FIXTURES_DIR`, looked up most-specific first:
+//   <task>.<hash>.json   — hash = first 16 hex chars of sha256(userInput)
+//   <task>.json          — per-task default
+// falling back to the built-in defaults below. Each fixture file holds the
+// raw JSON the model would have returned. Token usage is estimated from
+// prompt/response length (~4 chars per token) so billing stays realistic.
+// ============================================================================
+
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { AIProvider, AITask } from './ai-client';
+
+const DEFAULT_FIXTURES: Record<AITask, unknown> = {
+  generate: {
+    visualizable: true,
+    title: 'Quarterly Revenue',
+    reason: 'Mock provider: fixed sample chart.',
+    seriesType: 'bar',
+    variantKey: null,
+    option: {
+      title: { text: 'Quarterly Revenue' },
+      tooltip: { trigger: 'axis' },
+      xAxis: { type: 'category', data: ['Q1', 'Q2', 'Q3', 'Q4'] },
+      yAxis: { type: 'value' },
+      series: [{ type: 'bar', name: 'Revenue', data: [120, 200, 150, 80] }],
+    },
+  },
+  plan: {
+    plannable: false,
+    reason: 'Mock provider: no plan fixture configured, so the dataset is charted via free-form generation.',
+    plan: null,
+  },
+  edit: {
+    message: 'Mock provider: updated the chart subtitle.',
+    patch: [{ op: 'add', path: '/title/subtext', value: 'Edited (mock)' }],
+    option: null,
+  },
+  'edit-full': {
+    message: 'Mock provider: no full-replacement fixture configured, so the chart was left unchanged.',
+    option: null,
+  },
+  narrative: {
+    narrative: 'Mock provider: Q2 leads at 200, while Q4 drops to 80 — the lowest quarter.',
+  },
+};
+
+/** Fixture key for a user input — exported so fixture files can be named by tooling. */
+export function hashMockInput(userInput: string): string {
+  return createHash('sha256').update(userInput).digest('hex').slice(0, 16);
+}
+
+async function readFixture(dir: string, file: string): Promise<string | null> {
+  try {
+    return await readFile(path.join(dir, file), 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function createMockProvider(): AIProvider {
+  return {
+    name: 'mock',
+    resolveModel: (tier) => `mock-${tier}`,
+    async completeJSON({ task, systemPrompt, userInput }) {
+      const dir = process.env.AI_MOCK_FIXTURES_DIR;
+      const content =
+        (dir && (
+          await readFixture(dir, `${task}.${hashMockInput(userInput)}.json`) ??
+          await readFixture(dir, `${task}.json`)
+        )) ||
+        JSON.stringify(DEFAULT_FIXTURES[task]);
+
+      return {
+        content,
+        promptTokens: estimateTokens(systemPrompt) + estimateTokens(userInput),
+        completionTokens: estimateTokens(content),
+      };
+    },
+  };
+}
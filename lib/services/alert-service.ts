@@ -0,0 +1,127 @@
+// ============================================================================
+// ALERT SERVICE — fire a chart's alert rules after a live refresh
+//
+// Called wherever a refresh is persisted (the digest cron and the manual
+// "Refresh" action) with the option before and after. Each rule that fires
+// is claimed first — `lastTriggeredAt` is set only if the rule is still out
+// of its cooldown — so concurrent refreshes never send the same alert twice.
+// Delivery failures are logged and swallowed: an unreachable webhook must
+// not fail the refresh that triggered it.
+// ============================================================================
+
+import * as Sentry from '@sentry/nextjs';
+import type { EChartsOption } from 'echarts';
+import { UserModel, VisualizationModel } from '@/lib/database/models';
+import { sendAlertEmail } from '@/lib/services/email-service';
+import { outboundFetch } from '@/lib/utils/outbound-fetch';
+import { describeAlertCondition, evaluateAlertRule, isAlertCoolingDown } from '@/lib/utils/alert-rules';
+import { extractSeriesPoints } from '@/lib/utils/option-series';
+import type { AlertChannel, AlertRule, AlertTrigger, AlertWebhookPayload } from '@/lib/types/alert';
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+interface AlertTarget {
+  _id: { toString(): string };
+  userId: string;
+  title: string;
+  isPublic?: boolean;
+  shareId?: string;
+  alerts?: AlertRule[];
+}
+
+/** Where a digest or alert links to — the public share page when there is one. */
+export function chartUrl(viz: { isPublic?: boolean; shareId?: string }): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  return viz.isPublic && viz.shareId ? `${baseUrl}/share/${viz.shareId}` : `${baseUrl}/my-visualizations`;
+}
+
+async function postWebhook(url: string, payload: AlertWebhookPayload): Promise<void> {
+  const result = await outboundFetch(url, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+    headers: { 'Content-Type': 'application/json', 'User-Agent': 'Visuologia-Alerts/1.0' },
+    // A redirected POST would re-send the payload somewhere the user never vetted.
+    redirect: 'error',
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!result.ok) throw new Error(`Alert webhook refused: ${result.error}`);
+  await result.response.body?.cancel();
+  if (!result.response.ok) throw new Error(`Alert webhook returned HTTP ${result.response.status}`);
+}
+
+async function deliver(
+  channel: AlertChannel,
+  viz: AlertTarget,
+  trigger: AlertTrigger,
+  ruleName: string,
+  ownerEmail: () => Promise<string | undefined>,
+  now: Date
+): Promise<void> {
+  const url = chartUrl(viz);
+  if (channel.kind === 'email') {
+    const to = await ownerEmail();
+    if (to) await sendAlertEmail({ to, chartTitle: viz.title, chartUrl: url, ruleName, message: trigger.message });
+    return;
+  }
+  await postWebhook(channel.url, {
+    type: 'chart.alert',
+    chart: { id: viz._id.toString(), title: viz.title, url },
+    rule: { id: trigger.rule.id, name: ruleName },
+    message: trigger.message,
+    series: trigger.series,
+    ...(trigger.category !== undefined ? { category: trigger.category } : {}),
+    ...(trigger.value !== undefined ? { value: trigger.value } : {}),
+    triggeredAt: now.toISOString(),
+  });
+}
+
+/**
+ * Evaluate `viz`'s enabled alert rules against a refresh from `before` to
+ * `after` and deliver each one that fires. Returns how many fired.
+ */
+export async function dispatchChartAlerts(
+  viz: AlertTarget,
+  before: EChartsOption,
+  after: EChartsOption,
+  now = new Date()
+): Promise<number> {
+  const rules = (viz.alerts ?? []).filter(rule => rule.enabled && !isAlertCoolingDown(rule, now));
+  if (rules.length === 0) return 0;
+
+  const beforeSeries = extractSeriesPoints(before);
+  const afterSeries = extractSeriesPoints(after);
+
+  let email: Promise<string | undefined> | null = null;
+  const ownerEmail = () => {
+    email ??= UserModel.findOne({ clerkId: viz.userId }).select('email').lean().then(u => u?.email);
+    return email;
+  };
+
+  let fired = 0;
+  for (const rule of rules) {
+    const trigger = evaluateAlertRule(rule, beforeSeries, afterSeries);
+    if (!trigger) continue;
+
+    const cutoff = new Date(now.getTime() - rule.cooldownMinutes * 60 * 1000).toISOString();
+    const claim = await VisualizationModel.updateOne(
+      {
+        _id: viz._id.toString(),
+        alerts: { $elemMatch: { id: rule.id, $or: [{ lastTriggeredAt: { $exists: false } }, { lastTriggeredAt: { $lte: cutoff } }] } },
+      },
+      { $set: { 'alerts.$.lastTriggeredAt': now.toISOString() } }
+    );
+    if (claim.modifiedCount === 0) continue;
+    fired++;
+
+    const ruleName = rule.name || describeAlertCondition(rule.condition);
+    for (const channel of rule.channels) {
+      try {
+        await deliver(channel, viz, trigger, ruleName, ownerEmail, now);
+      } catch (err) {
+        console.error(err);
+        Sentry.captureException(err);
+      }
+    }
+  }
+  return fired;
+}
@@ -4,6 +4,7 @@
 
 import * as Sentry from '@sentry/nextjs';
 import { Resend } from 'resend';
+import type { ChartDelta } from '@/lib/types/chart-delta';
 
 let _resend: Resend | null = null;
 function getResendClient(): Resend | null {
@@ -17,6 +18,8 @@ export interface DigestChartSummary {
   title: string;
   refreshed: boolean;
   summary: string;
+  /** What the refresh moved — see `computeChartDelta`. Absent when it failed or the chart type has no comparable points. */
+  delta?: ChartDelta | null;
 }
 
 export interface SendDashboardDigestParams {
@@ -41,6 +44,68 @@ function escapeHtml(s: string): string {
     .replace(/"/g, '&quot;');
 }
 
+const MAX_DELTA_SERIES = 8;
+const MAX_LISTED_CATEGORIES = 5;
+
+function formatNumber(n: number): string {
+  return n.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+function formatChange(change: number | null, percent: number | null): string {
+  if (change === null) return '—';
+  if (change === 0) return 'no change';
+  const sign = change > 0 ? '+' : '−';
+  const pct = percent === null ? '' : ` (${sign}${Math.abs(percent).toFixed(1)}%)`;
+  return `${sign}${formatNumber(Math.abs(change))}${pct}`;
+}
+
+function changeColor(change: number | null): string {
+  if (!change) return '#71717a';
+  return change > 0 ? '#15803d' : '#b91c1c';
+}
+
+function listCategories(categories: string[]): string {
+  const shown = categories.slice(0, MAX_LISTED_CATEGORIES).map(escapeHtml).join(', ');
+  const more = categories.length - MAX_LISTED_CATEGORIES;
+  return more > 0 ? `${shown} and ${more} more` : shown;
+}
+
+/** A compact per-series table (latest value, change since the last refresh) plus category and biggest-mover notes. */
+function buildDeltaHtml(delta: ChartDelta): string {
+  const cell = 'padding:4px 8px 4px 0;font-size:12px;';
+  const seriesRows = delta.series
+    .slice(0, MAX_DELTA_SERIES)
+    .map(s => `
+              <tr>
+                <td style="${cell}color:#18181b;">${escapeHtml(s.name)}</td>
+                <td style="${cell}color:#18181b;text-align:right;white-space:nowrap;">${s.latest ? formatNumber(s.latest.value) : '—'}</td>
+                <td style="${cell}color:#a1a1aa;white-space:nowrap;">${s.latest ? escapeHtml(s.latest.category) : ''}</td>
+                <td style="${cell}color:${changeColor(s.change)};text-align:right;white-space:nowrap;">${formatChange(s.change, s.percent)}</td>
+              </tr>`)
+    .join('');
+  const hiddenSeries = delta.series.length - MAX_DELTA_SERIES;
+
+  const notes: string[] = [];
+  if (delta.biggestMover) {
+    const m = delta.biggestMover;
+    notes.push(`Biggest mover: <strong>${escapeHtml(m.category)}</strong> (${escapeHtml(m.series)}) ${formatNumber(m.from)} → ${formatNumber(m.to)}, <span style="color:${changeColor(m.change)};">${formatChange(m.change, m.percent)}</span>`);
+  }
+  if (delta.addedCategories.length) notes.push(`New: ${listCategories(delta.addedCategories)}`);
+  if (delta.removedCategories.length) notes.push(`Removed: ${listCategories(delta.removedCategories)}`);
+  if (hiddenSeries > 0) notes.push(`${hiddenSeries} more series not shown`);
+
+  return `
+            ${seriesRows ? `<table style="width:100%;border-collapse:collapse;margin-top:8px;">
+              <tr>
+                <th style="${cell}font-size:10px;font-weight:600;color:#a1a1aa;text-align:left;text-transform:uppercase;">Series</th>
+                <th style="${cell}font-size:10px;font-weight:600;color:#a1a1aa;text-align:right;text-transform:uppercase;">Latest</th>
+                <th style="${cell}"></th>
+                <th style="${cell}font-size:10px;font-weight:600;color:#a1a1aa;text-align:right;text-transform:uppercase;">vs last refresh</th>
+              </tr>${seriesRows}
+            </table>` : ''}
+            ${notes.map(n => `<p style="margin:4px 0 0;font-size:12px;color:#52525b;">${n}</p>`).join('')}`;
+}
+
 interface DigestHtmlParams {
   title: string;
   url: string;
@@ -57,7 +122,7 @@ function buildHtml({ title, url, urlLabel, footerNote, charts }: DigestHtmlParam
         <tr>
           <td style="padding:10px 0;border-bottom:1px solid #e4e4e7;">
             <p style="margin:0;font-size:13px;font-weight:600;color:#18181b;">${icon} ${escapeHtml(c.title)}</p>
-            <p style="margin:4px 0 0;font-size:12px;color:#71717a;">${escapeHtml(c.summary)}</p>
+            <p style="margin:4px 0 0;font-size:12px;color:#71717a;">${escapeHtml(c.summary)}</p>${c.delta ? buildDeltaHtml(c.delta) : ''}
           </td>
         </tr>`;
     })
@@ -107,7 +172,7 @@ async function sendDigestEmail(params: { to: string; subject: string; html: stri
 }
 
 /**
- * Sends the weekly dashboard digest email.
+ * Sends the scheduled dashboard digest email.
  */
 export async function sendDashboardDigest(params: SendDashboardDigestParams): Promise<void> {
   await sendDigestEmail({
@@ -117,14 +182,14 @@ export async function sendDashboardDigest(params: SendDashboardDigestParams): Pr
       title: params.dashboardTitle,
       url: params.dashboardUrl,
       urlLabel: 'View dashboard',
-      footerNote: "You're receiving this because a weekly digest is enabled for this dashboard. Turn it off from the dashboard's settings.",
+      footerNote: "You're receiving this because a scheduled digest is enabled for this dashboard. Turn it off from the dashboard's settings.",
       charts: params.charts,
     }),
   });
 }
 
 /**
- * Sends the weekly digest email for a single visualization's live data.
+ * Sends the scheduled digest email for a single visualization's live data.
  */
 export async function sendVisualizationDigest(params: SendVisualizationDigestParams): Promise<void> {
   await sendDigestEmail({
@@ -134,8 +199,39 @@ export async function sendVisualizationDigest(params: SendVisualizationDigestPar
       title: params.chartTitle,
       url: params.chartUrl,
       urlLabel: 'View chart',
-      footerNote: "You're receiving this because a weekly digest is enabled for this chart. Turn it off from the chart's Live menu.",
+      footerNote: "You're receiving this because a scheduled digest is enabled for this chart. Turn it off from the chart's Live menu.",
       charts: [params.summary],
     }),
   });
 }
+
+export interface SendAlertEmailParams {
+  to: string;
+  chartTitle: string;
+  chartUrl: string;
+  /** The rule's name or condition description. */
+  ruleName: string;
+  message: string;
+}
+
+/**
+ * Sends a chart alert email — one per rule that fired on a refresh.
+ */
+export async function sendAlertEmail(params: SendAlertEmailParams): Promise<void> {
+  await sendDigestEmail({
+    to: params.to,
+    subject: `Alert: ${params.ruleName} — "${params.chartTitle}"`,
+    html: `
+    <div style="font-family:Inter,system-ui,-apple-system,sans-serif;max-width:520px;margin:0 auto;padding:24px;color:#18181b;">
+      <h1 style="font-size:18px;margin:0 0 4px;">🔔 ${escapeHtml(params.chartTitle)}</h1>
+      <p style="font-size:13px;color:#71717a;margin:0 0 20px;">${escapeHtml(params.ruleName)}</p>
+      <p style="font-size:14px;margin:0;padding:12px 14px;border-radius:8px;background:#fef3c7;color:#78350f;">${escapeHtml(params.message)}</p>
+      <a href="${escapeHtml(params.chartUrl)}" style="display:inline-block;margin-top:24px;padding:10px 18px;border-radius:8px;background:#6366f1;color:#ffffff;font-size:13px;font-weight:600;text-decoration:none;">
+        View chart
+      </a>
+      <p style="font-size:11px;color:#a1a1aa;margin-top:24px;">
+        You're receiving this because an alert is set on this chart. Change or remove it from the chart's Live menu.
+      </p>
+    </div>`,
+  });
+}
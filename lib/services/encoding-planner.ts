@@ -0,0 +1,151 @@
+// ============================================================================
+// ENCODING PLANNER — AI picks the encoding, the engine computes the numbers
+//
+// Used instead of spec-generator whenever the request carries a real dataset
+// (uploaded file or live sheet). The model sees the typed column schema and
+// the user's instructions and returns only an `EncodingPlan` — plus, when the
+// plan alone can't express the request, `transforms` that reshape the rows
+// first; the engines then build the series data from the actual rows, so
+// totals can't drift from the source. Requests the engine can't express
+// (sankey, graph, treemap, …) come back `plannable: false` and the caller
+// falls back to free-form generation.
+// ============================================================================
+
+import { callAIJSON, MODELS, type AIResult } from './ai-client';
+import { MAX_REPAIR_ATTEMPTS } from './spec-validator';
+import { formatSchemaForPrompt, inferSchema, type ColumnSchema } from '@/lib/utils/csv-schema';
+import { validateEncodingPlan } from '@/lib/utils/aggregation-engine';
+import { applyTransforms } from '@/lib/utils/transform-engine';
+import { EXPRESSION_FUNCTIONS } from '@/lib/utils/transform-expression';
+import type { EncodingPlan } from '@/lib/types/encoding-plan';
+import type { TransformStep } from '@/lib/types/transform';
+
+export interface EncodingPlanResult {
+  plannable: boolean;
+  reason: string;
+  /** Set only when plannable and the plan passed validation against the schema. */
+  plan: EncodingPlan | null;
+  /** Steps to run over the rows before `plan` — empty when the plan reads the raw columns. */
+  transforms: TransformStep[];
+}
+
+/** How to write `transforms` — shared with the spec editor, which can re-plan a chart's pipeline. */
+export const TRANSFORMS_GUIDE = `TRANSFORMS (optional) — steps run in order over the rows BEFORE the plan; the plan's column names then refer to the transformed table. Use them only when the plan alone can't express the request: derived columns (ratios, growth %, running comparisons), reshaping wide tables, aggregating in two stages, or top-N by something other than the charted value. Never duplicate what the plan's own filters / aggregate / sort / limit already do.
+- { "kind": "filter", "filters": [ { "column", "op", "value" } ] }
+- { "kind": "aggregate", "groupBy": ["col", ...], "measures": [ { "column": "col", "aggregate": "sum"|"mean"|"median"|"count"|"min"|"max", "as": "New name" } ] } — output has ONLY the groupBy columns and the measures
+- { "kind": "pivot", "index": ["col", ...], "columns": "col whose values become columns", "values": "col", "aggregate": "sum"|... }
+- { "kind": "unpivot", "columns": ["wide col", ...], "key": "New name column", "value": "New value column" }
+- { "kind": "sort", "by": [ { "column": "col", "direction": "asc"|"desc" } ] }
+- { "kind": "limit", "count": N }
+- { "kind": "derive", "as": "New column", "expression": "..." } — expression language: [Column Name] (brackets required for names with spaces), numbers, 'text', + - * / %, == != < <= > >=, and / or / not, and the functions ${EXPRESSION_FUNCTIONS.join(', ')}. lag([col], n) / lead([col], n) read the previous / next row in the current order, so sort first. Example YoY %: ([Revenue] - lag([Revenue])) / lag([Revenue]) * 100`;
+
+const SYSTEM_PROMPT = `You are a data visualization planner. The user attached a dataset and wants a chart of it. You do NOT write any data values — a deterministic engine computes every number from the real rows. Your only job is to choose the ENCODING.
+
+You'll receive the user's request (possibly with a data excerpt) and the dataset's full column schema.
+
+Supported chart types and what they need:
+- "bar": x = category or date column; y = numeric measure (or aggregate "count"); optional "series" column for grouped bars, "stacked": true to stack them, "horizontal": true for long category labels.
+- "line" / "area": x = date or ordered category column; y = numeric measure; optional "series" column for one line per group, "stacked" to stack.
+- "pie": x = category column (segments); y = numeric measure or aggregate "count"; no "series". "donut": true for a ring.
+- "scatter": x and y both numeric columns, raw points (aggregate ignored); optional "series" to color groups.
+
+Aggregates: "sum", "mean", "median", "count", "min", "max" — applied per x category (and per series).
+Use "timeUnit" ("day" | "month" | "quarter" | "year") to bucket a date x column — pick one that yields a readable number of points.
+Filters: { "column", "op": "eq"|"neq"|"gt"|"gte"|"lt"|"lte"|"in"|"contains", "value" } — only when the user asks to narrow the data.
+Sort: { "by": "x" | "y", "direction": "asc" | "desc" }; dates are chronological by default. Use "limit" for "top N" requests (sort by y desc).
+
+Column names MUST match the schema exactly (case and spacing).
+
+${TRANSFORMS_GUIDE}
+
+If the request needs a chart the engine cannot express — e.g. sankey/flow, network graph, tree/treemap/sunburst, heatmap, radar, funnel, gauge, or anything built from text rather than columns — set "plannable" to false and explain briefly in "reason".
+
+Respond with ONLY valid JSON:
+{
+  "plannable": boolean,
+  "reason": "1-2 sentence justification of the encoding",
+  "plan": {
+    "chartType": "bar" | "line" | "area" | "pie" | "scatter",
+    "title": "Concise chart title",
+    "x": "column",
+    "y": "column" | null,
+    "series": "column" | null,
+    "aggregate": "sum" | "mean" | "median" | "count" | "min" | "max",
+    "timeUnit": "day" | "month" | "quarter" | "year" | null,
+    "filters": [ ... ] | null,
+    "sort": { "by": "x" | "y", "direction": "asc" | "desc" } | null,
+    "limit": number | null,
+    "horizontal": boolean,
+    "stacked": boolean,
+    "donut": boolean
+  } | null,
+  "transforms": [ ... ] | null
+}`;
+
+interface RawPlanResponse {
+  plannable: boolean;
+  reason: string;
+  plan: EncodingPlan | null;
+  transforms?: TransformStep[] | null;
+}
+
+/** AI output uses `null` for "not set" — drop those so the plan matches the optional-field type. */
+export function stripNulls(plan: EncodingPlan): EncodingPlan {
+  return Object.fromEntries(Object.entries(plan).filter(([, v]) => v !== null)) as unknown as EncodingPlan;
+}
+
+/**
+ * Validate a response's plan against the table it will actually read — the
+ * raw `schema`, or the rows after its transforms.
+ */
+function planErrors(data: RawPlanResponse, rows: Record<string, unknown>[], schema: ColumnSchema[]): string[] {
+  if (!data.plannable || !data.plan) return [];
+  const plan = stripNulls(data.plan);
+  if (!data.transforms?.length) return validateEncodingPlan(plan, schema);
+
+  const applied = applyTransforms(rows, data.transforms);
+  if (!applied.ok) return applied.errors;
+  if (applied.rows.length === 0) return ['The transform steps leave no rows.'];
+  return validateEncodingPlan(plan, inferSchema(applied.rows));
+}
+
+/**
+ * Ask the model for an encoding plan (and optional transforms) over `rows`.
+ * The response is checked by running the transforms and validating the plan
+ * against their output; on errors the model gets one retry with them as
+ * feedback. Token usage covers every attempt.
+ */
+export async function planEncoding(
+  userInput: string,
+  rows: Record<string, unknown>[],
+  schema: ColumnSchema[] = inferSchema(rows)
+): Promise<AIResult<EncodingPlanResult>> {
+  const prompt = `${userInput}\n\nDATASET SCHEMA (${rows.length.toLocaleString()} rows — use these exact column names):\n${formatSchemaForPrompt(schema)}`;
+
+  const first = await callAIJSON<RawPlanResponse>('plan', SYSTEM_PROMPT, prompt, MODELS.COMPLEX);
+  let { data, promptTokens, completionTokens } = first;
+
+  let errors = planErrors(data, rows, schema);
+
+  for (let attempt = 0; errors.length > 0 && attempt < MAX_REPAIR_ATTEMPTS; attempt++) {
+    const feedback = `YOUR PREVIOUS PLAN WAS INVALID — fix these problems:\n${errors.map(e => `- ${e}`).join('\n')}`;
+    const retry = await callAIJSON<RawPlanResponse>('plan', SYSTEM_PROMPT, `${prompt}\n\n${feedback}`, MODELS.COMPLEX);
+    promptTokens += retry.promptTokens;
+    completionTokens += retry.completionTokens;
+    data = retry.data;
+    errors = planErrors(data, rows, schema);
+  }
+
+  const usable = data.plannable && data.plan && errors.length === 0;
+  return {
+    data: {
+      plannable: Boolean(usable),
+      reason: data.reason,
+      plan: usable ? stripNulls(data.plan!) : null,
+      transforms: usable ? data.transforms ?? [] : [],
+    },
+    promptTokens,
+    completionTokens,
+    model: first.model,
+  };
+}
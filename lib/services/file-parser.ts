@@ -1,11 +1,21 @@
 import * as Sentry from '@sentry/nextjs';
 import Papa from 'papaparse';
 import { validateFileSize, validateFileType } from '../utils/helpers';
+import { VALIDATION_LIMITS } from '../utils/constants';
+import {
+  defaultSheetSelection,
+  extractTable,
+  parseA1Range,
+  type SheetCell,
+  type WorkbookSheet,
+} from '../utils/sheet-range';
 
 export interface ParsedFileResult {
   success: boolean;
   data?: unknown;
   text?: string;
+  /** Every sheet of an XLSX workbook (or table detected in a PDF), as raw grids — see sheet-range.ts. */
+  sheets?: WorkbookSheet[];
   error?: string;
   fileInfo: {
     name: string;
@@ -153,8 +163,29 @@ async function parseTXT(file: File, fileInfo: ParsedFileResult['fileInfo']): Pro
   }
 }
 
+/** A cell's value as plain data — formulas by their cached result, rich text as its text, dates as ISO strings. */
+function normalizeCellValue(value: unknown): SheetCell {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === 'object') {
+    const v = value as { result?: unknown; richText?: Array<{ text: string }>; text?: unknown; error?: unknown };
+    if ('result' in v) return normalizeCellValue(v.result);
+    if (Array.isArray(v.richText)) return v.richText.map(part => part.text).join('');
+    if ('text' in v) return normalizeCellValue(v.text);
+    if ('error' in v) return null;
+  }
+  return String(value);
+}
+
 /**
- * Parse XLSX file — reads the first sheet and returns rows as objects
+ * Parse XLSX file — every sheet as a raw grid plus its merged areas (table
+ * detection and range selection happen in sheet-range.ts). `data` holds the
+ * detected table of the first non-empty sheet, for callers that only want
+ * rows.
  */
 async function parseXLSX(file: File, fileInfo: ParsedFileResult['fileInfo']): Promise<ParsedFileResult> {
   try {
@@ -163,30 +194,31 @@ async function parseXLSX(file: File, fileInfo: ParsedFileResult['fileInfo']): Pr
     const buffer = await file.arrayBuffer();
     await workbook.xlsx.load(buffer);
 
-    const sheet = workbook.worksheets[0];
-    if (!sheet || sheet.rowCount === 0) {
-      return { success: false, error: 'No sheets found in the workbook', fileInfo };
-    }
-
-    const headers: string[] = [];
-    sheet.getRow(1).eachCell((cell, colNumber) => {
-      headers[colNumber - 1] = String(cell.value ?? `Column${colNumber}`);
+    const sheets: WorkbookSheet[] = workbook.worksheets.map(sheet => {
+      const cells: SheetCell[][] = [];
+      sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+        const values: SheetCell[] = [];
+        row.eachCell({ includeEmpty: false }, (cell, colNumber) => {
+          // Merged areas keep their value in the top-left cell only (ExcelJS
+          // echoes it into every member) — sheet-range fills them where needed.
+          if (cell.isMerged && cell.master !== cell) return;
+          values[colNumber - 1] = normalizeCellValue(cell.value);
+        });
+        cells[rowNumber - 1] = Array.from(values, v => v ?? null);
+      });
+      const merges = ((sheet.model as { merges?: string[] }).merges ?? [])
+        .map(parseA1Range)
+        .filter((m): m is NonNullable<typeof m> => m !== null);
+      return { name: sheet.name, cells: Array.from(cells, row => row ?? []), merges };
     });
 
-    const data: Record<string, unknown>[] = [];
-    for (let r = 2; r <= sheet.rowCount; r++) {
-      const row = sheet.getRow(r);
-      if (row.values === undefined || (Array.isArray(row.values) && row.values.length <= 1)) continue;
-      const obj: Record<string, unknown> = {};
-      for (const h of headers) obj[h] = null;
-      row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
-        const key = headers[colNumber - 1] ?? `Column${colNumber}`;
-        obj[key] = cell.value ?? null;
-      });
-      if (Object.values(obj).some(v => v !== null)) data.push(obj);
+    for (const sheet of sheets) {
+      const selection = defaultSheetSelection(sheet);
+      if (!selection) continue;
+      const { rows } = extractTable(sheet, parseA1Range(selection.range)!, selection.headerRows);
+      return { success: true, data: rows, sheets, fileInfo };
     }
-
-    return { success: true, data, fileInfo };
+    return { success: false, error: 'No data found in any sheet of the workbook', fileInfo };
   } catch (error) {
     return {
       success: false,
@@ -196,16 +228,35 @@ async function parseXLSX(file: File, fileInfo: ParsedFileResult['fileInfo']): Pr
   }
 }
 
+/**
+ * Parse PDF file — extracted on the server (`/api/pdf-extract`; pdf.js can't
+ * start its worker in the browser under the app's CSP). Column-aligned tables
+ * come back as sheets, largest first, so the attachment's range picker
+ * doubles as the table chooser and `data` holds the largest table's rows.
+ * Without a table, the extracted text is returned instead.
+ */
 async function parsePDF(file: File, fileInfo: ParsedFileResult['fileInfo']): Promise<ParsedFileResult> {
+  const tooLarge = `PDFs can be at most ${VALIDATION_LIMITS.MAX_PDF_UPLOAD_MB}MB — split the file or export the pages you need`;
+  if (!validateFileSize(file.size, VALIDATION_LIMITS.MAX_PDF_UPLOAD_MB)) {
+    return { success: false, error: tooLarge, fileInfo };
+  }
+
   try {
-    const { PDFParse } = await import('pdf-parse');
-    const arrayBuffer = await file.arrayBuffer();
-    const parser = new PDFParse({ data: new Uint8Array(arrayBuffer) });
-    const result = await parser.getText();
-    const text = result.text?.trim();
-    await parser.destroy();
-
-    if (!text) {
+    const body = new FormData();
+    body.append('file', file);
+    const res = await fetch('/api/pdf-extract', { method: 'POST', body });
+    if (!res.ok) {
+      // The host's own errors (a 413 for an oversized body, say) aren't JSON.
+      const failure: { error?: string } = res.headers.get('content-type')?.includes('application/json') ? await res.json() : {};
+      return {
+        success: false,
+        error: failure.error || (res.status === 413 ? tooLarge : 'Failed to parse PDF'),
+        fileInfo,
+      };
+    }
+
+    const extracted: { text?: string; sheets?: WorkbookSheet[] } = await res.json();
+    if (!extracted.text) {
       return {
         success: false,
         error: 'Could not extract text from this PDF. It may be image-based or empty.',
@@ -213,9 +264,16 @@ async function parsePDF(file: File, fileInfo: ParsedFileResult['fileInfo']): Pro
       };
     }
 
+    for (const sheet of extracted.sheets ?? []) {
+      const selection = defaultSheetSelection(sheet);
+      if (!selection) continue;
+      const { rows } = extractTable(sheet, parseA1Range(selection.range)!, selection.headerRows);
+      return { success: true, data: rows, sheets: extracted.sheets, fileInfo };
+    }
+
     return {
       success: true,
-      text,
+      text: extracted.text,
       fileInfo,
     };
   } catch (error) {
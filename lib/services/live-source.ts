@@ -0,0 +1,151 @@
+// ============================================================================
+// LIVE SOURCE — one entry point for fetching a visualization's live data,
+// whichever kind of source it's connected to.
+//
+// Sheet sources go through `fetchAndParseSheet`; SQL and JSON sources load
+// the owner's saved connection (if any), decrypt its credentials and run the
+// stored query / request. All come back as a `FetchedSheet`, so the
+// `/api/live-data` route, dataset verification, dashboard refresh and the
+// digest cron never branch on kind.
+// ============================================================================
+
+import { connectToDatabase } from '@/lib/database/mongodb';
+import { DataConnectionModel } from '@/lib/database/models';
+import { decryptSecret } from '@/lib/utils/secret-box';
+import { fetchAndParseSheet, type FetchedSheet, type FetchedSheetError } from '@/lib/utils/sheet-fetch';
+import { isBlockedSheetUrl } from '@/lib/utils/outbound-fetch';
+import { fetchAndParseJson, type JsonAuthHeader } from '@/lib/utils/json-fetch';
+import { parseJsonPath } from '@/lib/utils/json-rows';
+import { validateObjectId } from '@/lib/utils/validation';
+import { runSqlQuery, validateSqlQuery } from '@/lib/services/sql-source';
+import { liveSourceKind, type LiveSourceRef } from '@/lib/utils/live-source';
+import type { JsonLiveSource, SqlLiveSource } from '@/lib/types/visualization';
+
+type Validated = { ok: true; ref: LiveSourceRef } | { ok: false; error: string };
+
+async function validateSqlRef(sql: SqlLiveSource, userId: string): Promise<Validated> {
+  if (typeof sql !== 'object' || sql === null) return { ok: false, error: 'Invalid SQL source' };
+  const { connectionId, query, params } = sql;
+  const queryValidation = validateSqlQuery(query, params);
+  if (!queryValidation.valid) return { ok: false, error: queryValidation.error };
+  if (!validateObjectId(connectionId).valid) return { ok: false, error: 'Invalid connection' };
+
+  await connectToDatabase();
+  const owned = await DataConnectionModel.exists({ _id: connectionId, userId, engine: 'postgres' });
+  if (!owned) return { ok: false, error: 'Database connection not found' };
+
+  return { ok: true, ref: { sql: { connectionId, query: queryValidation.query, params: queryValidation.params } } };
+}
+
+async function validateJsonRef(json: JsonLiveSource, userId: string): Promise<Validated> {
+  if (typeof json !== 'object' || json === null || typeof json.url !== 'string') return { ok: false, error: 'Invalid JSON source' };
+  if (isBlockedSheetUrl(json.url)) return { ok: false, error: 'Only HTTPS URLs to public data sources are allowed' };
+
+  const path = typeof json.path === 'string' && json.path.trim() ? json.path.trim() : undefined;
+  if (path && !parseJsonPath(path)) return { ok: false, error: `"${path}" isn't a supported JSONPath` };
+
+  if (json.connectionId !== undefined) {
+    if (!validateObjectId(json.connectionId).valid) return { ok: false, error: 'Invalid connection' };
+    await connectToDatabase();
+    const connection = await DataConnectionModel.findOne({ _id: json.connectionId, userId, engine: 'http' }).select('host').lean();
+    if (!connection) return { ok: false, error: 'API credential not found' };
+    if (connection.host !== new URL(json.url).host) {
+      return { ok: false, error: `That credential can only be sent to ${connection.host}` };
+    }
+  }
+
+  return {
+    ok: true,
+    ref: { json: { url: json.url, ...(path ? { path } : {}), ...(json.connectionId ? { connectionId: json.connectionId } : {}) } },
+  };
+}
+
+/**
+ * Check a client-supplied source before it's stored: exactly one kind, a
+ * public HTTPS sheet / API URL, or a well-formed query over one of
+ * `userId`'s own connections. Returns the source with only the known
+ * fields kept.
+ */
+export async function validateLiveSourceRef(ref: LiveSourceRef, userId: string): Promise<Validated> {
+  const kinds = [ref.url, ref.sql, ref.json].filter(Boolean).length;
+  if (kinds !== 1) return { ok: false, error: 'Connect exactly one of a sheet URL, a SQL query or a JSON API' };
+
+  if (ref.sql) return validateSqlRef(ref.sql, userId);
+  if (ref.json) return validateJsonRef(ref.json, userId);
+
+  if (typeof ref.url !== 'string' || isBlockedSheetUrl(ref.url)) {
+    return { ok: false, error: 'Only HTTPS URLs to public data sources are allowed' };
+  }
+  return { ok: true, ref: { url: ref.url } };
+}
+
+/** Load `source.connectionId` — which must belong to `userId` — and run the query over it. */
+export async function fetchSqlSource(source: SqlLiveSource, userId: string): Promise<FetchedSheet | FetchedSheetError> {
+  const idValidation = validateObjectId(source.connectionId);
+  if (!idValidation.valid) return { ok: false, error: 'Invalid connection', status: 400 };
+
+  await connectToDatabase();
+  const connection = await DataConnectionModel.findOne({ _id: source.connectionId, userId, engine: 'postgres' })
+    .select('+encryptedUrl')
+    .lean();
+  if (!connection?.encryptedUrl) return { ok: false, error: 'Database connection not found — it may have been deleted', status: 404 };
+
+  let connectionUrl: string;
+  try {
+    connectionUrl = decryptSecret(connection.encryptedUrl);
+  } catch (err) {
+    console.error(err);
+    return { ok: false, error: 'Stored credentials could not be read — re-add the connection', status: 500 };
+  }
+  return runSqlQuery(connectionUrl, source.query, source.params ?? []);
+}
+
+/**
+ * Fetch a JSON source, attaching its saved auth header when it has one. The
+ * header is only ever sent to the host it was saved for.
+ */
+export async function fetchJsonSource(source: JsonLiveSource, userId: string): Promise<FetchedSheet | FetchedSheetError> {
+  if (typeof source.url !== 'string') return { ok: false, error: 'Invalid URL', status: 400 };
+  if (!source.connectionId) return fetchAndParseJson(source.url, source.path);
+
+  if (!validateObjectId(source.connectionId).valid) return { ok: false, error: 'Invalid connection', status: 400 };
+  await connectToDatabase();
+  const connection = await DataConnectionModel.findOne({ _id: source.connectionId, userId, engine: 'http' })
+    .select('+encryptedHeaderValue')
+    .lean();
+  if (!connection?.encryptedHeaderValue || !connection.headerName) {
+    return { ok: false, error: 'API credential not found — it may have been deleted', status: 404 };
+  }
+
+  let host: string;
+  try {
+    host = new URL(source.url).host;
+  } catch {
+    return { ok: false, error: 'Invalid URL', status: 400 };
+  }
+  if (host !== connection.host) {
+    return { ok: false, error: `That credential can only be sent to ${connection.host}`, status: 400 };
+  }
+
+  let auth: JsonAuthHeader;
+  try {
+    auth = { name: connection.headerName, value: decryptSecret(connection.encryptedHeaderValue) };
+  } catch (err) {
+    console.error(err);
+    return { ok: false, error: 'Stored credentials could not be read — re-add the credential', status: 500 };
+  }
+  return fetchAndParseJson(source.url, source.path, auth);
+}
+
+/**
+ * Fetch the current data behind a live source. `userId` is the owner of the
+ * visualization (or the caller, for a not-yet-saved source) — SQL and JSON
+ * sources can only use that user's connections.
+ */
+export async function fetchLiveSource(ref: LiveSourceRef, userId: string): Promise<FetchedSheet | FetchedSheetError> {
+  const kind = liveSourceKind(ref);
+  if (kind === 'sql') return fetchSqlSource(ref.sql!, userId);
+  if (kind === 'json') return fetchJsonSource(ref.json!, userId);
+  if (kind === 'sheet') return fetchAndParseSheet(ref.url!);
+  return { ok: false, error: 'No live data source configured', status: 400 };
+}
@@ -9,7 +9,7 @@
 // ============================================================================
 
 import type { EChartsOption } from 'echarts';
-import { callOpenAIJSON, MODELS, type AIResult } from './ai-client';
+import { callAIJSON, MODELS, type AIResult } from './ai-client';
 
 export interface NarrativeResult {
   narrative: string;
@@ -32,5 +32,5 @@ Respond with ONLY valid JSON in this exact shape:
  */
 export async function generateNarrative(option: EChartsOption, title: string): Promise<AIResult<NarrativeResult>> {
   const userInput = JSON.stringify({ title, option });
-  return callOpenAIJSON<NarrativeResult>(SYSTEM_PROMPT, userInput, MODELS.SIMPLE);
+  return callAIJSON<NarrativeResult>('narrative', SYSTEM_PROMPT, userInput, MODELS.SIMPLE);
 }
@@ -0,0 +1,44 @@
+// ============================================================================
+// PDF EXTRACT — text and column-aligned tables from an uploaded PDF
+//
+// Runs on the server: pdf.js needs a worker script in the browser, which the
+// app's CSP (worker-src 'self' blob:) can't load from a CDN, while under
+// Node pdf-parse runs it in-process. The `/api/pdf-extract` route calls this
+// for the composer; `parseFile` turns the result into an attachment.
+// ============================================================================
+
+import * as Sentry from '@sentry/nextjs';
+import { detectPdfTables, PDF_CELL_SEPARATOR } from '@/lib/utils/pdf-tables';
+import type { WorkbookSheet } from '@/lib/utils/sheet-range';
+import { sanitizeError } from '@/lib/utils/validation';
+
+export type PdfExtractResult =
+  | { ok: true; text: string; sheets: WorkbookSheet[] }
+  | { ok: false; error: string; status: number };
+
+/** Extract `data`'s text and any tables in it (largest first — see `detectPdfTables`). */
+export async function extractPdf(data: Uint8Array): Promise<PdfExtractResult> {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data });
+  try {
+    // Tab-separate horizontally distant items so table columns survive, and
+    // leave out the "-- 1 of 9 --" page markers.
+    const result = await parser.getText({ cellSeparator: PDF_CELL_SEPARATOR, pageJoiner: '' });
+    const text = result.text?.trim();
+    if (!text) {
+      return { ok: false, error: 'Could not extract text from this PDF. It may be image-based or empty.', status: 422 };
+    }
+    return {
+      ok: true,
+      // Prompt text reads as ordinary prose — the tabs only matter for table detection.
+      text: text.replace(/\t/g, '  '),
+      sheets: detectPdfTables(result.pages),
+    };
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return { ok: false, error: sanitizeError(error, 'Failed to parse PDF'), status: 422 };
+  } finally {
+    await parser.destroy();
+  }
+}
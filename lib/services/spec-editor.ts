@@ -6,34 +6,99 @@
 // chart is now the same `EChartsOption` shape, one prompt can edit any of
 // them — it just needs to know the structure/theme split so it doesn't
 // fight the branding layer.
+//
+// Edits are requested as an RFC 6902 JSON Patch against the existing option
+// rather than the complete updated option: most edits touch a handful of
+// paths, so this cuts completion tokens (and latency) sharply and keeps big
+// charts well under the completion cap. The server applies and validates the
+// patch; only when it can't be applied — or produces an invalid chart — does
+// it fall back to a single full-replacement call.
+//
+// Charts computed from a dataset (transforms + encoding plan) can instead be
+// edited at the pipeline level: requests that change which data is shown
+// come back as updated steps and plan, which the caller re-runs over the real
+// rows — the model never rewrites the numbers.
 // ============================================================================
 
 import type { EChartsOption } from 'echarts';
-import { callOpenAIJSON, MODELS } from './ai-client';
+import { callAIJSON, MODELS } from './ai-client';
+import { validateChartOption, formatValidationFeedback } from './spec-validator';
+import { TRANSFORMS_GUIDE, stripNulls } from './encoding-planner';
+import { applyJsonPatch, describeJsonPatch, type JsonPatchOperation } from '@/lib/utils/json-patch';
+import { formatSchemaForPrompt, type ColumnSchema } from '@/lib/utils/csv-schema';
+import { describeMeasure, type EncodingResult } from '@/lib/utils/aggregation-engine';
+import { describeTransform } from '@/lib/utils/transform-engine';
+import type { EncodingPlan } from '@/lib/types/encoding-plan';
+import type { TransformStep } from '@/lib/types/transform';
+
+/** A dataset-computed chart's pipeline, offered to the editor so data edits re-plan instead of patching numbers. */
+export interface EditPipelineContext {
+  /** Schema of the source rows (before any transforms). */
+  schema: ColumnSchema[];
+  rowCount: number;
+  encoding: EncodingPlan;
+  transforms: TransformStep[];
+  /** Run a candidate pipeline over the source rows. */
+  rebuild: (transforms: TransformStep[], encoding: EncodingPlan) => EncodingResult;
+}
 
 export interface SpecEditResult {
   message: string;
   option?: EChartsOption;
+  /** One line per patch operation ("series[0].data[3]: 420 → 510") — only set when the edit was applied as a patch. */
+  changes?: string[];
+  /** Set when the edited option still failed validation after the fallback — `option` is then omitted. */
+  validationErrors?: string[];
+  /** Set when the edit re-planned the chart's data — `option` is the pipeline's fresh build. */
+  pipeline?: { transforms: TransformStep[]; encoding: EncodingPlan };
+  /** Set when the fallback was needed but `canAffordFullReplacement` declined it — `option` is then omitted. */
+  fullReplacementDeclined?: boolean;
   promptTokens: number;
   completionTokens: number;
 }
 
-const SYSTEM_PROMPT = `You are an expert chart-editing assistant. The user has an Apache ECharts \`option\` object and either asks a QUESTION about it or REQUESTS A CHANGE to it.
-
-CONTEXT — STRUCTURE vs. THEME:
+const STRUCTURE_CONTEXT = `CONTEXT — STRUCTURE vs. THEME:
 This option holds STRUCTURE ONLY (series types, encodings, data, axes, titles). A separate branding layer injects global colors, fonts, spacing, and legend placement on top of whatever you return — so:
 - Do NOT set global \`color\`, \`backgroundColor\`, or \`textStyle\` — those belong to the brand theme and changing them here has no visible effect (the theme layer overwrites them).
 - DO feel free to set per-element overrides when the user asks to highlight or distinguish specific data (e.g. "make the November bar red" → set \`itemStyle.color\` on that one data entry; "emphasize the Enterprise segment" → set \`emphasis\` on that pie slice). These are legitimate structural/semantic choices, not global theme changes.
-- If the user asks for a global restyle ("make this look warmer", "use our brand colors", "bigger fonts everywhere"), explain in your "message" that appearance is controlled by the chart's brand theme settings (palette/typography/spacing), not per-chart edits, and do not modify \`option\` for that part of the request.
+- If the user asks for a global restyle ("make this look warmer", "use our brand colors", "bigger fonts everywhere"), explain in your "message" that appearance is controlled by the chart's brand theme settings (palette/typography/spacing), not per-chart edits, and do not modify \`option\` for that part of the request.`;
+
+const SHARED_RULES = `- Preserve the overall structure and chart type unless the user explicitly asks to change the chart type.
+- When adding data entries (bars, nodes, pie slices, etc.), generate realistic values consistent with the existing data's scale and domain — never placeholders.
+- Keep IDs/names referenced elsewhere (e.g. graph link source/target, sankey link references) consistent with any renamed nodes.
+- Sankey \`links\` MUST remain a DAG — never introduce a chain that leads back to a node it already passed through (e.g. A→B→C→A is invalid and crashes the renderer).
+- NEVER fabricate statistical results — do not invent or add p-values, confidence intervals, test statistics (t/F/chi-square/z/etc.), significance markers (e.g. "*", "p < 0.05" labels), error bars, or significance-comparison series (e.g. a "p-value per group" line/annotation). These require a real computation you cannot perform. If the user asks for a statistical test or to show test results on the chart, make no change and explain in "message" that they should use the "Run a statistical test" tool (the Σ button in the composer), which computes a verified result from the attached dataset.`;
+
+const PATCH_SYSTEM_PROMPT = `You are an expert chart-editing assistant. The user has an Apache ECharts \`option\` object and either asks a QUESTION about it or REQUESTS A CHANGE to it.
+
+${STRUCTURE_CONTEXT}
+
+RULES FOR MODIFICATIONS:
+${SHARED_RULES}
+- Express the change as an RFC 6902 JSON Patch against the EXISTING option — an array of operations using JSON Pointer paths, e.g.
+  [{"op":"replace","path":"/series/0/data/3","value":510},{"op":"add","path":"/xAxis/data/-","value":"Q5"},{"op":"add","path":"/series/0/data/-","value":540}]
+- Allowed ops: add, remove, replace, move, copy. Paths are zero-based; "-" appends to an array. Only include operations for what actually changes.
+- Only when the request restructures most of the chart (e.g. "switch to a treemap", "split this into one series per region"), set "patch" to null and return the COMPLETE updated option in "option" instead.
+
+Determine whether the user's message is a QUESTION or a MODIFICATION:
+- QUESTION (e.g. "Why is this segment so large?", "What does this axis represent?"): answer in "message", set "patch" and "option" to null.
+- MODIFICATION (e.g. "Add a Q5 data point", "Switch to a donut", "Highlight the top performer"): give a brief confirmation in "message" and return the patch (or, for full restructures only, the complete option).
+
+Respond with ONLY valid JSON:
+{
+  "message": "string",
+  "patch": [ ... JSON Patch operations ... ] | null,
+  "option": { ... complete updated option, full restructures only ... } | null
+}`;
+
+const FULL_OPTION_SYSTEM_PROMPT = `You are an expert chart-editing assistant. The user has an Apache ECharts \`option\` object and either asks a QUESTION about it or REQUESTS A CHANGE to it.
+
+${STRUCTURE_CONTEXT}
 
 RULES FOR MODIFICATIONS:
-1. Preserve the overall structure and chart type unless the user explicitly asks to change the chart type.
-2. When adding data entries (bars, nodes, pie slices, etc.), generate realistic values consistent with the existing data's scale and domain — never placeholders.
-3. When restructuring (e.g. "switch to a line chart", "show this as a treemap instead"), you may change \`series[].type\` and reshape \`data\`/axes accordingly — preserve the underlying information.
-4. Return the COMPLETE updated \`option\` object, not a partial patch.
-5. Keep IDs/names referenced elsewhere (e.g. graph link source/target, sankey link references) consistent with any renamed nodes.
-6. Sankey \`links\` MUST remain a DAG — never introduce a chain that leads back to a node it already passed through (e.g. A→B→C→A is invalid and crashes the renderer).
-7. NEVER fabricate statistical results — do not invent or add p-values, confidence intervals, test statistics (t/F/chi-square/z/etc.), significance markers (e.g. "*", "p < 0.05" labels), error bars, or significance-comparison series (e.g. a "p-value per group" line/annotation). These require a real computation you cannot perform. If the user asks for a statistical test or to show test results on the chart, set "option" to null and explain in "message" that they should use the "Run a statistical test" tool (the Σ button in the composer), which computes a verified result from the attached dataset.
+${SHARED_RULES}
+- When restructuring (e.g. "switch to a line chart", "show this as a treemap instead"), you may change \`series[].type\` and reshape \`data\`/axes accordingly — preserve the underlying information.
+- Return the COMPLETE updated \`option\` object, not a partial patch.
 
 Determine whether the user's message is a QUESTION or a MODIFICATION:
 - QUESTION (e.g. "Why is this segment so large?", "What does this axis represent?"): answer in "message", set "option" to null.
@@ -45,6 +110,39 @@ Respond with ONLY valid JSON:
   "option": { ... full updated ECharts option ... } | null
 }`;
 
+const PIPELINE_CONTEXT = `DATA PIPELINE — this chart is computed by a deterministic engine from the user's dataset: the rows pass through "transforms", then the encoding "plan" maps columns to the chart.
+For requests that change WHICH DATA is shown — filtering, regrouping, a different measure or aggregate, top-N, pivoting, or derived columns like growth % or ratios — do NOT patch the numbers: set "patch" and "option" to null and return "pipeline": { "transforms": [ ...complete updated steps... ], "encoding": { ...complete updated plan, same fields as the current one... } }. The plan's columns refer to the table AFTER the transforms.
+Purely visual changes (labels, one bar's color, axis names, title) still use "patch".
+
+${TRANSFORMS_GUIDE}`;
+
+const PIPELINE_SYSTEM_PROMPT = PATCH_SYSTEM_PROMPT.replace(
+  'Respond with ONLY valid JSON:',
+  `${PIPELINE_CONTEXT}\n\nRespond with ONLY valid JSON (plus "pipeline": { "transforms": [...], "encoding": {...} } | null):`
+);
+
+interface RawPatchResponse {
+  message: string;
+  patch: JsonPatchOperation[] | null;
+  option: EChartsOption | null;
+  pipeline?: { transforms: TransformStep[] | null; encoding: EncodingPlan | null } | null;
+}
+
+/** "+ Filter Year eq 2025" / "− Sort by Revenue desc" per step added or dropped, plus the plan when it changed. */
+function describePipelineChange(before: EditPipelineContext, transforms: TransformStep[], encoding: EncodingPlan): string[] {
+  const key = (step: TransformStep) => JSON.stringify(step);
+  const was = new Set(before.transforms.map(key));
+  const now = new Set(transforms.map(key));
+  const changes = [
+    ...before.transforms.filter(t => !now.has(key(t))).map(t => `− ${describeTransform(t)}`),
+    ...transforms.filter(t => !was.has(key(t))).map(t => `+ ${describeTransform(t)}`),
+  ];
+  if (JSON.stringify(before.encoding) !== JSON.stringify(encoding)) {
+    changes.push(`Encoding: ${encoding.chartType}, ${describeMeasure(encoding)}`);
+  }
+  return changes;
+}
+
 interface RawEditResponse {
   message: string;
   option: EChartsOption | null;
@@ -54,32 +152,156 @@ interface RawEditResponse {
  * Single AI call that edits (or answers questions about) any chart, since
  * every chart now shares the same `EChartsOption` shape — no per-type
  * branching needed.
+ *
+ * The model answers with a JSON Patch, which is applied to a clone of
+ * `existingOption` and validated. If the patch can't be applied or the
+ * result fails validation, exactly one full-replacement call is made (with
+ * the failure as feedback) — that call doubles as the bounded repair retry.
+ * It costs several times a patch edit, so `canAffordFullReplacement` is
+ * asked first; declining returns without an option.
+ *
+ * With a `pipeline` context the model may instead return updated transforms
+ * and plan; they're rebuilt over the real rows, and a failed rebuild gets
+ * one repair call with the engine's errors as feedback.
  */
 export async function editChartSpec(
   existingOption: EChartsOption,
   editPrompt: string,
-  history: Array<{ role: 'user' | 'assistant'; content: string }> = []
+  history: Array<{ role: 'user' | 'assistant'; content: string }> = [],
+  pipeline?: EditPipelineContext,
+  canAffordFullReplacement?: () => Promise<boolean>
 ): Promise<SpecEditResult> {
   const historyContext = history.length > 0
     ? `\nPREVIOUS CONVERSATION CONTEXT:\n${history.slice(-5).map(m => `${m.role.toUpperCase()}: ${m.content}`).join('\n')}\n`
     : '';
 
+  const pipelineContext = pipeline
+    ? `\nDATASET SCHEMA (${pipeline.rowCount.toLocaleString()} rows — use these exact column names):
+${formatSchemaForPrompt(pipeline.schema)}
+
+CURRENT TRANSFORMS:
+${JSON.stringify(pipeline.transforms)}
+
+CURRENT ENCODING PLAN:
+${JSON.stringify(pipeline.encoding)}
+`
+    : '';
+
   const userPrompt = `EXISTING CHART OPTION:
 ${JSON.stringify(existingOption)}
-${historyContext}
+${pipelineContext}${historyContext}
 USER'S REQUEST:
 ${editPrompt}`;
 
-  const { data, promptTokens, completionTokens } = await callOpenAIJSON<RawEditResponse>(
-    SYSTEM_PROMPT,
+  const systemPrompt = pipeline ? PIPELINE_SYSTEM_PROMPT : PATCH_SYSTEM_PROMPT;
+
+  const { data, promptTokens, completionTokens } = await callAIJSON<RawPatchResponse>(
+    'edit',
+    systemPrompt,
     userPrompt,
     MODELS.COMPLEX
   );
 
+  // ── Pipeline edit: rebuild from the rows, one repair call on failure ──
+  if (pipeline && data.pipeline?.encoding) {
+    const attempt = (raw: NonNullable<RawPatchResponse['pipeline']>) => {
+      const transforms = raw.transforms ?? [];
+      const encoding = stripNulls(raw.encoding!);
+      return { transforms, encoding, built: pipeline.rebuild(transforms, encoding) };
+    };
+
+    let current = attempt(data.pipeline);
+    let message = data.message;
+    let totalPromptTokens = promptTokens;
+    let totalCompletionTokens = completionTokens;
+
+    if (!current.built.ok) {
+      const feedback = `YOUR PREVIOUS PIPELINE FAILED — fix these problems:\n${current.built.errors.map(e => `- ${e}`).join('\n')}`;
+      const retry = await callAIJSON<RawPatchResponse>('edit', systemPrompt, `${userPrompt}\n\n${feedback}`, MODELS.COMPLEX);
+      totalPromptTokens += retry.promptTokens;
+      totalCompletionTokens += retry.completionTokens;
+      message = retry.data.message;
+      if (!retry.data.pipeline?.encoding) {
+        return { message, validationErrors: current.built.errors, promptTokens: totalPromptTokens, completionTokens: totalCompletionTokens };
+      }
+      current = attempt(retry.data.pipeline);
+    }
+
+    if (!current.built.ok) {
+      return { message, validationErrors: current.built.errors, promptTokens: totalPromptTokens, completionTokens: totalCompletionTokens };
+    }
+    return {
+      message,
+      option: current.built.option,
+      changes: describePipelineChange(pipeline, current.transforms, current.encoding),
+      pipeline: { transforms: current.transforms, encoding: current.encoding },
+      promptTokens: totalPromptTokens,
+      completionTokens: totalCompletionTokens,
+    };
+  }
+
+  const hasPatch = Array.isArray(data.patch) && data.patch.length > 0;
+  if (!hasPatch && !data.option) {
+    return { message: data.message, promptTokens, completionTokens };
+  }
+
+  let feedback: string;
+  if (hasPatch) {
+    try {
+      const patched = applyJsonPatch(existingOption, data.patch!);
+      const validation = validateChartOption(patched);
+      if (validation.valid) {
+        return {
+          message: data.message,
+          option: validation.option,
+          changes: describeJsonPatch(existingOption, data.patch!),
+          promptTokens,
+          completionTokens,
+        };
+      }
+      feedback = formatValidationFeedback(validation.errors);
+    } catch (error) {
+      feedback = `YOUR PREVIOUS JSON PATCH COULD NOT BE APPLIED (${error instanceof Error ? error.message : 'invalid patch'}). Return the complete updated option instead.`;
+    }
+  } else {
+    const validation = validateChartOption(data.option);
+    if (validation.valid) {
+      return { message: data.message, option: validation.option, promptTokens, completionTokens };
+    }
+    feedback = formatValidationFeedback(validation.errors);
+  }
+
+  // ── Fallback: one full-replacement call, with the failure as feedback ──
+  if (canAffordFullReplacement && !(await canAffordFullReplacement())) {
+    return { message: data.message, fullReplacementDeclined: true, promptTokens, completionTokens };
+  }
+  const full = await callAIJSON<RawEditResponse>(
+    'edit-full',
+    FULL_OPTION_SYSTEM_PROMPT,
+    `${userPrompt}\n\n${feedback}`,
+    MODELS.COMPLEX
+  );
+  const totalPromptTokens = promptTokens + full.promptTokens;
+  const totalCompletionTokens = completionTokens + full.completionTokens;
+
+  if (!full.data.option) {
+    return { message: full.data.message, promptTokens: totalPromptTokens, completionTokens: totalCompletionTokens };
+  }
+
+  const validation = validateChartOption(full.data.option);
+  if (!validation.valid) {
+    return {
+      message: full.data.message,
+      validationErrors: validation.errors,
+      promptTokens: totalPromptTokens,
+      completionTokens: totalCompletionTokens,
+    };
+  }
+
   return {
-    message: data.message,
-    option: data.option || undefined,
-    promptTokens,
-    completionTokens,
+    message: full.data.message,
+    option: validation.option,
+    promptTokens: totalPromptTokens,
+    completionTokens: totalCompletionTokens,
   };
 }
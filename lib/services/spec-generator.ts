@@ -11,7 +11,8 @@
 // ============================================================================
 
 import type { EChartsOption } from 'echarts';
-import { callOpenAIJSON, MODELS, type AIResult } from './ai-client';
+import { callAIJSON, MODELS, type AIResult } from './ai-client';
+import { validateChartOption, formatValidationFeedback, MAX_REPAIR_ATTEMPTS } from './spec-validator';
 
 export interface ChartSpecResult {
   title: string;
@@ -21,7 +22,11 @@ export interface ChartSpecResult {
   variantKey: string | null;
 }
 
-const SYSTEM_PROMPT = `You are an expert data visualization designer. Given a user's text — a topic, a dataset, or a request — you compose a single Apache ECharts \`option\` object that best represents it.
+/**
+ * The composition prompt. Exported so the offline eval harness
+ * (lib/evals/spec-eval.ts) can score it against a candidate revision.
+ */
+export const SPEC_SYSTEM_PROMPT = `You are an expert data visualization designer. Given a user's text — a topic, a dataset, or a request — you compose a single Apache ECharts \`option\` object that best represents it.
 
 You are NOT choosing from a fixed catalog of chart "types". ECharts gives you an open vocabulary of series and components; pick and combine whichever primitives best fit the content:
 - bar, line, pie, scatter, effectScatter — categorical/temporal/correlational numeric data
@@ -202,18 +207,56 @@ interface RawSpecResponse {
  * Single AI call that analyzes input and composes a structural ECharts
  * `option` directly — replacing the old "classify into one of 19 types, then
  * fill that type's bespoke schema" two-step pipeline.
+ *
+ * The returned option is run through `validateChartOption`: safe problems
+ * are repaired in place, anything else triggers one retry with the errors
+ * as feedback. If the option is still invalid after that, `validationErrors`
+ * is set and the caller must not hand the option to the renderer. Token
+ * usage covers every attempt.
+ *
+ * `systemPrompt` defaults to `SPEC_SYSTEM_PROMPT`; only the eval harness
+ * passes anything else.
  */
-export async function generateChartSpec(userInput: string): Promise<AIResult<ChartSpecResult> & { visualizable: boolean }> {
-  const { data, promptTokens, completionTokens } = await callOpenAIJSON<RawSpecResponse>(
-    SYSTEM_PROMPT,
+export async function generateChartSpec(
+  userInput: string,
+  systemPrompt: string = SPEC_SYSTEM_PROMPT
+): Promise<AIResult<ChartSpecResult> & { visualizable: boolean; validationErrors?: string[] }> {
+  const first = await callAIJSON<RawSpecResponse>(
+    'generate',
+    systemPrompt,
     userInput,
     MODELS.COMPLEX
   );
+  let { data, promptTokens, completionTokens } = first;
+
+  let validation = data.visualizable ? validateChartOption(data.option) : null;
+
+  for (let attempt = 0; validation && !validation.valid && attempt < MAX_REPAIR_ATTEMPTS; attempt++) {
+    const retry = await callAIJSON<RawSpecResponse>(
+      'generate',
+      systemPrompt,
+      `${userInput}\n\n${formatValidationFeedback(validation.errors)}`,
+      MODELS.COMPLEX
+    );
+    promptTokens += retry.promptTokens;
+    completionTokens += retry.completionTokens;
+    if (!retry.data.visualizable) break;
+    data = retry.data;
+    validation = validateChartOption(data.option);
+  }
 
   return {
-    data: { title: data.title, option: data.option, reason: data.reason, seriesType: data.seriesType, variantKey: data.variantKey ?? null },
+    data: {
+      title: data.title,
+      option: validation?.option ?? data.option,
+      reason: data.reason,
+      seriesType: data.seriesType,
+      variantKey: data.variantKey ?? null,
+    },
     visualizable: data.visualizable,
+    validationErrors: validation && !validation.valid ? validation.errors : undefined,
     promptTokens,
     completionTokens,
+    model: first.model,
   };
 }
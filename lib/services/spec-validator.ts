@@ -0,0 +1,370 @@
+// ============================================================================
+// SPEC VALIDATOR — structural checks + safe auto-repair for AI-authored options
+//
+// `callAIJSON` only guarantees "some JSON object came back". The model
+// occasionally returns options that parse fine but can't render: a sankey
+// with a cycle, graph links pointing at nodes that don't exist, or a bar
+// series with a different number of points than its category axis. Those
+// used to surface only as a blank/broken canvas in `EChartsRenderer`.
+//
+// Each series type gets its own zod schema for the data shape ECharts
+// expects, plus cross-field checks zod can't express (DAG-ness, link
+// references, axis/data alignment). Problems that have one obviously-correct
+// fix (duplicate nodes, dangling links, self-loops) are repaired in place;
+// everything else is reported back so the caller can run one bounded AI
+// retry with the errors as feedback.
+// ============================================================================
+
+import { z } from 'zod';
+import type { EChartsOption } from 'echarts';
+
+export interface OptionValidationResult {
+  /** The (possibly repaired) option — a clone, the input is never mutated. */
+  option: EChartsOption;
+  valid: boolean;
+  /** Problems that could not be repaired safely — empty when `valid`. */
+  errors: string[];
+  /** Human-readable notes for each automatic repair that was applied. */
+  repairs: string[];
+}
+
+/** Upper bound on AI re-asks after a failed validation — one retry, never a loop. */
+export const MAX_REPAIR_ATTEMPTS = 1;
+
+type AnyRecord = Record<string, unknown>;
+
+// ── Per-series-type data schemas ────────────────────────────────────────────
+
+const numberish = z.union([z.number(), z.string(), z.null()]);
+
+/** A single point on a cartesian/polar axis: bare value, [x, y, ...] tuple, or `{ value }`. */
+const axisPoint = z.union([
+  numberish,
+  z.array(numberish),
+  z.looseObject({ value: z.union([numberish, z.array(numberish)]) }),
+]);
+
+const namedValue = z.looseObject({
+  name: z.union([z.string(), z.number()]),
+  value: z.union([numberish, z.array(numberish)]).optional(),
+});
+
+interface TreeNode {
+  name?: string | number;
+  value?: unknown;
+  children?: TreeNode[];
+}
+
+const treeNode: z.ZodType<TreeNode> = z.lazy(() =>
+  z.looseObject({
+    name: z.union([z.string(), z.number()]).optional(),
+    value: z.unknown().optional(),
+    children: z.array(treeNode).optional(),
+  })
+);
+
+const graphNode = z.looseObject({
+  id: z.union([z.string(), z.number()]).optional(),
+  name: z.union([z.string(), z.number()]).optional(),
+}).refine(n => n.id !== undefined || n.name !== undefined, { message: 'node needs an id or name' });
+
+const graphLink = z.looseObject({
+  source: z.union([z.string(), z.number()]),
+  target: z.union([z.string(), z.number()]),
+  value: z.number().optional(),
+});
+
+const sankeyLink = graphLink.extend({ value: z.number().nonnegative() });
+
+const SERIES_SCHEMAS: Record<string, z.ZodType> = {
+  bar: z.looseObject({ data: z.array(axisPoint).optional() }),
+  line: z.looseObject({ data: z.array(axisPoint).optional() }),
+  scatter: z.looseObject({ data: z.array(axisPoint).optional() }),
+  effectScatter: z.looseObject({ data: z.array(axisPoint).optional() }),
+  heatmap: z.looseObject({ data: z.array(z.union([z.array(numberish).min(3), z.looseObject({ value: z.array(numberish).min(3) })])) }),
+  pie: z.looseObject({ data: z.array(namedValue).min(1) }),
+  funnel: z.looseObject({ data: z.array(namedValue).min(1) }),
+  radar: z.looseObject({ data: z.array(z.looseObject({ value: z.array(numberish).min(1) })).min(1) }),
+  tree: z.looseObject({ data: z.array(treeNode).min(1) }),
+  treemap: z.looseObject({ data: z.array(treeNode).min(1) }),
+  sunburst: z.looseObject({ data: z.array(treeNode).min(1) }),
+  graph: z.looseObject({
+    data: z.array(graphNode).optional(),
+    nodes: z.array(graphNode).optional(),
+    links: z.array(graphLink).optional(),
+    edges: z.array(graphLink).optional(),
+  }),
+  sankey: z.looseObject({
+    data: z.array(graphNode).optional(),
+    nodes: z.array(graphNode).optional(),
+    links: z.array(sankeyLink).optional(),
+    edges: z.array(sankeyLink).optional(),
+  }),
+  gauge: z.looseObject({ data: z.array(z.union([z.number(), namedValue])).optional() }),
+};
+
+const optionShape = z.looseObject({
+  series: z.union([z.array(z.looseObject({ type: z.string() })), z.looseObject({ type: z.string() })]),
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value == null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function seriesLabel(s: AnyRecord, index: number): string {
+  return typeof s.name === 'string' && s.name ? `series "${s.name}" (${s.type})` : `series[${index}] (${s.type})`;
+}
+
+function formatIssue(label: string, issue: z.core.$ZodIssue): string {
+  const path = issue.path.length ? issue.path.join('.') : 'root';
+  return `${label}: ${path} — ${issue.message}`;
+}
+
+/** Node list key for graph/sankey — ECharts accepts either `data` or `nodes`. */
+function nodeKey(s: AnyRecord): 'data' | 'nodes' {
+  return Array.isArray(s.nodes) && !Array.isArray(s.data) ? 'nodes' : 'data';
+}
+
+function linkKey(s: AnyRecord): 'links' | 'edges' {
+  return Array.isArray(s.edges) && !Array.isArray(s.links) ? 'edges' : 'links';
+}
+
+function nodeRef(n: AnyRecord): string {
+  return String(n.id ?? n.name);
+}
+
+/**
+ * Drop duplicate nodes (by id/name) and links whose endpoints don't resolve.
+ * Graph links may reference nodes by index as well as by id/name, and may
+ * loop back to their own node; sankey links resolve by name only and a
+ * self-loop is just a one-node cycle, which the renderer can't lay out.
+ */
+function repairNodesAndLinks(s: AnyRecord, label: string, repairs: string[]): void {
+  const isGraph = s.type === 'graph';
+  const nKey = nodeKey(s);
+  const lKey = linkKey(s);
+  const nodes = asArray(s[nKey] as AnyRecord[] | undefined);
+  const links = asArray(s[lKey] as AnyRecord[] | undefined);
+
+  const seen = new Set<string>();
+  const deduped = nodes.filter(n => {
+    // Nodes with neither id nor name are left for the schema check to report.
+    if (n?.id === undefined && n?.name === undefined) return true;
+    const ref = nodeRef(n);
+    if (seen.has(ref)) return false;
+    seen.add(ref);
+    return true;
+  });
+  if (deduped.length < nodes.length) {
+    repairs.push(`${label}: removed ${nodes.length - deduped.length} duplicate node(s)`);
+    s[nKey] = deduped;
+  }
+
+  const names = new Set<string>();
+  for (const n of deduped) {
+    if (n.id !== undefined) names.add(String(n.id));
+    if (n.name !== undefined) names.add(String(n.name));
+  }
+  const resolves = (ref: unknown) =>
+    names.has(String(ref)) || (isGraph && typeof ref === 'number' && ref >= 0 && ref < deduped.length);
+
+  const kept = links.filter(l =>
+    resolves(l.source) && resolves(l.target) && (isGraph || String(l.source) !== String(l.target))
+  );
+  if (kept.length < links.length) {
+    repairs.push(`${label}: dropped ${links.length - kept.length} link(s) with a missing endpoint${isGraph ? '' : ' or pointing to itself'}`);
+    s[lKey] = kept;
+  }
+}
+
+/** Returns one cycle in a sankey's link graph (as node names), or null if it's a DAG. */
+export function findSankeyCycle(s: AnyRecord): string[] | null {
+  const adjacency = new Map<string, string[]>();
+  for (const l of asArray(s[linkKey(s)] as AnyRecord[] | undefined)) {
+    const from = String(l.source);
+    adjacency.set(from, [...(adjacency.get(from) ?? []), String(l.target)]);
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (node: string): string[] | null => {
+    state.set(node, 'visiting');
+    stack.push(node);
+    for (const next of adjacency.get(node) ?? []) {
+      if (state.get(next) === 'visiting') return [...stack.slice(stack.indexOf(next)), next];
+      if (!state.has(next)) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+    }
+    stack.pop();
+    state.set(node, 'done');
+    return null;
+  };
+
+  for (const node of adjacency.keys()) {
+    if (!state.has(node)) {
+      const cycle = visit(node);
+      if (cycle) return cycle;
+    }
+  }
+  return null;
+}
+
+/** Category axes (with inline `data`) the given cartesian series is plotted against. */
+function categoryAxesFor(option: AnyRecord, s: AnyRecord): AnyRecord[] {
+  const result: AnyRecord[] = [];
+  for (const [key, indexKey] of [['xAxis', 'xAxisIndex'], ['yAxis', 'yAxisIndex']] as const) {
+    const axes = asArray(option[key] as AnyRecord | AnyRecord[] | undefined);
+    const axis = axes[typeof s[indexKey] === 'number' ? (s[indexKey] as number) : 0];
+    if (axis?.type === 'category' && Array.isArray(axis.data)) result.push(axis);
+  }
+  return result;
+}
+
+function checkCartesianAlignment(option: AnyRecord, s: AnyRecord, label: string, errors: string[]): void {
+  const data = s.data;
+  if (!Array.isArray(data) || data.length === 0) return;
+  // Tuple-encoded points ([x, y]) carry their own category — no alignment to check.
+  if (data.some(d => Array.isArray(d))) return;
+  if (s.encode || s.datasetIndex !== undefined) return;
+
+  for (const axis of categoryAxesFor(option, s)) {
+    const categories = (axis.data as unknown[]).length;
+    if (categories > 0 && data.length !== categories) {
+      errors.push(`${label}: has ${data.length} data points but its category axis has ${categories} categories — they must match one-to-one`);
+    }
+  }
+}
+
+function checkHeatmapBounds(option: AnyRecord, s: AnyRecord, label: string, errors: string[]): void {
+  const xAxis = asArray(option.xAxis as AnyRecord | AnyRecord[] | undefined)[0];
+  const yAxis = asArray(option.yAxis as AnyRecord | AnyRecord[] | undefined)[0];
+  const xCount = Array.isArray(xAxis?.data) ? (xAxis.data as unknown[]).length : 0;
+  const yCount = Array.isArray(yAxis?.data) ? (yAxis.data as unknown[]).length : 0;
+  if (!xCount || !yCount) return;
+
+  const outOfRange = asArray(s.data as unknown[] | undefined).filter(d => {
+    const cell = Array.isArray(d) ? d : (d as AnyRecord)?.value;
+    if (!Array.isArray(cell)) return false;
+    const [x, y] = cell;
+    return (typeof x === 'number' && (x < 0 || x >= xCount)) || (typeof y === 'number' && (y < 0 || y >= yCount));
+  }).length;
+  if (outOfRange > 0) {
+    errors.push(`${label}: ${outOfRange} cell(s) reference an x/y index outside the ${xCount}×${yCount} category grid`);
+  }
+}
+
+function checkRadarIndicators(option: AnyRecord, s: AnyRecord, label: string, errors: string[]): void {
+  const radars = asArray(option.radar as AnyRecord | AnyRecord[] | undefined);
+  const radar = radars[typeof s.radarIndex === 'number' ? s.radarIndex : 0];
+  if (!radar) {
+    errors.push(`${label}: radar series requires a top-level \`radar\` component with \`indicator\``);
+    return;
+  }
+  const indicators = asArray(radar.indicator as unknown[] | undefined).length;
+  const mismatched = asArray(s.data as AnyRecord[] | undefined)
+    .filter(d => Array.isArray(d?.value) && (d.value as unknown[]).length !== indicators)
+    .map(d => String(d.name ?? '(unnamed)'));
+  if (mismatched.length > 0) {
+    errors.push(`${label}: entries ${mismatched.join(', ')} don't have exactly ${indicators} values (one per radar indicator)`);
+  }
+}
+
+// ── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Validate an AI-authored option against per-series-type schemas and
+ * cross-field rules. Safe fixes are applied to a clone and listed in
+ * `repairs`; anything that needs judgment (cycles, misaligned data) is
+ * returned in `errors` for the caller to feed back into a retry.
+ */
+export function validateChartOption(option: unknown): OptionValidationResult {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  if (!option || typeof option !== 'object' || Array.isArray(option)) {
+    return { option: {} as EChartsOption, valid: false, errors: ['option must be a JSON object'], repairs };
+  }
+
+  // Deep clone via JSON round-trip — AI output is plain JSON, so this is safe.
+  const clone = JSON.parse(JSON.stringify(option)) as AnyRecord;
+
+  const shape = optionShape.safeParse(clone);
+  if (!shape.success) {
+    return {
+      option: clone as EChartsOption,
+      valid: false,
+      errors: ['option must have a `series` entry (object or array) where every series declares a string `type`'],
+      repairs,
+    };
+  }
+
+  const series = asArray(clone.series as AnyRecord | AnyRecord[]);
+  if (series.length === 0) errors.push('option.series is empty — at least one series is required');
+
+  series.forEach((s, index) => {
+    const type = s.type as string;
+    const label = seriesLabel(s, index);
+
+    if (type === 'graph' || type === 'sankey') {
+      repairNodesAndLinks(s, label, repairs);
+    }
+
+    const schema = SERIES_SCHEMAS[type];
+    if (schema) {
+      const parsed = schema.safeParse(s);
+      if (!parsed.success) {
+        errors.push(...parsed.error.issues.slice(0, 3).map(issue => formatIssue(label, issue)));
+        return;
+      }
+    }
+
+    switch (type) {
+      case 'bar':
+      case 'line':
+        checkCartesianAlignment(clone, s, label, errors);
+        break;
+      case 'heatmap':
+        checkHeatmapBounds(clone, s, label, errors);
+        break;
+      case 'radar':
+        checkRadarIndicators(clone, s, label, errors);
+        break;
+      case 'sankey': {
+        if (asArray(s[nodeKey(s)] as unknown[] | undefined).length === 0) {
+          errors.push(`${label}: sankey needs a non-empty node list in \`data\``);
+        }
+        const cycle = findSankeyCycle(s);
+        if (cycle) errors.push(`${label}: links form a cycle (${cycle.join(' → ')}) — sankey links must be a DAG`);
+        break;
+      }
+    }
+  });
+
+  return { option: clone as EChartsOption, valid: errors.length === 0, errors, repairs };
+}
+
+/**
+ * Feedback block appended to the original request when re-asking the model
+ * after a failed validation — lists the concrete problems so the retry can
+ * fix them rather than regenerate blindly.
+ */
+export function formatValidationFeedback(errors: string[]): string {
+  return (
+    `YOUR PREVIOUS OPTION FAILED VALIDATION and cannot be rendered:\n` +
+    errors.map(e => `- ${e}`).join('\n') +
+    `\n\nReturn a corrected response in the same JSON shape. Fix every problem listed above while keeping the chart's intent and data.`
+  );
+}
+
+/** Short, user-facing explanation for an option that still fails validation after the retry. */
+export function describeValidationFailure(errors: string[]): string {
+  const first = errors[0] ?? 'unknown structural problem';
+  const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : '';
+  return `The AI produced a chart that can't be rendered: ${first}${more}. Try rephrasing your request.`;
+}
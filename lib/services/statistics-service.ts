@@ -19,6 +19,7 @@ import {
   type StatTestOption,
   type StatTestResult,
 } from '@/lib/types/statistics';
+import { inferSchema, normalizeRows } from '@/lib/utils/csv-schema';
 
 // ── Test catalog (the "popular, most-used" set) ─────────────────────────────
 
@@ -68,21 +69,25 @@ export const STAT_TESTS: StatTestOption[] = [
  * by Papa Parse with dynamicTyping) as numeric or categorical, and collect its
  * clean values (nulls/blanks dropped — the same row-skip per-column, since
  * tests need aligned arrays only within their own selected columns).
+ *
+ * Built on `inferSchema`, so currency / percent / duration text is tested as
+ * the number it parses to, while identifiers and postal codes — numbers that
+ * mean nothing arithmetically — are offered as categories instead.
  */
 export function detectColumns(rows: Record<string, unknown>[]): DatasetColumn[] {
   if (!Array.isArray(rows) || rows.length === 0) return [];
 
-  const keys = Object.keys(rows[0] ?? {});
+  const schema = inferSchema(rows);
+  const normalized = normalizeRows(rows, schema);
 
-  return keys.map((name): DatasetColumn => {
-    const raw = rows.map(r => r[name]).filter(v => v !== null && v !== undefined && v !== '');
-    const numericCount = raw.filter(v => typeof v === 'number' && !Number.isNaN(v)).length;
-    const isNumeric = raw.length > 0 && numericCount === raw.length;
+  return schema.map((col): DatasetColumn => {
+    const raw = normalized.map(r => r[col.name]).filter(v => v !== null && v !== undefined && v !== '');
+    const semantic = col.semantic ? { semantic: col.semantic } : {};
 
-    if (isNumeric) {
-      return { name, type: 'numeric', values: raw as number[] };
+    if (col.type === 'numeric' && raw.every(v => typeof v === 'number' && !Number.isNaN(v))) {
+      return { name: col.name, type: 'numeric', ...semantic, values: raw as number[] };
     }
-    return { name, type: 'categorical', values: raw.map(v => String(v)) };
+    return { name: col.name, type: 'categorical', ...semantic, values: raw.map(v => String(v)) };
   });
 }
 
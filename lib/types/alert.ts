@@ -0,0 +1,58 @@
+// ============================================================================
+// ALERT TYPES — metric rules checked every time a live chart refreshes
+//
+// A rule watches one series (or every series) of a chart's option and fires
+// when the refreshed values meet its condition — "latest Revenue below 50k",
+// "any category moved more than 20% since the last refresh", "a new high".
+// Firing is rate-limited per rule by a cooldown; each alert goes to the
+// owner's email and/or an outgoing webhook with a link back to the chart.
+// ============================================================================
+
+export type AlertCondition =
+  /** The latest point of the series is above / below `value`. */
+  | { kind: 'threshold'; series?: string; comparator: 'above' | 'below'; value: number }
+  /** Any category's value moved more than `percent`% since the previous refresh. */
+  | { kind: 'change'; series?: string; percent: number; direction: 'up' | 'down' | 'any' }
+  /** The series' highest (or lowest) value beats the one from the previous refresh. */
+  | { kind: 'record'; series?: string; extreme: 'max' | 'min' };
+
+export type AlertConditionKind = AlertCondition['kind'];
+
+export type AlertChannel =
+  | { kind: 'email' }
+  /** POSTs a JSON payload (see `AlertWebhookPayload`) — HTTPS, public hosts only. */
+  | { kind: 'webhook'; url: string };
+
+export interface AlertRule {
+  id: string;
+  /** Optional label shown in the alert — defaults to the condition's description. */
+  name?: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  channels: AlertChannel[];
+  /** Minimum minutes between two firings of this rule. */
+  cooldownMinutes: number;
+  /** ISO timestamp of the last firing. */
+  lastTriggeredAt?: string;
+}
+
+/** A rule that fired on a refresh. */
+export interface AlertTrigger {
+  rule: AlertRule;
+  /** One sentence — "Revenue's latest value (42,100 for Mar) is below 50,000." */
+  message: string;
+  series: string;
+  category?: string;
+  value?: number;
+}
+
+export interface AlertWebhookPayload {
+  type: 'chart.alert';
+  chart: { id: string; title: string; url: string };
+  rule: { id: string; name: string };
+  message: string;
+  series: string;
+  category?: string;
+  value?: number;
+  triggeredAt: string;
+}
@@ -0,0 +1,39 @@
+// ============================================================================
+// CHART DELTA TYPES — what a live refresh actually moved
+//
+// Computed from a chart's option before and after a refresh (no AI, no
+// rows needed) and shown in digest emails: each series' latest value and its
+// change since the previous refresh, categories that appeared or dropped
+// out, and the single category that moved the most.
+// ============================================================================
+
+export interface SeriesDelta {
+  name: string;
+  /** The series' last point after the refresh — null when it's now empty. */
+  latest: { category: string; value: number } | null;
+  /** The series' last value before the refresh — null when it's new or was empty. */
+  previous: number | null;
+  /** `latest.value - previous`, null without both. */
+  change: number | null;
+  /** Change relative to `previous`, in percent — null without both, or when `previous` is 0. */
+  percent: number | null;
+}
+
+/** The category whose value moved the most (by percent) in any one series. */
+export interface BiggestMover {
+  series: string;
+  category: string;
+  from: number;
+  to: number;
+  change: number;
+  percent: number;
+}
+
+export interface ChartDelta {
+  series: SeriesDelta[];
+  /** Categories plotted after the refresh that weren't before, across all series. */
+  addedCategories: string[];
+  /** Categories plotted before the refresh that are gone now. */
+  removedCategories: string[];
+  biggestMover: BiggestMover | null;
+}
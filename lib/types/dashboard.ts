@@ -1,5 +1,6 @@
 import type { LayoutItem } from 'react-grid-layout';
 import type { SavedVisualization } from './visualization';
+import type { RecurringSchedule } from './schedule';
 
 export interface DashboardLayoutItem extends LayoutItem {
   i: string; // vizId
@@ -11,14 +12,8 @@ export interface DashboardVizSlot {
   titleSnapshot: string;
 }
 
-/** Weekly email digest schedule — re-fetches connected sheets and emails a summary. */
-export interface DashboardSchedule {
-  enabled: boolean;
-  /** 0 = Sunday .. 6 = Saturday, evaluated in UTC. */
-  dayOfWeek: number;
-  /** ISO timestamp of the last digest send/check, for cron idempotency. */
-  lastSentAt?: string;
-}
+/** Email digest schedule — re-fetches connected sheets and emails a summary on each occurrence. */
+export type DashboardSchedule = RecurringSchedule;
 
 export interface Dashboard {
   _id?: string;
@@ -0,0 +1,41 @@
+// ============================================================================
+// DATA CONNECTION TYPES — saved credentials for live data sources
+//
+// A connection is created once and then referenced by id from any number of
+// live sources: a Postgres connection string for `LiveDataConfig.sql`, or an
+// auth header for `LiveDataConfig.json`. The secret is encrypted at rest
+// (`lib/utils/secret-box.ts`) and only ever decrypted on the server,
+// immediately before a request runs — clients see the summary.
+// ============================================================================
+
+export type DataConnectionEngine = 'postgres' | 'http';
+
+export interface DataConnection {
+  _id?: string;
+  userId: string;
+  name: string;
+  engine: DataConnectionEngine;
+  /** postgres: AES-256-GCM envelope of the full connection string — never selected for client responses. */
+  encryptedUrl?: string;
+  /** http: AES-256-GCM envelope of the header value — never selected for client responses. */
+  encryptedHeaderValue?: string;
+  /** http: the header to send, e.g. "Authorization" or "X-API-Key". */
+  headerName?: string;
+  /** postgres: display-only, parsed from the connection string. http: the only host the header is ever sent to. */
+  host: string;
+  /** postgres only. */
+  database?: string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+/** What the client may see of a connection. */
+export interface DataConnectionSummary {
+  id: string;
+  name: string;
+  engine: DataConnectionEngine;
+  host: string;
+  database?: string;
+  headerName?: string;
+  createdAt: string;
+}
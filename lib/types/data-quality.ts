@@ -0,0 +1,53 @@
+// ============================================================================
+// DATA QUALITY TYPES — a deterministic profile of a dataset before charting
+//
+// The profiler walks the parsed rows once per check and reports what would
+// quietly skew a chart: blanks, duplicate rows, columns mixing numbers and
+// text, IQR outliers, near-duplicate category spellings and holes in a date
+// sequence. Issues that have a safe mechanical remedy carry a `QualityFix`
+// the attachment chip can apply to produce a cleaned copy of the rows.
+// ============================================================================
+
+import type { SchemaColumnType, SemanticType } from '@/lib/utils/csv-schema';
+
+export type QualityIssueKind = 'missing' | 'duplicates' | 'mixed-type' | 'outliers' | 'spelling' | 'date-gaps';
+
+export type QualityFix =
+  /** Keep the first copy of every identical row. */
+  | { kind: 'drop-duplicates' }
+  /** Rewrite every value in `from` to `to`. */
+  | { kind: 'merge-categories'; column: string; from: string[]; to: string }
+  /** Replace blanks in `column` with `value` (the median for numbers, the most common value otherwise). */
+  | { kind: 'fill-nulls'; column: string; value: string | number }
+  /** Drop every row where `column` is blank. */
+  | { kind: 'drop-nulls'; column: string };
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  /** Absent for whole-row issues (duplicates). */
+  column?: string;
+  /** 'warning' skews aggregates as-is; 'info' is worth a look but often legitimate. */
+  severity: 'warning' | 'info';
+  /** Rows (or values) affected. */
+  count: number;
+  message: string;
+  /** A few affected values, for display. */
+  examples?: string[];
+  /** One-click remedies, in the order the UI should offer them. */
+  fixes?: QualityFix[];
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: SchemaColumnType;
+  semantic?: SemanticType;
+  missing: number;
+  distinct: number;
+}
+
+export interface DataQualityReport {
+  rowCount: number;
+  columns: ColumnProfile[];
+  /** Most severe first. */
+  issues: QualityIssue[];
+}
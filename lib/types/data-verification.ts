@@ -0,0 +1,28 @@
+// ============================================================================
+// DATA VERIFICATION TYPES — is this chart backed by the attached dataset?
+//
+// After generation or an edit on a chart with an attached file or live
+// sheet, every series is checked against the parsed rows: values that
+// appear verbatim are `verified`, values an aggregate of the rows
+// reproduces are `derived`, and anything else is `unverifiable` — a signal
+// that the numbers may not have come from the data.
+// ============================================================================
+
+export type VerificationStatus = 'verified' | 'derived' | 'unverifiable';
+
+export interface SeriesVerification {
+  name: string;
+  status: VerificationStatus;
+  /** How the values were matched ("sum of \"Revenue\" by \"Region\"") or why they couldn't be. */
+  detail: string;
+}
+
+export interface DataVerification {
+  /** Weakest status across all series — the chart is only as trustworthy as its least-backed series. */
+  status: VerificationStatus;
+  series: SeriesVerification[];
+  /** The dataset the values were checked against — file name or live sheet URL. */
+  source: string;
+  rowCount: number;
+  checkedAt: string;
+}
@@ -0,0 +1,50 @@
+// ============================================================================
+// DATASET TYPES — the user's library of reusable data
+//
+// A dataset is a table saved once (from an attachment or a live source) and
+// referenced by id from any number of visualizations, so a chart can be
+// re-charted, re-tested or refreshed from the same rows long after the
+// composer that attached them is gone.
+// ============================================================================
+
+import type { ColumnSchema } from '@/lib/utils/csv-schema';
+import type { LiveSourceRef } from '@/lib/utils/live-source';
+
+export interface Dataset {
+  _id?: string;
+  userId: string;
+  name: string;
+  /** The file the rows came from, when they came from an upload. */
+  sourceFileName?: string;
+  headers: string[];
+  rows: Record<string, unknown>[];
+  /** `inferSchema` output for `rows`. */
+  columnSchema: ColumnSchema[];
+  rowCount: number;
+  /** Live source the rows are re-fetched from on refresh — absent for uploads. */
+  liveSource?: LiveSourceRef;
+  lastRefreshed?: Date | string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+/** A dataset as listed in the library — everything but the rows. */
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  sourceFileName?: string;
+  headers: string[];
+  rowCount: number;
+  liveSource?: LiveSourceRef;
+  lastRefreshed?: string;
+  /** How many visualizations reference this dataset. */
+  usedBy: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A dataset with its rows, for re-charting or running a statistical test. */
+export interface DatasetDetail extends Omit<DatasetSummary, 'usedBy'> {
+  rows: Record<string, unknown>[];
+  schema: ColumnSchema[];
+}
@@ -8,6 +8,9 @@
 // ============================================================================
 
 import type { EChartsOption } from 'echarts';
+import type { EncodingPlan } from './encoding-plan';
+import type { DataVerification } from './data-verification';
+import type { TransformStep } from './transform';
 
 export type ThemeMode = 'light' | 'dark';
 
@@ -105,6 +108,12 @@ export interface VisualizationSpec {
   narrative?: string;
   /** User-added visual annotations (reference lines, text labels) — not AI-generated. */
   annotations?: Annotation[];
+  /** Present when the chart was computed from an attached dataset — lets it be rebuilt from new rows without the AI. */
+  encoding?: EncodingPlan;
+  /** Steps applied, in order, to the source rows before `encoding` — the plan's columns refer to their output. */
+  transforms?: TransformStep[];
+  /** Result of checking the chart's values against its attached dataset or live sheet — absent when there's no data to check. */
+  verification?: DataVerification;
 }
 
 // ============================================================================
@@ -0,0 +1,70 @@
+// ============================================================================
+// ENCODING PLAN TYPES — declarative "what to chart" for attached datasets
+//
+// When the user attaches a dataset (file upload or live sheet), the AI no
+// longer writes the chart's numbers. It emits an `EncodingPlan` — chart type,
+// which columns map to x / y / series, how to aggregate, filter and sort —
+// and the aggregation engine computes every series value from the real rows.
+// The plan is stored on the spec, so the same chart can be rebuilt from new
+// data later without an AI call.
+// ============================================================================
+
+import type { JsonLiveSource, SqlLiveSource } from './visualization';
+
+export type EncodingChartType = 'bar' | 'line' | 'area' | 'pie' | 'scatter';
+
+export type EncodingAggregate = 'sum' | 'mean' | 'median' | 'count' | 'min' | 'max';
+
+export type EncodingTimeUnit = 'day' | 'month' | 'quarter' | 'year';
+
+export type EncodingFilterOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains';
+
+export interface EncodingFilter {
+  column: string;
+  op: EncodingFilterOp;
+  /** Array only for `in`; compared numerically when both sides are numbers, else case-insensitively as text. */
+  value: string | number | boolean | Array<string | number>;
+}
+
+export interface EncodingSort {
+  /** `x` sorts by category label (chronologically for dates), `y` by aggregated value summed across series. */
+  by: 'x' | 'y';
+  direction: 'asc' | 'desc';
+}
+
+export interface EncodingPlan {
+  chartType: EncodingChartType;
+  title: string;
+  /** Category column (bar/line/area/pie) or numeric x column (scatter). */
+  x: string;
+  /** Measure column — may be omitted only when `aggregate` is `count`. */
+  y?: string;
+  /** Column whose distinct values become separate series (not used for pie). */
+  series?: string;
+  /** Ignored for scatter, which plots raw points. */
+  aggregate: EncodingAggregate;
+  /** Buckets a date `x` column before grouping. */
+  timeUnit?: EncodingTimeUnit;
+  filters?: EncodingFilter[];
+  sort?: EncodingSort;
+  /** Keep only the first N categories after sorting. */
+  limit?: number;
+  /** bar only — category axis on y. */
+  horizontal?: boolean;
+  /** bar/line/area with `series` — stack the series. */
+  stacked?: boolean;
+  /** pie only — render as a donut. */
+  donut?: boolean;
+}
+
+/**
+ * The dataset a generation request is grounded in — rows parsed client-side
+ * from an upload, a live sheet / SQL query / JSON API the server fetches
+ * itself, or a saved library dataset the server loads by id.
+ */
+export type DatasetSource =
+  | { kind: 'rows'; name: string; rows: Record<string, unknown>[] }
+  | { kind: 'sheet'; url: string }
+  | ({ kind: 'sql' } & SqlLiveSource)
+  | ({ kind: 'json' } & JsonLiveSource)
+  | { kind: 'dataset'; datasetId: string; name: string };
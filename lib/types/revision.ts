@@ -0,0 +1,56 @@
+// ============================================================================
+// REVISION TYPES — immutable per-visualization spec history
+//
+// Every change to a persisted visualization's spec (generation, AI edit,
+// theme change, annotation, live-data refresh, transform edit, restore) is
+// stored as a numbered, never-modified revision, so a bad edit can always be
+// diffed against and rolled back. The newest revisions are kept up to a per-plan
+// limit (see `VALIDATION_LIMITS.MAX_REVISIONS_*`).
+// ============================================================================
+
+import type { VisualizationSpec } from './echarts-spec';
+
+export type RevisionAction =
+  | 'generate'
+  | 'ai-edit'
+  | 'theme'
+  | 'annotation'
+  | 'live-refresh'
+  | 'transform'
+  | 'save'
+  | 'restore'
+  | 'fork';
+
+export interface VisualizationRevision {
+  _id?: string;
+  visualizationId: string;
+  userId: string;
+  /** 1-based, increasing per visualization — never reused after pruning. */
+  revision: number;
+  spec: VisualizationSpec;
+  action: RevisionAction;
+  /** The user's prompt (AI edits / generation) or a short description of the change. */
+  prompt?: string;
+  createdAt: Date | string;
+  /** Mirrors the visualization's session TTL so an expired session's revisions go with it. */
+  sessionExpiresAt?: Date;
+}
+
+/** Revision list entry — everything but the spec, for the history browser. */
+export interface RevisionSummary {
+  revision: number;
+  action: RevisionAction;
+  prompt?: string;
+  title?: string;
+  createdAt: string;
+}
+
+export type SpecDiffSection = 'title' | 'series' | 'data' | 'axes' | 'style' | 'annotations';
+
+/** One structural difference between two specs. */
+export interface SpecDiffEntry {
+  section: SpecDiffSection;
+  kind: 'added' | 'removed' | 'changed';
+  /** Human-readable, e.g. `Series "Revenue": 3 of 12 values changed`. */
+  summary: string;
+}
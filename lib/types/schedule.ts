@@ -0,0 +1,51 @@
+// ============================================================================
+// SCHEDULE TYPES — when a dashboard or chart refreshes and sends its digest
+//
+// A schedule is a recurrence rule (a subset of RFC 5545 RRULE) read in an
+// IANA timezone, so "daily at 8am in Berlin" or "the first business day of
+// each month" keeps its meaning across DST changes. The hourly digest cron
+// evaluates every enabled schedule and runs each occurrence once.
+// ============================================================================
+
+export type RecurrenceFrequency = 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+/** A `BYDAY` entry — `ordinal` (MONTHLY only) picks e.g. the 1st Monday (1) or the last Friday (-1). */
+export interface RecurrenceWeekday {
+  /** 0 = Sunday .. 6 = Saturday. */
+  weekday: number;
+  ordinal?: number;
+}
+
+/** A parsed rule string like `FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1;BYHOUR=9`. */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  /** Every Nth hour / day / week / month, counted from the Unix epoch (hours from local midnight). */
+  interval: number;
+  /** Local hours (0–23) — defaults to 0 for daily and slower rules, every hour for HOURLY. */
+  byHour: number[];
+  /** Local minute of each occurrence — defaults to 0. */
+  byMinute: number;
+  byDay: RecurrenceWeekday[];
+  /** Days of the month, 1..31 or -1 (last) .. -31. */
+  byMonthDay: number[];
+  /** MONTHLY: positions within the month's matching days — `1` is the first, `-1` the last. */
+  bySetPos: number[];
+}
+
+export interface RecurringSchedule {
+  enabled: boolean;
+  /** RRULE subset — see `parseRecurrenceRule` for what is supported. */
+  rrule: string;
+  /** IANA timezone the rule's hours and days are read in, e.g. "Europe/Berlin". */
+  timezone: string;
+  /**
+   * Local wall-clock time ("2026-03-02T08:00") of the last occurrence the
+   * cron ran — each occurrence runs once, even across concurrent invocations.
+   */
+  lastOccurrence?: string;
+  /** ISO timestamp of the last digest email sent. */
+  lastSentAt?: string;
+}
+
+/** What the schedule editors send to `updateDashboardSchedule` / `updateVisualizationSchedule`. */
+export type ScheduleInput = Pick<RecurringSchedule, 'enabled' | 'rrule' | 'timezone'>;
@@ -0,0 +1,46 @@
+// ============================================================================
+// SNAPSHOT TYPES — what a live chart's data looked like after each refresh
+//
+// Every successful live refresh (manual or scheduled) stores a compact copy
+// of the chart's plotted data — series data and category labels, never the
+// full option — with the time it was captured and a hash of the source rows.
+// The chart UI scrubs through them and can draw an old snapshot as a ghost
+// series behind the current values. The newest snapshots are kept up to a
+// per-plan count and age (see `VALIDATION_LIMITS.MAX_SNAPSHOTS_*`).
+// ============================================================================
+
+export type SnapshotTrigger = 'manual' | 'scheduled';
+
+/** The data-bearing keys of each series, and category axis labels, in option order. */
+export interface SnapshotData {
+  series: Array<{ data?: unknown[]; links?: unknown[]; edges?: unknown[]; nodes?: unknown[] }>;
+  /** Per axis index — null for axes without category labels. */
+  xAxis?: Array<unknown[] | null>;
+  yAxis?: Array<unknown[] | null>;
+}
+
+export interface DataSnapshot {
+  _id?: string;
+  visualizationId: string;
+  userId: string;
+  capturedAt: Date | string;
+  /** Short SHA-256 of the fetched rows — equal hashes mean the source didn't change. */
+  rowHash: string;
+  rowCount: number;
+  data: SnapshotData;
+  trigger: SnapshotTrigger;
+  /** The refresh summary, e.g. "Revenue: 12,400 → 13,100 (+5.6%)". */
+  summary?: string;
+  /** The visualization's session TTL, kept in sync like its revisions' — absent once saved. */
+  sessionExpiresAt?: Date;
+}
+
+/** Snapshot list entry — everything but the data, for the timeline. */
+export interface SnapshotSummary {
+  id: string;
+  capturedAt: string;
+  rowHash: string;
+  rowCount: number;
+  trigger: SnapshotTrigger;
+  summary?: string;
+}
@@ -8,11 +8,15 @@
 // from the AI — so results are reproducible and verifiable.
 // ============================================================================
 
+import type { SemanticType } from '@/lib/utils/csv-schema';
+
 export type ColumnType = 'numeric' | 'categorical';
 
 export interface DatasetColumn {
   name: string;
   type: ColumnType;
+  /** Finer meaning from schema inference — "currency", "integer-id", … (see `inferSchema`). */
+  semantic?: SemanticType;
   /** Raw values in row order, already coerced to number/string and stripped of nulls. */
   values: (number | string)[];
 }
@@ -0,0 +1,40 @@
+// ============================================================================
+// DATA TRANSFORM TYPES — a declarative recipe for reshaping the source rows
+//
+// "Filter to 2025, group by region, top 10 by revenue, add a YoY % column" is
+// a list of `TransformStep`s stored on the spec. The transform engine runs
+// them, in order, over the dataset's rows before the encoding plan sees them,
+// so the chart can be rebuilt from refreshed data — and edited one step at a
+// time — without the AI rewriting any numbers.
+// ============================================================================
+
+import type { EncodingAggregate, EncodingFilter } from './encoding-plan';
+
+export type TransformKind = 'filter' | 'aggregate' | 'pivot' | 'unpivot' | 'sort' | 'limit' | 'derive';
+
+export interface TransformMeasure {
+  /** Column to aggregate — may be omitted only for `count`. */
+  column?: string;
+  aggregate: EncodingAggregate;
+  /** Output column name. */
+  as: string;
+}
+
+export interface TransformSortKey {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+export type TransformStep =
+  /** Keep rows matching every filter. */
+  | { kind: 'filter'; filters: EncodingFilter[] }
+  /** One row per distinct `groupBy` combination (one row overall when empty), with each measure computed per group. */
+  | { kind: 'aggregate'; groupBy: string[]; measures: TransformMeasure[] }
+  /** Long → wide: each distinct value of `columns` becomes a column holding `values` aggregated per `index` group. */
+  | { kind: 'pivot'; index: string[]; columns: string; values: string; aggregate: EncodingAggregate }
+  /** Wide → long: each of `columns` becomes its own row, named in `key`, with its cell in `value`. */
+  | { kind: 'unpivot'; columns: string[]; key: string; value: string }
+  | { kind: 'sort'; by: TransformSortKey[] }
+  | { kind: 'limit'; count: number }
+  /** Add (or overwrite) column `as` with an expression evaluated per row — see `transform-expression.ts`. */
+  | { kind: 'derive'; as: string; expression: string };
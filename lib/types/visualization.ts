@@ -8,6 +8,8 @@
 
 import type { VisualizationSpec } from './echarts-spec';
 import type { ChartSelection } from '@/lib/utils/chart-types';
+import type { RecurringSchedule } from './schedule';
+import type { AlertRule } from './alert';
 
 export interface VisualizationResponse {
   spec?: VisualizationSpec;
@@ -20,8 +22,27 @@ export interface VisualizationResponse {
   fromCache?: boolean;
   /** The chart type + variant the AI auto-detected (free-text path only; undefined when user explicitly chose via modal or result came from cache). */
   detectedSelection?: ChartSelection;
+  /**
+   * Set instead of `spec` when the prompt missed the exact cache but closely
+   * matches a cached one — the caller offers it, then re-requests with a
+   * `SimilarCacheChoice`. Nothing is charged for this response.
+   */
+  similarMatch?: SimilarCacheMatch;
 }
 
+/** A cached chart whose prompt is a near-duplicate of the one just submitted. */
+export interface SimilarCacheMatch {
+  /** Opaque handle to pass back in `SimilarCacheChoice`. */
+  matchId: string;
+  /** Title of the cached chart — the other prompt's wording is never exposed. */
+  title: string;
+  /** Estimated similarity, 0–1. */
+  similarity: number;
+}
+
+/** The user's answer to a `similarMatch` offer. */
+export type SimilarCacheChoice = { mode: 'use'; matchId: string } | { mode: 'fresh' };
+
 export interface VisualizationMetadata {
   generatedAt: Date | string;
   processingTime?: number;
@@ -34,20 +55,50 @@ export interface VisualizationMetadata {
 // DATABASE MODELS
 // ============================================================================
 
-export interface LiveDataConfig {
+/** Bind value for a `$n` placeholder in a SQL live source. */
+export type SqlParam = string | number | boolean | null;
+
+/**
+ * A read-only, parameterized SELECT against one of the user's saved
+ * `DataConnection`s. Only the connection's id is stored here — its
+ * credentials never leave the server.
+ */
+export interface SqlLiveSource {
+  connectionId: string;
+  query: string;
+  params?: SqlParam[];
+}
+
+/**
+ * A JSON REST endpoint. `path` is a JSONPath selecting the row array (the
+ * first array of objects when omitted); `connectionId` names a saved `http`
+ * `DataConnection` whose auth header is sent with the request.
+ */
+export interface JsonLiveSource {
   url: string;
+  path?: string;
+  connectionId?: string;
+}
+
+/** Exactly one of `url` (Google Sheet / CSV link), `sql` or `json` is set. */
+export interface LiveDataConfig {
+  url?: string;
+  sql?: SqlLiveSource;
+  json?: JsonLiveSource;
   /** Refresh interval in minutes. 0 = manual only. */
   interval: number;
   lastRefreshed?: string;
 }
 
-export interface VisualizationSchedule {
-  enabled: boolean;
-  /** 0=Sunday..6=Saturday, UTC. */
-  dayOfWeek: number;
-  lastSentAt?: string;
+/** Where a forked visualization branched off its parent. */
+export interface ForkOrigin {
+  visualizationId: string;
+  /** Index into the parent's `history` of the assistant turn the branch starts from (absent for revision forks). */
+  turnIndex?: number;
 }
 
+export type VisualizationSchedule = RecurringSchedule;
+
 export interface SavedVisualization {
   _id?: string;
   userId: string;
@@ -62,10 +113,20 @@ export interface SavedVisualization {
     role: 'user' | 'assistant';
     content: string;
     timestamp: Date | string;
+    /** Per-operation summary of a patch edit, on assistant turns that changed the chart. */
+    changes?: string[];
+    /** The revision this assistant turn's edit produced — lets a branch start from the chart as it was then. */
+    revision?: number;
   }>;
+  /** Set on branches — the visualization this one was forked from. */
+  forkedFrom?: ForkOrigin;
+  /** The library dataset this chart was built from — re-chart, re-test and re-verify against it. */
+  datasetId?: string;
   liveData?: LiveDataConfig;
-  /** Weekly email digest schedule for this chart's live data (requires `liveData`). */
+  /** Refresh-and-email digest schedule for this chart's live data (requires `liveData`). */
   schedule?: VisualizationSchedule;
+  /** Metric alerts checked after each live refresh (requires `liveData`). */
+  alerts?: AlertRule[];
   /** False = ephemeral session (auto-persisted, subject to TTL); true/missing = explicitly saved (permanent). */
   isSaved?: boolean;
   /** Server-only TTL marker for ephemeral sessions — never selected for client responses. */
@@ -0,0 +1,386 @@
+// ============================================================================
+// AGGREGATION ENGINE — computes chart data from rows + an EncodingPlan
+//
+// The deterministic half of dataset-grounded generation: the AI only picks
+// the encoding (columns, aggregation, filters, sort), and this module
+// computes every number on the chart from the actual rows. Pure and
+// isomorphic — the same plan re-run on refreshed rows rebuilds the chart
+// without an AI call.
+//
+// Emits structure only (series, axes, data), like the spec generator — the
+// brand theme layer still owns colors, fonts and spacing.
+// ============================================================================
+
+import type { EChartsOption } from 'echarts';
+import { inferSchema, normalizeRows, type ColumnSchema } from '@/lib/utils/csv-schema';
+import type {
+  EncodingPlan,
+  EncodingAggregate,
+  EncodingChartType,
+  EncodingFilter,
+  EncodingFilterOp,
+  EncodingTimeUnit,
+} from '@/lib/types/encoding-plan';
+
+type Row = Record<string, unknown>;
+
+export type EncodingResult =
+  | { ok: true; option: EChartsOption; rowCount: number }
+  | { ok: false; errors: string[] };
+
+const CHART_TYPES: EncodingChartType[] = ['bar', 'line', 'area', 'pie', 'scatter'];
+export const AGGREGATES: EncodingAggregate[] = ['sum', 'mean', 'median', 'count', 'min', 'max'];
+const TIME_UNITS: EncodingTimeUnit[] = ['day', 'month', 'quarter', 'year'];
+export const FILTER_OPS: EncodingFilterOp[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'contains'];
+
+const MAX_SERIES = 12;
+const MAX_CATEGORIES = 500;
+const MAX_LIMIT = 500;
+const BLANK_LABEL = '(blank)';
+
+const AGGREGATE_LABELS: Record<EncodingAggregate, string> = {
+  sum: 'Total',
+  mean: 'Average',
+  median: 'Median',
+  count: 'Count',
+  min: 'Minimum',
+  max: 'Maximum',
+};
+
+// ── Cell coercion ───────────────────────────────────────────────────────────
+
+/** Numbers pass through; numeric strings ("1,204", " 3.5 ") are parsed. */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.trim().replace(/,/g, '');
+  if (cleaned === '') return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toLabel(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+/** Strip float noise (0.1 + 0.2 → 0.3) without rounding real precision away. */
+function round(n: number): number {
+  return Number(n.toPrecision(12));
+}
+
+/** Date cell → bucket label ("2024-03", "2024-Q1", …), or null if it isn't a date. */
+export function bucketDate(value: unknown, unit: EncodingTimeUnit): string | null {
+  const time = Date.parse(toLabel(value));
+  if (Number.isNaN(time)) return null;
+  const iso = new Date(time).toISOString();
+  switch (unit) {
+    case 'day': return iso.slice(0, 10);
+    case 'month': return iso.slice(0, 7);
+    case 'year': return iso.slice(0, 4);
+    case 'quarter': return `${iso.slice(0, 4)}-Q${Math.ceil(Number(iso.slice(5, 7)) / 3)}`;
+  }
+}
+
+// ── Plan validation ─────────────────────────────────────────────────────────
+
+/**
+ * Check an (untrusted, AI-authored) plan against the dataset's schema.
+ * Returns human-readable errors — empty when the plan can run. Phrased so
+ * they can be fed straight back to the model as repair feedback.
+ */
+export function validateEncodingPlan(plan: EncodingPlan, schema: ColumnSchema[]): string[] {
+  if (!plan || typeof plan !== 'object') return ['Plan must be an object.'];
+
+  const errors: string[] = [];
+  const columns = new Map(schema.map(c => [c.name, c]));
+  const column = (field: string, name: unknown): ColumnSchema | undefined => {
+    if (typeof name !== 'string' || !columns.has(name)) {
+      errors.push(`"${field}" must be one of the dataset's columns (got ${JSON.stringify(name)}).`);
+      return undefined;
+    }
+    return columns.get(name);
+  };
+
+  if (!CHART_TYPES.includes(plan.chartType)) {
+    errors.push(`"chartType" must be one of ${CHART_TYPES.join(', ')} (got ${JSON.stringify(plan.chartType)}).`);
+  }
+  if (!AGGREGATES.includes(plan.aggregate)) {
+    errors.push(`"aggregate" must be one of ${AGGREGATES.join(', ')} (got ${JSON.stringify(plan.aggregate)}).`);
+  }
+
+  const x = column('x', plan.x);
+  const y = plan.y !== undefined && plan.y !== null ? column('y', plan.y) : undefined;
+  const series = plan.series !== undefined && plan.series !== null ? column('series', plan.series) : undefined;
+
+  if (plan.chartType === 'scatter') {
+    if (x && x.type !== 'numeric') errors.push(`Scatter "x" must be a numeric column ("${x.name}" is ${x.type}).`);
+    if (!y) errors.push('Scatter needs a numeric "y" column.');
+  } else if (plan.aggregate !== 'count') {
+    if (!y && !errors.some(e => e.startsWith('"y"'))) errors.push(`"y" is required for aggregate "${plan.aggregate}".`);
+  }
+  if (y && y.type !== 'numeric' && (plan.chartType === 'scatter' || plan.aggregate !== 'count')) {
+    errors.push(`"y" must be a numeric column ("${y.name}" is ${y.type}).`);
+  }
+
+  if (plan.chartType === 'pie' && series) {
+    errors.push('Pie charts cannot split by "series" — drop it or use a stacked bar.');
+  }
+  if (series && series.type === 'categorical' && (series.uniqueCount ?? 0) > MAX_SERIES) {
+    errors.push(`"series" column "${series.name}" has ${series.uniqueCount} distinct values — at most ${MAX_SERIES} series are supported; filter it or pick another column.`);
+  }
+
+  if (plan.timeUnit !== undefined && plan.timeUnit !== null) {
+    if (!TIME_UNITS.includes(plan.timeUnit)) {
+      errors.push(`"timeUnit" must be one of ${TIME_UNITS.join(', ')}.`);
+    } else if (x && x.type !== 'date') {
+      errors.push(`"timeUnit" only applies to a date "x" column ("${x.name}" is ${x.type}).`);
+    }
+  }
+
+  for (const filter of plan.filters ?? []) {
+    column('filters[].column', filter?.column);
+    if (!FILTER_OPS.includes(filter?.op)) {
+      errors.push(`Filter op must be one of ${FILTER_OPS.join(', ')} (got ${JSON.stringify(filter?.op)}).`);
+    } else if (filter.op === 'in' && !Array.isArray(filter.value)) {
+      errors.push('Filter op "in" needs an array "value".');
+    }
+  }
+
+  if (plan.sort && (!['x', 'y'].includes(plan.sort.by) || !['asc', 'desc'].includes(plan.sort.direction))) {
+    errors.push('"sort" must be { "by": "x" | "y", "direction": "asc" | "desc" }.');
+  }
+  if (plan.limit !== undefined && plan.limit !== null && (!Number.isInteger(plan.limit) || plan.limit < 1 || plan.limit > MAX_LIMIT)) {
+    errors.push(`"limit" must be an integer between 1 and ${MAX_LIMIT}.`);
+  }
+
+  return errors;
+}
+
+// ── Filtering / grouping ────────────────────────────────────────────────────
+
+function compare(a: unknown, b: unknown): number | null {
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (na !== null && nb !== null) return na - nb;
+  return null;
+}
+
+export function matchesFilter(row: Row, filter: EncodingFilter): boolean {
+  const cell = row[filter.column];
+  const text = toLabel(cell).toLowerCase();
+  const equals = (target: unknown) => {
+    const numeric = compare(cell, target);
+    return numeric !== null ? numeric === 0 : text === toLabel(target).toLowerCase();
+  };
+
+  switch (filter.op) {
+    case 'eq': return equals(filter.value);
+    case 'neq': return !equals(filter.value);
+    case 'in': return Array.isArray(filter.value) && filter.value.some(equals);
+    case 'contains': return text.includes(toLabel(filter.value).toLowerCase());
+    default: {
+      const diff = compare(cell, filter.value);
+      if (diff === null) return false;
+      if (filter.op === 'gt') return diff > 0;
+      if (filter.op === 'gte') return diff >= 0;
+      if (filter.op === 'lt') return diff < 0;
+      return diff <= 0;
+    }
+  }
+}
+
+/** Aggregate one group's values (`rowCount` is the group size, used by `count`). */
+export function aggregate(values: number[], rowCount: number, fn: EncodingAggregate): number | null {
+  if (fn === 'count') return rowCount;
+  if (values.length === 0) return fn === 'sum' ? 0 : null;
+  switch (fn) {
+    case 'sum': return round(values.reduce((a, b) => a + b, 0));
+    case 'mean': return round(values.reduce((a, b) => a + b, 0) / values.length);
+    // Loops, not Math.min(...values) — spreading a large group overflows the call stack.
+    case 'min': {
+      let min = Infinity;
+      for (const v of values) if (v < min) min = v;
+      return min;
+    }
+    case 'max': {
+      let max = -Infinity;
+      for (const v of values) if (v > max) max = v;
+      return max;
+    }
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return round(sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2);
+    }
+  }
+}
+
+/** "Revenue", "Average Revenue", "Count" — used for series / axis names. */
+export function describeMeasure(plan: EncodingPlan): string {
+  if (plan.aggregate === 'count' || !plan.y) return AGGREGATE_LABELS.count;
+  return plan.aggregate === 'sum' ? plan.y : `${AGGREGATE_LABELS[plan.aggregate]} ${plan.y}`;
+}
+
+/** The chart-type gallery selection a plan corresponds to (for `resolveVariant`). */
+export function planSelection(plan: EncodingPlan): { seriesType: string; variantKey: string | null } {
+  switch (plan.chartType) {
+    case 'bar':
+      return { seriesType: 'bar', variantKey: plan.horizontal ? 'horizontal' : plan.stacked && plan.series ? 'stacked' : plan.series ? 'grouped' : 'vertical' };
+    case 'line':
+      return { seriesType: 'line', variantKey: plan.stacked && plan.series ? 'stacked' : 'basic' };
+    case 'area':
+      return { seriesType: 'line', variantKey: plan.stacked && plan.series ? 'stacked-area' : 'area' };
+    case 'pie':
+      return { seriesType: 'pie', variantKey: plan.donut ? 'donut' : 'basic' };
+    case 'scatter':
+      return { seriesType: 'scatter', variantKey: null };
+  }
+}
+
+function buildScatter(rows: Row[], plan: EncodingPlan): EChartsOption {
+  const groups = new Map<string, Array<[number, number]>>();
+  for (const row of rows) {
+    const x = toNumber(row[plan.x]);
+    const y = toNumber(row[plan.y!]);
+    if (x === null || y === null) continue;
+    const key = plan.series ? toLabel(row[plan.series]) || BLANK_LABEL : plan.y!;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push([x, y]);
+  }
+
+  return {
+    title: { text: plan.title },
+    tooltip: { trigger: 'item' },
+    ...(groups.size > 1 ? { legend: {} } : {}),
+    xAxis: { type: 'value', name: plan.x, scale: true },
+    yAxis: { type: 'value', name: plan.y, scale: true },
+    series: [...groups.entries()].map(([name, data]) => ({ type: 'scatter' as const, name, data })),
+  };
+}
+
+/**
+ * Value-axis label template for a measure with a unit — "$1,200" for
+ * currency, "12%" for percent, "90s" for durations. Counts are unitless.
+ */
+function valueAxisLabel(plan: EncodingPlan, schema: ColumnSchema[]): { formatter: string } | null {
+  if (plan.aggregate === 'count' || !plan.y) return null;
+  const column = schema.find(c => c.name === plan.y);
+  switch (column?.semantic) {
+    case 'currency':
+      return { formatter: /^[A-Z]{3}$/.test(column.unit ?? '') ? `{value} ${column.unit}` : `${column.unit}{value}` };
+    case 'percent': return { formatter: '{value}%' };
+    case 'duration': return { formatter: '{value}s' };
+    default: return null;
+  }
+}
+
+/**
+ * Run `plan` over `rows` and build the chart's `option`. Every value on the
+ * chart is computed here — nothing is taken from the model.
+ */
+export function runEncodingPlan(rows: Row[], plan: EncodingPlan, schema: ColumnSchema[] = inferSchema(rows)): EncodingResult {
+  const errors = validateEncodingPlan(plan, schema);
+  if (errors.length > 0) return { ok: false, errors };
+  rows = normalizeRows(rows, schema);
+
+  const filtered = (plan.filters ?? []).reduce((acc, f) => acc.filter(r => matchesFilter(r, f)), rows);
+  if (filtered.length === 0) return { ok: false, errors: ['No rows left after applying the filters.'] };
+
+  if (plan.chartType === 'scatter') {
+    return { ok: true, option: buildScatter(filtered, plan), rowCount: filtered.length };
+  }
+
+  const xIsDate = schema.find(c => c.name === plan.x)?.type === 'date';
+  const categoryOf = (row: Row): string =>
+    (plan.timeUnit ? bucketDate(row[plan.x], plan.timeUnit) : toLabel(row[plan.x])) || BLANK_LABEL;
+
+  // category → series key → { values, rowCount }
+  const groups = new Map<string, Map<string, { values: number[]; rowCount: number }>>();
+  const seriesKeys: string[] = [];
+  const measure = describeMeasure(plan);
+
+  for (const row of filtered) {
+    const category = categoryOf(row);
+    const seriesKey = plan.series ? toLabel(row[plan.series]) || BLANK_LABEL : measure;
+    if (!seriesKeys.includes(seriesKey)) seriesKeys.push(seriesKey);
+
+    if (!groups.has(category)) groups.set(category, new Map());
+    const bySeries = groups.get(category)!;
+    if (!bySeries.has(seriesKey)) bySeries.set(seriesKey, { values: [], rowCount: 0 });
+    const cell = bySeries.get(seriesKey)!;
+    cell.rowCount++;
+    const y = plan.y ? toNumber(row[plan.y]) : null;
+    if (y !== null) cell.values.push(y);
+  }
+
+  if (seriesKeys.length > MAX_SERIES) {
+    return { ok: false, errors: [`"series" produced ${seriesKeys.length} series — at most ${MAX_SERIES} are supported.`] };
+  }
+
+  const valueOf = (category: string, seriesKey: string): number | null => {
+    const cell = groups.get(category)?.get(seriesKey);
+    return cell ? aggregate(cell.values, cell.rowCount, plan.aggregate) : plan.aggregate === 'count' || plan.aggregate === 'sum' ? 0 : null;
+  };
+  const totalOf = (category: string) => seriesKeys.reduce((acc, key) => acc + (valueOf(category, key) ?? 0), 0);
+
+  let categories = [...groups.keys()];
+  const byLabel = (a: string, b: string) =>
+    xIsDate && !plan.timeUnit
+      ? Date.parse(a) - Date.parse(b)
+      : a.localeCompare(b, undefined, { numeric: true });
+
+  if (plan.sort) {
+    const direction = plan.sort.direction === 'desc' ? -1 : 1;
+    categories.sort((a, b) => direction * (plan.sort!.by === 'y' ? totalOf(a) - totalOf(b) : byLabel(a, b)));
+  } else if (xIsDate) {
+    categories.sort(byLabel);
+  }
+  if (plan.limit) categories = categories.slice(0, plan.limit);
+
+  if (categories.length > MAX_CATEGORIES) {
+    return { ok: false, errors: [`"x" produced ${categories.length} categories — add a "limit" (max ${MAX_CATEGORIES}) or a coarser "timeUnit".`] };
+  }
+
+  if (plan.chartType === 'pie') {
+    return {
+      ok: true,
+      rowCount: filtered.length,
+      option: {
+        title: { text: plan.title },
+        tooltip: { trigger: 'item' },
+        legend: {},
+        series: [{
+          type: 'pie',
+          name: measure,
+          radius: plan.donut ? ['40%', '70%'] : '65%',
+          data: categories.map(name => ({ name, value: valueOf(name, measure) ?? 0 })),
+        }],
+      },
+    };
+  }
+
+  const stack = plan.stacked && plan.series ? { stack: 'total' } : {};
+  const categoryAxis = { type: 'category' as const, name: plan.x, data: categories };
+  const axisLabel = valueAxisLabel(plan, schema);
+  const valueAxis = { type: 'value' as const, name: measure, ...(axisLabel ? { axisLabel } : {}) };
+
+  return {
+    ok: true,
+    rowCount: filtered.length,
+    option: {
+      title: { text: plan.title },
+      tooltip: { trigger: 'axis' },
+      ...(seriesKeys.length > 1 ? { legend: {} } : {}),
+      xAxis: plan.horizontal && plan.chartType === 'bar' ? valueAxis : categoryAxis,
+      yAxis: plan.horizontal && plan.chartType === 'bar' ? categoryAxis : valueAxis,
+      series: seriesKeys.map(key => ({
+        type: plan.chartType === 'bar' ? ('bar' as const) : ('line' as const),
+        name: key,
+        data: categories.map(category => valueOf(category, key)),
+        ...stack,
+        ...(plan.chartType === 'area' ? { areaStyle: {} } : {}),
+      })),
+    },
+  };
+}
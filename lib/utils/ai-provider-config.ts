@@ -0,0 +1,55 @@
+// ============================================================================
+// AI PROVIDER CONFIG — which backend serves AI calls, and what it costs
+//
+// Pure env resolution (no SDK imports) so both the AI client and the billing
+// math in validation.ts can share it. Selected with `AI_PROVIDER`:
+//   openai             — api.openai.com (default)
+//   openai-compatible  — any OpenAI-compatible server (Ollama, vLLM, …) at
+//                        `AI_BASE_URL`; model names via `AI_MODEL_COMPLEX` /
+//                        `AI_MODEL_SIMPLE`
+//   mock               — deterministic fixtures, no network (local dev, CI)
+// ============================================================================
+
+export const AI_PROVIDER_NAMES = ['openai', 'openai-compatible', 'mock'] as const;
+export type AIProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+export interface ProviderPricing {
+  /** USD per input (prompt) token. */
+  INPUT_PER_TOKEN: number;
+  /** USD per output (completion) token. */
+  OUTPUT_PER_TOKEN: number;
+}
+
+// gpt-5.4-mini list prices. Self-hosted endpoints have no per-token bill, so
+// they default to zero (calls still cost the 1-token minimum); set
+// AI_INPUT_PRICE_PER_1M / AI_OUTPUT_PRICE_PER_1M to charge for a paid host.
+// The mock mirrors OpenAI rates so offline runs exercise realistic billing.
+export const PROVIDER_PRICING: Record<AIProviderName, ProviderPricing> = {
+  'openai':            { INPUT_PER_TOKEN: 0.75 / 1_000_000, OUTPUT_PER_TOKEN: 4.50 / 1_000_000 },
+  'openai-compatible': { INPUT_PER_TOKEN: 0,                OUTPUT_PER_TOKEN: 0 },
+  'mock':              { INPUT_PER_TOKEN: 0.75 / 1_000_000, OUTPUT_PER_TOKEN: 4.50 / 1_000_000 },
+};
+
+/** Active provider from `AI_PROVIDER` — unknown values throw rather than silently billing as OpenAI. */
+export function resolveAIProviderName(): AIProviderName {
+  const raw = process.env.AI_PROVIDER?.trim().toLowerCase();
+  if (!raw) return 'openai';
+  if ((AI_PROVIDER_NAMES as readonly string[]).includes(raw)) return raw as AIProviderName;
+  throw new Error(`Unknown AI_PROVIDER "${raw}" (expected one of: ${AI_PROVIDER_NAMES.join(', ')})`);
+}
+
+function readPriceOverride(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const perMillion = Number(raw);
+  return Number.isFinite(perMillion) && perMillion >= 0 ? perMillion / 1_000_000 : undefined;
+}
+
+/** Per-token pricing for `provider`, with env overrides applied. */
+export function getProviderPricing(provider: AIProviderName = resolveAIProviderName()): ProviderPricing {
+  const base = PROVIDER_PRICING[provider];
+  return {
+    INPUT_PER_TOKEN:  readPriceOverride('AI_INPUT_PRICE_PER_1M')  ?? base.INPUT_PER_TOKEN,
+    OUTPUT_PER_TOKEN: readPriceOverride('AI_OUTPUT_PRICE_PER_1M') ?? base.OUTPUT_PER_TOKEN,
+  };
+}
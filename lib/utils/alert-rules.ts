@@ -0,0 +1,209 @@
+// ============================================================================
+// ALERT RULES — validate, describe and evaluate chart alert rules
+//
+// Evaluation is pure: it compares a chart's series before and after a
+// refresh (see `extractSeriesPoints`) and says which rule fired and why.
+// Delivery, cooldown bookkeeping and webhook URL vetting live server-side in
+// `alert-service.ts`.
+// ============================================================================
+
+import type { AlertChannel, AlertCondition, AlertRule, AlertTrigger } from '@/lib/types/alert';
+import type { SeriesPoints } from '@/lib/utils/option-series';
+
+export const MAX_ALERT_RULES = 10;
+export const DEFAULT_ALERT_COOLDOWN_MINUTES = 24 * 60;
+const MIN_COOLDOWN_MINUTES = 15;
+const MAX_COOLDOWN_MINUTES = 30 * 24 * 60;
+const MAX_NAME_LENGTH = 80;
+
+type ValidationResult = { valid: true; rules: AlertRule[] } | { valid: false; error: string };
+
+function formatValue(n: number): string {
+  return n.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+const seriesLabel = (series?: string) => series || 'Any series';
+
+/** "Revenue latest value below 50,000", "Any series: a category changes more than 20% since the last refresh", … */
+export function describeAlertCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case 'threshold':
+      return `${seriesLabel(condition.series)} latest value ${condition.comparator} ${formatValue(condition.value)}`;
+    case 'change': {
+      const verb = condition.direction === 'up' ? 'rises' : condition.direction === 'down' ? 'falls' : 'changes';
+      return `${seriesLabel(condition.series)}: a category ${verb} more than ${formatValue(condition.percent)}% since the last refresh`;
+    }
+    case 'record':
+      return `${seriesLabel(condition.series)} hits a new ${condition.extreme === 'max' ? 'high' : 'low'}`;
+  }
+}
+
+function validateCondition(raw: unknown): AlertCondition | string {
+  if (!raw || typeof raw !== 'object') return 'Each alert needs a condition';
+  const c = raw as Record<string, unknown>;
+  const series = typeof c.series === 'string' && c.series.trim() ? c.series.trim() : undefined;
+  switch (c.kind) {
+    case 'threshold':
+      if (c.comparator !== 'above' && c.comparator !== 'below') return 'Threshold alerts need "above" or "below"';
+      if (typeof c.value !== 'number' || !Number.isFinite(c.value)) return 'Threshold alerts need a number to compare against';
+      return { kind: 'threshold', series, comparator: c.comparator, value: c.value };
+    case 'change':
+      if (typeof c.percent !== 'number' || !(c.percent > 0) || c.percent > 10_000) return 'Change alerts need a percentage above 0';
+      if (c.direction !== 'up' && c.direction !== 'down' && c.direction !== 'any') return 'Change alerts need a direction';
+      return { kind: 'change', series, percent: c.percent, direction: c.direction };
+    case 'record':
+      if (c.extreme !== 'max' && c.extreme !== 'min') return 'Record alerts need "max" or "min"';
+      return { kind: 'record', series, extreme: c.extreme };
+    default:
+      return 'Unknown alert condition';
+  }
+}
+
+function validateChannels(raw: unknown): AlertChannel[] | string {
+  if (!Array.isArray(raw) || raw.length === 0) return 'Each alert needs email or a webhook to notify';
+  const channels: AlertChannel[] = [];
+  for (const channel of raw as Array<Record<string, unknown>>) {
+    if (channel?.kind === 'email') {
+      channels.push({ kind: 'email' });
+    } else if (channel?.kind === 'webhook' && typeof channel.url === 'string') {
+      let url: URL;
+      try {
+        url = new URL(channel.url.trim());
+      } catch {
+        return 'Webhook URL is not a valid URL';
+      }
+      if (url.protocol !== 'https:') return 'Webhook URL must use HTTPS';
+      channels.push({ kind: 'webhook', url: url.toString() });
+    } else {
+      return 'Unknown alert channel';
+    }
+  }
+  return channels;
+}
+
+/**
+ * Validate rules coming from the client. Webhook URLs are only checked
+ * structurally here — the server re-checks their host before saving.
+ */
+export function validateAlertRules(raw: unknown): ValidationResult {
+  if (!Array.isArray(raw)) return { valid: false, error: 'Alerts must be a list' };
+  if (raw.length > MAX_ALERT_RULES) return { valid: false, error: `At most ${MAX_ALERT_RULES} alerts per chart` };
+
+  const rules: AlertRule[] = [];
+  const ids = new Set<string>();
+  for (const item of raw as Array<Record<string, unknown>>) {
+    if (!item || typeof item.id !== 'string' || !item.id || item.id.length > 64 || ids.has(item.id)) {
+      return { valid: false, error: 'Each alert needs a unique id' };
+    }
+    ids.add(item.id);
+    const condition = validateCondition(item.condition);
+    if (typeof condition === 'string') return { valid: false, error: condition };
+    const channels = validateChannels(item.channels);
+    if (typeof channels === 'string') return { valid: false, error: channels };
+    const cooldown = item.cooldownMinutes ?? DEFAULT_ALERT_COOLDOWN_MINUTES;
+    if (typeof cooldown !== 'number' || !Number.isInteger(cooldown) || cooldown < MIN_COOLDOWN_MINUTES || cooldown > MAX_COOLDOWN_MINUTES) {
+      return { valid: false, error: `Cooldown must be between ${MIN_COOLDOWN_MINUTES} minutes and 30 days` };
+    }
+    const name = typeof item.name === 'string' ? item.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+    rules.push({
+      id: item.id,
+      ...(name ? { name } : {}),
+      enabled: item.enabled !== false,
+      condition,
+      channels,
+      cooldownMinutes: cooldown,
+    });
+  }
+  return { valid: true, rules };
+}
+
+/** Whether `rule` fired within its cooldown of `now`. */
+export function isAlertCoolingDown(rule: AlertRule, now: Date): boolean {
+  if (!rule.lastTriggeredAt) return false;
+  return now.getTime() - new Date(rule.lastTriggeredAt).getTime() < rule.cooldownMinutes * 60 * 1000;
+}
+
+function watchedSeries(condition: AlertCondition, series: SeriesPoints[]): SeriesPoints[] {
+  if (!condition.series) return series;
+  const name = condition.series.toLowerCase();
+  return series.filter(s => s.name.toLowerCase() === name);
+}
+
+/**
+ * Whether `rule` fires for a refresh that turned the chart's series from
+ * `before` into `after` — the first matching series for threshold and
+ * record rules, the biggest mover for change rules. Ignores `enabled` and
+ * cooldowns; callers check those.
+ */
+export function evaluateAlertRule(rule: AlertRule, before: SeriesPoints[], after: SeriesPoints[]): AlertTrigger | null {
+  const { condition } = rule;
+  const previous = (name: string) => before.find(s => s.name.toLowerCase() === name.toLowerCase())?.points ?? [];
+
+  switch (condition.kind) {
+    case 'threshold': {
+      for (const series of watchedSeries(condition, after)) {
+        const latest = series.points[series.points.length - 1];
+        if (!latest) continue;
+        const hit = condition.comparator === 'above' ? latest.value > condition.value : latest.value < condition.value;
+        if (hit) {
+          return {
+            rule,
+            series: series.name,
+            category: latest.category,
+            value: latest.value,
+            message: `${series.name}'s latest value (${formatValue(latest.value)} for ${latest.category}) is ${condition.comparator} ${formatValue(condition.value)}.`,
+          };
+        }
+      }
+      return null;
+    }
+
+    case 'change': {
+      let best: { series: string; category: string; from: number; to: number; pct: number } | null = null;
+      for (const series of watchedSeries(condition, after)) {
+        const prior = new Map(previous(series.name).map(p => [p.category, p.value]));
+        for (const point of series.points) {
+          const from = prior.get(point.category);
+          if (from === undefined || from === 0) continue;
+          const pct = ((point.value - from) / Math.abs(from)) * 100;
+          const matches = condition.direction === 'up' ? pct > condition.percent
+            : condition.direction === 'down' ? -pct > condition.percent
+            : Math.abs(pct) > condition.percent;
+          if (matches && (!best || Math.abs(pct) > Math.abs(best.pct))) {
+            best = { series: series.name, category: point.category, from, to: point.value, pct };
+          }
+        }
+      }
+      if (!best) return null;
+      return {
+        rule,
+        series: best.series,
+        category: best.category,
+        value: best.to,
+        message: `${best.category} (${best.series}) ${best.pct >= 0 ? 'rose' : 'fell'} ${Math.abs(best.pct).toFixed(1)}% since the last refresh — ${formatValue(best.from)} → ${formatValue(best.to)}.`,
+      };
+    }
+
+    case 'record': {
+      const pick = condition.extreme === 'max'
+        ? (a: number, b: number) => a > b
+        : (a: number, b: number) => a < b;
+      for (const series of watchedSeries(condition, after)) {
+        const prior = previous(series.name);
+        if (prior.length === 0 || series.points.length === 0) continue;
+        const old = prior.reduce((acc, p) => (pick(p.value, acc) ? p.value : acc), prior[0].value);
+        const top = series.points.reduce((acc, p) => (pick(p.value, acc.value) ? p : acc), series.points[0]);
+        if (pick(top.value, old)) {
+          return {
+            rule,
+            series: series.name,
+            category: top.category,
+            value: top.value,
+            message: `${series.name} hit a new ${condition.extreme === 'max' ? 'high' : 'low'} of ${formatValue(top.value)} (${top.category}), past the previous ${formatValue(old)}.`,
+          };
+        }
+      }
+      return null;
+    }
+  }
+}
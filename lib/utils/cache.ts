@@ -1,8 +1,28 @@
 import { getRedis } from '@/lib/utils/redis';
 import { generateCacheKey } from '@/lib/utils/helpers';
+import { fingerprintPrompt, fingerprintSimilarity, type PromptFingerprint } from '@/lib/utils/prompt-fingerprint';
 import type { EChartsOption } from 'echarts';
+import type { SimilarCacheMatch } from '@/lib/types/visualization';
 
 const TTL_SECONDS = 24 * 60 * 60; // 24 hours
+const SCAN_BATCH = 500;
+
+// Near-duplicate tier: fingerprints of the most recent shared-cache writes,
+// newest first. Only the global scope is indexed — data-carrying prompts
+// differ in their data, not their wording, so wording similarity says
+// nothing about whether a cached chart fits.
+const SIMILAR_INDEX_KEY = 'viz:similar:shared';
+const SIMILAR_INDEX_SIZE = 500;
+/** Estimated Jaccard similarity above which a cached chart is offered in place of generating. */
+const SIMILARITY_THRESHOLD = 0.8;
+
+// The prompt text itself is never stored: the match is offered to other
+// users, who may see the cached title but not someone else's wording.
+interface SimilarIndexEntry extends PromptFingerprint {
+  /** Hash part of the shared-cache key (`viz:shared:<matchId>`). */
+  matchId: string;
+  title: string;
+}
 
 export interface CachedChartSpec {
   title: string;
@@ -11,20 +31,54 @@ export interface CachedChartSpec {
   narrative?: string;
 }
 
+/**
+ * Who may read a cached generation. Prompts without data share one global
+ * cache — the same words always produce an equivalent composition. Prompts
+ * carrying data (an inlined attachment, live sheet or pasted table) are
+ * cached per user, so one user's private numbers, title and narrative can
+ * never be served to another.
+ */
+export type CacheScope = { kind: 'global' } | { kind: 'user'; userId: string };
+
+/** Lines that look like delimited rows — a pasted table without a code fence. */
+const DELIMITED_ROW = /^[^\n]*[,\t|;][^\n]*[,\t|;][^\n]*$/;
+
+/**
+ * True when the prompt carries data rather than just instructions. Attached
+ * files and live sheets are always inlined as fenced blocks; a pasted table
+ * shows up as three or more delimited lines.
+ */
+export function containsInlinedData(input: string): boolean {
+  if (input.includes('```')) return true;
+  return input.split('\n').filter(line => DELIMITED_ROW.test(line.trim())).length >= 3;
+}
+
+/** The cache scope for a prompt, or null when the user has opted out of caching. */
+export function resolveCacheScope(input: string, userId: string, optedOut: boolean): CacheScope | null {
+  if (optedOut) return null;
+  return containsInlinedData(input) ? { kind: 'user', userId } : { kind: 'global' };
+}
+
+function scopedKey(input: string, scope: CacheScope): string {
+  const namespace = scope.kind === 'global' ? 'shared' : `user:${scope.userId}`;
+  return generateCacheKey(input.trim().toLowerCase(), namespace);
+}
+
+function sharedKeyForMatch(matchId: string): string | null {
+  return /^[0-9a-f]{32}$/.test(matchId) ? `viz:shared:${matchId}` : null;
+}
+
 /**
  * Returns a cached chart spec (structure only — theme is applied at render
  * time so the same cached structure can be restyled per-user), or null on
  * miss / Redis unavailable.
- * Cache is shared globally across users — the same input always produces
- * an equivalent AI composition, so sharing is safe and maximises hit rate.
  */
-export async function getCachedVisualization(input: string): Promise<CachedChartSpec | null> {
+export async function getCachedVisualization(input: string, scope: CacheScope): Promise<CachedChartSpec | null> {
   const redis = getRedis();
   if (!redis) return null;
 
   try {
-    const key = generateCacheKey(input.trim().toLowerCase());
-    return await redis.get<CachedChartSpec>(key);
+    return await redis.get<CachedChartSpec>(scopedKey(input, scope));
   } catch {
     return null;
   }
@@ -35,14 +89,99 @@ export async function getCachedVisualization(input: string): Promise<CachedChart
  * Fire-and-forget — callers should NOT await this if they don't want it
  * on the critical path.
  */
-export async function setCachedVisualization(input: string, spec: CachedChartSpec): Promise<void> {
+export async function setCachedVisualization(input: string, scope: CacheScope, spec: CachedChartSpec): Promise<void> {
   const redis = getRedis();
   if (!redis) return;
 
   try {
-    const key = generateCacheKey(input.trim().toLowerCase());
+    const key = scopedKey(input, scope);
     await redis.set(key, spec, { ex: TTL_SECONDS });
+
+    if (scope.kind === 'global') {
+      const entry: SimilarIndexEntry = {
+        ...fingerprintPrompt(input),
+        matchId: key.slice('viz:shared:'.length),
+        title: spec.title,
+      };
+      if (entry.signature.length > 0) {
+        await redis.lpush(SIMILAR_INDEX_KEY, entry);
+        await redis.ltrim(SIMILAR_INDEX_KEY, 0, SIMILAR_INDEX_SIZE - 1);
+      }
+    }
   } catch {
     // Cache write failures are non-fatal
   }
 }
+
+/**
+ * Near-duplicate lookup for a prompt that missed the exact cache: the most
+ * similar recently cached shared prompt above the threshold, if its chart is
+ * still cached. Global scope only (see `SIMILAR_INDEX_KEY`).
+ */
+export async function findSimilarCachedVisualization(input: string): Promise<SimilarCacheMatch | null> {
+  const redis = getRedis();
+  if (!redis) return null;
+
+  try {
+    const fingerprint = fingerprintPrompt(input);
+    if (fingerprint.signature.length === 0) return null;
+
+    const entries = await redis.lrange<SimilarIndexEntry>(SIMILAR_INDEX_KEY, 0, SIMILAR_INDEX_SIZE - 1);
+    let best: { entry: SimilarIndexEntry; score: number } | null = null;
+    for (const entry of entries) {
+      const score = fingerprintSimilarity(fingerprint, entry);
+      if (score >= SIMILARITY_THRESHOLD && (!best || score > best.score)) best = { entry, score };
+    }
+    if (!best) return null;
+
+    // The index outlives the entries it points at — only offer what's still cached.
+    const key = sharedKeyForMatch(best.entry.matchId);
+    if (!key || !(await redis.exists(key))) return null;
+    return { matchId: best.entry.matchId, title: best.entry.title, similarity: best.score };
+  } catch {
+    return null;
+  }
+}
+
+/** The shared-cache chart a `findSimilarCachedVisualization` match points at, or null once it has expired. */
+export async function getSimilarCachedVisualization(matchId: string): Promise<CachedChartSpec | null> {
+  const redis = getRedis();
+  const key = sharedKeyForMatch(matchId);
+  if (!redis || !key) return null;
+
+  try {
+    return await redis.get<CachedChartSpec>(key);
+  } catch {
+    return null;
+  }
+}
+
+/** Delete every key matching `pattern` (and `filter`, when given). Returns how many were removed. */
+async function deleteMatching(pattern: string, filter?: (key: string) => boolean): Promise<number> {
+  const redis = getRedis();
+  if (!redis) return 0;
+
+  let cursor = '0';
+  let deleted = 0;
+  do {
+    const [next, keys] = await redis.scan(cursor, { match: pattern, count: SCAN_BATCH });
+    const targets = filter ? keys.filter(filter) : keys;
+    if (targets.length > 0) deleted += await redis.del(...targets);
+    cursor = String(next);
+  } while (cursor !== '0');
+  return deleted;
+}
+
+/** Drop everything cached for one user — used when they opt out of caching. */
+export async function purgeUserCache(userId: string): Promise<number> {
+  return deleteMatching(`viz:user:${userId}:*`);
+}
+
+/**
+ * Drop the pre-scoping cache entries (`viz:<hash>`), which were shared
+ * across all users regardless of whether the prompt carried private data.
+ * They're no longer read, but would otherwise linger until their TTL.
+ */
+export async function purgeLegacySharedCache(): Promise<number> {
+  return deleteMatching('viz:*', key => /^viz:[0-9a-f]{32}$/.test(key));
+}
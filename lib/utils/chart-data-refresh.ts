@@ -6,14 +6,29 @@
 //
 // Only handles chart shapes common enough to patch safely:
 //   - Cartesian (bar/line, any variant): category axis + named series
-//   - Pie/donut: {name, value}[] series data
-// Anything else (scatter, graph, tree, sankey, treemap, heatmap, radar,
-// funnel, gauge, etc.) is reported as not-refreshable — those keep their
-// existing AI-edit "Refresh now" flow.
+//   - Pie/donut and funnel: {name, value}[] series data
+//   - Scatter: [x, y] points from the two columns named by the axes
+//   - Heatmap: two category axes plus a value column
+//   - Radar: one numeric column per indicator, one row per data item
+//   - Treemap/sunburst: a path of category columns down the tree
+//   - Sankey: source / target / value rows
+// Columns are matched the same way throughout — category columns by overlap
+// with the labels already on the chart, numeric columns by name. Anything
+// else (graph, tree, gauge, etc.) is reported as not-refreshable — those
+// keep their existing AI-edit "Refresh now" flow.
+//
+// Charts built from an encoding plan skip the heuristics entirely: the plan
+// (after the chart's transform steps, if any) is re-run over the fresh rows and the recomputed data is carried into the
+// existing option, so the numbers stay exact.
 // ============================================================================
 
 import type { EChartsOption } from 'echarts';
-import type { ColumnSchema } from '@/lib/utils/csv-schema';
+import { normalizeRows, type ColumnSchema } from '@/lib/utils/csv-schema';
+import type { EncodingPlan } from '@/lib/types/encoding-plan';
+import type { TransformStep } from '@/lib/types/transform';
+import { describeMeasure } from '@/lib/utils/aggregation-engine';
+import { runPipeline } from '@/lib/utils/transform-engine';
+import { findSankeyCycle } from '@/lib/services/spec-validator';
 
 export interface RefreshSheet {
   headers: string[];
@@ -101,9 +116,14 @@ function axisLabels(axis: AnyRecord): string[] {
   );
 }
 
-/** Pick the best date/categorical column for chart categories. */
-function pickCategoryColumn(schema: ColumnSchema[], rows: AnyRecord[], existingLabels: string[]): ColumnSchema | null {
-  const candidates = schema.filter(c => c.type === 'date' || c.type === 'categorical');
+/** Pick the best date/categorical column for chart categories, skipping any already used for another role. */
+function pickCategoryColumn(
+  schema: ColumnSchema[],
+  rows: AnyRecord[],
+  existingLabels: string[],
+  exclude: ReadonlySet<string> = new Set()
+): ColumnSchema | null {
+  const candidates = schema.filter(c => (c.type === 'date' || c.type === 'categorical') && !exclude.has(c.name));
   if (candidates.length === 0) return null;
 
   let best: ColumnSchema | null = null;
@@ -123,6 +143,21 @@ function pickCategoryColumn(schema: ColumnSchema[], rows: AnyRecord[], existingL
   return candidates.find(c => c.type === 'date') ?? candidates[0];
 }
 
+/** The numeric column named like one of `names` (series, axis or indicator names), else the first numeric column not in `exclude`. */
+function pickValueColumn(schema: ColumnSchema[], names: unknown[], exclude: ReadonlySet<string> = new Set()): ColumnSchema | null {
+  const numericCols = schema.filter(c => c.type === 'numeric' && !exclude.has(c.name));
+  for (const name of names) {
+    const match = numericCols.find(c => normalizeName(name) && normalizeName(c.name) === normalizeName(name));
+    if (match) return match;
+  }
+  return numericCols[0] ?? null;
+}
+
+/** The first `xAxis` / `yAxis` object, if the option has one. */
+function firstAxis(option: EChartsOption, key: 'xAxis' | 'yAxis'): AnyRecord | undefined {
+  return asArray(option[key] as AnyRecord | AnyRecord[] | undefined)[0];
+}
+
 /** Patch a cartesian (bar/line) chart in place. */
 function refreshCartesian(option: EChartsOption, sheet: RefreshSheet): ChartRefreshResult {
   const categoryAxisLoc = findCategoryAxis(option);
@@ -178,67 +213,426 @@ function refreshCartesian(option: EChartsOption, sheet: RefreshSheet): ChartRefr
   };
 }
 
-/** Patch a pie/donut chart's `{name, value}[]` data in place. */
-function refreshPie(option: EChartsOption, sheet: RefreshSheet): ChartRefreshResult {
+/** Patch a pie/donut or funnel chart's `{name, value}[]` data in place — `noun` names its items in messages. */
+function refreshNamedValues(option: EChartsOption, sheet: RefreshSheet, noun: 'segment' | 'stage'): ChartRefreshResult {
   const series = asArray(option.series as AnyRecord | AnyRecord[] | undefined);
-  const pie = series[0];
-  const data = Array.isArray(pie?.data) ? (pie.data as unknown[]) : [];
+  const target = series[0];
+  const data = Array.isArray(target?.data) ? (target.data as unknown[]) : [];
   const existingNames = data
     .map(d => (d && typeof d === 'object' ? stringifyCell((d as AnyRecord).name) : ''))
     .filter(Boolean);
 
   if (existingNames.length === 0) {
-    return { option, refreshed: false, summary: 'No segment data found — open it to refresh manually.' };
+    return { option, refreshed: false, summary: `No ${noun} data found — open it to refresh manually.` };
   }
 
   const nameCol = pickCategoryColumn(sheet.schema, sheet.rows, existingNames);
   if (!nameCol) {
-    return { option, refreshed: false, summary: 'Sheet has no category column to use for segment names.' };
+    return { option, refreshed: false, summary: `Sheet has no category column to use for ${noun} names.` };
   }
 
-  const numericCols = sheet.schema.filter(c => c.type === 'numeric');
-  if (numericCols.length === 0) {
-    return { option, refreshed: false, summary: 'Sheet has no numeric column to use for segment values.' };
+  const valueCol = pickValueColumn(sheet.schema, [target.name, getTitleText(option)]);
+  if (!valueCol) {
+    return { option, refreshed: false, summary: `Sheet has no numeric column to use for ${noun} values.` };
   }
 
-  const pieName = normalizeName(pie.name) || normalizeName(getTitleText(option));
-  const valueCol =
-    numericCols.find(c => normalizeName(c.name) === pieName) ?? numericCols[0];
-
   const before = sumSeriesData(data);
 
   const newData = sheet.rows
     .map(r => ({ name: stringifyCell(r[nameCol.name]), value: typeof r[valueCol.name] === 'number' ? r[valueCol.name] : 0 }))
     .filter(d => d.name);
 
-  pie.data = newData;
+  target.data = newData;
   const after = sumSeriesData(newData.map(d => d.value));
 
   return {
     option,
     refreshed: true,
-    summary: `${valueCol.name}: ${formatDelta(before, after)}, ${newData.length} segments`,
+    summary: `${valueCol.name}: ${formatDelta(before, after)}, ${newData.length} ${noun}s`,
+  };
+}
+
+/** Patch a scatter chart's `[x, y]` points from the numeric columns named by its axes. */
+function refreshScatter(option: EChartsOption, sheet: RefreshSheet): ChartRefreshResult {
+  const xAxis = firstAxis(option, 'xAxis');
+  const yAxis = firstAxis(option, 'yAxis');
+  if (xAxis?.type === 'category' || yAxis?.type === 'category') {
+    return { option, refreshed: false, summary: 'Scatter on a category axis — open it to refresh manually.' };
+  }
+
+  const xCol = pickValueColumn(sheet.schema, [xAxis?.name]);
+  const yCol = xCol && pickValueColumn(sheet.schema, [yAxis?.name], new Set([xCol.name]));
+  if (!xCol || !yCol) {
+    return { option, refreshed: false, summary: 'Sheet needs two numeric columns for the x and y axes.' };
+  }
+
+  const series = asArray(option.series as AnyRecord | AnyRecord[] | undefined)
+    .filter(s => s.type === 'scatter' || s.type === 'effectScatter');
+  const toPoints = (rows: AnyRecord[]) => rows.flatMap(r => {
+    const x = r[xCol.name];
+    const y = r[yCol.name];
+    return typeof x === 'number' && typeof y === 'number' ? [[x, y]] : [];
+  });
+  const before = series.reduce((n, s) => n + (Array.isArray(s.data) ? s.data.length : 0), 0);
+
+  if (series.length === 1) {
+    series[0].data = toPoints(sheet.rows);
+  } else {
+    // One series per group — the category column whose values are the series names.
+    const names = series.map(s => stringifyCell(s.name));
+    const groupCol = pickCategoryColumn(sheet.schema, sheet.rows, names);
+    if (!groupCol || overlapScore(names, sheet.rows.map(r => stringifyCell(r[groupCol.name]))) === 0) {
+      return { option, refreshed: false, summary: 'No column matches the scatter series names — open it to refresh manually.' };
+    }
+    for (const s of series) {
+      s.data = toPoints(sheet.rows.filter(r => normalizeName(stringifyCell(r[groupCol.name])) === normalizeName(s.name)));
+    }
+  }
+
+  const after = series.reduce((n, s) => n + (s.data as unknown[]).length, 0);
+  return { option, refreshed: true, summary: `${yCol.name} vs ${xCol.name}: ${before} → ${after} points` };
+}
+
+/** The value of a heatmap entry — `[x, y, value]` or `{ value: [x, y, value] }`. */
+function heatValue(entry: unknown): number {
+  const tuple = Array.isArray(entry) ? entry : entry && typeof entry === 'object' ? (entry as AnyRecord).value : null;
+  return Array.isArray(tuple) && typeof tuple[2] === 'number' ? tuple[2] : 0;
+}
+
+/** Patch a heatmap on two category axes: one category column per axis, values summed per cell. */
+function refreshHeatmap(option: EChartsOption, sheet: RefreshSheet): ChartRefreshResult {
+  const xAxis = firstAxis(option, 'xAxis');
+  const yAxis = firstAxis(option, 'yAxis');
+  if (xAxis?.type !== 'category' || yAxis?.type !== 'category') {
+    return { option, refreshed: false, summary: 'Heatmap has no category axes — open it to refresh manually.' };
+  }
+  const heat = asArray(option.series as AnyRecord | AnyRecord[] | undefined).find(s => s.type === 'heatmap')!;
+
+  const xLabels = Array.isArray(xAxis.data) ? axisLabels(xAxis) : [];
+  const yLabels = Array.isArray(yAxis.data) ? axisLabels(yAxis) : [];
+  const xCol = pickCategoryColumn(sheet.schema, sheet.rows, xLabels);
+  const yCol = xCol && pickCategoryColumn(sheet.schema, sheet.rows, yLabels, new Set([xCol.name]));
+  if (!xCol || !yCol) {
+    return { option, refreshed: false, summary: 'Sheet needs two category columns for the heatmap axes.' };
+  }
+  const valueCol = pickValueColumn(sheet.schema, [heat.name, getTitleText(option)]);
+  if (!valueCol) {
+    return { option, refreshed: false, summary: 'Sheet has no numeric column to use for heatmap values.' };
+  }
+
+  // Labels keep their place on the axis; labels new to the sheet go at the end.
+  const order = (existing: string[], col: ColumnSchema) => {
+    const fresh = [...new Set(sheet.rows.map(r => stringifyCell(r[col.name])).filter(Boolean))];
+    const kept = existing.filter(l => fresh.includes(l));
+    return [...kept, ...fresh.filter(v => !kept.includes(v))];
+  };
+  const xs = order(xLabels, xCol);
+  const ys = order(yLabels, yCol);
+
+  const cells = new Map<string, number>();
+  for (const row of sheet.rows) {
+    const v = row[valueCol.name];
+    const xi = xs.indexOf(stringifyCell(row[xCol.name]));
+    const yi = ys.indexOf(stringifyCell(row[yCol.name]));
+    if (typeof v !== 'number' || xi < 0 || yi < 0) continue;
+    cells.set(`${xi},${yi}`, (cells.get(`${xi},${yi}`) ?? 0) + v);
+  }
+
+  const before = (Array.isArray(heat.data) ? heat.data : []).reduce((acc: number, e) => acc + heatValue(e), 0);
+  heat.data = [...cells].map(([key, v]) => [...key.split(',').map(Number), v]);
+  xAxis.data = xs;
+  yAxis.data = ys;
+
+  // Widen (never narrow) a fixed visualMap range the new values would overflow.
+  // Reduced, not spread — a large grid would overflow Math.min's arguments.
+  const values = [...cells.values()];
+  if (values.length) {
+    const low = values.reduce((a, b) => Math.min(a, b));
+    const high = values.reduce((a, b) => Math.max(a, b));
+    for (const vm of asArray(option.visualMap as AnyRecord | AnyRecord[] | undefined)) {
+      if (typeof vm.min === 'number') vm.min = Math.min(vm.min, low);
+      if (typeof vm.max === 'number') vm.max = Math.max(vm.max, high);
+    }
+  }
+
+  const after = values.reduce((a, b) => a + b, 0);
+  return { option, refreshed: true, summary: `${valueCol.name}: ${formatDelta(before, after)}, ${xs.length}×${ys.length} grid` };
+}
+
+/** Round `n` up to a readable axis maximum (two significant half-steps: 87 → 90, 1,240 → 1,500). */
+function niceCeil(n: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(n));
+  return (Math.ceil((n / magnitude) * 2) / 2) * magnitude;
+}
+
+/** Patch a radar chart: each indicator is a numeric column, each data item the row named like it. */
+function refreshRadar(option: EChartsOption, sheet: RefreshSheet): ChartRefreshResult {
+  const radar = asArray(option.radar as AnyRecord | AnyRecord[] | undefined)[0];
+  const indicators = Array.isArray(radar?.indicator) ? (radar.indicator as AnyRecord[]) : [];
+  if (indicators.length === 0) {
+    return { option, refreshed: false, summary: 'No radar indicators found — open it to refresh manually.' };
+  }
+
+  const numericCols = sheet.schema.filter(c => c.type === 'numeric');
+  const columns = indicators.map(ind => numericCols.find(c => normalizeName(c.name) === normalizeName(ind.name)));
+  if (columns.some(c => !c)) {
+    return { option, refreshed: false, summary: 'Not every radar indicator matches a sheet column — open it to refresh manually.' };
+  }
+
+  const series = asArray(option.series as AnyRecord | AnyRecord[] | undefined).filter(s => s.type === 'radar');
+  const total = series.reduce((n, s) => n + (Array.isArray(s.data) ? s.data.length : 0), 0);
+  const names = series.flatMap(s => (Array.isArray(s.data) ? (s.data as AnyRecord[]) : []).map(d => stringifyCell(d?.name))).filter(Boolean);
+  const nameCol = names.length ? pickCategoryColumn(sheet.schema, sheet.rows, names) : null;
+
+  let updated = 0;
+  for (const s of series) {
+    const items = Array.isArray(s.data) ? (s.data as AnyRecord[]) : [];
+    // An item follows the last row carrying its name, like a category on a cartesian chart.
+    s.data = items.flatMap(item => {
+      const row = nameCol
+        ? sheet.rows.findLast(r => normalizeName(stringifyCell(r[nameCol.name])) === normalizeName(item?.name))
+        : total === 1 ? sheet.rows[sheet.rows.length - 1] : undefined;
+      if (!row) return [];
+      updated++;
+      return [{ ...item, value: columns.map(c => (typeof row[c!.name] === 'number' ? row[c!.name] : 0)) }];
+    });
+  }
+
+  if (updated === 0) {
+    return { option, refreshed: false, summary: 'No radar item matched a sheet row — open it to refresh manually.' };
+  }
+
+  indicators.forEach((ind, i) => {
+    if (typeof ind.max !== 'number') return;
+    const top = series
+      .flatMap(s => (s.data as AnyRecord[]).map(d => Number((d.value as number[])[i]) || 0))
+      .reduce((a, b) => Math.max(a, b), -Infinity);
+    if (top > ind.max) ind.max = niceCeil(top);
+  });
+
+  const dropped = total - updated;
+  return {
+    option,
+    refreshed: true,
+    summary: `${updated} ${updated === 1 ? 'item' : 'items'} across ${indicators.length} indicators${dropped ? `, ${dropped} no longer in the sheet` : ''}`,
+  };
+}
+
+/** A node or link with the given data keys removed — what's left is its styling. */
+function styleOf(entry: AnyRecord | undefined, keys: string[]): AnyRecord {
+  const copy = { ...entry };
+  for (const key of keys) delete copy[key];
+  return copy;
+}
+
+/** Total of a tree's leaf values. */
+function treeSum(nodes: unknown): number {
+  if (!Array.isArray(nodes)) return 0;
+  return nodes.reduce((acc: number, node: AnyRecord) =>
+    acc + (Array.isArray(node?.children) && node.children.length ? treeSum(node.children) : typeof node?.value === 'number' ? node.value : 0), 0);
+}
+
+/** Patch a treemap / sunburst: one category column per tree level (matched by node names), values summed at the leaves. */
+function refreshHierarchy(option: EChartsOption, sheet: RefreshSheet): ChartRefreshResult {
+  const tree = asArray(option.series as AnyRecord | AnyRecord[] | undefined)[0];
+  const roots = Array.isArray(tree?.data) ? (tree.data as AnyRecord[]) : [];
+  if (roots.length === 0) {
+    return { option, refreshed: false, summary: 'No tree data found — open it to refresh manually.' };
+  }
+
+  const levels: string[][] = [];
+  const collect = (nodes: AnyRecord[], depth: number) => {
+    for (const node of nodes) {
+      (levels[depth] ??= []).push(stringifyCell(node?.name));
+      if (Array.isArray(node?.children)) collect(node.children as AnyRecord[], depth + 1);
+    }
+  };
+  collect(roots, 0);
+
+  // The path columns, top level first — stop at the first level no column matches.
+  const path: ColumnSchema[] = [];
+  for (const names of levels) {
+    const col = pickCategoryColumn(sheet.schema, sheet.rows, names, new Set(path.map(c => c.name)));
+    if (!col || overlapScore(names, sheet.rows.map(r => stringifyCell(r[col.name]))) === 0) break;
+    path.push(col);
+  }
+  if (path.length === 0) {
+    return { option, refreshed: false, summary: "No column matches the chart's node names — open it to refresh manually." };
+  }
+  const valueCol = pickValueColumn(sheet.schema, [tree.name, getTitleText(option)]);
+  if (!valueCol) {
+    return { option, refreshed: false, summary: 'Sheet has no numeric column to use for node sizes.' };
+  }
+
+  let leaves = 0;
+  const build = (existing: AnyRecord[] | undefined, rows: AnyRecord[], depth: number): AnyRecord[] => {
+    const groups = new Map<string, AnyRecord[]>();
+    for (const row of rows) {
+      const name = stringifyCell(row[path[depth].name]);
+      if (name) groups.set(name, [...(groups.get(name) ?? []), row]);
+    }
+    return [...groups].map(([name, group]) => {
+      const prior = existing?.find(n => normalizeName(n?.name) === normalizeName(name));
+      const style = styleOf(prior, ['name', 'value', 'children']);
+      if (depth === path.length - 1) {
+        leaves++;
+        const value = group.reduce((acc, r) => acc + (typeof r[valueCol.name] === 'number' ? (r[valueCol.name] as number) : 0), 0);
+        return { ...style, name, value };
+      }
+      return { ...style, name, children: build(prior?.children as AnyRecord[] | undefined, group, depth + 1) };
+    });
+  };
+
+  const before = treeSum(roots);
+  tree.data = build(roots, sheet.rows, 0);
+  return {
+    option,
+    refreshed: true,
+    summary: `${valueCol.name}: ${formatDelta(before, treeSum(tree.data))}, ${leaves} ${path.length > 1 ? 'leaves' : 'nodes'}`,
   };
 }
 
+/** Patch a sankey from source / target / value rows, summing repeated flows. */
+function refreshSankey(option: EChartsOption, sheet: RefreshSheet): ChartRefreshResult {
+  const sankey = asArray(option.series as AnyRecord | AnyRecord[] | undefined).find(s => s.type === 'sankey')!;
+  const linkKey = Array.isArray(sankey.links) ? 'links' : Array.isArray(sankey.edges) ? 'edges' : null;
+  if (!linkKey) {
+    return { option, refreshed: false, summary: 'No sankey links found — open it to refresh manually.' };
+  }
+  const links = sankey[linkKey] as AnyRecord[];
+
+  const sourceCol = pickCategoryColumn(sheet.schema, sheet.rows, links.map(l => stringifyCell(l?.source)));
+  const targetCol = sourceCol && pickCategoryColumn(sheet.schema, sheet.rows, links.map(l => stringifyCell(l?.target)), new Set([sourceCol.name]));
+  if (!sourceCol || !targetCol) {
+    return { option, refreshed: false, summary: 'Sheet needs source and target columns for the sankey flows.' };
+  }
+  const valueCol = pickValueColumn(sheet.schema, [sankey.name, getTitleText(option), 'value']);
+  if (!valueCol) {
+    return { option, refreshed: false, summary: 'Sheet has no numeric column to use for flow sizes.' };
+  }
+
+  const flows = new Map<string, { source: string; target: string; value: number }>();
+  for (const row of sheet.rows) {
+    const source = stringifyCell(row[sourceCol.name]);
+    const target = stringifyCell(row[targetCol.name]);
+    const v = row[valueCol.name];
+    // A node can't flow into itself — the one-node cycle is dropped here, longer ones rejected below.
+    if (!source || !target || source === target || typeof v !== 'number') continue;
+    const key = JSON.stringify([source, target]);
+    const flow = flows.get(key) ?? { source, target, value: 0 };
+    flow.value += v;
+    flows.set(key, flow);
+  }
+  if (flows.size === 0) {
+    return { option, refreshed: false, summary: 'No source → target rows found in the sheet.' };
+  }
+  // Sankey layouts reject cycles, and A → B plus B → A rows make one.
+  const cycle = findSankeyCycle({ links: [...flows.values()] });
+  if (cycle) {
+    return { option, refreshed: false, summary: `Sheet flows form a cycle (${cycle.join(' → ')}) — open it to refresh manually.` };
+  }
+
+  const before = links.reduce((acc, l) => acc + (typeof l?.value === 'number' ? l.value : 0), 0);
+  sankey[linkKey] = [...flows.values()].map(flow => ({
+    ...styleOf(links.find(l => l?.source === flow.source && l?.target === flow.target), ['source', 'target', 'value']),
+    ...flow,
+  }));
+
+  const nodeKey = Array.isArray(sankey.nodes) ? 'nodes' : 'data';
+  const nodes = Array.isArray(sankey[nodeKey]) ? (sankey[nodeKey] as AnyRecord[]) : [];
+  const names = [...new Set([...flows.values()].flatMap(f => [f.source, f.target]))];
+  sankey[nodeKey] = names.map(name => ({ ...styleOf(nodes.find(n => n?.name === name), ['name', 'value']), name }));
+
+  const after = [...flows.values()].reduce((acc, f) => acc + f.value, 0);
+  return { option, refreshed: true, summary: `${valueCol.name}: ${formatDelta(before, after)}, ${flows.size} flows between ${names.length} nodes` };
+}
+
+/**
+ * Re-run the chart's transforms and encoding plan over the fresh rows and
+ * carry the new data into the existing option — series are matched by name
+ * so per-series edits made since generation (labels, markers, stacking)
+ * survive.
+ */
+function refreshFromPlan(option: EChartsOption, sheet: RefreshSheet, plan: EncodingPlan, transforms?: TransformStep[]): ChartRefreshResult {
+  const built = runPipeline(sheet.rows, plan, transforms, sheet.schema);
+  if (!built.ok) {
+    return { option, refreshed: false, summary: `Sheet no longer fits this chart's encoding — ${built.errors[0]}` };
+  }
+
+  const existingSeries = asArray(option.series as AnyRecord | AnyRecord[] | undefined);
+  const freshSeries = asArray(built.option.series as AnyRecord | AnyRecord[] | undefined);
+  const before = existingSeries.reduce((acc, s) => acc + sumSeriesData(s.data), 0);
+  const after = freshSeries.reduce((acc, s) => acc + sumSeriesData(s.data), 0);
+  const summary = `${describeMeasure(plan)}: ${formatDelta(before, after)}, ${built.rowCount} rows`;
+
+  const existingAxis = findCategoryAxis(option);
+  const freshAxis = findCategoryAxis(built.option);
+  const sameShape = existingSeries.length > 0 && existingSeries[0].type === freshSeries[0]?.type && Boolean(existingAxis) === Boolean(freshAxis);
+
+  // The chart was restructured by an edit since it was planned — the fresh
+  // build is the only version guaranteed to match the plan.
+  if (!sameShape) {
+    return { option: built.option, refreshed: true, summary };
+  }
+
+  if (existingAxis && freshAxis) existingAxis.axis.data = freshAxis.axis.data;
+  option.series = freshSeries.map(fresh => {
+    const match = existingSeries.find(s => normalizeName(s.name) === normalizeName(fresh.name));
+    return match ? { ...match, data: fresh.data } : fresh;
+  }) as EChartsOption['series'];
+
+  return { option, refreshed: true, summary };
+}
+
 /**
  * Patch `option` with fresh values from `sheet`, matching series names /
  * existing labels to sheet columns. Returns a new option object (input is
  * not mutated) plus whether the patch applied and a one-line digest summary.
+ * When the chart carries an `encoding` plan, the plan (after `transforms`)
+ * is re-run instead.
  */
-export function refreshChartData(option: EChartsOption, sheet: RefreshSheet): ChartRefreshResult {
+export function refreshChartData(
+  option: EChartsOption,
+  sheet: RefreshSheet,
+  encoding?: EncodingPlan,
+  transforms?: TransformStep[]
+): ChartRefreshResult {
   // Deep clone via JSON round-trip — chart specs are plain JSON (no
   // functions/Dates), so this is a cheap, safe way to avoid mutating input.
   const clone = JSON.parse(JSON.stringify(option)) as EChartsOption;
 
+  if (encoding) {
+    return refreshFromPlan(clone, sheet, encoding, transforms);
+  }
+
   const series = asArray(clone.series as AnyRecord | AnyRecord[] | undefined);
   const primaryType = series[0]?.type;
+  // Name matching reads numeric cells directly — parse "$1,204" / "12%" first.
+  const normalized = { ...sheet, rows: normalizeRows(sheet.rows, sheet.schema) };
 
   if (primaryType === 'bar' || primaryType === 'line') {
-    return refreshCartesian(clone, sheet);
+    return refreshCartesian(clone, normalized);
   }
   if (primaryType === 'pie') {
-    return refreshPie(clone, sheet);
+    return refreshNamedValues(clone, normalized, 'segment');
+  }
+  if (primaryType === 'funnel') {
+    return refreshNamedValues(clone, normalized, 'stage');
+  }
+  if (primaryType === 'scatter' || primaryType === 'effectScatter') {
+    return refreshScatter(clone, normalized);
+  }
+  if (primaryType === 'heatmap') {
+    return refreshHeatmap(clone, normalized);
+  }
+  if (primaryType === 'radar') {
+    return refreshRadar(clone, normalized);
+  }
+  if (primaryType === 'treemap' || primaryType === 'sunburst') {
+    return refreshHierarchy(clone, normalized);
+  }
+  if (primaryType === 'sankey') {
+    return refreshSankey(clone, normalized);
   }
   return { option: clone, refreshed: false, summary: NOT_REFRESHABLE };
 }
@@ -0,0 +1,67 @@
+// ============================================================================
+// CHART DELTA — deterministic "what changed" between two versions of a chart
+//
+// Reads both options' plotted points (see `extractSeriesPoints`) and matches
+// series by name, then categories by label. Only bar / line / pie / funnel
+// series have comparable points; for other chart types there is nothing to
+// diff and `computeChartDelta` returns null, leaving the refresh summary as
+// the only description.
+// ============================================================================
+
+import type { EChartsOption } from 'echarts';
+import type { BiggestMover, ChartDelta, SeriesDelta } from '@/lib/types/chart-delta';
+import { extractSeriesPoints, type SeriesPoints } from '@/lib/utils/option-series';
+
+function percentChange(from: number, to: number): number | null {
+  return from === 0 ? null : ((to - from) / Math.abs(from)) * 100;
+}
+
+function categoriesOf(series: SeriesPoints[]): string[] {
+  return [...new Set(series.flatMap(s => s.points.map(p => p.category)))];
+}
+
+/** The change a refresh made from `before` to `after`, or null when neither plots comparable points. */
+export function computeChartDelta(before: EChartsOption, after: EChartsOption): ChartDelta | null {
+  const previous = extractSeriesPoints(before);
+  const current = extractSeriesPoints(after);
+  if (current.length === 0 && previous.length === 0) return null;
+
+  const findPrevious = (name: string) => previous.find(s => s.name.toLowerCase() === name.toLowerCase());
+
+  let biggestMover: BiggestMover | null = null;
+  const series: SeriesDelta[] = current.map(s => {
+    const prior = findPrevious(s.name);
+    const priorValues = new Map((prior?.points ?? []).map(p => [p.category, p.value]));
+
+    for (const point of s.points) {
+      const from = priorValues.get(point.category);
+      if (from === undefined) continue;
+      const percent = percentChange(from, point.value);
+      if (percent === null || percent === 0) continue;
+      if (!biggestMover || Math.abs(percent) > Math.abs(biggestMover.percent)) {
+        biggestMover = { series: s.name, category: point.category, from, to: point.value, change: point.value - from, percent };
+      }
+    }
+
+    const latestPoint = s.points[s.points.length - 1];
+    const latest = latestPoint ? { category: latestPoint.category, value: latestPoint.value } : null;
+    const previousValue = prior?.points[prior.points.length - 1]?.value ?? null;
+    const both = latest !== null && previousValue !== null;
+    return {
+      name: s.name,
+      latest,
+      previous: previousValue,
+      change: both ? latest.value - previousValue : null,
+      percent: both ? percentChange(previousValue, latest.value) : null,
+    };
+  });
+
+  const priorCategories = categoriesOf(previous);
+  const currentCategories = categoriesOf(current);
+  return {
+    series,
+    addedCategories: currentCategories.filter(c => !priorCategories.includes(c)),
+    removedCategories: priorCategories.filter(c => !currentCategories.includes(c)),
+    biggestMover,
+  };
+}
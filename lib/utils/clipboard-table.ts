@@ -0,0 +1,107 @@
+// ============================================================================
+// CLIPBOARD TABLES — spreadsheet ranges and web tables pasted into the composer
+//
+// Copying a range out of Excel or Google Sheets puts both an HTML `<table>`
+// and tab-separated text on the clipboard; copying a table off a web page
+// puts HTML only. Either is read into the same raw grid an XLSX sheet
+// parses to (merged cells from colspan/rowspan included), so table
+// detection, header flattening and the range picker work on a paste exactly
+// as they do on an uploaded workbook.
+// ============================================================================
+
+import Papa from 'papaparse';
+import { parseCellText, type SheetCell, type SheetRange, type WorkbookSheet } from '@/lib/utils/sheet-range';
+
+export const PASTED_SHEET_NAME = 'Pasted table';
+
+/** Rows whose width differs from the first row's — beyond this share, the text isn't a table. */
+const MAX_RAGGED_SHARE = 0.2;
+
+export interface ClipboardTable {
+  sheet: WorkbookSheet;
+  /**
+   * Header depth known from the paste itself — the leading all-`<th>` rows
+   * of an HTML table, or the first line of text — which beats the
+   * number-based guess in `detectTable` for text-only rows.
+   */
+  headerRows: number;
+}
+
+type Grid = Pick<WorkbookSheet, 'cells' | 'merges'> & { headerRows: number };
+
+/** The clipboard's largest HTML `<table>` as a grid — null when there is none worth attaching. */
+function gridFromHtml(html: string): Grid | null {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const tables = [...doc.querySelectorAll('table')];
+  const table = tables.sort((a, b) => b.rows.length - a.rows.length)[0];
+  if (!table || table.rows.length < 2) return null;
+
+  const cells: SheetCell[][] = [];
+  const merges: SheetRange[] = [];
+  // Cells already claimed by a rowspan from above, per row.
+  const taken: Set<number>[] = [];
+
+  [...table.rows].forEach((tr, r) => {
+    cells[r] ??= [];
+    taken[r] ??= new Set();
+    let c = 0;
+    for (const td of [...tr.cells]) {
+      while (taken[r].has(c)) c++;
+      const colSpan = Math.max(1, td.colSpan || 1);
+      const rowSpan = Math.max(1, Math.min(td.rowSpan || 1, table.rows.length - r));
+      cells[r][c] = parseCellText(td.textContent ?? '');
+      for (let dr = 0; dr < rowSpan; dr++) {
+        taken[r + dr] ??= new Set();
+        for (let dc = 0; dc < colSpan; dc++) taken[r + dr].add(c + dc);
+      }
+      if (colSpan > 1 || rowSpan > 1) merges.push({ startRow: r, startCol: c, endRow: r + rowSpan - 1, endCol: c + colSpan - 1 });
+      c += colSpan;
+    }
+  });
+
+  const grid = Array.from(cells, row => Array.from(row ?? [], v => v ?? null));
+  const width = grid.reduce((max, row) => Math.max(max, row.length), 0);
+  const headerRows = [...table.rows].findIndex(tr => [...tr.cells].some(td => td.tagName !== 'TH'));
+  return width >= 2 ? { cells: grid, merges, headerRows: Math.max(1, headerRows) } : null;
+}
+
+/** Tab- (or comma-) separated text as a grid — null unless the lines line up into columns. */
+function gridFromText(text: string): Grid | null {
+  // Only trailing line breaks go — a trailing tab is an empty last cell.
+  const body = text.replace(/[\r\n]+$/, '');
+  const firstLine = body.split('\n')[0] ?? '';
+  const delimiter = firstLine.includes('\t') ? '\t' : firstLine.includes(',') ? ',' : null;
+  if (!delimiter) return null;
+
+  // Papa handles the quoted, multi-line cells Excel emits for cells containing newlines.
+  const { data } = Papa.parse<string[]>(body, { delimiter, skipEmptyLines: true });
+  if (data.length < 2) return null;
+  const width = data[0].length;
+  if (width < 2) return null;
+  const ragged = data.filter(row => row.length !== width).length;
+  const cells = data.map(row => row.map(parseCellText));
+  if (delimiter === ',') {
+    // Commas are common in prose — comma-separated text must line up exactly
+    // over a few lines and hold at least one column of numbers.
+    const numericColumn = Array.from({ length: width }, (_, c) => c)
+      .some(c => cells.slice(1).every(row => typeof row[c] === 'number'));
+    if (ragged > 0 || data.length < 3 || !numericColumn) return null;
+  } else if (ragged / data.length > MAX_RAGGED_SHARE) {
+    return null;
+  }
+
+  return { cells, merges: [], headerRows: 1 };
+}
+
+/**
+ * Read a clipboard payload as a sheet: the HTML table when there is one (it
+ * keeps merged header cells and cells containing tabs intact), otherwise
+ * tab-separated text. Returns null for anything that isn't tabular, so the
+ * paste falls through to the textarea as ordinary text.
+ */
+export function parseClipboardTable(payload: { html?: string; text?: string }): ClipboardTable | null {
+  const grid = (payload.html ? gridFromHtml(payload.html) : null) ?? (payload.text ? gridFromText(payload.text) : null);
+  if (!grid) return null;
+  const { headerRows, ...sheet } = grid;
+  return { sheet: { name: PASTED_SHEET_NAME, ...sheet }, headerRows };
+}
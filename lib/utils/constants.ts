@@ -3,6 +3,8 @@ export const VALIDATION_LIMITS = {
   MAX_TITLE_LENGTH: 200,
   MAX_DATA_SIZE: 1024 * 1024,
   MAX_EDIT_DATA_SIZE: 100 * 1024,
+  MAX_DATASET_SIZE: 900 * 1024, // stays under the 1MB server action body limit
+  MAX_PDF_UPLOAD_MB: 4, // PDFs upload whole to /api/pdf-extract — Vercel caps function bodies at 4.5MB
   MAX_SAVED_VISUALIZATIONS_FREE: 50,
   MAX_SAVED_VISUALIZATIONS_PRO: 1000,
   MAX_SAVED_VISUALIZATIONS_ENTERPRISE: Infinity,
@@ -10,4 +12,15 @@ export const VALIDATION_LIMITS = {
   MAX_NODE_LABEL_LENGTH: 500,
   MAX_EMBED_CHARS: 6000,
   DB_HISTORY_CAP: 100,
+  MAX_EDIT_CHANGE_LINES: 8,
+  MAX_REVISIONS_FREE: 20,
+  MAX_REVISIONS_PRO: 200,
+  MAX_REVISIONS_ENTERPRISE: 1000,
+  MAX_REVISION_PROMPT_LENGTH: 500,
+  MAX_SNAPSHOTS_FREE: 30,
+  MAX_SNAPSHOTS_PRO: 500,
+  MAX_SNAPSHOTS_ENTERPRISE: 2000,
+  SNAPSHOT_RETENTION_DAYS_FREE: 30,
+  SNAPSHOT_RETENTION_DAYS_PRO: 365,
+  SNAPSHOT_RETENTION_DAYS_ENTERPRISE: 730,
 };
@@ -3,13 +3,31 @@
 // (numeric / date / boolean / categorical) and summarizes its range,
 // distinct count, and representative examples. Used to give the AI a typed
 // understanding of a connected live sheet instead of raw, untyped CSV text.
+//
+// On top of the base type, columns get a semantic subtype where the values
+// (and, for ambiguous cases, the header) make it clear: "$1,204.50" is
+// currency, "12.5%" percent, "1h 20m" a duration, "US-CA" a region code. The
+// numeric subtypes are parsed to plain numbers by `normalizeRows`, which the
+// aggregation / transform engines and the statistics service run before
+// reading any cell.
 // ============================================================================
 
+import { COUNTRY_ALPHA_2, COUNTRY_ALPHA_3, COUNTRY_NAMES } from './country-codes';
+
 export type SchemaColumnType = 'numeric' | 'date' | 'boolean' | 'categorical';
 
+/** Numeric subtypes (parsed to numbers) and categorical ones (kept as text). */
+export type SemanticType =
+  | 'currency' | 'percent' | 'duration' | 'latitude' | 'longitude'
+  | 'integer-id' | 'postal-code' | 'country' | 'region' | 'email' | 'url';
+
 export interface ColumnSchema {
   name: string;
   type: SchemaColumnType;
+  /** Finer meaning detected from the values (and header) — absent for plain columns. */
+  semantic?: SemanticType;
+  /** currency: the symbol or ISO code ("$", "EUR"); duration: "seconds"; country: "alpha-2" | "alpha-3" | "name". */
+  unit?: string;
   /** Up to 3 representative values, in row order (for numeric/date/boolean). */
   examples: string[];
   /** numeric: [min, max] formatted as numbers; date: [earliest, latest] as ISO (YYYY-MM-DD). */
@@ -28,7 +46,8 @@ const DATE_PATTERNS: RegExp[] = [
   /^\d{1,2}\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s+\d{4}$/i, // "5 January 2024"
 ];
 
-function looksLikeDate(value: string): boolean {
+/** True for the date formats schema inference recognises (ISO, M/D/YYYY, "January 5, 2024", …). */
+export function looksLikeDate(value: string): boolean {
   const v = value.trim();
   if (!v || !DATE_PATTERNS.some(re => re.test(v))) return false;
   return !Number.isNaN(Date.parse(v));
@@ -38,6 +57,203 @@ function looksLikeBoolean(value: string): boolean {
   return /^(true|false)$/i.test(value.trim());
 }
 
+// ── Semantic value parsers ──────────────────────────────────────────────────
+
+const NUMBER_NEEDS_NORMALIZING: ReadonlySet<SemanticType> = new Set(['currency', 'percent', 'duration']);
+const CURRENCY_SYMBOLS = ['US$', 'R$', 'A$', 'C$', 'HK$', '$', '€', '£', '¥', '₹', '₩', '₽', '₺', '₪', '₱', '₫'];
+const CURRENCY_CODES = new Set(['USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'CAD', 'AUD', 'CHF', 'SEK', 'NOK', 'DKK', 'NZD', 'SGD', 'HKD', 'BRL', 'MXN', 'ZAR', 'KRW', 'PLN']);
+
+/** "1,204.50" / "1.204,50" / "1 204" → 1204.5. The last `,` or `.` is the decimal mark only when it isn't a thousands group. */
+function parseGroupedNumber(text: string): number | null {
+  const t = text.replace(/\s/g, '');
+  if (!/^\d[\d.,]*$/.test(t)) return null;
+  const lastComma = t.lastIndexOf(',');
+  const lastDot = t.lastIndexOf('.');
+  let normalized: string;
+  if (lastComma > -1 && lastDot > -1) {
+    normalized = lastComma > lastDot ? t.replace(/\./g, '').replace(',', '.') : t.replace(/,/g, '');
+  } else if (lastComma > -1) {
+    normalized = /^\d{1,3}(,\d{3})+$/.test(t) ? t.replace(/,/g, '') : t.replace(',', '.');
+  } else {
+    normalized = /^\d{1,3}(\.\d{3}){2,}$/.test(t) ? t.replace(/\./g, '') : t;
+  }
+  if ((normalized.match(/\./g) ?? []).length > 1) return null;
+  const n = Number(normalized);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** "-1,204.50" → -1204.5 — `parseGroupedNumber` with an optional leading minus. */
+function parseSignedNumber(text: string): number | null {
+  const t = text.trim();
+  const n = parseGroupedNumber(t.replace(/^-\s*/, ''));
+  return n === null ? null : t.startsWith('-') ? -n : n;
+}
+
+/** "-$1,204.50", "($12)", "1.204,50 €", "EUR 30" → { value, unit }. A symbol or code is required. */
+function parseCurrency(value: string): { value: number; unit: string } | null {
+  let text = value.trim();
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) { negative = true; text = text.slice(1, -1).trim(); }
+  if (text.startsWith('-')) { negative = true; text = text.slice(1).trim(); }
+
+  let unit: string | undefined;
+  for (const symbol of CURRENCY_SYMBOLS) {
+    if (text.startsWith(symbol)) { unit = symbol; text = text.slice(symbol.length); break; }
+    if (text.endsWith(symbol)) { unit = symbol; text = text.slice(0, -symbol.length); break; }
+  }
+  if (!unit) {
+    const code = text.match(/^([A-Z]{3})\s*(.+)$/) ?? text.match(/^(.+?)\s*([A-Z]{3})$/);
+    const found = code ? [code[1], code[2]].find(part => CURRENCY_CODES.has(part)) : undefined;
+    if (!code || !found) return null;
+    unit = found;
+    text = code[1] === found ? code[2] : code[1];
+  }
+  text = text.trim();
+  if (text.startsWith('-')) { negative = true; text = text.slice(1).trim(); }
+
+  const n = parseGroupedNumber(text);
+  return n === null ? null : { value: negative ? -n : n, unit };
+}
+
+/** "12.5%" → 12.5 (percentage points, so axis labels can append "%"). */
+function parsePercent(value: string): number | null {
+  const m = value.trim().match(/^(-?)\s*([\d.,]+)\s*%$/);
+  const n = m ? parseGroupedNumber(m[2]) : null;
+  return n === null ? null : m![1] ? -n : n;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  d: 86400, day: 86400, days: 86400,
+  h: 3600, hr: 3600, hrs: 3600, hour: 3600, hours: 3600,
+  m: 60, min: 60, mins: 60, minute: 60, minutes: 60,
+  s: 1, sec: 1, secs: 1, second: 1, seconds: 1,
+};
+
+/** "1h 20m", "90 min", "2 days", "1:20:00" (and "4:05" when `clockMinutes`) → seconds. */
+function parseDuration(value: string, clockMinutes: boolean): number | null {
+  const text = value.trim().toLowerCase();
+  const clock = text.match(/^(\d+):([0-5]\d)(?::([0-5]\d))?$/);
+  if (clock) {
+    if (clock[3] !== undefined) return Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+    return clockMinutes ? Number(clock[1]) * 60 + Number(clock[2]) : null;
+  }
+  if (!/^(\d+(\.\d+)?\s*[a-z]+\s*)+$/.test(text)) return null;
+  let total = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+(?:\.\d+)?)\s*([a-z]+)/g)) {
+    const factor = DURATION_UNITS[unit];
+    if (factor === undefined) return null;
+    total += Number(amount) * factor;
+  }
+  return total;
+}
+
+const THOUSANDS_GROUPED = /^-?\d{1,3}([,\s]\d{3})+(\.\d+)?$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^https?:\/\/[^\s]+$/i;
+const REGION_CODE = /^[A-Z]{2}-[A-Z0-9]{1,3}$/; // ISO 3166-2, e.g. US-CA, GB-ENG
+const POSTAL_CODE = /^(\d{3,5}(-\d{4})?|[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}|[A-Z]\d[A-Z] ?\d[A-Z]\d)$/i; // US ZIP(+4), UK, Canada
+
+const hint = {
+  // "id", "order_id", "userId", "Invoice No" — but not "paid" or a bare "Number".
+  id: (name: string) => /(^|[\s_-])id$|^id[\s_-]|[\s_-](key|code|number|no\.?|num)$/i.test(name.trim()) || /[a-z]Id$/.test(name.trim()),
+  postal: (name: string) => /zip|postal|post\s*code|postcode/i.test(name),
+  latitude: (name: string) => /^(lat|latitude)$|[\s_-](lat|latitude)$/i.test(name.trim()),
+  longitude: (name: string) => /^(lng|lon|long|longitude)$|[\s_-](lng|lon|long|longitude)$/i.test(name.trim()),
+  region: (name: string) => /state|province|region|prefecture|county/i.test(name),
+  country: (name: string) => /country|nation/i.test(name),
+  duration: (name: string) => /duration|elapsed|length|runtime|lap|pace|time spent/i.test(name),
+};
+
+/**
+ * Parse a numeric column's cells with `parse` when every text cell parses
+ * and at least one carries the marker (so a column of bare numbers stays
+ * plain numeric). Returns the numbers in row order.
+ */
+function parseAll(raw: Array<number | string>, parse: (s: string) => number | null): number[] | null {
+  let marked = false;
+  const out: number[] = [];
+  for (const v of raw) {
+    if (typeof v === 'number') { out.push(v); continue; }
+    const n = parse(v);
+    if (n === null) return null;
+    marked = true;
+    out.push(n);
+  }
+  return marked ? out : null;
+}
+
+type NumericDetection = { semantic?: SemanticType; unit?: string; values: number[] };
+
+/** Text cells that are really numbers — currency, percent, duration or thousands-grouped. */
+function detectNumericText(name: string, raw: Array<number | string>): NumericDetection | null {
+  const units = new Set<string>();
+  const currency = parseAll(raw, s => {
+    const parsed = parseCurrency(s);
+    if (parsed) units.add(parsed.unit);
+    return parsed?.value ?? null;
+  });
+  // Mixed currencies can't share an axis (or be summed) — leave them as text.
+  if (currency && units.size === 1) return { semantic: 'currency', unit: [...units][0], values: currency };
+
+  const percent = parseAll(raw, parsePercent);
+  if (percent) return { semantic: 'percent', unit: '%', values: percent };
+
+  const duration = parseAll(raw, s => parseDuration(s, hint.duration(name)));
+  if (duration) return { semantic: 'duration', unit: 'seconds', values: duration };
+
+  const grouped = parseAll(raw, s => (THOUSANDS_GROUPED.test(s.trim()) ? parseSignedNumber(s) : null));
+  if (grouped) return { values: grouped };
+
+  return null;
+}
+
+/** Categorical subtypes recognisable from the text alone (or text + header). */
+function detectTextSemantic(name: string, strs: string[]): { semantic: SemanticType; unit?: string } | null {
+  const trimmed = strs.map(s => s.trim());
+  const distinct = new Set(trimmed).size;
+  if (trimmed.every(s => EMAIL.test(s))) return { semantic: 'email' };
+  if (trimmed.every(s => URL_PATTERN.test(s))) return { semantic: 'url' };
+  if (trimmed.every(s => REGION_CODE.test(s))) return { semantic: 'region', unit: 'iso-3166-2' };
+  if (hint.region(name) && trimmed.every(s => /^[A-Z]{2,3}$/.test(s))) return { semantic: 'region' };
+
+  // Two-letter codes collide with ordinary words ("NO", "IT") — need a header hint or some variety.
+  const codesPlausible = hint.country(name) || distinct >= 3;
+  if (codesPlausible && trimmed.every(s => COUNTRY_ALPHA_2.has(s))) return { semantic: 'country', unit: 'alpha-2' };
+  if (codesPlausible && trimmed.every(s => COUNTRY_ALPHA_3.has(s))) return { semantic: 'country', unit: 'alpha-3' };
+  if (trimmed.every(s => COUNTRY_NAMES.has(s.toLowerCase()))) return { semantic: 'country', unit: 'name' };
+
+  if (hint.postal(name) && trimmed.every(s => POSTAL_CODE.test(s))) return { semantic: 'postal-code' };
+  if (trimmed.every(s => /^\d{5}-\d{4}$/.test(s))) return { semantic: 'postal-code' };
+  return null;
+}
+
+function categorical(name: string, strs: string[], semantic?: { semantic: SemanticType; unit?: string } | null): ColumnSchema {
+  const counts = new Map<string, number>();
+  for (const s of strs) counts.set(s, (counts.get(s) ?? 0) + 1);
+  const topValues = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([value]) => value);
+  return { name, type: 'categorical', ...(semantic ?? {}), examples: [], uniqueCount: counts.size, topValues };
+}
+
+function numeric(name: string, nums: number[], examples: string[], semantic?: SemanticType, unit?: string): ColumnSchema {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const n of nums) { if (n < min) min = n; if (n > max) max = n; }
+  return {
+    name,
+    type: 'numeric',
+    ...(semantic ? { semantic } : {}),
+    ...(unit ? { unit } : {}),
+    examples: examples.slice(0, 3),
+    range: [String(min), String(max)],
+  };
+}
+
+/** US ZIPs lose their leading zeros to dynamic typing — "02134" arrives as 2134. */
+const padZip = (n: number) => String(n).padStart(5, '0');
+
 /**
  * Classify each column of a parsed dataset (array of row objects, as produced
  * by Papa Parse with `header: true, dynamicTyping: true`) into a typed schema
@@ -61,14 +277,20 @@ export function inferSchema(rows: Record<string, unknown>[]): ColumnSchema[] {
     // Numeric: dynamicTyping already converted clean numeric strings to numbers.
     if (raw.every(v => typeof v === 'number' && !Number.isNaN(v))) {
       const nums = raw as number[];
-      const min = Math.min(...nums);
-      const max = Math.max(...nums);
-      return {
-        name,
-        type: 'numeric',
-        examples: nums.slice(0, 3).map(String),
-        range: [String(min), String(max)],
-      };
+      const integers = nums.every(Number.isInteger);
+      if (hint.postal(name) && integers && nums.every(n => n >= 0 && n <= 99999)) {
+        return categorical(name, nums.map(padZip), { semantic: 'postal-code' });
+      }
+      if (hint.id(name) && integers) {
+        return categorical(name, nums.map(String), { semantic: 'integer-id' });
+      }
+      if (hint.latitude(name) && nums.every(n => n >= -90 && n <= 90)) {
+        return numeric(name, nums, nums.map(String), 'latitude');
+      }
+      if (hint.longitude(name) && nums.every(n => n >= -180 && n <= 180)) {
+        return numeric(name, nums, nums.map(String), 'longitude');
+      }
+      return numeric(name, nums, nums.map(String));
     }
 
     const strs = raw.map(v => String(v));
@@ -89,32 +311,82 @@ export function inferSchema(rows: Record<string, unknown>[]): ColumnSchema[] {
       return { name, type: 'boolean', examples: [...new Set(strs)].slice(0, 2) };
     }
 
+    const parsed = detectNumericText(name, raw);
+    if (parsed) return numeric(name, parsed.values, strs, parsed.semantic, parsed.unit);
+
     // Categorical: count distinct values and surface the most frequent ones.
-    const counts = new Map<string, number>();
-    for (const s of strs) counts.set(s, (counts.get(s) ?? 0) + 1);
-    const topValues = [...counts.entries()]
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([value]) => value);
-
-    return { name, type: 'categorical', examples: [], uniqueCount: counts.size, topValues };
+    return categorical(name, strs, detectTextSemantic(name, strs));
+  });
+}
+
+/**
+ * Parse one cell of `column` to the value the engines should see: numbers for
+ * numeric columns (currency, percent → percentage points, duration →
+ * seconds, "1,204" → 1204), zero-padded text for numeric ZIP codes, and the
+ * cell unchanged otherwise or when it doesn't parse.
+ */
+export function normalizeCell(value: unknown, column: ColumnSchema): unknown {
+  if (column.semantic === 'postal-code') return typeof value === 'number' && Number.isInteger(value) ? padZip(value) : value;
+  if (column.type !== 'numeric' || typeof value !== 'string' || value.trim() === '') return value;
+  switch (column.semantic) {
+    case 'currency': return parseCurrency(value)?.value ?? value;
+    case 'percent': return parsePercent(value) ?? value;
+    case 'duration': return parseDuration(value, true) ?? value;
+    default: return parseSignedNumber(value) ?? value;
+  }
+}
+
+/**
+ * Rows with every cell normalized per `schema` (see `normalizeCell`). Returns
+ * `rows` itself when no column needs it, so clean numeric data costs nothing.
+ */
+export function normalizeRows(rows: Record<string, unknown>[], schema: ColumnSchema[]): Record<string, unknown>[] {
+  const columns = schema.filter(c =>
+    (c.semantic && NUMBER_NEEDS_NORMALIZING.has(c.semantic))
+    || (c.semantic === 'postal-code' && rows.some(r => typeof r[c.name] === 'number'))
+    || (c.type === 'numeric' && rows.some(r => typeof r[c.name] === 'string'))
+  );
+  if (columns.length === 0) return rows;
+  return rows.map(row => {
+    const out = { ...row };
+    for (const c of columns) if (c.name in out) out[c.name] = normalizeCell(out[c.name], c);
+    return out;
   });
 }
 
+/** ", currency ($)" / ", percent" … — the semantic part of a schema line. */
+function describeSemantic(col: ColumnSchema): string {
+  switch (col.semantic) {
+    case 'currency': return ` — currency (${col.unit}), values parsed to plain numbers`;
+    case 'percent': return ' — percent, values in percentage points (12.5 = 12.5%)';
+    case 'duration': return ' — duration, values in seconds';
+    case 'latitude': return ' — latitude';
+    case 'longitude': return ' — longitude';
+    case 'integer-id': return ' — identifier: group or label by it, never sum or average it';
+    case 'postal-code': return ' — postal code';
+    case 'country': return col.unit === 'name' ? ' — country names' : ` — country codes (ISO ${col.unit})`;
+    case 'region': return col.unit ? ' — region codes (ISO 3166-2)' : ' — state / region codes';
+    case 'email': return ' — email addresses';
+    case 'url': return ' — URLs';
+    default: return '';
+  }
+}
+
 /** Renders an inferred schema as a compact, human-readable block for an AI prompt. */
 export function formatSchemaForPrompt(schema: ColumnSchema[]): string {
   return schema
     .map(col => {
+      const semantic = describeSemantic(col);
       switch (col.type) {
         case 'numeric':
-          return `- "${col.name}" — numeric, range ${col.range?.[0]} to ${col.range?.[1]} (e.g. ${col.examples.join(', ')})`;
+          return `- "${col.name}" — numeric${semantic}, range ${col.range?.[0]} to ${col.range?.[1]} (e.g. ${col.examples.join(', ')})`;
         case 'date':
           return `- "${col.name}" — date, range ${col.range?.[0]} to ${col.range?.[1]} (e.g. ${col.examples.join(', ')})`;
         case 'boolean':
           return `- "${col.name}" — boolean (e.g. ${col.examples.join(', ')})`;
         case 'categorical':
           return col.uniqueCount
-            ? `- "${col.name}" — categorical, ${col.uniqueCount} distinct (top: ${col.topValues?.join(', ')})`
+            ? `- "${col.name}" — categorical${semantic}, ${col.uniqueCount} distinct (top: ${col.topValues?.join(', ')})`
             : `- "${col.name}" — categorical (no values)`;
       }
     })
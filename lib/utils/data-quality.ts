@@ -0,0 +1,377 @@
+// ============================================================================
+// DATA QUALITY PROFILER — deterministic checks run on a dataset before charting
+//
+// Pure and client-safe: the attachment chip profiles the parsed rows as soon
+// as a file is attached, and the same rows are cleaned here when the user
+// applies a fix. Column types come from `inferSchema` / `detectColumns`, so a
+// "$1,204" column is profiled as the numbers a chart would aggregate.
+// Placeholder cells ("N/A", "-", "null") count as missing throughout.
+// ============================================================================
+
+import type { ColumnProfile, DataQualityReport, QualityFix, QualityIssue, QualityIssueKind } from '@/lib/types/data-quality';
+import { inferSchema, looksLikeDate, type ColumnSchema } from '@/lib/utils/csv-schema';
+import { detectColumns } from '@/lib/services/statistics-service';
+import { aggregate } from '@/lib/utils/aggregation-engine';
+
+type Row = Record<string, unknown>;
+
+const PLACEHOLDERS = new Set(['n/a', '#n/a', 'null', 'nan', '-', '—', '?']);
+/** Pairwise spelling comparison is quadratic — skip columns with more distinct values than this. */
+const MAX_SPELLING_DISTINCT = 500;
+const MAX_SPELLING_GROUPS = 5;
+const MIN_OUTLIER_VALUES = 8;
+const MIN_DATE_POINTS = 4;
+const DAY_MS = 86_400_000;
+
+const KIND_ORDER: QualityIssueKind[] = ['duplicates', 'missing', 'mixed-type', 'spelling', 'outliers', 'date-gaps'];
+/** Identifiers and contact details legitimately differ by a character — not spelling variants. */
+const NO_SPELLING_CHECK = new Set(['email', 'url', 'integer-id', 'postal-code']);
+
+/** Blank, whitespace-only, or a conventional "no value" placeholder. */
+export function isBlankCell(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'number') return Number.isNaN(value);
+  if (typeof value !== 'string') return false;
+  const t = value.trim();
+  return t === '' || PLACEHOLDERS.has(t.toLowerCase());
+}
+
+const label = (value: unknown) => String(value).trim();
+const rowKey = (row: Row, names: string[]) => JSON.stringify(names.map(n => (isBlankCell(row[n]) ? null : row[n])));
+
+// ── Individual checks ───────────────────────────────────────────────────────
+
+function checkDuplicates(rows: Row[], names: string[]): QualityIssue | null {
+  const seen = new Set<string>();
+  let extra = 0;
+  for (const row of rows) {
+    const key = rowKey(row, names);
+    if (seen.has(key)) extra++;
+    else seen.add(key);
+  }
+  if (extra === 0) return null;
+  return {
+    kind: 'duplicates',
+    severity: 'warning',
+    count: extra,
+    message: `${extra.toLocaleString()} duplicate ${extra === 1 ? 'row' : 'rows'} — totals will count them twice.`,
+    fixes: [{ kind: 'drop-duplicates' }],
+  };
+}
+
+function mostCommon(values: unknown[]): string | null {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(label(v), (counts.get(label(v)) ?? 0) + 1);
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [value, count] of counts) if (count > bestCount) { best = value; bestCount = count; }
+  return best;
+}
+
+function checkMissing(col: ColumnSchema, cells: unknown[], numbers: number[] | null, rowCount: number): QualityIssue | null {
+  const missing = cells.filter(isBlankCell).length;
+  if (missing === 0 || missing === rowCount) return null;
+  const present = cells.filter(v => !isBlankCell(v));
+  const fill = numbers ? aggregate(numbers, numbers.length, 'median') : mostCommon(present);
+  const fixes: QualityFix[] = [];
+  if (fill !== null) fixes.push({ kind: 'fill-nulls', column: col.name, value: fill });
+  fixes.push({ kind: 'drop-nulls', column: col.name });
+  return {
+    kind: 'missing',
+    column: col.name,
+    severity: missing / rowCount >= 0.05 ? 'warning' : 'info',
+    count: missing,
+    message: `${missing.toLocaleString()} of ${rowCount.toLocaleString()} values are missing.`,
+    fixes,
+  };
+}
+
+type CellClass = 'number' | 'date' | 'boolean' | 'text';
+
+function classify(value: unknown): CellClass {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  const s = label(value);
+  if (/^-?[\d,]*\.?\d+$/.test(s)) return 'number';
+  if (looksLikeDate(s)) return 'date';
+  if (/^(true|false)$/i.test(s)) return 'boolean';
+  return 'text';
+}
+
+/** A column where most values share a type but some don't — "12", "15", "twelve". */
+function checkMixedType(col: ColumnSchema, cells: unknown[]): QualityIssue | null {
+  if (col.type !== 'categorical' || col.semantic) return null;
+  const byClass = new Map<CellClass, string[]>();
+  for (const v of cells) {
+    if (isBlankCell(v)) continue;
+    const cls = classify(v);
+    if (!byClass.has(cls)) byClass.set(cls, []);
+    byClass.get(cls)!.push(label(v));
+  }
+  if (byClass.size < 2) return null;
+  const ranked = [...byClass.entries()].sort((a, b) => b[1].length - a[1].length);
+  const [dominant, dominantValues] = ranked[0];
+  // Free text with the odd number in it is ordinary categorical data.
+  if (dominant === 'text') return null;
+  const stray = ranked.slice(1).flatMap(([, values]) => values);
+  return {
+    kind: 'mixed-type',
+    column: col.name,
+    severity: 'warning',
+    count: stray.length,
+    message: `${stray.length.toLocaleString()} ${stray.length === 1 ? 'value isn\'t' : 'values aren\'t'} ${dominant === 'date' ? 'a date' : `a ${dominant}`} in a column of ${dominantValues.length.toLocaleString()} ${dominant} values — the column is treated as text.`,
+    examples: [...new Set(stray)].slice(0, 3),
+  };
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** Values beyond 1.5 × IQR from the quartiles (Tukey's fences). */
+function checkOutliers(col: ColumnSchema, numbers: number[]): QualityIssue | null {
+  if (numbers.length < MIN_OUTLIER_VALUES || col.semantic === 'latitude' || col.semantic === 'longitude') return null;
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  if (iqr === 0) return null;
+  const low = q1 - 1.5 * iqr;
+  const high = q3 + 1.5 * iqr;
+  const outliers = numbers.filter(n => n < low || n > high);
+  if (outliers.length === 0) return null;
+  const fmt = (n: number) => Number(n.toPrecision(6)).toLocaleString();
+  return {
+    kind: 'outliers',
+    column: col.name,
+    severity: 'info',
+    count: outliers.length,
+    message: `${outliers.length.toLocaleString()} ${outliers.length === 1 ? 'value falls' : 'values fall'} outside the typical range ${fmt(low)} – ${fmt(high)}.`,
+    examples: [...new Set(outliers)].sort((a, b) => Math.abs(b - q3) - Math.abs(a - q3)).slice(0, 3).map(fmt),
+  };
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+interface Spelling { key: string; tokens: string[]; digits: string }
+
+function spelling(value: string): Spelling {
+  const lower = value.toLowerCase();
+  return {
+    key: lower.replace(/[^\p{L}\p{N}]/gu, ''),
+    tokens: lower.split(/[^\p{L}\p{N}]+/u).filter(Boolean),
+    digits: lower.replace(/\D/g, ''),
+  };
+}
+
+/**
+ * Two labels that probably mean the same thing: equal ignoring case and
+ * punctuation ("North-America" / "north america"), abbreviated word for word
+ * ("N. America" / "North America"), or one short typo apart ("Califronia").
+ * Labels with different numbers in them ("Q1" / "Q2") never match.
+ */
+function sameCategory(a: Spelling, b: Spelling): boolean {
+  if (a.key === b.key) return true;
+  if (a.digits !== b.digits || a.tokens.length !== b.tokens.length) return false;
+  const differing = a.tokens.map((t, i) => [t, b.tokens[i]] as const).filter(([x, y]) => x !== y);
+  const abbreviates = ([x, y]: readonly [string, string]) => x.startsWith(y) || y.startsWith(x);
+  if (a.tokens.length >= 2 && differing.length < a.tokens.length && differing.every(abbreviates)) return true;
+  if (differing.length !== 1) return false;
+  const [x, y] = differing[0];
+  const shorter = Math.min(x.length, y.length);
+  const allowed = shorter >= 8 ? 2 : shorter >= 4 ? 1 : 0;
+  return editDistance(x, y) <= allowed;
+}
+
+function checkSpelling(col: ColumnSchema, cells: unknown[]): QualityIssue[] {
+  if (col.type !== 'categorical' || (col.semantic && NO_SPELLING_CHECK.has(col.semantic))) return [];
+  const counts = new Map<string, number>();
+  for (const v of cells) if (!isBlankCell(v)) counts.set(label(v), (counts.get(label(v)) ?? 0) + 1);
+  if (counts.size < 2 || counts.size > MAX_SPELLING_DISTINCT) return [];
+
+  const values = [...counts.keys()];
+  const shapes = values.map(spelling);
+  const parent = values.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      if (find(i) !== find(j) && sameCategory(shapes[i], shapes[j])) parent[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  values.forEach((v, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(v);
+  });
+
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    // The most frequent spelling wins; on a tie the longer (unabbreviated) one.
+    .map(group => group.sort((a, b) => counts.get(b)! - counts.get(a)! || b.length - a.length))
+    .slice(0, MAX_SPELLING_GROUPS)
+    .map(([canonical, ...variants]): QualityIssue => {
+      const affected = variants.reduce((acc, v) => acc + counts.get(v)!, 0);
+      return {
+        kind: 'spelling',
+        column: col.name,
+        severity: 'warning',
+        count: affected,
+        message: `${[canonical, ...variants].map(v => `"${v}"`).join(', ')} look like the same category — charts will split them.`,
+        examples: [canonical, ...variants],
+        fixes: [{ kind: 'merge-categories', column: col.name, from: variants, to: canonical }],
+      };
+    });
+}
+
+type Cadence = { unit: 'day' | 'week' | 'month' | 'quarter' | 'year'; index: (t: number) => number };
+
+const CADENCES: Array<Cadence & { days: [number, number] }> = [
+  { unit: 'day', days: [1, 1], index: t => Math.floor(t / DAY_MS) },
+  { unit: 'week', days: [6, 8], index: t => Math.round(t / (7 * DAY_MS)) },
+  { unit: 'month', days: [28, 31], index: t => new Date(t).getUTCFullYear() * 12 + new Date(t).getUTCMonth() },
+  { unit: 'quarter', days: [89, 92], index: t => new Date(t).getUTCFullYear() * 4 + Math.floor(new Date(t).getUTCMonth() / 3) },
+  { unit: 'year', days: [365, 366], index: t => new Date(t).getUTCFullYear() },
+];
+
+const isWeekend = (day: number) => [0, 6].includes(new Date(day * DAY_MS).getUTCDay());
+const isoDay = (t: number) => new Date(t).toISOString().slice(0, 10);
+
+/** Holes in a regular date sequence — a daily series missing days, a monthly one missing months. */
+function checkDateGaps(col: ColumnSchema, cells: unknown[]): QualityIssue | null {
+  if (col.type !== 'date') return null;
+  const times = [...new Set(
+    cells.filter(v => !isBlankCell(v)).map(v => Date.parse(label(v))).filter(t => !Number.isNaN(t))
+  )].sort((a, b) => a - b);
+  if (times.length < MIN_DATE_POINTS) return null;
+
+  const dayDiffs = times.slice(1).map((t, i) => Math.round((t - times[i]) / DAY_MS)).sort((a, b) => a - b);
+  const step = dayDiffs[Math.floor(dayDiffs.length / 2)];
+  const cadence = CADENCES.find(c => step >= c.days[0] && step <= c.days[1]);
+  if (!cadence) return null;
+
+  const indices = [...new Set(times.map(cadence.index))].sort((a, b) => a - b);
+  // Business-day series: weekends aren't gaps when no row ever falls on one.
+  const skipWeekends = cadence.unit === 'day' && !indices.some(isWeekend);
+  let missing = 0;
+  const gaps: string[] = [];
+  for (let i = 1; i < indices.length; i++) {
+    let hole = 0;
+    for (let k = indices[i - 1] + 1; k < indices[i]; k++) if (!(skipWeekends && isWeekend(k))) hole++;
+    if (hole === 0) continue;
+    missing += hole;
+    const before = times.find(t => cadence.index(t) === indices[i - 1])!;
+    const after = times.find(t => cadence.index(t) === indices[i])!;
+    gaps.push(`${isoDay(before)} → ${isoDay(after)}`);
+  }
+  if (missing === 0) return null;
+  return {
+    kind: 'date-gaps',
+    column: col.name,
+    severity: 'info',
+    count: missing,
+    message: `${missing.toLocaleString()} missing ${cadence.unit}${missing === 1 ? '' : 's'} in a ${cadence.unit === 'day' ? 'daily' : `${cadence.unit}ly`} sequence from ${isoDay(times[0])} to ${isoDay(times[times.length - 1])} — lines will bridge the gap.`,
+    examples: gaps.slice(0, 3),
+  };
+}
+
+// ── Entry points ────────────────────────────────────────────────────────────
+
+/** Profile `rows` (parsed row objects) — every check is deterministic and runs on the full dataset. */
+export function profileDataQuality(rows: Row[]): DataQualityReport {
+  if (!Array.isArray(rows) || rows.length === 0) return { rowCount: 0, columns: [], issues: [] };
+
+  // Placeholders become real blanks so the schema sees "12, N/A, 15" as numeric.
+  const blanked = rows.map(row => {
+    const out: Row = {};
+    for (const [k, v] of Object.entries(row)) out[k] = isBlankCell(v) ? null : v;
+    return out;
+  });
+  const schema = inferSchema(blanked);
+  const numericValues = new Map(
+    detectColumns(blanked).filter(c => c.type === 'numeric').map(c => [c.name, c.values as number[]])
+  );
+  const names = schema.map(c => c.name);
+
+  const issues: QualityIssue[] = [];
+  const duplicates = checkDuplicates(rows, names);
+  if (duplicates) issues.push(duplicates);
+
+  const columns = schema.map((col): ColumnProfile => {
+    const cells = rows.map(r => r[col.name]);
+    const numbers = numericValues.get(col.name) ?? null;
+    for (const issue of [
+      checkMissing(col, cells, numbers, rows.length),
+      checkMixedType(col, cells),
+      ...checkSpelling(col, cells),
+      numbers ? checkOutliers(col, numbers) : null,
+      checkDateGaps(col, cells),
+    ]) {
+      if (issue) issues.push(issue);
+    }
+    return {
+      name: col.name,
+      type: col.type,
+      ...(col.semantic ? { semantic: col.semantic } : {}),
+      missing: cells.filter(isBlankCell).length,
+      distinct: new Set(cells.filter(v => !isBlankCell(v)).map(label)).size,
+    };
+  });
+
+  issues.sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'warning' ? -1 : 1)
+    || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+    || b.count - a.count
+  );
+  return { rowCount: rows.length, columns, issues };
+}
+
+/** A cleaned copy of `rows` with `fix` applied — the input is never mutated. */
+export function applyQualityFix(rows: Row[], fix: QualityFix): Row[] {
+  switch (fix.kind) {
+    case 'drop-duplicates': {
+      const names = Object.keys(rows[0] ?? {});
+      const seen = new Set<string>();
+      return rows.filter(row => {
+        const key = rowKey(row, names);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+    case 'merge-categories': {
+      const from = new Set(fix.from);
+      return rows.map(row =>
+        !isBlankCell(row[fix.column]) && from.has(label(row[fix.column])) ? { ...row, [fix.column]: fix.to } : row
+      );
+    }
+    case 'fill-nulls':
+      return rows.map(row => (isBlankCell(row[fix.column]) ? { ...row, [fix.column]: fix.value } : row));
+    case 'drop-nulls':
+      return rows.filter(row => !isBlankCell(row[fix.column]));
+  }
+}
+
+/** Button / history label — "Drop duplicate rows", "Merge into “North America”". */
+export function describeQualityFix(fix: QualityFix): string {
+  switch (fix.kind) {
+    case 'drop-duplicates': return 'Drop duplicate rows';
+    case 'merge-categories': return `Merge into “${fix.to}”`;
+    case 'fill-nulls': return `Fill blanks with ${typeof fix.value === 'number' ? fix.value.toLocaleString() : `“${fix.value}”`}`;
+    case 'drop-nulls': return 'Drop rows with blanks';
+  }
+}
@@ -0,0 +1,257 @@
+// ============================================================================
+// DATA VERIFIER — checks a chart's numbers against its source rows
+//
+// Runs after generation and edits whenever the chart has an attached dataset
+// or live sheet. For each series it looks for a category column whose values
+// cover the chart's labels (dates are also tried bucketed by month, quarter
+// and year), then tries, in order:
+//   1. verified — every value appears verbatim in the single row for its label
+//   2. derived  — every value equals an aggregate (sum/mean/median/min/max/
+//                 count) of a numeric column per label
+//   3. unverifiable — nothing in the data reproduces the values
+// Series split by a grouping column (series name = a value in that column)
+// are checked against just those rows. Small rounding differences (≤0.5%)
+// are tolerated, since the AI rounds values for display.
+// ============================================================================
+
+import type { EChartsOption } from 'echarts';
+import { inferSchema, normalizeRows, type ColumnSchema } from '@/lib/utils/csv-schema';
+import { bucketDate, toNumber, aggregate } from '@/lib/utils/aggregation-engine';
+import { applyTransforms, runPipeline } from '@/lib/utils/transform-engine';
+import type { EncodingAggregate, EncodingPlan, EncodingTimeUnit } from '@/lib/types/encoding-plan';
+import type { TransformStep } from '@/lib/types/transform';
+import type { DataVerification, SeriesVerification, VerificationStatus } from '@/lib/types/data-verification';
+
+type Row = Record<string, unknown>;
+type AnyRecord = Record<string, unknown>;
+
+interface LabeledPoint {
+  label: string;
+  value: number;
+}
+
+const AGGREGATES: EncodingAggregate[] = ['sum', 'mean', 'median', 'min', 'max', 'count'];
+const DATE_BUCKETS: EncodingTimeUnit[] = ['month', 'quarter', 'year'];
+const STATUS_RANK: Record<VerificationStatus, number> = { verified: 0, derived: 1, unverifiable: 2 };
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value == null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function normalizeLabel(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim().toLowerCase();
+}
+
+function approxEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(0.01, Math.abs(b) * 0.005);
+}
+
+function pointValue(entry: unknown, valueIndex: number): number | null {
+  if (typeof entry === 'number') return Number.isFinite(entry) ? entry : null;
+  if (Array.isArray(entry)) return toNumber(entry[valueIndex]);
+  if (entry && typeof entry === 'object') {
+    const value = (entry as AnyRecord).value;
+    return Array.isArray(value) ? toNumber(value[valueIndex]) : toNumber(value);
+  }
+  return null;
+}
+
+/** Category axis labels, and which side of an `[x, y]` pair holds the value. */
+function findCategoryLabels(option: EChartsOption): { labels: string[]; valueIndex: number } | null {
+  for (const key of ['xAxis', 'yAxis'] as const) {
+    for (const axis of asArray(option[key] as AnyRecord | AnyRecord[] | undefined)) {
+      if (axis?.type === 'category' && Array.isArray(axis.data)) {
+        const labels = (axis.data as unknown[]).map(d => normalizeLabel(d && typeof d === 'object' ? (d as AnyRecord).value : d));
+        return { labels, valueIndex: key === 'xAxis' ? 1 : 0 };
+      }
+    }
+  }
+  return null;
+}
+
+/** Ways to turn a row into a category label: each column raw, plus date columns bucketed. */
+function labelKeys(schema: ColumnSchema[]): Array<{ description: string; key: (row: Row) => string }> {
+  const keys: Array<{ description: string; key: (row: Row) => string }> = [];
+  for (const col of schema) {
+    keys.push({ description: `"${col.name}"`, key: row => normalizeLabel(row[col.name]) });
+    if (col.type === 'date') {
+      for (const unit of DATE_BUCKETS) {
+        keys.push({ description: `"${col.name}" (${unit})`, key: row => normalizeLabel(bucketDate(row[col.name], unit)) });
+      }
+    }
+  }
+  return keys;
+}
+
+function groupRows(rows: Row[], key: (row: Row) => string): Map<string, Row[]> {
+  const groups = new Map<string, Row[]>();
+  for (const row of rows) {
+    const label = key(row);
+    if (!label) continue;
+    if (!groups.has(label)) groups.set(label, []);
+    groups.get(label)!.push(row);
+  }
+  return groups;
+}
+
+/** Rows for a series named after a value of some categorical column (e.g. series "East" → region = East). */
+function seriesSubsets(rows: Row[], schema: ColumnSchema[], seriesName: string): Array<{ description: string; rows: Row[] }> {
+  const subsets: Array<{ description: string; rows: Row[] }> = [{ description: '', rows }];
+  const target = normalizeLabel(seriesName);
+  if (!target) return subsets;
+  for (const col of schema) {
+    if (col.type !== 'categorical') continue;
+    const matched = rows.filter(r => normalizeLabel(r[col.name]) === target);
+    if (matched.length > 0) subsets.unshift({ description: ` where "${col.name}" = ${seriesName}`, rows: matched });
+  }
+  return subsets;
+}
+
+function checkLabeledSeries(name: string, points: LabeledPoint[], rows: Row[], schema: ColumnSchema[]): SeriesVerification {
+  if (points.length === 0) return { name, status: 'unverifiable', detail: 'No numeric values to check' };
+
+  const numericCols = schema.filter(c => c.type === 'numeric');
+  let derived: SeriesVerification | null = null;
+
+  for (const subset of seriesSubsets(rows, schema, name)) {
+    for (const { description, key } of labelKeys(schema)) {
+      const groups = groupRows(subset.rows, key);
+      if (!points.every(p => groups.has(p.label))) continue;
+
+      const valuesOf = (label: string, column: string) =>
+        groups.get(label)!.map(r => toNumber(r[column])).filter((v): v is number => v !== null);
+
+      for (const col of numericCols) {
+        const verbatim = points.every(p => {
+          const group = groups.get(p.label)!;
+          const v = group.length === 1 ? toNumber(group[0][col.name]) : null;
+          return v !== null && approxEqual(p.value, v);
+        });
+        if (verbatim) {
+          return { name, status: 'verified', detail: `Matches "${col.name}" by ${description}${subset.description}` };
+        }
+      }
+
+      if (derived) continue;
+      for (const fn of AGGREGATES) {
+        const columns = fn === 'count' ? [numericCols[0]?.name ?? ''] : numericCols.map(c => c.name);
+        for (const column of columns) {
+          const matches = points.every(p => {
+            const expected = aggregate(valuesOf(p.label, column), groups.get(p.label)!.length, fn);
+            return expected !== null && approxEqual(p.value, expected);
+          });
+          if (matches) {
+            const what = fn === 'count' ? 'Row count' : `${fn[0].toUpperCase()}${fn.slice(1)} of "${column}"`;
+            derived = { name, status: 'derived', detail: `${what} by ${description}${subset.description}` };
+            break;
+          }
+        }
+        if (derived) break;
+      }
+    }
+  }
+
+  return derived ?? { name, status: 'unverifiable', detail: 'Values could not be reproduced from the dataset' };
+}
+
+function checkScatterSeries(name: string, data: unknown[], rows: Row[], schema: ColumnSchema[]): SeriesVerification {
+  const points = data
+    .map(d => (Array.isArray(d) ? d : d && typeof d === 'object' ? (d as AnyRecord).value : null))
+    .filter((d): d is unknown[] => Array.isArray(d))
+    .map(([x, y]) => [toNumber(x), toNumber(y)])
+    .filter((p): p is [number, number] => p[0] !== null && p[1] !== null);
+  if (points.length === 0) return { name, status: 'unverifiable', detail: 'No numeric points to check' };
+
+  const numericCols = schema.filter(c => c.type === 'numeric').map(c => c.name);
+  const keyOf = (x: number, y: number) => `${x.toPrecision(6)}|${y.toPrecision(6)}`;
+  for (const xCol of numericCols) {
+    for (const yCol of numericCols) {
+      if (xCol === yCol) continue;
+      const pairs = new Set<string>();
+      for (const row of rows) {
+        const x = toNumber(row[xCol]);
+        const y = toNumber(row[yCol]);
+        if (x !== null && y !== null) pairs.add(keyOf(x, y));
+      }
+      if (points.every(([x, y]) => pairs.has(keyOf(x, y)))) {
+        return { name, status: 'verified', detail: `Points match "${xCol}" × "${yCol}"` };
+      }
+    }
+  }
+  return { name, status: 'unverifiable', detail: 'Points could not be found in the dataset' };
+}
+
+/** True when the option's series data equals what the transforms + encoding plan compute from `rows`. */
+function matchesEncodingPlan(option: EChartsOption, rows: Row[], plan: EncodingPlan, schema: ColumnSchema[], transforms?: TransformStep[]): boolean {
+  const built = runPipeline(rows, plan, transforms, schema);
+  if (!built.ok) return false;
+  const expected = asArray(built.option.series as AnyRecord | AnyRecord[] | undefined);
+  const actual = asArray(option.series as AnyRecord | AnyRecord[] | undefined);
+  if (expected.length !== actual.length) return false;
+  return expected.every((e, i) => JSON.stringify(e.data) === JSON.stringify(actual[i]?.data));
+}
+
+/**
+ * Check every series in `option` against the dataset `rows`. `source` is a
+ * display name for the dataset (file name or sheet URL). When the chart was
+ * built from an encoding plan and still matches it, every series is derived
+ * by construction. Otherwise series are looked up in the rows after the
+ * chart's `transforms` (when they still apply), so derived columns count.
+ */
+export function verifyChartData(
+  option: EChartsOption,
+  sourceRows: Row[],
+  source: string,
+  encoding?: EncodingPlan,
+  transforms?: TransformStep[]
+): DataVerification {
+  const sourceSchema = inferSchema(sourceRows);
+  const transformed = transforms?.length ? applyTransforms(sourceRows, transforms, sourceSchema) : null;
+  // Currency / percent / duration cells are compared as the numbers they parse to.
+  const rows = transformed?.ok ? transformed.rows : normalizeRows(sourceRows, sourceSchema);
+  const schema = transformed?.ok ? inferSchema(rows) : sourceSchema;
+  const seriesList = asArray(option.series as AnyRecord | AnyRecord[] | undefined);
+  const seriesName = (s: AnyRecord, i: number) => (typeof s.name === 'string' && s.name) || `Series ${i + 1}`;
+
+  let series: SeriesVerification[];
+  if (encoding && matchesEncodingPlan(option, sourceRows, encoding, sourceSchema, transforms)) {
+    series = seriesList.map((s, i) => ({
+      name: seriesName(s, i),
+      status: 'derived' as const,
+      detail: transforms?.length
+        ? `Computed from ${sourceRows.length.toLocaleString()} rows by the chart's transform steps and encoding plan`
+        : `Computed from ${sourceRows.length.toLocaleString()} rows by the chart's encoding plan`,
+    }));
+  } else {
+    const categories = findCategoryLabels(option);
+    series = seriesList.map((s, i): SeriesVerification => {
+      const name = seriesName(s, i);
+      const data = Array.isArray(s.data) ? (s.data as unknown[]) : [];
+
+      if ((s.type === 'bar' || s.type === 'line') && categories) {
+        const points = data
+          .map((d, j) => ({ label: categories.labels[j] ?? '', value: pointValue(d, categories.valueIndex) }))
+          .filter((p): p is LabeledPoint => p.value !== null && p.label !== '');
+        return checkLabeledSeries(name, points, rows, schema);
+      }
+      if (s.type === 'pie' || s.type === 'funnel') {
+        const points = data
+          .map(d => (d && typeof d === 'object' ? { label: normalizeLabel((d as AnyRecord).name), value: pointValue(d, 0) } : null))
+          .filter((p): p is LabeledPoint => p !== null && p.value !== null && p.label !== '');
+        return checkLabeledSeries(name, points, rows, schema);
+      }
+      if (s.type === 'scatter' || s.type === 'effectScatter') {
+        return checkScatterSeries(name, data, rows, schema);
+      }
+      return { name, status: 'unverifiable', detail: `"${String(s.type)}" series can't be checked against rows yet` };
+    });
+  }
+
+  const status = series.reduce<VerificationStatus>(
+    (worst, s) => (STATUS_RANK[s.status] > STATUS_RANK[worst] ? s.status : worst),
+    series.length > 0 ? 'verified' : 'unverifiable'
+  );
+
+  return { status, series, source, rowCount: sourceRows.length, checkedAt: new Date().toISOString() };
+}
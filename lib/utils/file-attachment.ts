@@ -2,7 +2,12 @@
 
 import { parseFile } from '@/lib/services/file-parser';
 import { detectColumns } from '@/lib/services/statistics-service';
+import { extractSelection, defaultSheetSelection, type SheetSelection, type WorkbookSheet } from '@/lib/utils/sheet-range';
 import type { DatasetColumn } from '@/lib/types/statistics';
+import type { DatasetDetail } from '@/lib/types/dataset';
+import type { DataQualityReport, QualityFix } from '@/lib/types/data-quality';
+import type { ClipboardTable } from '@/lib/utils/clipboard-table';
+import { applyQualityFix, describeQualityFix, profileDataQuality } from '@/lib/utils/data-quality';
 
 type AttachmentExtension = 'csv' | 'json' | 'txt' | 'xlsx' | 'pdf';
 
@@ -22,6 +27,32 @@ export interface FileAttachment {
    * flow — one parse, shared by both visualization and statistics.
    */
   datasetColumns?: DatasetColumn[];
+  /**
+   * The parsed tabular rows themselves — sent alongside the prompt so the
+   * server can compute the chart's numbers from the real data instead of
+   * letting the AI write them. Omitted for non-tabular files and for
+   * datasets too large to send (those fall back to the embedded excerpt).
+   */
+  rows?: Record<string, unknown>[];
+  /**
+   * Every sheet of an XLSX attachment (every detected table of a PDF, or
+   * the grid of a pasted table) plus which sheet/range is currently
+   * attached — `promptSegment`, `rows` and `datasetColumns` always reflect
+   * `selection`; change it with `applySheetSelection`.
+   */
+  workbook?: {
+    sheets: WorkbookSheet[];
+    selection: SheetSelection;
+  };
+  /**
+   * Set once these rows are saved to (or loaded from) the dataset library —
+   * the chart then references the stored dataset instead of carrying the rows.
+   */
+  datasetId?: string;
+  /** Deterministic profile of the tabular rows — missing values, duplicates, outliers, … (see `profileDataQuality`). */
+  quality?: DataQualityReport;
+  /** Quality fixes applied to produce these rows, in order — empty/absent for the rows as parsed. */
+  cleaning?: string[];
 }
 
 const ACCEPTED_EXTENSIONS: AttachmentExtension[] = ['csv', 'json', 'txt', 'xlsx', 'pdf'];
@@ -30,6 +61,11 @@ export const ATTACHMENT_ACCEPT = '.csv,.json,.txt,.xlsx,.pdf,text/csv,applicatio
 import { VALIDATION_LIMITS } from '@/lib/utils/constants';
 const MAX_EMBED_CHARS = VALIDATION_LIMITS.MAX_EMBED_CHARS;
 
+/** Rows worth sending for exact aggregation — only when they fit the server's dataset limit. */
+function sendableRows(rows: Record<string, unknown>[], serializedLength: number): Record<string, unknown>[] | undefined {
+  return serializedLength <= VALIDATION_LIMITS.MAX_DATASET_SIZE ? rows : undefined;
+}
+
 function truncate(text: string): string {
   if (text.length <= MAX_EMBED_CHARS) return text;
   return `${text.slice(0, MAX_EMBED_CHARS)}\n… (truncated — ${text.length - MAX_EMBED_CHARS} more characters omitted)`;
@@ -43,25 +79,37 @@ export function formatFileSize(bytes: number): string {
 
 /**
  * Reads and validates a data file client-side, producing a compact text block
- * that can be embedded directly into an AI prompt (parse-then-embed approach —
- * no backend signature changes needed for generateVisualization/editVisualizationAction).
+ * that can be embedded directly into an AI prompt (parse-then-embed approach),
+ * plus the parsed rows for exact server-side aggregation when the file is tabular.
  */
 export async function readFileAttachment(file: File): Promise<{ attachment?: FileAttachment; error?: string }> {
   const extension = file.name.split('.').pop()?.toLowerCase();
 
-  if (extension === 'pdf') {
-    return { error: 'PDF support is coming soon — try CSV, JSON, XLSX, or TXT for now.' };
-  }
   if (!extension || !ACCEPTED_EXTENSIONS.includes(extension as AttachmentExtension)) {
-    return { error: `Unsupported file type "${extension ?? file.name}". Accepted: CSV, JSON, XLSX, TXT.` };
+    return { error: `Unsupported file type "${extension ?? file.name}". Accepted: CSV, JSON, XLSX, PDF, TXT.` };
   }
 
   const result = await parseFile(file);
   if (!result.success) return { error: result.error || 'Failed to read file' };
 
+  const base = {
+    id: `${file.name}-${file.size}-${file.lastModified}`,
+    name: file.name,
+    size: file.size,
+    extension: extension as AttachmentExtension,
+  };
+
+  if (result.sheets) {
+    const selection = result.sheets.map(defaultSheetSelection).find(s => s !== null);
+    if (!selection) return { error: 'No data found in any sheet of the workbook' };
+    return applySheetSelection({ ...base, promptSegment: '', workbook: { sheets: result.sheets, selection } }, selection);
+  }
+
   let body: string;
   let rowCount: number | undefined;
   let datasetColumns: DatasetColumn[] | undefined;
+  let rows: Record<string, unknown>[] | undefined;
+  let quality: DataQualityReport | undefined;
   if (Array.isArray(result.data)) {
     rowCount = result.data.length;
     body = JSON.stringify(result.data, null, 2);
@@ -72,6 +120,8 @@ export async function readFileAttachment(file: File): Promise<{ attachment?: Fil
     if (result.data.length > 0 && typeof result.data[0] === 'object' && result.data[0] !== null && !Array.isArray(result.data[0])) {
       const detected = detectColumns(result.data as Record<string, unknown>[]);
       if (detected.length > 0) datasetColumns = detected;
+      rows = sendableRows(result.data as Record<string, unknown>[], body.length);
+      quality = profileDataQuality(result.data as Record<string, unknown>[]);
     }
   } else if (result.data !== undefined) {
     body = JSON.stringify(result.data, null, 2);
@@ -82,15 +132,43 @@ export async function readFileAttachment(file: File): Promise<{ attachment?: Fil
   const rowsLabel = rowCount !== undefined ? ` — ${rowCount.toLocaleString()} rows` : '';
   const promptSegment = `Attached data file "${file.name}"${rowsLabel}:\n\`\`\`\n${truncate(body)}\n\`\`\``;
 
+  return {
+    attachment: { ...base, rowCount, promptSegment, datasetColumns, rows, quality },
+  };
+}
+
+/**
+ * Re-points a workbook attachment at another sheet, range or header depth,
+ * rebuilding everything derived from the table (prompt block, rows, typed
+ * columns) — the attachment chip's sheet picker calls this.
+ */
+export function applySheetSelection(
+  attachment: FileAttachment,
+  selection: SheetSelection
+): { attachment?: FileAttachment; error?: string } {
+  if (!attachment.workbook) return { error: 'This attachment has no sheets to choose from' };
+  const extracted = extractSelection(attachment.workbook.sheets, selection);
+  if ('error' in extracted) return { error: extracted.error };
+
+  const { rows } = extracted.table;
+  const body = JSON.stringify(rows, null, 2);
+  const datasetColumns = detectColumns(rows);
+  const where = attachment.extension === 'pdf'
+    ? `table from ${selection.sheet}, range ${selection.range}`
+    : attachment.workbook.sheets.length > 1
+    ? `sheet "${selection.sheet}", range ${selection.range}`
+    : `range ${selection.range}`;
+
   return {
     attachment: {
-      id: `${file.name}-${file.size}-${file.lastModified}`,
-      name: file.name,
-      size: file.size,
-      extension: extension as AttachmentExtension,
-      rowCount,
-      promptSegment,
-      datasetColumns,
+      ...attachment,
+      rowCount: rows.length,
+      promptSegment: `Attached data file "${attachment.name}" (${where}) — ${rows.length.toLocaleString()} rows:\n\`\`\`\n${truncate(body)}\n\`\`\``,
+      datasetColumns: datasetColumns.length > 0 ? datasetColumns : undefined,
+      rows: sendableRows(rows, body.length),
+      workbook: { ...attachment.workbook, selection },
+      quality: profileDataQuality(rows),
+      cleaning: undefined,
     },
   };
 }
@@ -114,6 +192,74 @@ export function buildSampleAttachment(filename: string, rows: Record<string, unk
     rowCount: rows.length,
     promptSegment,
     datasetColumns: datasetColumns.length > 0 ? datasetColumns : undefined,
+    rows: sendableRows(rows, body.length),
+    quality: profileDataQuality(rows),
+  };
+}
+
+/**
+ * Applies a data-quality fix to a tabular attachment, rebuilding everything
+ * derived from its rows (prompt block, typed columns, quality report) from
+ * the cleaned copy. The cleaned rows no longer match any saved library
+ * dataset, so the `datasetId` link is dropped.
+ */
+export function cleanAttachment(
+  attachment: FileAttachment,
+  fix: QualityFix
+): { attachment?: FileAttachment; error?: string } {
+  if (!attachment.rows) return { error: 'This file is too large to clean in the browser' };
+  const rows = applyQualityFix(attachment.rows, fix);
+  if (rows.length === 0) return { error: 'That fix would remove every row' };
+
+  const cleaning = [...(attachment.cleaning ?? []), 'column' in fix ? `${fix.column}: ${describeQualityFix(fix)}` : describeQualityFix(fix)];
+  const body = JSON.stringify(rows, null, 2);
+  const datasetColumns = detectColumns(rows);
+
+  return {
+    attachment: {
+      ...attachment,
+      rowCount: rows.length,
+      promptSegment: `Attached data file "${attachment.name}" (cleaned: ${cleaning.join('; ')}) — ${rows.length.toLocaleString()} rows:\n\`\`\`\n${truncate(body)}\n\`\`\``,
+      datasetColumns: datasetColumns.length > 0 ? datasetColumns : undefined,
+      rows,
+      quality: profileDataQuality(rows),
+      cleaning,
+      datasetId: undefined,
+    },
+  };
+}
+
+/**
+ * Builds a FileAttachment from a table pasted into the composer (see
+ * `parseClipboardTable`) — the range is auto-detected, the header depth
+ * comes from the paste. The detected table goes through
+ * `buildSampleAttachment` like any in-memory rows; the pasted grid is kept
+ * as a one-sheet workbook so the chip's range picker can preview it and
+ * re-pick the range or header rows.
+ */
+export function buildPastedAttachment({ sheet, headerRows }: ClipboardTable): { attachment?: FileAttachment; error?: string } {
+  const detected = defaultSheetSelection(sheet);
+  if (!detected) return { error: 'The pasted table is empty' };
+  const selection = { ...detected, headerRows };
+  const extracted = extractSelection([sheet], selection);
+  if ('error' in extracted) return { error: extracted.error };
+
+  const name = `${sheet.name}.csv`;
+  return {
+    attachment: {
+      ...buildSampleAttachment(name, extracted.table.rows),
+      id: `pasted-${Date.now()}`,
+      workbook: { sheets: [sheet], selection },
+    },
+  };
+}
+
+/** Attaches a saved library dataset — the same tabular attachment, linked back to it by `datasetId`. */
+export function buildDatasetAttachment(dataset: DatasetDetail): FileAttachment {
+  return {
+    ...buildSampleAttachment(dataset.sourceFileName ?? dataset.name, dataset.rows),
+    id: `dataset-${dataset.id}`,
+    datasetId: dataset.id,
   };
 }
 
@@ -1,5 +1,6 @@
 import { createHash, randomBytes } from 'crypto';
 import type { SavedVisualization } from '@/lib/types/visualization';
+import { resolveSchedule } from '@/lib/utils/schedule';
 
 /**
  * Generate a unique share ID for visualizations
@@ -53,6 +54,9 @@ export function sanitizeVisualization(viz: unknown): SavedVisualization | null {
 
   const metadata = obj.metadata as Record<string, unknown> | undefined;
   const history = obj.history as Array<Record<string, unknown>> | undefined;
+  const forkedFrom = obj.forkedFrom as Record<string, unknown> | undefined;
+  // Legacy schedules carry `dayOfWeek` in place of a rule.
+  const schedule = obj.schedule as (Partial<NonNullable<SavedVisualization['schedule']>> & { dayOfWeek?: number }) | undefined;
 
   const result: SavedVisualization = {
     _id: (obj._id as { toString(): string } | undefined)?.toString(),
@@ -71,9 +75,22 @@ export function sanitizeVisualization(viz: unknown): SavedVisualization | null {
       role: h.role as 'user' | 'assistant',
       content: h.content as string,
       timestamp: h.timestamp ? toIsoString(h.timestamp)! : new Date().toISOString(),
+      ...(Array.isArray(h.changes) && h.changes.length ? { changes: h.changes as string[] } : {}),
+      ...(typeof h.revision === 'number' ? { revision: h.revision } : {}),
     })) : [],
+    forkedFrom: forkedFrom?.visualizationId ? {
+      visualizationId: forkedFrom.visualizationId as string,
+      ...(typeof forkedFrom.turnIndex === 'number' ? { turnIndex: forkedFrom.turnIndex } : {}),
+    } : undefined,
+    datasetId: typeof obj.datasetId === 'string' ? obj.datasetId : undefined,
     liveData: obj.liveData as SavedVisualization['liveData'],
-    schedule: obj.schedule as SavedVisualization['schedule'],
+    schedule: schedule ? {
+      enabled: schedule.enabled ?? false,
+      ...resolveSchedule(schedule),
+      ...(schedule.lastOccurrence ? { lastOccurrence: schedule.lastOccurrence } : {}),
+      ...(schedule.lastSentAt ? { lastSentAt: schedule.lastSentAt } : {}),
+    } : undefined,
+    alerts: Array.isArray(obj.alerts) ? obj.alerts as SavedVisualization['alerts'] : undefined,
     isSaved: obj.isSaved as boolean | undefined,
   };
   return result;
@@ -83,8 +100,17 @@ export function sanitizeForPublicShare(viz: SavedVisualization): SavedVisualizat
   return {
     ...viz,
     userId: '',
+    // The verification source is the owner's file name or sheet URL — keep the status, drop the source.
+    spec: viz.spec.verification ? { ...viz.spec, verification: { ...viz.spec.verification, source: '' } } : viz.spec,
     metadata: viz.metadata ? { ...viz.metadata, originalInput: '' } : viz.metadata,
     history: [],
+    forkedFrom: undefined,
+    datasetId: undefined,
+    // The source is the owner's query and connection, or a URL whose query
+    // string may hold a token — public readers only ever see the chart.
+    liveData: undefined,
+    // Webhook URLs can carry secrets in their path.
+    alerts: undefined,
   };
 }
 
@@ -0,0 +1,118 @@
+// ============================================================================
+// JSON FETCH — REST endpoints as a live data source.
+//
+// Same SSRF-hardened fetch, timeout and response-size cap as `sheet-fetch.ts`; the
+// body is parsed as JSON, the row array picked out with a JSONPath
+// (`json-rows.ts`) and flattened into the `FetchedSheet` shape, so chart
+// refresh and verification consume it exactly like a sheet.
+// ============================================================================
+
+import * as Sentry from '@sentry/nextjs';
+import Papa from 'papaparse';
+import { inferSchema } from '@/lib/utils/csv-schema';
+import { flattenRecords, selectRecords } from '@/lib/utils/json-rows';
+import { outboundFetch } from '@/lib/utils/outbound-fetch';
+import {
+  readCappedBody,
+  FETCH_TIMEOUT_MS,
+  MAX_RESPONSE_BYTES,
+  type FetchedSheet,
+  type FetchedSheetError,
+} from '@/lib/utils/sheet-fetch';
+
+/** Rows kept from one response — a sheet export of this size is already past the byte cap. */
+export const MAX_JSON_ROWS = 5000;
+
+/** A decrypted auth header to send with the request — see `DataConnection` (engine `http`). */
+export interface JsonAuthHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * Fetches a JSON endpoint and flattens the records at `path` into a sheet.
+ * Unlike CSV, a body cut off at the size cap can't be parsed at all, so an
+ * oversized response is an error rather than a truncated result.
+ */
+export async function fetchAndParseJson(
+  url: string,
+  path?: string,
+  auth?: JsonAuthHeader
+): Promise<FetchedSheet | FetchedSheetError> {
+  try {
+    new URL(url);
+  } catch {
+    return { ok: false, error: 'Invalid URL', status: 400 };
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const fetched = await outboundFetch(url, {
+      signal: controller.signal,
+      headers: { Accept: 'application/json', ...(auth ? { [auth.name]: auth.value } : {}) },
+      // A redirect would carry the auth header to wherever it points.
+      // Credentialed requests don't follow them.
+      redirect: auth ? 'error' : 'follow',
+    });
+    if (!fetched.ok) return fetched;
+    const res = fetched.response;
+
+    if (!res.ok) {
+      return { ok: false, error: `Source returned ${res.status} ${res.statusText}`, status: 502 };
+    }
+
+    const contentType = res.headers.get('content-type') ?? '';
+    if (contentType.includes('text/html')) {
+      return { ok: false, error: 'URL returned an HTML page, not JSON — check the URL and any required auth', status: 400 };
+    }
+
+    const body = await readCappedBody(res);
+    if (!body) {
+      return { ok: false, error: 'Empty response from source', status: 502 };
+    }
+    if (body.truncated) {
+      return {
+        ok: false,
+        error: `Response is larger than ${MAX_RESPONSE_BYTES / 1024} KB — filter or page it with query parameters`,
+        status: 413,
+      };
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(body.text);
+    } catch {
+      return { ok: false, error: 'URL did not return valid JSON', status: 400 };
+    }
+
+    const selected = selectRecords(json, path);
+    if ('error' in selected) return { ok: false, error: selected.error, status: 400 };
+
+    const truncated = selected.records.length > MAX_JSON_ROWS;
+    const { headers, rows } = flattenRecords(selected.records.slice(0, MAX_JSON_ROWS));
+    if (headers.length === 0) {
+      return { ok: false, error: 'The selected records have no fields', status: 400 };
+    }
+
+    return {
+      ok: true,
+      rawCsv: Papa.unparse(rows, { columns: headers }),
+      headers,
+      rows,
+      rowCount: rows.length,
+      schema: inferSchema(rows),
+      truncated,
+    };
+  } catch (err: unknown) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      return { ok: false, error: 'Request timed out', status: 504 };
+    }
+    console.error(err);
+    Sentry.captureException(err);
+    return { ok: false, error: 'Failed to fetch data source', status: 502 };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
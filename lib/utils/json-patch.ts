@@ -0,0 +1,201 @@
+// ============================================================================
+// JSON PATCH (RFC 6902) — apply + describe path-based diffs against an option
+//
+// Lets AI edits return only the operations that change a chart instead of
+// round-tripping the complete `option`. Applied to a clone, so a patch that
+// fails part-way never leaves the caller holding a half-edited option.
+// Supports the full op set: add, remove, replace, move, copy, test.
+// ============================================================================
+
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+type Container = Record<string, unknown> | unknown[];
+
+// Patches come straight from model output — a path through any of these
+// would reach (and write to) Object.prototype instead of the option.
+const FORBIDDEN_TOKENS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/** Split a JSON Pointer ("/series/0/data/-") into unescaped reference tokens. */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON pointer "${pointer}"`);
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/** `parsePointer` for paths an operation reads or writes — rejects prototype-reaching tokens. */
+function pathTokens(pointer: string): string[] {
+  const tokens = parsePointer(pointer);
+  const forbidden = tokens.find(token => FORBIDDEN_TOKENS.has(token));
+  if (forbidden !== undefined) throw new Error(`Path "${pointer}" uses the reserved key "${forbidden}"`);
+  return tokens;
+}
+
+function arrayIndex(arr: unknown[], token: string, allowEnd: boolean): number {
+  if (token === '-' && allowEnd) return arr.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) throw new Error(`Invalid array index "${token}"`);
+  const index = Number(token);
+  const max = allowEnd ? arr.length : arr.length - 1;
+  if (index > max) throw new Error(`Array index ${index} out of bounds`);
+  return index;
+}
+
+/** Walk to the parent container of `tokens`' last segment. */
+function resolveParent(doc: unknown, tokens: string[], pointer: string): Container {
+  let node = doc;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(node)) node = node[arrayIndex(node, token, false)];
+    else if (node && typeof node === 'object' && Object.hasOwn(node, token)) node = (node as Record<string, unknown>)[token];
+    else throw new Error(`Path "${pointer}" does not exist`);
+  }
+  if (!node || typeof node !== 'object') throw new Error(`Path "${pointer}" does not point into an object or array`);
+  return node as Container;
+}
+
+function getValue(doc: unknown, pointer: string): unknown {
+  const tokens = pathTokens(pointer);
+  if (tokens.length === 0) return doc;
+  const parent = resolveParent(doc, tokens, pointer);
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) return parent[arrayIndex(parent, last, false)];
+  if (!Object.hasOwn(parent, last)) throw new Error(`Path "${pointer}" does not exist`);
+  return parent[last];
+}
+
+function addValue(doc: unknown, pointer: string, value: unknown): unknown {
+  const tokens = pathTokens(pointer);
+  if (tokens.length === 0) return value;
+  const parent = resolveParent(doc, tokens, pointer);
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, last, true), 0, value);
+  else parent[last] = value;
+  return doc;
+}
+
+function removeValue(doc: unknown, pointer: string): unknown {
+  const tokens = pathTokens(pointer);
+  if (tokens.length === 0) throw new Error('Cannot remove the document root');
+  const parent = resolveParent(doc, tokens, pointer);
+  const last = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, last, false), 1);
+  } else {
+    if (!Object.hasOwn(parent, last)) throw new Error(`Path "${pointer}" does not exist`);
+    delete parent[last];
+  }
+  return doc;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
+
+/**
+ * Apply an RFC 6902 patch to a deep clone of `doc` and return the result.
+ * Throws on the first operation that can't be applied (bad path, failed
+ * `test`, unknown op) — callers treat that as "patch failed" and fall back.
+ */
+export function applyJsonPatch<T>(doc: T, patch: JsonPatchOperation[]): T {
+  if (!Array.isArray(patch)) throw new Error('Patch must be an array of operations');
+
+  let result: unknown = clone(doc);
+  for (const operation of patch) {
+    if (!operation || typeof operation !== 'object' || typeof operation.path !== 'string') {
+      throw new Error('Malformed patch operation');
+    }
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, operation.path, clone(operation.value));
+        break;
+      case 'remove':
+        result = removeValue(result, operation.path);
+        break;
+      case 'replace':
+        getValue(result, operation.path); // must already exist
+        result = operation.path === ''
+          ? clone(operation.value)
+          : addValue(removeValue(result, operation.path), operation.path, clone(operation.value));
+        break;
+      case 'move': {
+        if (operation.path.startsWith(`${operation.from}/`)) throw new Error('Cannot move a value into its own child');
+        const value = getValue(result, operation.from);
+        result = addValue(removeValue(result, operation.from), operation.path, value);
+        break;
+      }
+      case 'copy':
+        result = addValue(result, operation.path, clone(getValue(result, operation.from)));
+        break;
+      case 'test':
+        if (JSON.stringify(getValue(result, operation.path)) !== JSON.stringify(operation.value)) {
+          throw new Error(`Test failed at "${operation.path}"`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown patch op "${(operation as { op?: unknown }).op}"`);
+    }
+  }
+  return result as T;
+}
+
+/** "/series/0/data/3" → "series[0].data[3]" for display. */
+export function formatPointer(pointer: string): string {
+  return parsePointer(pointer).reduce(
+    (acc, token) => (/^\d+$/.test(token) || token === '-' ? `${acc}[${token === '-' ? 'end' : token}]` : acc ? `${acc}.${token}` : token),
+    ''
+  ) || '(whole chart)';
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return String(value);
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return `[${value.length} item${value.length === 1 ? '' : 's'}]`;
+  const name = (value as Record<string, unknown>).name;
+  return typeof name === 'string' ? `{ "${name}" }` : '{…}';
+}
+
+function describeOperation(current: unknown, operation: JsonPatchOperation): string | null {
+  const path = formatPointer(operation.path);
+  switch (operation.op) {
+    case 'add':
+      return `Added ${path}: ${formatValue(operation.value)}`;
+    case 'remove':
+      return `Removed ${path}`;
+    case 'replace': {
+      let previous: unknown;
+      try { previous = getValue(current, operation.path); } catch { previous = undefined; }
+      return `${path}: ${formatValue(previous)} → ${formatValue(operation.value)}`;
+    }
+    case 'move':
+      return `Moved ${formatPointer(operation.from)} → ${path}`;
+    case 'copy':
+      return `Copied ${formatPointer(operation.from)} → ${path}`;
+    case 'test':
+      return null;
+  }
+}
+
+/**
+ * One human-readable line per mutating operation ("series[0].data[3]: 420 →
+ * 510"), each resolved against the option as it stood when that operation
+ * ran — shown in the chat thread so the user sees exactly what an edit
+ * touched. `test` ops are omitted.
+ */
+export function describeJsonPatch(before: unknown, patch: JsonPatchOperation[]): string[] {
+  const lines: string[] = [];
+  let current = before;
+  for (const operation of patch) {
+    const line = describeOperation(current, operation);
+    if (line) lines.push(line);
+    try { current = applyJsonPatch(current, [operation]); } catch { /* describe the rest best-effort */ }
+  }
+  return lines;
+}
@@ -0,0 +1,165 @@
+// ============================================================================
+// JSON ROWS — pick the row array out of an API response and flatten it into
+// a table.
+//
+// REST endpoints wrap their records (`{ data: { items: [...] }, meta }`) and
+// nest fields inside them (`{ user: { name } }`). A JSONPath expression —
+// the common subset: `$`, `.key`, `['key']`, `[n]`, `[*]` / `.*` and `..key`
+// — selects the records; when none is given the first array of objects
+// found (breadth-first) is used. Each record becomes one row with nested
+// objects flattened to dotted column names ("user.name").
+// ============================================================================
+
+type JsonValue = unknown;
+
+type PathStep =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descend'; key: string };
+
+/** Nesting depth past which objects are kept as JSON text rather than flattened further. */
+const MAX_FLATTEN_DEPTH = 4;
+
+/** Parse a JSONPath subset into steps — null when the expression uses anything unsupported. */
+export function parseJsonPath(expression: string): PathStep[] | null {
+  const text = expression.trim();
+  if (!text.startsWith('$')) return null;
+
+  const steps: PathStep[] = [];
+  let i = 1;
+  const identifier = /^[A-Za-z_$][\w$-]*/;
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    if (rest.startsWith('..')) {
+      const match = identifier.exec(rest.slice(2));
+      if (!match) return null;
+      steps.push({ kind: 'descend', key: match[0] });
+      i += 2 + match[0].length;
+    } else if (rest.startsWith('.*')) {
+      steps.push({ kind: 'wildcard' });
+      i += 2;
+    } else if (rest.startsWith('.')) {
+      const match = identifier.exec(rest.slice(1));
+      if (!match) return null;
+      steps.push({ kind: 'key', key: match[0] });
+      i += 1 + match[0].length;
+    } else if (rest.startsWith('[')) {
+      const close = rest.indexOf(']');
+      if (close === -1) return null;
+      const inner = rest.slice(1, close).trim();
+      if (inner === '*') steps.push({ kind: 'wildcard' });
+      else if (/^-?\d+$/.test(inner)) steps.push({ kind: 'index', index: Number(inner) });
+      else if (/^'[^']*'$|^"[^"]*"$/.test(inner)) steps.push({ kind: 'key', key: inner.slice(1, -1) });
+      else return null;
+      i += close + 1;
+    } else {
+      return null;
+    }
+  }
+  return steps;
+}
+
+function isPlainObject(value: JsonValue): value is Record<string, JsonValue> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function children(value: JsonValue): JsonValue[] {
+  if (Array.isArray(value)) return value;
+  if (isPlainObject(value)) return Object.values(value);
+  return [];
+}
+
+/** Every value under `value` (itself included) that has `key`, depth-first. */
+function descend(value: JsonValue, key: string, out: JsonValue[]): void {
+  if (isPlainObject(value) && key in value) out.push(value[key]);
+  for (const child of children(value)) descend(child, key, out);
+}
+
+/** All values `steps` selects from `root`. */
+export function evaluateJsonPath(root: JsonValue, steps: PathStep[]): JsonValue[] {
+  let current: JsonValue[] = [root];
+  for (const step of steps) {
+    const next: JsonValue[] = [];
+    for (const value of current) {
+      if (step.kind === 'key') {
+        if (isPlainObject(value) && step.key in value) next.push(value[step.key]);
+      } else if (step.kind === 'index') {
+        if (Array.isArray(value)) {
+          const item = value[step.index < 0 ? value.length + step.index : step.index];
+          if (item !== undefined) next.push(item);
+        }
+      } else if (step.kind === 'wildcard') {
+        next.push(...children(value));
+      } else {
+        descend(value, step.key, next);
+      }
+    }
+    current = next;
+  }
+  return current;
+}
+
+/** The first array whose items are mostly objects, searching breadth-first from the root. */
+function findRecordArray(root: JsonValue): JsonValue[] | null {
+  const queue: JsonValue[] = [root];
+  while (queue.length > 0) {
+    const value = queue.shift();
+    if (Array.isArray(value) && value.length > 0 && value.filter(isPlainObject).length >= value.length / 2) {
+      return value;
+    }
+    if (isPlainObject(value)) queue.push(...Object.values(value));
+  }
+  return null;
+}
+
+/**
+ * The records a path selects. A path ending on an array (`$.data.items`)
+ * yields its items; one ending on several values (`$.data.items[*]`,
+ * `$..row`) yields those values; a single object is one record.
+ */
+export function selectRecords(root: JsonValue, path?: string): { records: JsonValue[] } | { error: string } {
+  if (!path?.trim()) {
+    const found = Array.isArray(root) ? root : findRecordArray(root);
+    return found ? { records: found } : { error: 'No array of records found in the response — add a path like $.data.items' };
+  }
+
+  const steps = parseJsonPath(path);
+  if (!steps) return { error: `"${path}" isn't a supported JSONPath — use forms like $.data.items or $.results[*]` };
+
+  const matches = evaluateJsonPath(root, steps);
+  if (matches.length === 0) return { error: `Nothing in the response matches ${path}` };
+  if (matches.length === 1 && Array.isArray(matches[0])) return { records: matches[0] };
+  return { records: matches };
+}
+
+function flattenInto(value: JsonValue, prefix: string, depth: number, row: Record<string, unknown>): void {
+  if (isPlainObject(value) && depth < MAX_FLATTEN_DEPTH && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) flattenInto(child, prefix ? `${prefix}.${key}` : key, depth + 1, row);
+    return;
+  }
+  const column = prefix || 'value';
+  if (value === undefined || value === null) row[column] = null;
+  else if (typeof value === 'object') row[column] = JSON.stringify(value);
+  else row[column] = value;
+}
+
+/**
+ * Flatten records into rows. Nested objects become dotted columns, arrays
+ * and over-deep objects are kept as JSON text, and a bare scalar becomes a
+ * single `value` column. Headers are the union of every row's keys, in
+ * first-seen order — records missing a field get null for it.
+ */
+export function flattenRecords(records: JsonValue[]): { headers: string[]; rows: Record<string, unknown>[] } {
+  const headerSet = new Set<string>();
+  const flat = records.map(record => {
+    const row: Record<string, unknown> = {};
+    flattenInto(record, '', 0, row);
+    for (const key of Object.keys(row)) headerSet.add(key);
+    return row;
+  });
+  const headers = [...headerSet];
+  const rows = flat.map(row => Object.fromEntries(headers.map(h => [h, row[h] ?? null])));
+  return { headers, rows };
+}
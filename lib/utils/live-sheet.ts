@@ -4,9 +4,10 @@ import Papa from 'papaparse';
 import { type ColumnSchema, formatSchemaForPrompt } from '@/lib/utils/csv-schema';
 import { detectColumns } from '@/lib/services/statistics-service';
 import type { DatasetColumn } from '@/lib/types/statistics';
+import type { LiveSourceRef } from '@/lib/utils/live-source';
 
-export interface LiveSheetData {
-  url: string;
+/** A connected live source's current data — a sheet (`url`), a SQL query (`sql`) or a JSON API (`json`), despite the name. */
+export interface LiveSheetData extends LiveSourceRef {
   rawCsv: string;
   headers: string[];
   rowCount: number;
@@ -19,14 +20,34 @@ export interface LiveSheetData {
   datasetColumns?: DatasetColumn[];
 }
 
-/** Re-parses `rawCsv` into typed columns for the stat test picker (mirrors the server's `header: true, dynamicTyping: true` parse). */
-export function detectLiveSheetColumns(rawCsv: string): DatasetColumn[] {
-  const result = Papa.parse<Record<string, unknown>>(rawCsv, {
+/**
+ * Fetch a live source's current data through `/api/live-data` — GET for
+ * sheet URLs, POST for SQL queries and JSON APIs (any connection is
+ * resolved server-side).
+ */
+export function requestLiveData(ref: LiveSourceRef): Promise<Response> {
+  if (ref.sql || ref.json) {
+    return fetch('/api/live-data', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ref.sql ? { sql: ref.sql } : { json: ref.json }),
+    });
+  }
+  return fetch(`/api/live-data?url=${encodeURIComponent(ref.url ?? '')}`);
+}
+
+/** Re-parses `rawCsv` into row objects (mirrors the server's `header: true, dynamicTyping: true` parse). */
+export function parseLiveSheetRows(rawCsv: string): Record<string, unknown>[] {
+  return Papa.parse<Record<string, unknown>>(rawCsv, {
     header: true,
     dynamicTyping: true,
     skipEmptyLines: true,
-  });
-  return detectColumns(result.data);
+  }).data;
+}
+
+/** Re-parses `rawCsv` into typed columns for the stat test picker. */
+export function detectLiveSheetColumns(rawCsv: string): DatasetColumn[] {
+  return detectColumns(parseLiveSheetRows(rawCsv));
 }
 
 import { VALIDATION_LIMITS } from '@/lib/utils/constants';
@@ -56,12 +77,20 @@ export function formatLiveDataBlock(data: Pick<LiveSheetData, 'rawCsv' | 'header
   );
 }
 
+/** What the connected source is, for prompts and placeholder text — "SQL query", "JSON API" or "Google Sheet". */
+export function liveSourceNoun(ref: LiveSourceRef): string {
+  if (ref.sql) return 'SQL query';
+  if (ref.json) return 'JSON API';
+  return 'Google Sheet';
+}
+
 /** Merges the user's typed instructions with the connected live sheet's data for the AI prompt. */
 export function composePromptWithLiveSheet(text: string, sheet: LiveSheetData | null): string {
   if (!sheet) return text;
   const trimmed = text.trim();
-  const segment = `Live data from connected Google Sheet — ${formatLiveDataBlock(sheet)}`;
+  const source = liveSourceNoun(sheet);
+  const segment = `Live data from connected ${source} — ${formatLiveDataBlock(sheet)}`;
   return trimmed
     ? `${trimmed}\n\n${segment}`
-    : `Visualize this live data from the connected Google Sheet.\n\n${segment}`;
+    : `Visualize this live data from the connected ${source}.\n\n${segment}`;
 }
@@ -0,0 +1,72 @@
+// ============================================================================
+// LIVE SOURCE REFS — pure helpers over the kinds of live data source
+//
+// A live source is a Google Sheet / CSV `url`, a saved `sql` query or a
+// `json` REST endpoint (see `LiveDataConfig`). These helpers let UI and
+// server code ask "is this chart live?", label the source, and hand it to
+// dataset verification without caring which kind it is. Fetching lives in
+// `lib/services/live-source.ts` (server-only).
+// ============================================================================
+
+import type { DatasetSource } from '@/lib/types/encoding-plan';
+import type { LiveDataConfig } from '@/lib/types/visualization';
+
+export type LiveSourceRef = Pick<LiveDataConfig, 'url' | 'sql' | 'json'>;
+
+export type LiveSourceKind = 'sheet' | 'sql' | 'json';
+
+/**
+ * Which kind of source `ref` holds, judged by its required fields — on a
+ * hydrated Mongoose document the nested `sql` / `json` paths are objects
+ * even when empty, so the sub-objects themselves prove nothing.
+ */
+export function liveSourceKind(ref: LiveSourceRef | null | undefined): LiveSourceKind | null {
+  if (ref?.sql?.connectionId) return 'sql';
+  if (ref?.json?.url) return 'json';
+  if (ref?.url) return 'sheet';
+  return null;
+}
+
+export function hasLiveSource(ref: LiveSourceRef | null | undefined): boolean {
+  return liveSourceKind(ref) !== null;
+}
+
+/** Just the source of a config — drops interval / refresh state and any unset kinds. */
+export function pickLiveSource(ref: LiveSourceRef): LiveSourceRef {
+  const kind = liveSourceKind(ref);
+  if (kind === 'sql') return { sql: ref.sql };
+  if (kind === 'json') return { json: ref.json };
+  return { url: ref.url };
+}
+
+/** Short human label — the sheet URL, the API URL and path, or the query's first line. */
+export function describeLiveSource(ref: LiveSourceRef): string {
+  const kind = liveSourceKind(ref);
+  if (kind === 'sql') {
+    const firstLine = (ref.sql!.query ?? '').trim().split('\n')[0];
+    return `SQL: ${firstLine.length > 80 ? `${firstLine.slice(0, 79)}…` : firstLine}`;
+  }
+  if (kind === 'json' && ref.json) return ref.json.path ? `${ref.json.url} → ${ref.json.path}` : ref.json.url;
+  return ref.url ?? '';
+}
+
+/** True when both refs point at the same data (same URL, or same connection + query + params, or same API request). */
+export function sameLiveSource(a: LiveSourceRef | null | undefined, b: LiveSourceRef | null | undefined): boolean {
+  if (!a || !b) return false;
+  return JSON.stringify(pickLiveSource(a)) === JSON.stringify(pickLiveSource(b));
+}
+
+/** The dataset a live-sourced generation or edit is grounded in — the server re-fetches it. */
+export function liveSourceDataset(ref: LiveSourceRef): DatasetSource {
+  // Fields are copied one by one — spreading a Mongoose subdocument copies its internals, not its values.
+  const kind = liveSourceKind(ref);
+  if (kind === 'sql') {
+    const { connectionId, query, params } = ref.sql!;
+    return { kind: 'sql', connectionId, query, ...(params ? { params: [...params] } : {}) };
+  }
+  if (kind === 'json') {
+    const { url, path, connectionId } = ref.json!;
+    return { kind: 'json', url, ...(path ? { path } : {}), ...(connectionId ? { connectionId } : {}) };
+  }
+  return { kind: 'sheet', url: ref.url ?? '' };
+}
@@ -0,0 +1,78 @@
+// ============================================================================
+// OPTION SERIES — the plotted numbers of an ECharts option, per series
+//
+// Reads each bar / line / pie / funnel series back out of an option as
+// (category, value) points, so code that compares a chart before and after
+// a refresh works on the numbers the user actually sees, whatever shape the
+// option's data takes: plain numbers aligned to a category axis, `{value}`
+// objects, `[x, y]` pairs on a time or value axis, or named pie slices.
+// ============================================================================
+
+import type { EChartsOption } from 'echarts';
+
+type AnyRecord = Record<string, unknown>;
+
+export interface SeriesPoint {
+  category: string;
+  value: number;
+}
+
+export interface SeriesPoints {
+  name: string;
+  points: SeriesPoint[];
+}
+
+const POINT_SERIES = new Set(['bar', 'line', 'pie', 'funnel']);
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value == null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** The labels of the option's first category axis with data, across xAxis / yAxis. */
+function categoryLabels(option: EChartsOption): string[] {
+  for (const key of ['xAxis', 'yAxis'] as const) {
+    for (const axis of asArray(option[key] as AnyRecord | AnyRecord[] | undefined)) {
+      if (axis?.type === 'category' && Array.isArray(axis.data) && axis.data.length > 0) {
+        return axis.data.map(d => String(d && typeof d === 'object' ? (d as AnyRecord).value ?? '' : d ?? ''));
+      }
+    }
+  }
+  return [];
+}
+
+function toNumber(v: unknown): number | null {
+  return typeof v === 'number' && Number.isFinite(v) ? v : null;
+}
+
+/** One data entry as a point — null for gaps and shapes that aren't a single number. */
+function readPoint(entry: unknown, index: number, labels: string[]): SeriesPoint | null {
+  const fallback = labels[index] ?? String(index + 1);
+  if (Array.isArray(entry)) {
+    const value = toNumber(entry[entry.length - 1]);
+    return value === null ? null : { category: entry.length > 1 ? String(entry[0]) : fallback, value };
+  }
+  if (entry && typeof entry === 'object') {
+    const record = entry as AnyRecord;
+    const raw = Array.isArray(record.value) ? record.value[record.value.length - 1] : record.value;
+    const value = toNumber(raw);
+    const category = typeof record.name === 'string' && record.name ? record.name
+      : Array.isArray(record.value) && record.value.length > 1 ? String(record.value[0]) : fallback;
+    return value === null ? null : { category, value };
+  }
+  const value = toNumber(entry);
+  return value === null ? null : { category: fallback, value };
+}
+
+/** Every bar / line / pie / funnel series in `option`, in order, with its numeric points. */
+export function extractSeriesPoints(option: EChartsOption): SeriesPoints[] {
+  const labels = categoryLabels(option);
+  return asArray(option.series as AnyRecord | AnyRecord[] | undefined)
+    .filter(s => POINT_SERIES.has(String(s?.type)))
+    .map((s, i) => ({
+      name: typeof s.name === 'string' && s.name ? s.name : `Series ${i + 1}`,
+      points: (Array.isArray(s.data) ? s.data : [])
+        .map((entry, index) => readPoint(entry, index, labels))
+        .filter((p): p is SeriesPoint => p !== null),
+    }));
+}
@@ -0,0 +1,240 @@
+// ============================================================================
+// OUTBOUND FETCH — SSRF-hardened HTTP(S) requests to user-supplied URLs.
+//
+// Every live source that fetches a URL a user typed (sheet / CSV exports,
+// JSON APIs) and every alert webhook goes through `outboundFetch` instead of
+// `fetch`:
+//   1. the URL must be HTTPS with no embedded credentials and a hostname
+//      that isn't a private / reserved literal (`isBlockedSheetUrl`);
+//   2. the hostname is resolved with the system resolver — the same one a
+//      socket connect uses, so decimal / octal / hex IPv4 spellings resolve
+//      to what they really are — and EVERY returned address must be public;
+//   3. the connection is pinned to the vetted address, so a DNS answer that
+//      changes between check and connect (rebinding) is never used;
+//   4. redirects are followed by hand, re-running 1–3 for each hop.
+// TLS still verifies the certificate against the original hostname.
+// ============================================================================
+
+import { promises as dnsPromises, type LookupAddress } from 'dns';
+import type { IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import { Readable } from 'stream';
+import zlib from 'zlib';
+
+const MAX_REDIRECTS = 5;
+
+export interface OutboundFetchError {
+  ok: false;
+  error: string;
+  status: number;
+}
+
+export interface OutboundFetchOptions {
+  /** GET unless set — alert webhooks POST their payload as `body`. */
+  method?: 'GET' | 'POST';
+  body?: string;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /**
+   * `'error'` refuses any redirect — use it whenever `headers` carry a
+   * credential, so it can't be forwarded to wherever the redirect points.
+   */
+  redirect?: 'follow' | 'error';
+}
+
+/* ── Address ranges no outbound request may reach ── */
+// One list per family: a single BlockList also matches IPv4 addresses
+// against IPv6 rules as `::ffff:a.b.c.d`, which the mapped range below
+// would then block wholesale.
+const reservedV4 = new BlockList();
+const reservedV6 = new BlockList();
+for (const [net, prefix] of [
+  ['0.0.0.0', 8],        // "this" network
+  ['10.0.0.0', 8],       // RFC 1918
+  ['100.64.0.0', 10],    // carrier-grade NAT (RFC 6598)
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local, incl. cloud metadata 169.254.169.254
+  ['172.16.0.0', 12],    // RFC 1918
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.0.2.0', 24],     // TEST-NET-1
+  ['192.88.99.0', 24],   // 6to4 relay anycast
+  ['192.168.0.0', 16],   // RFC 1918
+  ['198.18.0.0', 15],    // benchmarking
+  ['198.51.100.0', 24],  // TEST-NET-2
+  ['203.0.113.0', 24],   // TEST-NET-3
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4],      // reserved, incl. broadcast
+] as const) {
+  reservedV4.addSubnet(net, prefix, 'ipv4');
+}
+for (const [net, prefix] of [
+  ['::', 128],           // unspecified
+  ['::1', 128],          // loopback
+  ['::ffff:0:0', 96],    // IPv4-mapped — would reach any IPv4 address
+  ['64:ff9b::', 96],     // NAT64 — likewise
+  ['100::', 64],         // discard
+  ['2001::', 23],        // IETF protocol assignments, incl. Teredo
+  ['2001:db8::', 32],    // documentation
+  ['2002::', 16],        // 6to4 — embeds an IPv4 address
+  ['fc00::', 7],         // unique local
+  ['fe80::', 10],        // link-local
+  ['ff00::', 8],         // multicast
+] as const) {
+  reservedV6.addSubnet(net, prefix, 'ipv6');
+}
+
+/** True for any IP address a server-side request must never connect to. Non-IPs return false. */
+export function isReservedAddress(ip: string): boolean {
+  const family = isIP(ip);
+  if (family === 0) return false;
+  return family === 4 ? reservedV4.check(ip, 'ipv4') : reservedV6.check(ip, 'ipv6');
+}
+
+/* ── Hostname / URL checks (no DNS) ── */
+/**
+ * Private, loopback, link-local and metadata hostnames, as they appear in
+ * `URL.hostname` (IPv6 literals keep their brackets). A first, cheap filter —
+ * `resolvePublicAddress` is what actually decides, since a public-looking
+ * name can resolve anywhere. Also used for database hosts.
+ */
+export function isBlockedHostname(hostname: string): boolean {
+  const h = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (!h) return true;
+  if (h === 'localhost' || h.endsWith('.localhost')) return true;
+  if (h === 'metadata.google.internal') return true;
+  return isReservedAddress(h);
+}
+
+/**
+ * Structural check for a URL a live source may fetch: parseable, HTTPS, no
+ * `user:pass@`, and not a blocked hostname. Synchronous, so it's also used to
+ * validate URLs before they're stored.
+ */
+export function isBlockedSheetUrl(urlString: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(urlString);
+  } catch {
+    return true;
+  }
+  if (parsed.protocol !== 'https:') return true;
+  if (parsed.username || parsed.password) return true;
+  return isBlockedHostname(parsed.hostname);
+}
+
+/* ── DNS ── */
+/**
+ * Resolves `hostname` (brackets allowed) and returns the address to connect
+ * to — only if every address it resolves to is public. Fails closed: a name
+ * that doesn't resolve is an error, not a pass.
+ */
+export async function resolvePublicAddress(hostname: string): Promise<LookupAddress | OutboundFetchError> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  let addresses: LookupAddress[];
+  try {
+    addresses = await dnsPromises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    return { ok: false, error: `Could not resolve ${host}`, status: 502 };
+  }
+  if (addresses.length === 0) {
+    return { ok: false, error: `Could not resolve ${host}`, status: 502 };
+  }
+  if (addresses.some(a => isReservedAddress(a.address))) {
+    return { ok: false, error: 'URL not allowed', status: 400 };
+  }
+  return addresses[0];
+}
+
+/* ── Fetch ── */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function decodedBody(res: IncomingMessage): Readable {
+  switch (res.headers['content-encoding']) {
+    case 'gzip':
+    case 'x-gzip':
+      return res.pipe(zlib.createGunzip());
+    case 'deflate':
+      return res.pipe(zlib.createInflate());
+    case 'br':
+      return res.pipe(zlib.createBrotliDecompress());
+    default:
+      return res;
+  }
+}
+
+function toResponse(res: IncomingMessage): Response {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(res.headers)) {
+    if (value === undefined || name === 'set-cookie') continue;
+    // The body below is already decoded, so its length and encoding no longer apply.
+    if (name === 'content-encoding' || name === 'content-length') continue;
+    headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+  const status = res.statusCode ?? 502;
+  const body = NULL_BODY_STATUSES.has(status)
+    ? null
+    : (Readable.toWeb(decodedBody(res)) as ReadableStream<Uint8Array>);
+  if (!body) res.resume();
+  return new Response(body, { status, statusText: res.statusMessage, headers });
+}
+
+/** One request to `url`, connecting only to `pinned` — the socket never does its own DNS lookup. */
+function requestPinned(
+  url: URL,
+  pinned: LookupAddress,
+  options: OutboundFetchOptions
+): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const req = https.request(url, {
+      method: options.method ?? 'GET',
+      headers: { 'Accept-Encoding': 'gzip, deflate, br', ...options.headers },
+      signal: options.signal,
+      lookup: (_hostname, lookupOptions, callback) => {
+        if (lookupOptions.all) callback(null, [pinned]);
+        else callback(null, pinned.address, pinned.family);
+      },
+    });
+    req.on('response', resolve);
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+/**
+ * Request a user-supplied URL with the SSRF checks described at the top of this
+ * file. Resolves to a standard `Response` (body decompressed), or to an
+ * `OutboundFetchError` when a URL or redirect hop isn't allowed. Network
+ * failures and aborts reject, like `fetch`.
+ */
+export async function outboundFetch(
+  urlString: string,
+  options: OutboundFetchOptions = {}
+): Promise<{ ok: true; response: Response } | OutboundFetchError> {
+  let current = urlString;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (isBlockedSheetUrl(current)) return { ok: false, error: 'URL not allowed', status: 400 };
+    const url = new URL(current);
+
+    const pinned = await resolvePublicAddress(url.hostname);
+    if ('ok' in pinned) return pinned;
+
+    const res = await requestPinned(url, pinned, options);
+    const status = res.statusCode ?? 502;
+    const location = res.headers.location;
+
+    if (status >= 300 && status < 400 && status !== 304 && location) {
+      res.resume();
+      if (options.redirect === 'error') {
+        return { ok: false, error: 'Source redirected — use the final URL directly', status: 502 };
+      }
+      current = new URL(location, url).toString();
+      continue;
+    }
+
+    return { ok: true, response: toResponse(res) };
+  }
+
+  return { ok: false, error: 'Too many redirects', status: 502 };
+}
@@ -0,0 +1,130 @@
+// ============================================================================
+// PDF TABLES — column-aligned regions in extracted PDF text, as sheets
+//
+// pdf-parse places a cell separator between text items on the same line
+// whenever the horizontal gap between them is wider than a word space, so a
+// table's columns come out tab-separated while running prose doesn't. A run
+// of lines that split into the same number of cells — most of them holding
+// numbers — is a table. Each one becomes a `WorkbookSheet`, so choosing
+// which table to attach (and its range / header rows) reuses the workbook
+// range picker unchanged.
+// ============================================================================
+
+import { parseCellText, type SheetCell, type WorkbookSheet } from '@/lib/utils/sheet-range';
+
+/** The separator `parsePDF` asks pdf-parse to put between horizontally separated items. */
+export const PDF_CELL_SEPARATOR = '\t';
+
+/** Rows at the table's own width needed before a region counts as a table. */
+const MIN_TABLE_ROWS = 3;
+/** Share of full-width rows that must hold a number — two-column prose layouts hold none. */
+const MIN_NUMERIC_ROW_SHARE = 0.5;
+/** One-cell lines (section labels like "Operating expenses") allowed in a row inside a table. */
+const MAX_LABEL_RUN = 1;
+
+const NUMBER_LIKE = /^[-−(]?\s*[$€£¥]?\s*\d[\d,.\s]*%?\)?$/;
+
+function splitCells(line: string): string[] {
+  return line.split(PDF_CELL_SEPARATOR).map(cell => cell.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+/**
+ * Plain numbers become numbers like any other parsed cell; report
+ * conventions are read too — "1,204" and "(1,204)" (negative) convert,
+ * while currency and percent text is left for schema inference.
+ */
+function pdfCell(text: string): SheetCell {
+  const accounting = text.match(/^\((\d[\d,]*(\.\d+)?)\)$/);
+  if (accounting) return -Number(accounting[1].replace(/,/g, ''));
+  if (/^[-−]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) return Number(text.replace(/,/g, '').replace('−', '-'));
+  return parseCellText(text.replace(/^−/, '-'));
+}
+
+/** The most common width among `lines`, preferring the wider on a tie. */
+function modalWidth(lines: string[][]): number {
+  const counts = new Map<number, number>();
+  for (const cells of lines) if (cells.length >= 2) counts.set(cells.length, (counts.get(cells.length) ?? 0) + 1);
+  let best = 0;
+  let bestCount = 0;
+  for (const [width, count] of counts) {
+    if (count > bestCount || (count === bestCount && width > best)) { best = width; bestCount = count; }
+  }
+  return best;
+}
+
+/**
+ * Fit a line to `width` columns. A header short by one cell is missing the
+ * label column's (usually blank) heading; shorter data rows are missing
+ * values, which in reports are right-aligned figures; a wider row has its
+ * label split into several items.
+ */
+function fitRow(cells: string[], width: number, isFirst: boolean): SheetCell[] {
+  if (cells.length === width) return cells.map(pdfCell);
+  if (cells.length > width) {
+    const extra = cells.length - width;
+    return [cells.slice(0, extra + 1).join(' '), ...cells.slice(extra + 1)].map(pdfCell);
+  }
+  if (cells.length === 1) return [pdfCell(cells[0]), ...Array<SheetCell>(width - 1).fill(null)];
+  const padding = Array<SheetCell>(width - cells.length).fill(null);
+  if (isFirst) return [...padding, ...cells.map(pdfCell)];
+  return [pdfCell(cells[0]), ...padding, ...cells.slice(1).map(pdfCell)];
+}
+
+/** Column-aligned regions of one page's text, each as a grid. */
+function pageTables(text: string): SheetCell[][][] {
+  const lines = text.split('\n').map(splitCells);
+  const regions: string[][][] = [];
+  let current: string[][] = [];
+  let labelRun = 0;
+
+  const close = () => {
+    // Trailing label lines belong to whatever follows the table.
+    while (current.length > 0 && current[current.length - 1].length < 2) current.pop();
+    if (current.length > 0) regions.push(current);
+    current = [];
+    labelRun = 0;
+  };
+
+  for (const cells of lines) {
+    if (cells.length >= 2) {
+      current.push(cells);
+      labelRun = 0;
+    } else if (cells.length === 1 && current.length > 0 && labelRun < MAX_LABEL_RUN) {
+      current.push(cells);
+      labelRun++;
+    } else {
+      close();
+    }
+  }
+  close();
+
+  return regions.flatMap(region => {
+    const width = modalWidth(region);
+    const full = region.filter(cells => cells.length === width);
+    if (width < 2 || full.length < MIN_TABLE_ROWS) return [];
+    const numeric = full.filter(cells => cells.some(cell => NUMBER_LIKE.test(cell))).length;
+    if (numeric / full.length < MIN_NUMERIC_ROW_SHARE) return [];
+
+    // Lines narrower than the header's neighbourhood before the table proper are captions.
+    const start = region.findIndex(cells => cells.length >= width - 1);
+    return [region.slice(start).map((cells, i) => fitRow(cells, width, i === 0))];
+  });
+}
+
+/**
+ * Every table found in a PDF's pages (as extracted with
+ * `PDF_CELL_SEPARATOR`), largest first — the first is what gets attached by
+ * default. Sheet names carry the page ("Page 4 · table 2") so the picker's
+ * tabs say where each one came from.
+ */
+export function detectPdfTables(pages: Array<{ num: number; text: string }>): WorkbookSheet[] {
+  const sheets = pages.flatMap(page =>
+    pageTables(page.text).map((cells, i, all): WorkbookSheet => ({
+      name: all.length > 1 ? `Page ${page.num} · table ${i + 1}` : `Page ${page.num}`,
+      cells,
+      merges: [],
+    }))
+  );
+  const filled = (sheet: WorkbookSheet) => sheet.cells.reduce((n, row) => n + row.filter(v => v !== null).length, 0);
+  return sheets.sort((a, b) => filled(b) - filled(a));
+}
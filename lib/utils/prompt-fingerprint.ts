@@ -0,0 +1,157 @@
+// ============================================================================
+// PROMPT FINGERPRINT — near-duplicate detection for the generation cache
+//
+// The exact-match cache key misses prompts that differ only trivially:
+// punctuation, word order, filler ("a bar chart of X" vs "bar chart showing
+// X") or a chart-type synonym ("donut" vs "pie"). This module reduces a prompt
+// to a canonical token set and a MinHash signature over its character
+// trigrams, so two prompts' similarity can be estimated from their stored
+// signatures alone. Numbers are compared exactly — "top 5" and "top 10" read
+// alike but chart differently.
+// ============================================================================
+
+import { CHART_TYPES } from '@/lib/utils/chart-types';
+
+/** Signature length — estimate error is roughly 1/sqrt(64) ≈ 0.125 at worst, far less near the threshold. */
+const NUM_HASHES = 64;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'of', 'for', 'by', 'to', 'in', 'on', 'at', 'and', 'or', 'with', 'from', 'as', 'per', 'over',
+  'show', 'showing', 'shows', 'display', 'displaying', 'draw', 'create', 'make', 'generate', 'build', 'give',
+  'visualize', 'visualise', 'visualization', 'visualisation', 'plot', 'chart', 'graph', 'diagram',
+  'me', 'my', 'our', 'i', 'we', 'you', 'is', 'are', 'be', 'please', 'can', 'want', 'need', 'would', 'like', 'this', 'that', 'it', 'using',
+]);
+
+/** Crude plural folding — enough to make "sales by months" meet "sale by month". */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * The forced-type instruction `composePromptWithChartType` prepends is the
+ * same boilerplate for every prompt of that type — left in, it would make
+ * unrelated prompts look alike. Keep only the type and variant it names.
+ */
+const CHART_TYPE_INSTRUCTION = /\[The user has explicitly chosen the chart type "[^"]*"(?: — ([^(]*))? \(ECharts series type: "([^"]+)"\)[\s\S]*?\](?:\n\n|$)/;
+
+function stripChartTypeInstruction(input: string): string {
+  return input.replace(CHART_TYPE_INSTRUCTION, (_match, variant: string | undefined, series: string) => `${series} ${variant ?? ''}\n`);
+}
+
+/** Lowercased, punctuation-free, stopword-free, plural-folded words. */
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]+/g, ' ')
+    .split(/\s+/)
+    .filter(w => w && !STOPWORDS.has(w))
+    .map(stem);
+}
+
+/** Everyday names for chart types that `CHART_TYPES` labels don't cover. */
+const CHART_ALIASES: Record<string, string[]> = {
+  bar: ['column', 'histogram', 'waterfall'],
+  line: ['area', 'trend', 'trendline'],
+  pie: ['donut', 'doughnut'],
+  scatter: ['bubble'],
+  heatmap: ['heat map'],
+  radar: ['spider'],
+  treemap: ['tree map'],
+};
+
+/**
+ * Chart-type phrases → canonical series type, longest first so "pictorial
+ * bar" wins over "bar". Built from each `CHART_TYPES` label (minus generic
+ * words like "chart"), the series type itself, and `CHART_ALIASES`.
+ */
+const CHART_SYNONYMS: Array<[RegExp, string]> = (() => {
+  const phrases = new Map<string, string>();
+  const add = (phrase: string, series: string) => {
+    const key = words(phrase).join(' ');
+    if (key && !phrases.has(key)) phrases.set(key, series.toLowerCase());
+  };
+  for (const type of CHART_TYPES) {
+    add(type.label, type.series);
+    add(type.series, type.series);
+    for (const alias of CHART_ALIASES[type.series] ?? []) add(alias, type.series);
+  }
+  return [...phrases.entries()]
+    .sort(([a], [b]) => b.length - a.length)
+    .map(([phrase, series]) => [new RegExp(`\\b${phrase}\\b`, 'g'), series]);
+})();
+
+/**
+ * Canonical, order-independent token list for a prompt: lowercased,
+ * punctuation and stopwords dropped, plurals folded, chart-type synonyms
+ * collapsed to their series type, then de-duplicated and sorted.
+ */
+export function normalizePrompt(input: string): string[] {
+  let text = words(stripChartTypeInstruction(input)).join(' ');
+  for (const [pattern, series] of CHART_SYNONYMS) text = text.replace(pattern, ` ${series} `);
+  return [...new Set(text.split(/\s+/).filter(Boolean))].sort();
+}
+
+/** Padded character trigrams of each token — tolerant of typos and word-form changes. */
+function trigrams(tokens: string[]): Set<string> {
+  const grams = new Set<string>();
+  for (const token of tokens) {
+    const padded = ` ${token} `;
+    for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+/** 32-bit FNV-1a. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** What's stored per cached prompt — enough to estimate similarity without the prompt itself. */
+export interface PromptFingerprint {
+  /** MinHash signature over the normalized prompt's character trigrams (empty for a prompt with no content words). */
+  signature: number[];
+  /** Numeric tokens ("top 5", "2024") — these must match exactly, as one digit changes the chart. */
+  numbers: string[];
+}
+
+/**
+ * Fingerprint a prompt. The k-th MinHash function is derived by double
+ * hashing (h1 + k·h2), the standard trick for getting many
+ * independent-enough hash functions out of two.
+ */
+export function fingerprintPrompt(input: string): PromptFingerprint {
+  const tokens = normalizePrompt(input);
+  const numbers = tokens.filter(t => /^\d+$/.test(t));
+  const grams = trigrams(tokens);
+  if (grams.size === 0) return { signature: [], numbers };
+
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  for (const gram of grams) {
+    const h1 = fnv1a(gram);
+    const h2 = fnv1a(`${gram}#`) | 1;
+    for (let k = 0; k < NUM_HASHES; k++) {
+      const h = (h1 + Math.imul(k, h2)) >>> 0;
+      if (h < signature[k]) signature[k] = h;
+    }
+  }
+  return { signature, numbers };
+}
+
+/**
+ * Estimated Jaccard similarity (0–1) of two prompts from their fingerprints —
+ * 0 when either is empty or their numbers differ.
+ */
+export function fingerprintSimilarity(a: PromptFingerprint, b: PromptFingerprint): number {
+  if (a.signature.length !== b.signature.length || a.signature.length === 0) return 0;
+  if (a.numbers.join(' ') !== b.numbers.join(' ')) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.signature.length; i++) if (a.signature[i] === b.signature[i]) equal++;
+  return equal / a.signature.length;
+}
@@ -3,13 +3,14 @@ import { Ratelimit } from '@upstash/ratelimit';
 import { getRedis } from '@/lib/utils/redis';
 
 export type RateLimitOperation =
-  | 'generate' | 'edit' | 'live-data'
+  | 'generate' | 'edit' | 'live-data' | 'pdf-extract'
   | 'save' | 'delete' | 'duplicate' | 'export' | 'share' | 'dashboard';
 
 const WINDOW_CONFIG: Record<RateLimitOperation, { requests: number; window: `${number} ${'s' | 'm' | 'h' | 'd'}` }> = {
   generate:    { requests: 10, window: '10 m' },
   edit:        { requests: 15, window: '10 m' },
   'live-data': { requests: 30, window: '1 m' },
+  'pdf-extract': { requests: 10, window: '1 m' },
   save:        { requests: 20, window: '1 m' },
   delete:      { requests: 10, window: '1 m' },
   duplicate:   { requests: 10, window: '1 m' },
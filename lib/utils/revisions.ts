@@ -0,0 +1,99 @@
+import * as Sentry from '@sentry/nextjs';
+import { VisualizationRevisionModel, UserUsageModel } from '@/lib/database/models';
+import { VALIDATION_LIMITS } from '@/lib/utils/constants';
+import { syncSnapshotExpiry } from '@/lib/utils/snapshots';
+import type { VisualizationSpec } from '@/lib/types/echarts-spec';
+import type { RevisionAction } from '@/lib/types/revision';
+
+type Tier = 'free' | 'pro' | 'enterprise';
+
+/** How many revisions a visualization keeps on each plan — the oldest are pruned beyond this. */
+export function getRevisionLimit(tier: Tier): number {
+  switch (tier) {
+    case 'enterprise':
+      return VALIDATION_LIMITS.MAX_REVISIONS_ENTERPRISE;
+    case 'pro':
+      return VALIDATION_LIMITS.MAX_REVISIONS_PRO;
+    default:
+      return VALIDATION_LIMITS.MAX_REVISIONS_FREE;
+  }
+}
+
+export interface RecordRevisionInput {
+  userId: string;
+  visualizationId: string;
+  spec: VisualizationSpec;
+  action: RevisionAction;
+  prompt?: string;
+  /** The visualization's current session TTL — undefined once saved (revisions then never expire). */
+  sessionExpiresAt?: Date;
+}
+
+/**
+ * Append an immutable revision for a visualization's new spec. Skipped when
+ * the spec is identical to the latest revision (e.g. a re-save with no
+ * changes). Resolves to the revision that now holds `spec` — the new one, or
+ * the latest when skipped. Best-effort: history is never allowed to fail the
+ * change itself, so errors are reported and swallowed (resolving to null).
+ */
+export async function recordRevision({
+  userId, visualizationId, spec, action, prompt, sessionExpiresAt,
+}: RecordRevisionInput): Promise<number | null> {
+  try {
+    // Two concurrent writes can read the same latest revision and race for
+    // the next number — the unique index rejects the loser, which re-reads
+    // and takes the one after.
+    let revision = 0;
+    let lastErr: unknown;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const latest = await VisualizationRevisionModel.findOne({ visualizationId })
+        .sort({ revision: -1 })
+        .select('revision spec sessionExpiresAt')
+        .lean();
+
+      // Keep every revision's TTL in step with the visualization — saving a
+      // session makes its whole history permanent, not just new revisions.
+      // All revisions share one TTL, so the latest's tells whether it moved.
+      // Data snapshots follow the same TTL.
+      if (latest && latest.sessionExpiresAt?.getTime() !== sessionExpiresAt?.getTime()) {
+        await VisualizationRevisionModel.updateMany(
+          { visualizationId },
+          sessionExpiresAt ? { $set: { sessionExpiresAt } } : { $unset: { sessionExpiresAt: 1 } }
+        );
+        await syncSnapshotExpiry(visualizationId, sessionExpiresAt);
+      }
+      if (latest && JSON.stringify(latest.spec) === JSON.stringify(spec)) return latest.revision;
+
+      revision = (latest?.revision ?? 0) + 1;
+      try {
+        await VisualizationRevisionModel.create({
+          visualizationId,
+          userId,
+          revision,
+          spec,
+          action,
+          prompt: prompt?.slice(0, VALIDATION_LIMITS.MAX_REVISION_PROMPT_LENGTH),
+          ...(sessionExpiresAt ? { sessionExpiresAt } : {}),
+        });
+        lastErr = undefined;
+        break;
+      } catch (err: unknown) {
+        const e = err as { name?: string; code?: number };
+        if (e?.name !== 'MongoServerError' || e?.code !== 11000) throw err;
+        lastErr = err;
+      }
+    }
+    if (lastErr) throw lastErr;
+
+    const usage = await UserUsageModel.findOne({ userId }).select('tier').lean();
+    const limit = getRevisionLimit(usage?.tier ?? 'free');
+    if (revision > limit) {
+      await VisualizationRevisionModel.deleteMany({ visualizationId, revision: { $lte: revision - limit } });
+    }
+    return revision;
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+    return null;
+  }
+}
@@ -0,0 +1,360 @@
+// ============================================================================
+// SCHEDULE — parse, evaluate and describe recurrence rules in a timezone
+//
+// Supports the RRULE subset digests need: FREQ=HOURLY|DAILY|WEEKLY|MONTHLY
+// with INTERVAL, BYHOUR, BYMINUTE, BYDAY (ordinals like 1MO / -1FR when
+// monthly), BYMONTHDAY and BYSETPOS — "the first business day of the month"
+// is FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1. Rules are matched against
+// local wall-clock time in the schedule's IANA timezone via Intl, so no
+// timezone database ships with the app.
+// ============================================================================
+
+import type { RecurrenceRule, RecurrenceWeekday, RecurringSchedule } from '@/lib/types/schedule';
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+/** Every timezone offset is a whole number of quarter hours. */
+const QUARTER_HOUR_MS = 15 * MINUTE_MS;
+
+/** A fresh schedule: Monday mornings. */
+export const DEFAULT_SCHEDULE_RULE = 'FREQ=WEEKLY;BYDAY=MO;BYHOUR=9';
+
+/**
+ * How far back the cron looks for an occurrence it hasn't run yet — covers
+ * the hourly cron's own lag plus one failed invocation.
+ */
+export const SCHEDULE_CATCH_UP_MS = 3 * 60 * MINUTE_MS;
+
+/** Schedules saved before rules existed were weekly, sent by a daily 13:00 UTC cron. */
+const LEGACY_HOUR_UTC = 13;
+
+const MAX_RULE_LENGTH = 200;
+
+type ParseResult = { valid: true; rule: RecurrenceRule } | { valid: false; error: string };
+
+/** Comma-separated integers in [min, max] — zero only when `min` is 0 (negative ranges count from the end). */
+function parseIntList(value: string, min: number, max: number): number[] | null {
+  const values = value.split(',').map(v => Number(v.trim()));
+  return values.every(v => Number.isInteger(v) && v >= min && v <= max && (v !== 0 || min === 0)) ? values : null;
+}
+
+function parseWeekday(value: string): RecurrenceWeekday | null {
+  const match = value.trim().toUpperCase().match(/^([+-]?\d{1,2})?([A-Z]{2})$/);
+  const weekday = match ? WEEKDAY_CODES.indexOf(match[2] as (typeof WEEKDAY_CODES)[number]) : -1;
+  if (!match || weekday < 0) return null;
+  if (match[1] === undefined) return { weekday };
+  const ordinal = Number(match[1]);
+  return ordinal !== 0 && Math.abs(ordinal) <= 5 ? { weekday, ordinal } : null;
+}
+
+/** Parse an RRULE subset string (an optional leading "RRULE:" is allowed). */
+export function parseRecurrenceRule(rrule: string): ParseResult {
+  const text = rrule.trim().replace(/^RRULE:/i, '');
+  if (!text) return { valid: false, error: 'Schedule rule is empty' };
+  if (text.length > MAX_RULE_LENGTH) return { valid: false, error: 'Schedule rule is too long' };
+
+  const parts = new Map<string, string>();
+  for (const part of text.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') return { valid: false, error: `Malformed rule part "${part}"` };
+    parts.set(key.trim().toUpperCase(), value.trim());
+  }
+
+  const freq = parts.get('FREQ')?.toUpperCase();
+  if (freq !== 'HOURLY' && freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    return { valid: false, error: 'FREQ must be HOURLY, DAILY, WEEKLY or MONTHLY' };
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1, byHour: [], byMinute: 0, byDay: [], byMonthDay: [], bySetPos: [] };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1 || interval > 1000) return { valid: false, error: 'INTERVAL must be a whole number from 1 to 1000' };
+        rule.interval = interval;
+        break;
+      }
+      case 'BYHOUR': {
+        const hours = parseIntList(value, 0, 23);
+        if (!hours) return { valid: false, error: 'BYHOUR must list hours from 0 to 23' };
+        rule.byHour = hours;
+        break;
+      }
+      case 'BYMINUTE': {
+        const minute = Number(value);
+        if (!Number.isInteger(minute) || minute < 0 || minute > 59) return { valid: false, error: 'BYMINUTE must be a single minute from 0 to 59' };
+        rule.byMinute = minute;
+        break;
+      }
+      case 'BYDAY': {
+        const days = value.split(',').map(parseWeekday);
+        if (days.some(d => d === null)) return { valid: false, error: 'BYDAY must list days like MO,TU or, when monthly, 1MO / -1FR' };
+        rule.byDay = days as RecurrenceWeekday[];
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = parseIntList(value, -31, 31);
+        if (!days) return { valid: false, error: 'BYMONTHDAY must list days from 1 to 31 (or -1 for the last)' };
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYSETPOS': {
+        const positions = parseIntList(value, -31, 31);
+        if (!positions) return { valid: false, error: 'BYSETPOS must list positions like 1 or -1' };
+        rule.bySetPos = positions;
+        break;
+      }
+      default:
+        return { valid: false, error: `${key} is not supported` };
+    }
+  }
+
+  if (freq !== 'MONTHLY') {
+    if (rule.byMonthDay.length || rule.bySetPos.length) return { valid: false, error: 'BYMONTHDAY and BYSETPOS need FREQ=MONTHLY' };
+    if (rule.byDay.some(d => d.ordinal !== undefined)) return { valid: false, error: 'Numbered days like 1MO need FREQ=MONTHLY' };
+  }
+  if (freq === 'WEEKLY' && rule.byDay.length === 0) rule.byDay = [{ weekday: 1 }];
+  if (freq === 'MONTHLY' && rule.byDay.length === 0 && rule.byMonthDay.length === 0) rule.byMonthDay = [1];
+  if (freq !== 'HOURLY' && rule.byHour.length === 0) rule.byHour = [0];
+
+  return { valid: true, rule };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Validate a schedule coming from the client before it's saved. */
+export function validateScheduleInput(input: { enabled?: unknown; rrule?: unknown; timezone?: unknown }): { valid: boolean; error?: string } {
+  if (typeof input.enabled !== 'boolean') return { valid: false, error: 'enabled must be a boolean' };
+  if (typeof input.rrule !== 'string') return { valid: false, error: 'Schedule rule is required' };
+  const parsed = parseRecurrenceRule(input.rrule);
+  if (!parsed.valid) return { valid: false, error: parsed.error };
+  if (typeof input.timezone !== 'string' || !isValidTimeZone(input.timezone)) {
+    return { valid: false, error: 'Unknown timezone' };
+  }
+  return { valid: true };
+}
+
+/**
+ * The rule and timezone a stored schedule runs on — schedules saved before
+ * rules existed carry only a weekly `dayOfWeek`.
+ */
+export function resolveSchedule(
+  raw: { rrule?: string; timezone?: string; dayOfWeek?: number } | null | undefined
+): Pick<RecurringSchedule, 'rrule' | 'timezone'> {
+  if (raw?.rrule) return { rrule: raw.rrule, timezone: raw.timezone || 'UTC' };
+  if (typeof raw?.dayOfWeek === 'number' && WEEKDAY_CODES[raw.dayOfWeek]) {
+    return { rrule: `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[raw.dayOfWeek]};BYHOUR=${LEGACY_HOUR_UTC}`, timezone: 'UTC' };
+  }
+  return { rrule: DEFAULT_SCHEDULE_RULE, timezone: 'UTC' };
+}
+
+// ── Evaluation ─────────────────────────────────────────────────────────────
+
+interface LocalTime {
+  year: number;
+  /** 1..12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localTime(date: Date, timeZone: string): LocalTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  const { year, month, day, minute } = parts;
+  return { year, month, day, hour: parts.hour % 24, minute, weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay() };
+}
+
+/** Wall-clock `date` in `timeZone` as "YYYY-MM-DDTHH:mm" — sorts chronologically within one timezone. */
+export function occurrenceKey(date: Date, timeZone: string): string {
+  const t = localTime(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${t.year}-${pad(t.month)}-${pad(t.day)}T${pad(t.hour)}:${pad(t.minute)}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** The days of `month` a MONTHLY rule fires on. */
+function monthDays(rule: RecurrenceRule, year: number, month: number): number[] {
+  const length = daysInMonth(year, month);
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+
+  const matchesDay = (day: number) => {
+    if (rule.byMonthDay.length && !rule.byMonthDay.some(d => (d > 0 ? d : length + 1 + d) === day)) return false;
+    if (!rule.byDay.length) return true;
+    const weekday = (firstWeekday + day - 1) % 7;
+    return rule.byDay.some(entry => {
+      if (entry.weekday !== weekday) return false;
+      if (entry.ordinal === undefined) return true;
+      return entry.ordinal > 0
+        ? Math.ceil(day / 7) === entry.ordinal
+        : Math.ceil((length - day + 1) / 7) === -entry.ordinal;
+    });
+  };
+
+  const days = Array.from({ length }, (_, i) => i + 1).filter(matchesDay);
+  if (!rule.bySetPos.length) return days;
+  return rule.bySetPos
+    .map(pos => days[pos > 0 ? pos - 1 : days.length + pos])
+    .filter((day): day is number => day !== undefined);
+}
+
+function matchesRule(rule: RecurrenceRule, t: LocalTime): boolean {
+  if (t.minute !== rule.byMinute) return false;
+  if (rule.byHour.length && !rule.byHour.includes(t.hour)) return false;
+
+  const dayIndex = Math.floor(Date.UTC(t.year, t.month - 1, t.day) / DAY_MS);
+  switch (rule.freq) {
+    case 'HOURLY':
+      if (t.hour % rule.interval !== 0) return false;
+      return !rule.byDay.length || rule.byDay.some(d => d.weekday === t.weekday);
+    case 'DAILY':
+      if (dayIndex % rule.interval !== 0) return false;
+      return !rule.byDay.length || rule.byDay.some(d => d.weekday === t.weekday);
+    case 'WEEKLY': {
+      // The epoch fell on a Thursday — shift so weeks start on Monday.
+      const weekIndex = Math.floor((dayIndex + 3) / 7);
+      return weekIndex % rule.interval === 0 && rule.byDay.some(d => d.weekday === t.weekday);
+    }
+    case 'MONTHLY':
+      if ((t.year * 12 + t.month - 1) % rule.interval !== 0) return false;
+      return monthDays(rule, t.year, t.month).includes(t.day);
+  }
+}
+
+/**
+ * The most recent occurrence of `schedule` in (`now` − `lookbackMs`, `now`],
+ * with its local wall-clock key. Local times skipped by a DST jump don't
+ * occur; a repeated hour yields the same key twice, so it runs once.
+ */
+export function latestOccurrence(
+  schedule: Pick<RecurringSchedule, 'rrule' | 'timezone'>,
+  now: Date,
+  lookbackMs = SCHEDULE_CATCH_UP_MS
+): { at: Date; key: string } | null {
+  const parsed = parseRecurrenceRule(schedule.rrule);
+  if (!parsed.valid || !isValidTimeZone(schedule.timezone)) return null;
+  const { rule } = parsed;
+
+  // Candidates one quarter hour apart, shifted so their local minute can equal BYMINUTE.
+  const offset = (rule.byMinute % 15) * MINUTE_MS;
+  const start = Math.floor((now.getTime() - offset) / QUARTER_HOUR_MS) * QUARTER_HOUR_MS + offset;
+  for (let t = start; t > now.getTime() - lookbackMs; t -= QUARTER_HOUR_MS) {
+    const at = new Date(t);
+    if (matchesRule(rule, localTime(at, schedule.timezone))) return { at, key: occurrenceKey(at, schedule.timezone) };
+  }
+  return null;
+}
+
+/**
+ * The occurrence the cron should run now, if any — the latest one within
+ * the catch-up window that is newer than `lastOccurrence`.
+ */
+export function dueOccurrence(
+  schedule: Pick<RecurringSchedule, 'rrule' | 'timezone' | 'lastOccurrence'>,
+  now: Date
+): { at: Date; key: string } | null {
+  const occurrence = latestOccurrence(schedule, now);
+  if (!occurrence) return null;
+  return !schedule.lastOccurrence || occurrence.key > schedule.lastOccurrence ? occurrence : null;
+}
+
+/**
+ * The `lastOccurrence` to store with a just-saved rule: its latest
+ * occurrence still inside the catch-up window, so the cron never sends one
+ * from before the rule existed. Null when none falls in the window — older
+ * ones are already out of the cron's reach.
+ */
+export function seedLastOccurrence(
+  schedule: Pick<RecurringSchedule, 'rrule' | 'timezone'>,
+  now: Date
+): string | null {
+  return latestOccurrence(schedule, now)?.key ?? null;
+}
+
+// ── Description ────────────────────────────────────────────────────────────
+
+const ordinalWord = (n: number) =>
+  n === -1 ? 'last' : n < 0 ? `${-n}${['st', 'nd', 'rd'][-n - 1] ?? 'th'} to last` : `${n}${['st', 'nd', 'rd'][n - 1] ?? 'th'}`;
+
+function describeDays(days: RecurrenceWeekday[]): string {
+  const set = days.map(d => d.weekday).sort();
+  if (set.join() === '1,2,3,4,5') return 'weekdays';
+  if (set.join() === '0,6') return 'weekends';
+  return set.map(d => (days.length > 2 ? WEEKDAY_NAMES[d].slice(0, 3) : WEEKDAY_NAMES[d])).join(days.length > 2 ? ', ' : ' and ');
+}
+
+/** "Daily at 08:00 (Europe/Berlin)", "Monthly on the first business day at 09:00 (UTC)", … */
+export function describeSchedule(schedule: Pick<RecurringSchedule, 'rrule' | 'timezone'>): string {
+  const parsed = parseRecurrenceRule(schedule.rrule);
+  if (!parsed.valid) return 'Invalid schedule';
+  const { rule } = parsed;
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const at = ` at ${rule.byHour.map(h => `${pad(h)}:${pad(rule.byMinute)}`).join(', ')}`;
+  const every = (unit: string, plural: string) => (rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${plural}`);
+  let text: string;
+
+  switch (rule.freq) {
+    case 'HOURLY':
+      text = rule.byHour.length ? `Hourly${at}` : every('hour', 'hours') + (rule.byMinute ? ` at :${pad(rule.byMinute)}` : '');
+      if (rule.byDay.length) text += ` on ${describeDays(rule.byDay)}`;
+      break;
+    case 'DAILY':
+      text = (rule.interval === 1 ? 'Daily' : every('day', 'days')) + (rule.byDay.length ? ` on ${describeDays(rule.byDay)}` : '') + at;
+      break;
+    case 'WEEKLY':
+      text = `${rule.interval === 1 ? 'Weekly' : every('week', 'weeks')} on ${describeDays(rule.byDay)}${at}`;
+      break;
+    case 'MONTHLY': {
+      const weekdays = rule.byDay.every(d => d.ordinal === undefined) && describeDays(rule.byDay) === 'weekdays';
+      let day: string;
+      if (weekdays && rule.bySetPos.length === 1 && !rule.byMonthDay.length) {
+        day = `the ${rule.bySetPos[0] === 1 ? 'first' : ordinalWord(rule.bySetPos[0])} business day`;
+      } else if (rule.byMonthDay.length && !rule.byDay.length && !rule.bySetPos.length) {
+        day = rule.byMonthDay.map(d => (d === -1 ? 'the last day' : d < 0 ? `the ${ordinalWord(d)} day` : `day ${d}`)).join(', ');
+      } else if (rule.byDay.length === 1 && rule.byDay[0].ordinal !== undefined && !rule.bySetPos.length) {
+        day = `the ${ordinalWord(rule.byDay[0].ordinal)} ${WEEKDAY_NAMES[rule.byDay[0].weekday]}`;
+      } else {
+        day = 'selected days';
+      }
+      text = `${rule.interval === 1 ? 'Monthly' : every('month', 'months')} on ${day}${at}`;
+      break;
+    }
+  }
+  return `${text} (${schedule.timezone})`;
+}
@@ -0,0 +1,50 @@
+// ============================================================================
+// SECRET BOX — authenticated encryption for credentials stored in MongoDB
+//
+// AES-256-GCM with a random 96-bit IV per value, keyed by
+// `DATA_CONNECTION_KEY` (32 bytes, base64 — `openssl rand -base64 32`).
+// Envelopes are `v1.<iv>.<tag>.<ciphertext>` (base64url parts) so the scheme
+// can be rotated later without guessing at old values. Server-only.
+// ============================================================================
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+
+function getKey(): Buffer {
+  const raw = process.env.DATA_CONNECTION_KEY;
+  if (!raw) throw new Error('DATA_CONNECTION_KEY is not configured');
+  const key = Buffer.from(raw, 'base64');
+  if (key.length !== 32) throw new Error('DATA_CONNECTION_KEY must be 32 bytes, base64-encoded');
+  return key;
+}
+
+/** True when credentials can be stored — lets callers fail with a clear message before doing any work. */
+export function isSecretBoxConfigured(): boolean {
+  try {
+    getKey();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv, tag, ciphertext].map(part => (typeof part === 'string' ? part : part.toString('base64url'))).join('.');
+}
+
+/** Throws when the envelope is malformed, was encrypted under another key, or has been tampered with. */
+export function decryptSecret(envelope: string): string {
+  const [version, iv, tag, ciphertext, extra] = envelope.split('.');
+  if (version !== VERSION || !iv || !tag || !ciphertext || extra !== undefined) {
+    throw new Error('Unrecognized secret envelope');
+  }
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+}
@@ -1,16 +1,17 @@
 // ============================================================================
-// SHEET FETCH — shared Google Sheets/CSV fetching, SSRF guarding, and parsing.
+// SHEET FETCH — shared Google Sheets/CSV fetching and parsing (SSRF guarding
+// lives in `outbound-fetch.ts`).
 // Used by the `/api/live-data` route (per-request, rate-limited) and the
 // scheduled dashboard digest cron job (server-initiated, no HTTP round trip).
 // ============================================================================
 
 import * as Sentry from '@sentry/nextjs';
-import { promises as dnsPromises } from 'dns';
 import Papa from 'papaparse';
 import { type ColumnSchema, inferSchema } from '@/lib/utils/csv-schema';
+import { outboundFetch } from '@/lib/utils/outbound-fetch';
 
-const MAX_RESPONSE_BYTES = 512 * 1024; // 512 KB
-const FETCH_TIMEOUT_MS = 12_000;
+export const MAX_RESPONSE_BYTES = 512 * 1024; // 512 KB
+export const FETCH_TIMEOUT_MS = 12_000;
 
 export interface FetchedSheet {
   ok: true;
@@ -45,85 +46,6 @@ export function normalizeSheetUrl(raw: string): string {
   return raw;
 }
 
-/* ── Private-IP helper for DNS pre-resolution check ── */
-function isPrivateIPv4(ip: string): boolean {
-  const parts = ip.split('.').map(Number);
-  if (parts.length !== 4 || parts.some(p => isNaN(p) || p < 0 || p > 255)) return false;
-  const [a, b] = parts;
-  if (a === 127) return true;                          // loopback
-  if (a === 10) return true;                            // RFC 1918
-  if (a === 172 && b >= 16 && b <= 31) return true;    // RFC 1918
-  if (a === 192 && b === 168) return true;              // RFC 1918
-  if (a === 169 && b === 254) return true;              // link-local
-  if (a === 100 && b >= 64 && b <= 127) return true;   // carrier-grade NAT (RFC 6598)
-  if (a === 0) return true;                             // reserved
-  return false;
-}
-
-function isPrivateIPv6(ip: string): boolean {
-  const lower = ip.toLowerCase();
-  if (lower === '::1') return true;
-  if (lower.startsWith('fe80:')) return true;
-  if (lower.startsWith('fc') || lower.startsWith('fd')) return true;
-  if (lower.startsWith('::ffff:')) return true;
-  if (lower.startsWith('ff')) return true;
-  return false;
-}
-
-/**
- * Resolves the hostname and checks that none of the resulting IPs are private
- * or reserved. Guards against DNS-rebinding attacks where an attacker controls
- * a public domain that resolves to an internal IP.
- *
- * Note: there is an inherent TOCTOU window between this check and the actual
- * fetch — a sufficiently short DNS TTL could swap the IP between the two. This
- * is a best-effort mitigation; a network-level egress firewall is the complete
- * solution for high-security environments.
- */
-async function isDNSRebindingAttempt(hostname: string): Promise<boolean> {
-  const [v4Result, v6Result] = await Promise.allSettled([
-    dnsPromises.resolve4(hostname),
-    dnsPromises.resolve6(hostname),
-  ]);
-  const addresses = [
-    ...(v4Result.status === 'fulfilled' ? v4Result.value : []),
-    ...(v6Result.status === 'fulfilled' ? v6Result.value : []),
-  ];
-  // If DNS resolution fails entirely, allow through — the fetch will also fail.
-  if (addresses.length === 0) return false;
-  return addresses.some(ip => isPrivateIPv4(ip) || isPrivateIPv6(ip));
-}
-
-/* ── SSRF protection ── */
-export function isBlockedSheetUrl(urlString: string): boolean {
-  let parsed: URL;
-  try {
-    parsed = new URL(urlString);
-  } catch {
-    return true;
-  }
-  if (parsed.protocol !== 'https:') return true;
-  const h = parsed.hostname.toLowerCase();
-  // IPv4 private/reserved
-  if (h === 'localhost' || /^127\./.test(h)) return true; // full 127.0.0.0/8 loopback range
-  if (/^10\./.test(h)) return true;
-  if (/^192\.168\./.test(h)) return true;
-  if (/^172\.(1[6-9]|2\d|3[01])\./.test(h)) return true;
-  if (/^169\.254\./.test(h)) return true;
-  if (/^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./.test(h)) return true;
-  if (/^0\./.test(h)) return true;
-  if (h === 'metadata.google.internal') return true;
-  if (parsed.username || parsed.password) return true;
-  // IPv6 private/reserved. Node.js URL always includes brackets in .hostname
-  // e.g. new URL('https://[::1]/').hostname === '[::1]'
-  if (h === '[::1]') return true;
-  if (h.startsWith('[fe80:')) return true;
-  if (h.startsWith('[fc') || h.startsWith('[fd')) return true;
-  if (h.startsWith('[::ffff:')) return true;
-  if (h.startsWith('[ff')) return true;
-  return false;
-}
-
 /* ── CSV parsing (Papa Parse handles quoting, escapes, CRLF, and type coercion) ── */
 function parseCsv(text: string, truncated: boolean): {
   rawCsv: string;
@@ -164,6 +86,42 @@ function parseCsv(text: string, truncated: boolean): {
   };
 }
 
+/**
+ * Reads a response body up to MAX_RESPONSE_BYTES, cancelling the stream past
+ * that. `truncated` tells the caller the text was cut off — possibly mid-row
+ * or mid-value. Null when the response has no body.
+ */
+export async function readCappedBody(res: Response): Promise<{ text: string; truncated: boolean } | null> {
+  const reader = res.body?.getReader();
+  if (!reader) return null;
+
+  const chunks: Uint8Array[] = [];
+  let bytesRead = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (bytesRead + value.byteLength > MAX_RESPONSE_BYTES) {
+      chunks.push(value.slice(0, MAX_RESPONSE_BYTES - bytesRead));
+      truncated = true;
+      break;
+    }
+    chunks.push(value);
+    bytesRead += value.byteLength;
+  }
+  reader.cancel();
+
+  const text = new TextDecoder().decode(
+    chunks.reduce((acc, c) => {
+      const merged = new Uint8Array(acc.byteLength + c.byteLength);
+      merged.set(acc); merged.set(c, acc.byteLength);
+      return merged;
+    }, new Uint8Array())
+  );
+  return { text, truncated };
+}
+
 /**
  * Fetches a Google Sheets/CSV URL, enforces SSRF/protocol/size limits, and
  * parses + schema-infers the result. `rawUrl` is expected to already be
@@ -178,31 +136,17 @@ export async function fetchAndParseSheet(rawUrl: string): Promise<FetchedSheet |
     return { ok: false, error: 'Invalid URL', status: 400 };
   }
 
-  if (isBlockedSheetUrl(url)) {
-    return { ok: false, error: 'URL not allowed', status: 400 };
-  }
-
-  // Secondary check: resolve the hostname and reject if any returned IP is
-  // private/reserved (guards against DNS-rebinding bypasses of the above).
-  try {
-    const hostname = new URL(url).hostname;
-    if (await isDNSRebindingAttempt(hostname)) {
-      return { ok: false, error: 'URL not allowed', status: 400 };
-    }
-  } catch {
-    return { ok: false, error: 'Invalid URL', status: 400 };
-  }
-
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
   try {
-    const res = await fetch(url, {
+    // Never cached — each call is a fresh request to the (re-vetted) source.
+    const fetched = await outboundFetch(url, {
       signal: controller.signal,
       headers: { Accept: 'text/csv, text/plain, */*' },
-      // Never cache — always get fresh data
-      cache: 'no-store',
     });
+    if (!fetched.ok) return fetched;
+    const res = fetched.response;
 
     if (!res.ok) {
       return { ok: false, error: `Source returned ${res.status} ${res.statusText}`, status: 502 };
@@ -228,36 +172,11 @@ export async function fetchAndParseSheet(rawUrl: string): Promise<FetchedSheet |
       return { ok: false, error: 'URL does not appear to return CSV data', status: 400 };
     }
 
-    // Read up to MAX_RESPONSE_BYTES
-    const reader = res.body?.getReader();
-    if (!reader) {
+    const body = await readCappedBody(res);
+    if (!body) {
       return { ok: false, error: 'Empty response from source', status: 502 };
     }
-
-    const chunks: Uint8Array[] = [];
-    let bytesRead = 0;
-    let truncated = false;
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      if (bytesRead + value.byteLength > MAX_RESPONSE_BYTES) {
-        chunks.push(value.slice(0, MAX_RESPONSE_BYTES - bytesRead));
-        truncated = true;
-        break;
-      }
-      chunks.push(value);
-      bytesRead += value.byteLength;
-    }
-    reader.cancel();
-
-    const rawCsv = new TextDecoder().decode(
-      chunks.reduce((acc, c) => {
-        const merged = new Uint8Array(acc.byteLength + c.byteLength);
-        merged.set(acc); merged.set(c, acc.byteLength);
-        return merged;
-      }, new Uint8Array())
-    );
+    const { text: rawCsv, truncated } = body;
 
     const parsed = parseCsv(rawCsv, truncated);
     const schema = inferSchema(parsed.rows);
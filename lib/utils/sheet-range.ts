@@ -0,0 +1,253 @@
+// ============================================================================
+// SHEET RANGES — A1 notation, table detection and header flattening
+//
+// Workbooks rarely hold one clean table starting at A1: finance sheets put a
+// title and a summary block above the real header, group columns under
+// merged header cells ("Q1" spanning Revenue/Cost), and stack two or three
+// header rows. A parsed sheet is kept as a raw grid (merged areas hold their
+// value in the top-left cell only, as in the file) plus its merge list; this
+// module finds the most likely table in it, and turns any A1 range + header
+// row count into named-column rows ready for the prompt.
+// ============================================================================
+
+export type SheetCell = string | number | boolean | null;
+
+/** Zero-based, inclusive cell rectangle. */
+export interface SheetRange {
+  startRow: number;
+  startCol: number;
+  endRow: number;
+  endCol: number;
+}
+
+export interface WorkbookSheet {
+  name: string;
+  /** Row-major cell values; merged areas hold their value in the top-left cell only. */
+  cells: SheetCell[][];
+  merges: SheetRange[];
+}
+
+/** Which part of a workbook becomes the attached table. */
+export interface SheetSelection {
+  sheet: string;
+  /** A1-style range, e.g. "B4:H40". */
+  range: string;
+  /** Rows at the top of the range that form the header (0 = none — columns are named by letter). */
+  headerRows: number;
+}
+
+export interface ExtractedTable {
+  headers: string[];
+  rows: Record<string, SheetCell>[];
+}
+
+/** Header rows beyond this are almost certainly data the detector misread. */
+export const MAX_HEADER_ROWS = 3;
+
+function isEmpty(value: SheetCell | undefined): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/** Typed like Papa Parse's `dynamicTyping`: plain numbers and true/false convert, everything else stays text. */
+export function parseCellText(text: string): SheetCell {
+  const t = text.replace(/\s+/g, ' ').trim();
+  if (t === '') return null;
+  if (/^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(t)) return Number(t);
+  if (/^(true|false)$/i.test(t)) return t.toLowerCase() === 'true';
+  return t;
+}
+
+/** A number, or text that reads as one — "1,204", "(312)", "$4.50", "12%" — as pasted or extracted cells are. */
+function isNumberLike(value: SheetCell | undefined): boolean {
+  if (typeof value === 'number') return true;
+  return typeof value === 'string' && /^[-−(]?\s*[$€£¥]?\s*\d[\d,.\s]*%?\)?$/.test(value.trim());
+}
+
+/** 0 → "A", 25 → "Z", 26 → "AA". */
+export function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function columnIndex(letters: string): number {
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+const A1_CELL = /^\$?([A-Z]{1,3})\$?(\d{1,7})$/;
+
+/** Parse "B4:H40" (or a single cell, "$B$4" absolute refs allowed) — null when malformed. */
+export function parseA1Range(text: string): SheetRange | null {
+  const [from, to = from, extra] = text.trim().toUpperCase().split(':');
+  if (extra !== undefined) return null;
+  const a = A1_CELL.exec(from);
+  const b = A1_CELL.exec(to);
+  if (!a || !b || Number(a[2]) < 1 || Number(b[2]) < 1) return null;
+
+  const rows = [Number(a[2]) - 1, Number(b[2]) - 1];
+  const cols = [columnIndex(a[1]), columnIndex(b[1])];
+  return {
+    startRow: Math.min(...rows),
+    endRow: Math.max(...rows),
+    startCol: Math.min(...cols),
+    endCol: Math.max(...cols),
+  };
+}
+
+export function formatA1Range(range: SheetRange): string {
+  return `${columnLetter(range.startCol)}${range.startRow + 1}:${columnLetter(range.endCol)}${range.endRow + 1}`;
+}
+
+/** Width of the widest row — sheets are ragged, trailing empty cells are often absent. */
+export function sheetWidth(cells: SheetCell[][]): number {
+  return cells.reduce((max, row) => Math.max(max, row.length), 0);
+}
+
+/** The grid with every merged area filled from its top-left cell. */
+function fillMerges(sheet: WorkbookSheet): SheetCell[][] {
+  if (sheet.merges.length === 0) return sheet.cells;
+  const cells = sheet.cells.map(row => [...row]);
+  for (const m of sheet.merges) {
+    const value = sheet.cells[m.startRow]?.[m.startCol] ?? null;
+    for (let r = m.startRow; r <= m.endRow; r++) {
+      cells[r] ??= [];
+      for (let c = m.startCol; c <= m.endCol; c++) cells[r][c] = value;
+    }
+  }
+  return cells;
+}
+
+/**
+ * Best guess at the sheet's main table: split the used area into blocks at
+ * fully empty rows, take the block with the most filled cells (so a summary
+ * block above the data loses to the data), drop leading title rows (a single
+ * value, merged across or not), and count the leading rows without numbers
+ * (or number-like text) as header — at least one, at most `MAX_HEADER_ROWS`.
+ */
+export function detectTable(sheet: WorkbookSheet): { range: SheetRange; headerRows: number } | null {
+  const { cells } = sheet;
+  const blocks: Array<{ start: number; end: number; filled: number }> = [];
+  let current: { start: number; end: number; filled: number } | null = null;
+
+  cells.forEach((row, r) => {
+    const filled = row.filter(v => !isEmpty(v)).length;
+    if (filled === 0) { current = null; return; }
+    if (!current) { current = { start: r, end: r, filled: 0 }; blocks.push(current); }
+    current.end = r;
+    current.filled += filled;
+  });
+  if (blocks.length === 0) return null;
+
+  const block = blocks.reduce((best, b) => (b.filled > best.filled ? b : best));
+  const rowCells = (r: number) => (cells[r] ?? []).map((v, c) => ({ v, c })).filter(({ v }) => !isEmpty(v));
+
+  let start = block.start;
+  while (start < block.end && rowCells(start).length <= 1) start++;
+
+  let startCol = Infinity;
+  let endCol = -1;
+  for (let r = start; r <= block.end; r++) {
+    for (const { c } of rowCells(r)) {
+      startCol = Math.min(startCol, c);
+      endCol = Math.max(endCol, c);
+    }
+  }
+  // Extend over merged header cells whose value sits left of the first filled column.
+  for (const m of sheet.merges) {
+    if (m.startRow >= start && m.startRow <= block.end && m.endCol >= startCol && m.startCol < startCol) startCol = m.startCol;
+  }
+
+  let headerRows = 1;
+  while (
+    headerRows < MAX_HEADER_ROWS &&
+    start + headerRows < block.end &&
+    !rowCells(start + headerRows).some(({ v }) => isNumberLike(v))
+  ) {
+    headerRows++;
+  }
+
+  return { range: { startRow: start, endRow: block.end, startCol, endCol }, headerRows: block.end > start ? headerRows : 0 };
+}
+
+/** The detected table as a selection, or null for an empty sheet. */
+export function defaultSheetSelection(sheet: WorkbookSheet): SheetSelection | null {
+  const detected = detectTable(sheet);
+  return detected ? { sheet: sheet.name, range: formatA1Range(detected.range), headerRows: detected.headerRows } : null;
+}
+
+function cellText(value: SheetCell | undefined): string {
+  return isEmpty(value) ? '' : String(value).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * One name per column from `headerRows` stacked header rows. Blank cells in
+ * the upper rows inherit the group label to their left (a group header
+ * written once rather than merged); each column's parts are joined top to
+ * bottom, skipping repeats, so "Q1" over "Revenue" becomes "Q1 Revenue".
+ * Blank columns are named by letter; duplicates get a numeric suffix.
+ */
+export function flattenHeaders(header: SheetCell[][], width: number, firstCol = 0): string[] {
+  const grid = header.map((row, r) => {
+    const texts = Array.from({ length: width }, (_, c) => cellText(row[c]));
+    if (r < header.length - 1) {
+      for (let c = 1; c < width; c++) if (!texts[c]) texts[c] = texts[c - 1];
+    }
+    return texts;
+  });
+
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, c) => {
+    const parts: string[] = [];
+    for (const row of grid) if (row[c] && parts[parts.length - 1] !== row[c]) parts.push(row[c]);
+    const base = parts.join(' ') || `Column ${columnLetter(firstCol + c)}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+/** The rows of `range`, keyed by the flattened header. Fully empty rows are dropped. */
+export function extractTable(sheet: WorkbookSheet, requested: SheetRange, headerRows: number): ExtractedTable {
+  const filled = fillMerges(sheet);
+  // Nothing lies past the grid — clamp, so a typed A1:ZZZ9999999 doesn't
+  // allocate millions of empty rows.
+  const range = {
+    ...requested,
+    endRow: Math.min(requested.endRow, filled.length - 1),
+    endCol: Math.min(requested.endCol, sheetWidth(filled) - 1),
+  };
+  if (range.endRow < range.startRow || range.endCol < range.startCol) return { headers: [], rows: [] };
+  const width = range.endCol - range.startCol + 1;
+  const slice = (r: number) => Array.from({ length: width }, (_, c) => filled[r]?.[range.startCol + c] ?? null);
+
+  const headerCount = Math.max(0, Math.min(headerRows, MAX_HEADER_ROWS, range.endRow - range.startRow + 1));
+  const header = Array.from({ length: headerCount }, (_, i) => slice(range.startRow + i));
+  const headers = flattenHeaders(header, width, range.startCol);
+
+  const rows: Record<string, SheetCell>[] = [];
+  for (let r = range.startRow + headerCount; r <= range.endRow; r++) {
+    const values = slice(r);
+    if (values.every(isEmpty)) continue;
+    rows.push(Object.fromEntries(headers.map((h, c) => [h, isEmpty(values[c]) ? null : values[c]])));
+  }
+  return { headers, rows };
+}
+
+/** Validate a selection against its workbook and extract the table, or explain what's wrong. */
+export function extractSelection(
+  sheets: WorkbookSheet[],
+  selection: SheetSelection
+): { table: ExtractedTable } | { error: string } {
+  const sheet = sheets.find(s => s.name === selection.sheet);
+  if (!sheet) return { error: `Sheet "${selection.sheet}" not found` };
+  const range = parseA1Range(selection.range);
+  if (!range) return { error: `"${selection.range}" isn't a valid range — use A1 notation like B4:H40` };
+
+  const table = extractTable(sheet, range, selection.headerRows);
+  if (table.rows.length === 0) return { error: 'That range has no data rows below its header' };
+  return { table };
+}
@@ -0,0 +1,116 @@
+// ============================================================================
+// SNAPSHOT DATA — capture a chart's plotted data, and put it back
+//
+// A snapshot keeps only what a live refresh rewrites (see
+// `chart-data-refresh.ts`): each series' data / links / nodes and the
+// category axis labels. Viewing a snapshot swaps that data into the chart's
+// *current* option, so later styling and annotations still apply; comparing
+// draws the snapshot's values as dashed ghost lines behind a bar/line chart.
+// ============================================================================
+
+import type { EChartsOption } from 'echarts';
+import type { SnapshotData } from '@/lib/types/snapshot';
+import { extractSeriesPoints } from '@/lib/utils/option-series';
+
+type AnyRecord = Record<string, unknown>;
+
+const DATA_KEYS = ['data', 'links', 'edges', 'nodes'] as const;
+const GHOST_SERIES_TYPES = new Set(['bar', 'line']);
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value == null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function axisData(option: EChartsOption, key: 'xAxis' | 'yAxis'): Array<unknown[] | null> {
+  return asArray(option[key] as AnyRecord | AnyRecord[] | undefined)
+    .map(axis => (axis?.type === 'category' && Array.isArray(axis.data) ? axis.data : null));
+}
+
+/** The data a refresh can change in `option` — what a snapshot stores. */
+export function captureSnapshotData(option: EChartsOption): SnapshotData {
+  const series = asArray(option.series as AnyRecord | AnyRecord[] | undefined).map(s => {
+    const entry: SnapshotData['series'][number] = {};
+    for (const key of DATA_KEYS) {
+      if (Array.isArray(s?.[key])) entry[key] = s[key] as unknown[];
+    }
+    return entry;
+  });
+  const xAxis = axisData(option, 'xAxis');
+  const yAxis = axisData(option, 'yAxis');
+  return {
+    series,
+    ...(xAxis.some(Boolean) ? { xAxis } : {}),
+    ...(yAxis.some(Boolean) ? { yAxis } : {}),
+  };
+}
+
+/**
+ * `option` with a snapshot's data swapped in. Series and axes are matched by
+ * position; ones the snapshot doesn't cover keep their current data.
+ */
+export function applySnapshotData(option: EChartsOption, data: SnapshotData): EChartsOption {
+  const clone = JSON.parse(JSON.stringify(option)) as AnyRecord;
+  const series = asArray(clone.series as AnyRecord | AnyRecord[] | undefined);
+  series.forEach((s, i) => {
+    const stored = data.series[i];
+    if (!stored) return;
+    for (const key of DATA_KEYS) {
+      if (stored[key]) s[key] = stored[key];
+    }
+  });
+  for (const key of ['xAxis', 'yAxis'] as const) {
+    asArray(clone[key] as AnyRecord | AnyRecord[] | undefined).forEach((axis, i) => {
+      const labels = data[key]?.[i];
+      if (labels && axis?.type === 'category') axis.data = labels;
+    });
+  }
+  return clone as EChartsOption;
+}
+
+/** Whether `option` is a bar/line chart on a category axis — the charts a ghost overlay makes sense for. */
+export function canCompareSnapshot(option: EChartsOption): boolean {
+  const series = asArray(option.series as AnyRecord | AnyRecord[] | undefined);
+  return series.length > 0
+    && series.every(s => GHOST_SERIES_TYPES.has(String(s?.type)))
+    && [...axisData(option, 'xAxis'), ...axisData(option, 'yAxis')].some(Boolean);
+}
+
+/**
+ * `option` plus one dashed "ghost" line per series, drawing the snapshot's
+ * values at the current chart's categories (gaps where a category is new).
+ * Each ghost takes its series' color — explicit, or `palette[i]` as the
+ * theme would assign it. Returns `option` unchanged for charts that
+ * `canCompareSnapshot` rejects.
+ */
+export function withSnapshotGhost(option: EChartsOption, data: SnapshotData, label: string, palette: string[]): EChartsOption {
+  if (!canCompareSnapshot(option)) return option;
+
+  const labels = ([...axisData(option, 'xAxis'), ...axisData(option, 'yAxis')].find(Boolean) ?? [])
+    .map(d => String(d && typeof d === 'object' ? (d as AnyRecord).value ?? '' : d ?? ''));
+  const previous = extractSeriesPoints(applySnapshotData(option, data));
+  const series = asArray(option.series as AnyRecord | AnyRecord[] | undefined);
+
+  const ghosts = series.map((s, i) => {
+    const before = new Map((previous[i]?.points ?? []).map(p => [p.category, p.value]));
+    const style = (s.itemStyle ?? {}) as AnyRecord;
+    const color = typeof style.color === 'string' ? style.color : palette[i % palette.length];
+    return {
+      type: 'line',
+      name: `${typeof s.name === 'string' && s.name ? s.name : `Series ${i + 1}`} · ${label}`,
+      data: labels.map(category => before.get(category) ?? null),
+      ...(s.xAxisIndex !== undefined ? { xAxisIndex: s.xAxisIndex } : {}),
+      ...(s.yAxisIndex !== undefined ? { yAxisIndex: s.yAxisIndex } : {}),
+      color,
+      lineStyle: { type: 'dashed', width: 1.5, opacity: 0.6 },
+      itemStyle: { opacity: 0.6 },
+      symbol: 'circle',
+      symbolSize: 4,
+      connectNulls: false,
+      silent: true,
+      z: 1,
+    };
+  });
+
+  return { ...option, series: [...series, ...ghosts] } as EChartsOption;
+}
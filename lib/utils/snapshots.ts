@@ -0,0 +1,102 @@
+import * as Sentry from '@sentry/nextjs';
+import { createHash } from 'crypto';
+import type { EChartsOption } from 'echarts';
+import { DataSnapshotModel, UserUsageModel } from '@/lib/database/models';
+import { VALIDATION_LIMITS } from '@/lib/utils/constants';
+import { captureSnapshotData } from '@/lib/utils/snapshot-data';
+import type { SnapshotTrigger } from '@/lib/types/snapshot';
+
+type Tier = 'free' | 'pro' | 'enterprise';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How many data snapshots a visualization keeps on each plan, and for how long — older ones are pruned. */
+export function getSnapshotRetention(tier: Tier): { maxCount: number; maxAgeDays: number } {
+  switch (tier) {
+    case 'enterprise':
+      return { maxCount: VALIDATION_LIMITS.MAX_SNAPSHOTS_ENTERPRISE, maxAgeDays: VALIDATION_LIMITS.SNAPSHOT_RETENTION_DAYS_ENTERPRISE };
+    case 'pro':
+      return { maxCount: VALIDATION_LIMITS.MAX_SNAPSHOTS_PRO, maxAgeDays: VALIDATION_LIMITS.SNAPSHOT_RETENTION_DAYS_PRO };
+    default:
+      return { maxCount: VALIDATION_LIMITS.MAX_SNAPSHOTS_FREE, maxAgeDays: VALIDATION_LIMITS.SNAPSHOT_RETENTION_DAYS_FREE };
+  }
+}
+
+/** Short, order-sensitive hash of a fetched sheet — headers and rows both count. */
+export function hashRows(headers: string[], rows: Record<string, unknown>[]): string {
+  const hash = createHash('sha256').update(JSON.stringify(headers));
+  for (const row of rows) hash.update('\n').update(JSON.stringify(headers.map(h => row[h] ?? null)));
+  return hash.digest('hex').slice(0, 16);
+}
+
+export interface RecordSnapshotInput {
+  userId: string;
+  visualizationId: string;
+  /** The refreshed option — only its data is stored. */
+  option: EChartsOption;
+  sheet: { headers: string[]; rows: Record<string, unknown>[] };
+  trigger: SnapshotTrigger;
+  summary?: string;
+  capturedAt?: Date;
+  /** The visualization's current session TTL — undefined once saved (snapshots then never expire). */
+  sessionExpiresAt?: Date;
+}
+
+/** Give every snapshot of a visualization its session TTL, or clear it once the visualization is saved. */
+export async function syncSnapshotExpiry(visualizationId: string, sessionExpiresAt: Date | undefined): Promise<void> {
+  await DataSnapshotModel.updateMany(
+    { visualizationId },
+    sessionExpiresAt ? { $set: { sessionExpiresAt } } : { $unset: { sessionExpiresAt: 1 } }
+  );
+}
+
+/**
+ * Store a data snapshot for a live refresh, then prune the visualization's
+ * snapshots past the owner's plan retention. Skipped when the rows hash the
+ * same as the latest snapshot's — an unchanged source adds nothing to scrub
+ * through. Best-effort like `recordRevision`: errors are reported and
+ * swallowed so history never fails the refresh itself.
+ */
+export async function recordSnapshot({
+  userId, visualizationId, option, sheet, trigger, summary, capturedAt = new Date(), sessionExpiresAt,
+}: RecordSnapshotInput): Promise<void> {
+  try {
+    const rowHash = hashRows(sheet.headers, sheet.rows);
+    const latest = await DataSnapshotModel.findOne({ visualizationId })
+      .sort({ capturedAt: -1 })
+      .select('rowHash sessionExpiresAt')
+      .lean();
+    // All snapshots share one TTL, so the latest's tells whether it moved.
+    if (latest && latest.sessionExpiresAt?.getTime() !== sessionExpiresAt?.getTime()) {
+      await syncSnapshotExpiry(visualizationId, sessionExpiresAt);
+    }
+    if (latest?.rowHash === rowHash) return;
+
+    await DataSnapshotModel.create({
+      visualizationId,
+      userId,
+      capturedAt,
+      rowHash,
+      rowCount: sheet.rows.length,
+      data: captureSnapshotData(option),
+      trigger,
+      summary: summary?.slice(0, VALIDATION_LIMITS.MAX_REVISION_PROMPT_LENGTH),
+      ...(sessionExpiresAt ? { sessionExpiresAt } : {}),
+    });
+
+    const usage = await UserUsageModel.findOne({ userId }).select('tier').lean();
+    const { maxCount, maxAgeDays } = getSnapshotRetention(usage?.tier ?? 'free');
+    const oldestKept = await DataSnapshotModel.findOne({ visualizationId })
+      .sort({ capturedAt: -1 })
+      .skip(maxCount - 1)
+      .select('capturedAt')
+      .lean();
+    // Whichever limit bites first: the `maxCount`-th newest, or the age cutoff.
+    const ageCutoff = capturedAt.getTime() - maxAgeDays * DAY_MS;
+    const cutoff = new Date(Math.max(ageCutoff, oldestKept ? new Date(oldestKept.capturedAt).getTime() : 0));
+    await DataSnapshotModel.deleteMany({ visualizationId, capturedAt: { $lt: cutoff } });
+  } catch (error) {
+    console.error(error);
+    Sentry.captureException(error);
+  }
+}
@@ -0,0 +1,156 @@
+// ============================================================================
+// SPEC DIFF — structural comparison of two visualization specs
+//
+// Powers the revision browser's "compare" view. Rather than a raw JSON diff
+// (noisy: one re-sorted array shows as dozens of lines), it reports what a
+// reader cares about: series added/removed/retyped, how many data values
+// changed per series, axis type/name/category changes, the title, theme and
+// annotations.
+// ============================================================================
+
+import type { EChartsOption } from 'echarts';
+import type { VisualizationSpec } from '@/lib/types/echarts-spec';
+import type { SpecDiffEntry } from '@/lib/types/revision';
+
+type AnyRecord = Record<string, unknown>;
+
+function asArray(value: unknown): AnyRecord[] {
+  if (value == null) return [];
+  return (Array.isArray(value) ? value : [value]) as AnyRecord[];
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function titleText(option: EChartsOption): string {
+  const t = asArray(option.title)[0];
+  return typeof t?.text === 'string' ? t.text : '';
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+function seriesLabel(s: AnyRecord, index: number): string {
+  return typeof s.name === 'string' && s.name ? `"${s.name}"` : `#${index + 1}`;
+}
+
+/** Pair series across specs by name, falling back to position for unnamed ones. */
+function pairSeries(before: AnyRecord[], after: AnyRecord[]): Array<[AnyRecord | undefined, AnyRecord | undefined, string]> {
+  const pairs: Array<[AnyRecord | undefined, AnyRecord | undefined, string]> = [];
+  const usedAfter = new Set<number>();
+
+  before.forEach((b, i) => {
+    const j = typeof b.name === 'string' && b.name
+      ? after.findIndex((a, k) => !usedAfter.has(k) && a.name === b.name)
+      : i < after.length && !usedAfter.has(i) && !after[i].name ? i : -1;
+    if (j !== -1) usedAfter.add(j);
+    pairs.push([b, j === -1 ? undefined : after[j], seriesLabel(b, i)]);
+  });
+  after.forEach((a, k) => {
+    if (!usedAfter.has(k)) pairs.push([undefined, a, seriesLabel(a, k)]);
+  });
+  return pairs;
+}
+
+/** A series minus its data and type — what's left is presentation. */
+function styleOf(series: AnyRecord): AnyRecord {
+  return Object.fromEntries(Object.entries(series).filter(([key]) => key !== 'data' && key !== 'type'));
+}
+
+function diffSeries(before: EChartsOption, after: EChartsOption): SpecDiffEntry[] {
+  const entries: SpecDiffEntry[] = [];
+  for (const [b, a, label] of pairSeries(asArray(before.series), asArray(after.series))) {
+    if (!b) {
+      entries.push({ section: 'series', kind: 'added', summary: `Series ${label} added (${String(a!.type ?? 'unknown')})` });
+      continue;
+    }
+    if (!a) {
+      entries.push({ section: 'series', kind: 'removed', summary: `Series ${label} removed` });
+      continue;
+    }
+    if (a.type !== b.type) {
+      entries.push({ section: 'series', kind: 'changed', summary: `Series ${label} changed from ${String(b.type)} to ${String(a.type)}` });
+    }
+
+    const bData = Array.isArray(b.data) ? b.data : [];
+    const aData = Array.isArray(a.data) ? a.data : [];
+    const shared = Math.min(bData.length, aData.length);
+    let changed = 0;
+    for (let i = 0; i < shared; i++) if (!same(bData[i], aData[i])) changed++;
+    const parts: string[] = [];
+    if (changed > 0) parts.push(`${changed} of ${plural(shared, 'value')} changed`);
+    if (aData.length > bData.length) parts.push(`${plural(aData.length - bData.length, 'point')} added`);
+    if (aData.length < bData.length) parts.push(`${plural(bData.length - aData.length, 'point')} removed`);
+    if (parts.length > 0) entries.push({ section: 'data', kind: 'changed', summary: `Series ${label}: ${parts.join(', ')}` });
+
+    if (!same(styleOf(b), styleOf(a))) entries.push({ section: 'style', kind: 'changed', summary: `Series ${label} styling changed` });
+  }
+  return entries;
+}
+
+function diffAxes(before: EChartsOption, after: EChartsOption): SpecDiffEntry[] {
+  const entries: SpecDiffEntry[] = [];
+  for (const key of ['xAxis', 'yAxis'] as const) {
+    const bAxes = asArray(before[key]);
+    const aAxes = asArray(after[key]);
+    const label = (i: number, total: number) => (total > 1 ? `${key}[${i}]` : key);
+    const total = Math.max(bAxes.length, aAxes.length);
+
+    for (let i = 0; i < total; i++) {
+      const b = bAxes[i];
+      const a = aAxes[i];
+      if (!b) { entries.push({ section: 'axes', kind: 'added', summary: `${label(i, total)} added` }); continue; }
+      if (!a) { entries.push({ section: 'axes', kind: 'removed', summary: `${label(i, total)} removed` }); continue; }
+
+      if (a.type !== b.type) {
+        entries.push({ section: 'axes', kind: 'changed', summary: `${label(i, total)} type ${String(b.type ?? 'default')} → ${String(a.type ?? 'default')}` });
+      }
+      if (a.name !== b.name) {
+        entries.push({ section: 'axes', kind: 'changed', summary: `${label(i, total)} name "${String(b.name ?? '')}" → "${String(a.name ?? '')}"` });
+      }
+      if (Array.isArray(a.data) || Array.isArray(b.data)) {
+        const bCats = new Set((Array.isArray(b.data) ? b.data : []).map(d => JSON.stringify(d)));
+        const aCats = new Set((Array.isArray(a.data) ? a.data : []).map(d => JSON.stringify(d)));
+        const added = [...aCats].filter(c => !bCats.has(c)).length;
+        const removed = [...bCats].filter(c => !aCats.has(c)).length;
+        if (added || removed) {
+          const parts = [added && `${added} added`, removed && `${removed} removed`].filter(Boolean);
+          entries.push({ section: 'axes', kind: 'changed', summary: `${label(i, total)} categories: ${parts.join(', ')}` });
+        } else if (!same(a.data, b.data)) {
+          entries.push({ section: 'axes', kind: 'changed', summary: `${label(i, total)} categories reordered` });
+        }
+      }
+    }
+  }
+  return entries;
+}
+
+/** Structural differences going from `before` to `after` — empty when nothing a reader would notice changed. */
+export function diffSpecs(before: VisualizationSpec, after: VisualizationSpec): SpecDiffEntry[] {
+  const entries: SpecDiffEntry[] = [];
+
+  const bTitle = titleText(before.option) || before.title || '';
+  const aTitle = titleText(after.option) || after.title || '';
+  if (bTitle !== aTitle) entries.push({ section: 'title', kind: 'changed', summary: `Title "${bTitle}" → "${aTitle}"` });
+
+  entries.push(...diffSeries(before.option, after.option), ...diffAxes(before.option, after.option));
+
+  if (!same(before.theme, after.theme)) entries.push({ section: 'style', kind: 'changed', summary: 'Brand theme changed' });
+  if (before.styleEffect !== after.styleEffect) {
+    entries.push({ section: 'style', kind: 'changed', summary: `Style effect ${before.styleEffect ?? 'none'} → ${after.styleEffect ?? 'none'}` });
+  }
+
+  const bNotes = before.annotations?.length ?? 0;
+  const aNotes = after.annotations?.length ?? 0;
+  if (!same(before.annotations ?? [], after.annotations ?? [])) {
+    entries.push({
+      section: 'annotations',
+      kind: aNotes > bNotes ? 'added' : aNotes < bNotes ? 'removed' : 'changed',
+      summary: `Annotations ${bNotes} → ${aNotes}`,
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,344 @@
+// ============================================================================
+// TRANSFORM ENGINE — runs a spec's `transforms` recipe over the source rows
+//
+// The deterministic step between the dataset and the encoding plan: filter,
+// group/aggregate, pivot/unpivot, sort, limit and derived columns, applied in
+// order. Pure and isomorphic like the aggregation engine, so the server (on
+// generation, edits and scheduled refreshes) and the browser (live refresh)
+// rebuild the same chart from the same rows.
+//
+// Steps are untrusted — written by the AI or edited in the UI — so every
+// step is shape-checked first and every column it names is checked against
+// the table as it stands at that step. Errors are phrased so they can be fed
+// straight back to the model as repair feedback.
+// ============================================================================
+
+import { inferSchema, normalizeRows, type ColumnSchema } from '@/lib/utils/csv-schema';
+import {
+  AGGREGATES,
+  FILTER_OPS,
+  aggregate,
+  matchesFilter,
+  runEncodingPlan,
+  toNumber,
+  type EncodingResult,
+} from '@/lib/utils/aggregation-engine';
+import { evaluateExpression, parseExpression } from '@/lib/utils/transform-expression';
+import type { EncodingAggregate, EncodingPlan } from '@/lib/types/encoding-plan';
+import type { TransformKind, TransformStep } from '@/lib/types/transform';
+
+type Row = Record<string, unknown>;
+
+export type TransformResult =
+  | { ok: true; rows: Row[]; columns: string[] }
+  | { ok: false; errors: string[] };
+
+export const TRANSFORM_KINDS: TransformKind[] = ['filter', 'aggregate', 'pivot', 'unpivot', 'sort', 'limit', 'derive'];
+
+const MAX_STEPS = 20;
+const MAX_ROWS = 100_000;
+const MAX_PIVOT_COLUMNS = 50;
+const MAX_NAME_LENGTH = 80;
+const BLANK_LABEL = '(blank)';
+
+// ── Shape validation (no rows needed) ───────────────────────────────────────
+
+const isName = (v: unknown): v is string => typeof v === 'string' && v.trim() !== '' && v.length <= MAX_NAME_LENGTH;
+const isNameList = (v: unknown): v is string[] => Array.isArray(v) && v.every(isName);
+
+function stepShapeErrors(step: TransformStep): string[] {
+  const errors: string[] = [];
+  switch (step.kind) {
+    case 'filter':
+      if (!Array.isArray(step.filters) || step.filters.length === 0) errors.push('"filters" must be a non-empty array.');
+      for (const f of Array.isArray(step.filters) ? step.filters : []) {
+        if (!isName(f?.column)) errors.push('Every filter needs a "column".');
+        if (!FILTER_OPS.includes(f?.op)) errors.push(`Filter op must be one of ${FILTER_OPS.join(', ')} (got ${JSON.stringify(f?.op)}).`);
+        else if (f.op === 'in' && !Array.isArray(f.value)) errors.push('Filter op "in" needs an array "value".');
+      }
+      break;
+    case 'aggregate':
+      if (!isNameList(step.groupBy)) errors.push('"groupBy" must be an array of column names (empty for one overall row).');
+      if (!Array.isArray(step.measures) || step.measures.length === 0) errors.push('"measures" must be a non-empty array.');
+      for (const m of Array.isArray(step.measures) ? step.measures : []) {
+        if (!AGGREGATES.includes(m?.aggregate)) errors.push(`Measure "aggregate" must be one of ${AGGREGATES.join(', ')}.`);
+        if (m?.aggregate !== 'count' && !isName(m?.column)) errors.push(`Measure "${m?.as ?? '?'}" needs a "column" for aggregate "${m?.aggregate}".`);
+        if (!isName(m?.as)) errors.push('Every measure needs an output name in "as".');
+      }
+      break;
+    case 'pivot':
+      if (!isNameList(step.index)) errors.push('"index" must be an array of column names.');
+      if (!isName(step.columns)) errors.push('"columns" must be the column whose values become new columns.');
+      if (!isName(step.values)) errors.push('"values" must be the column to aggregate into each cell.');
+      if (!AGGREGATES.includes(step.aggregate)) errors.push(`"aggregate" must be one of ${AGGREGATES.join(', ')}.`);
+      break;
+    case 'unpivot':
+      if (!isNameList(step.columns) || step.columns.length === 0) errors.push('"columns" must be a non-empty array of column names.');
+      if (!isName(step.key)) errors.push('"key" must name the new column that holds the old column names.');
+      if (!isName(step.value)) errors.push('"value" must name the new column that holds the cells.');
+      break;
+    case 'sort':
+      if (!Array.isArray(step.by) || step.by.length === 0) errors.push('"by" must be a non-empty array of { "column", "direction" }.');
+      for (const key of Array.isArray(step.by) ? step.by : []) {
+        if (!isName(key?.column) || !['asc', 'desc'].includes(key?.direction)) {
+          errors.push('Each sort key must be { "column": name, "direction": "asc" | "desc" }.');
+        }
+      }
+      break;
+    case 'limit':
+      if (!Number.isInteger(step.count) || step.count < 1 || step.count > MAX_ROWS) {
+        errors.push(`"count" must be an integer between 1 and ${MAX_ROWS}.`);
+      }
+      break;
+    case 'derive': {
+      if (!isName(step.as)) errors.push('"as" must name the new column.');
+      const parsed = parseExpression(step.expression);
+      if (!parsed.ok) errors.push(`Expression error: ${parsed.error}.`);
+      break;
+    }
+    default:
+      errors.push(`"kind" must be one of ${TRANSFORM_KINDS.join(', ')} (got ${JSON.stringify((step as { kind?: unknown })?.kind)}).`);
+  }
+  return errors;
+}
+
+/**
+ * Structural check of an (untrusted) recipe — step kinds, required fields,
+ * limits and expression syntax. Column names are checked by
+ * `applyTransforms`, against the actual table at each step.
+ */
+export function validateTransformSteps(steps: unknown): string[] {
+  if (!Array.isArray(steps)) return ['"transforms" must be an array of steps.'];
+  if (steps.length > MAX_STEPS) return [`At most ${MAX_STEPS} transform steps are supported.`];
+  return steps.flatMap((step, i) =>
+    step && typeof step === 'object'
+      ? stepShapeErrors(step as TransformStep).map(e => `Step ${i + 1} (${(step as TransformStep).kind}): ${e}`)
+      : [`Step ${i + 1}: must be an object.`]
+  );
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function toLabel(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/** Numbers numerically, dates chronologically, anything else as text; blanks always last. */
+function compareCells(a: unknown, b: unknown): number {
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (na !== null && nb !== null) return na - nb;
+  const ta = Date.parse(toLabel(a));
+  const tb = Date.parse(toLabel(b));
+  if (!Number.isNaN(ta) && !Number.isNaN(tb)) return ta - tb;
+  return toLabel(a).localeCompare(toLabel(b), undefined, { numeric: true });
+}
+
+function columnsOf(rows: Row[]): string[] {
+  return [...new Set(rows.flatMap(r => Object.keys(r)))];
+}
+
+/** Groups rows by the values of `keys`, in first-seen order. */
+function groupRows(rows: Row[], keys: string[]): Array<{ key: Row; rows: Row[] }> {
+  const groups = new Map<string, { key: Row; rows: Row[] }>();
+  for (const row of rows) {
+    const id = JSON.stringify(keys.map(k => toLabel(row[k])));
+    if (!groups.has(id)) groups.set(id, { key: Object.fromEntries(keys.map(k => [k, row[k] ?? null])), rows: [] });
+    groups.get(id)!.rows.push(row);
+  }
+  return [...groups.values()];
+}
+
+function aggregateColumn(rows: Row[], column: string | undefined, fn: EncodingAggregate): number | null {
+  const values = column && fn !== 'count'
+    ? rows.map(r => toNumber(r[column])).filter((v): v is number => v !== null)
+    : [];
+  return aggregate(values, rows.length, fn);
+}
+
+// ── Steps ───────────────────────────────────────────────────────────────────
+
+type StepResult = { rows: Row[]; columns: string[] } | { error: string };
+
+function applyStep(step: TransformStep, rows: Row[], columns: string[]): StepResult {
+  const known = new Set(columns);
+  const missing = (names: Array<string | undefined>) => {
+    const unknown = names.filter((n): n is string => n !== undefined && !known.has(n));
+    if (unknown.length === 0) return null;
+    const available = columns.length > 20 ? `${columns.slice(0, 20).join(', ')}, …` : columns.join(', ');
+    return { error: `${unknown.map(n => `"${n}"`).join(', ')} ${unknown.length > 1 ? 'are not columns' : 'is not a column'} at this step — available: ${available}.` };
+  };
+
+  switch (step.kind) {
+    case 'filter': {
+      const bad = missing(step.filters.map(f => f.column));
+      if (bad) return bad;
+      return { rows: rows.filter(r => step.filters.every(f => matchesFilter(r, f))), columns };
+    }
+
+    case 'aggregate': {
+      const bad = missing([...step.groupBy, ...step.measures.map(m => (m.aggregate === 'count' ? undefined : m.column))]);
+      if (bad) return bad;
+      const outputs = [...step.groupBy, ...step.measures.map(m => m.as)];
+      if (new Set(outputs).size !== outputs.length) return { error: 'Group-by columns and measure names must all be different.' };
+      const out = groupRows(rows, step.groupBy).map(group => ({
+        ...group.key,
+        ...Object.fromEntries(step.measures.map(m => [m.as, aggregateColumn(group.rows, m.column, m.aggregate)])),
+      }));
+      return { rows: out, columns: outputs };
+    }
+
+    case 'pivot': {
+      const bad = missing([...step.index, step.columns, step.values]);
+      if (bad) return bad;
+      const labels = [...new Set(rows.map(r => toLabel(r[step.columns]) || BLANK_LABEL))];
+      if (labels.length > MAX_PIVOT_COLUMNS) {
+        return { error: `Pivoting "${step.columns}" would create ${labels.length} columns — at most ${MAX_PIVOT_COLUMNS}; filter it first.` };
+      }
+      const clash = labels.find(l => step.index.includes(l));
+      if (clash) return { error: `Pivoted value "${clash}" collides with an index column.` };
+
+      const empty = step.aggregate === 'count' ? 0 : null;
+      const out = groupRows(rows, step.index).map(group => {
+        const byLabel = new Map<string, Row[]>();
+        for (const row of group.rows) {
+          const label = toLabel(row[step.columns]) || BLANK_LABEL;
+          byLabel.set(label, [...(byLabel.get(label) ?? []), row]);
+        }
+        return {
+          ...group.key,
+          ...Object.fromEntries(labels.map(l => {
+            const cell = byLabel.get(l);
+            return [l, cell ? aggregateColumn(cell, step.values, step.aggregate) : empty];
+          })),
+        };
+      });
+      return { rows: out, columns: [...step.index, ...labels] };
+    }
+
+    case 'unpivot': {
+      const bad = missing(step.columns);
+      if (bad) return bad;
+      const kept = columns.filter(c => !step.columns.includes(c));
+      if (step.key === step.value || kept.includes(step.key) || kept.includes(step.value)) {
+        return { error: `"key" and "value" must be new, different column names.` };
+      }
+      if (rows.length * step.columns.length > MAX_ROWS) {
+        return { error: `Unpivoting would produce ${(rows.length * step.columns.length).toLocaleString()} rows — at most ${MAX_ROWS.toLocaleString()}.` };
+      }
+      const out = rows.flatMap(row => {
+        const base = Object.fromEntries(kept.map(c => [c, row[c] ?? null]));
+        return step.columns.map(c => ({ ...base, [step.key]: c, [step.value]: row[c] ?? null }));
+      });
+      return { rows: out, columns: [...kept, step.key, step.value] };
+    }
+
+    case 'sort': {
+      const bad = missing(step.by.map(k => k.column));
+      if (bad) return bad;
+      const sorted = [...rows].sort((a, b) => {
+        for (const { column, direction } of step.by) {
+          const blankA = isBlank(a[column]);
+          const blankB = isBlank(b[column]);
+          if (blankA || blankB) {
+            if (blankA !== blankB) return blankA ? 1 : -1;
+            continue;
+          }
+          const diff = compareCells(a[column], b[column]);
+          if (diff !== 0) return direction === 'desc' ? -diff : diff;
+        }
+        return 0;
+      });
+      return { rows: sorted, columns };
+    }
+
+    case 'limit':
+      return { rows: rows.slice(0, step.count), columns };
+
+    case 'derive': {
+      const parsed = parseExpression(step.expression);
+      if (!parsed.ok) return { error: `Expression error: ${parsed.error}.` };
+      const bad = missing(parsed.columns);
+      if (bad) return bad;
+      const out = rows.map((row, i) => ({ ...row, [step.as]: evaluateExpression(parsed.expression, rows, i) }));
+      return { rows: out, columns: known.has(step.as) ? columns : [...columns, step.as] };
+    }
+  }
+}
+
+// ── Entry points ────────────────────────────────────────────────────────────
+
+/**
+ * Run `steps` over `rows`, in order. Cells are normalized per `schema` first
+ * ("$1,200" → 1200) so filters and aggregates see numbers. The input rows are
+ * never mutated.
+ */
+export function applyTransforms(rows: Row[], steps: TransformStep[], schema: ColumnSchema[] = inferSchema(rows)): TransformResult {
+  const shapeErrors = validateTransformSteps(steps);
+  if (shapeErrors.length > 0) return { ok: false, errors: shapeErrors };
+
+  let current = normalizeRows(rows, schema);
+  let columns = columnsOf(rows);
+  for (const [i, step] of steps.entries()) {
+    const result = applyStep(step, current, columns);
+    if ('error' in result) return { ok: false, errors: [`Step ${i + 1} (${step.kind}): ${result.error}`] };
+    current = result.rows;
+    columns = result.columns;
+  }
+  return { ok: true, rows: current, columns };
+}
+
+/**
+ * Transform `rows`, then run the encoding plan over the result — the plan's
+ * columns refer to the transformed table. Without transforms this is just
+ * `runEncodingPlan` (reusing `schema` when the caller already has it).
+ */
+export function runPipeline(rows: Row[], plan: EncodingPlan, transforms?: TransformStep[], schema?: ColumnSchema[]): EncodingResult {
+  if (!transforms?.length) return runEncodingPlan(rows, plan, schema);
+  const source = schema ?? inferSchema(rows);
+  const applied = applyTransforms(rows, transforms, source);
+  if (!applied.ok) return { ok: false, errors: applied.errors };
+  if (applied.rows.length === 0) return { ok: false, errors: ['No rows left after the transform steps.'] };
+  return runEncodingPlan(applied.rows, plan, carrySemantics(inferSchema(applied.rows), source));
+}
+
+/**
+ * Normalized currency / percent / duration columns re-infer as plain numbers;
+ * copy the source column's meaning onto any numeric column that kept its name
+ * so axis labels still carry the unit.
+ */
+function carrySemantics(schema: ColumnSchema[], source: ColumnSchema[]): ColumnSchema[] {
+  return schema.map(col => {
+    const from = source.find(c => c.name === col.name);
+    return col.type === 'numeric' && !col.semantic && from?.type === 'numeric' && from.semantic
+      ? { ...col, semantic: from.semantic, ...(from.unit ? { unit: from.unit } : {}) }
+      : col;
+  });
+}
+
+/** One-line summary of a step — "Filter Year = 2025", "Group by Region: sum(Revenue) → Revenue". */
+export function describeTransform(step: TransformStep): string {
+  switch (step.kind) {
+    case 'filter':
+      return `Filter ${step.filters.map(f => `${f.column} ${f.op} ${Array.isArray(f.value) ? f.value.join('|') : String(f.value)}`).join(', ')}`;
+    case 'aggregate': {
+      const measures = step.measures.map(m => `${m.aggregate}(${m.aggregate === 'count' ? '' : m.column ?? ''}) → ${m.as}`).join(', ');
+      return step.groupBy.length ? `Group by ${step.groupBy.join(', ')}: ${measures}` : `Total: ${measures}`;
+    }
+    case 'pivot':
+      return `Pivot ${step.columns} into columns (${step.aggregate} of ${step.values})${step.index.length ? ` by ${step.index.join(', ')}` : ''}`;
+    case 'unpivot':
+      return `Unpivot ${step.columns.join(', ')} → ${step.key} / ${step.value}`;
+    case 'sort':
+      return `Sort by ${step.by.map(k => `${k.column} ${k.direction}`).join(', ')}`;
+    case 'limit':
+      return `Keep first ${step.count.toLocaleString()} rows`;
+    case 'derive':
+      return `${step.as} = ${step.expression}`;
+  }
+}
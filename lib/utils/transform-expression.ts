@@ -0,0 +1,388 @@
+// ============================================================================
+// TRANSFORM EXPRESSIONS — the safe formula language behind `derive` steps
+//
+// A tiny, side-effect-free language evaluated per row — never `eval`. It can
+// read the current row's cells and, via `lag` / `lead`, a neighbouring row's,
+// and nothing else: no property access, no globals, no loops.
+//
+//   [Revenue] * 1.2                       column names in brackets (or bare
+//   Revenue / Units                       when they're plain identifiers)
+//   ([Revenue] - lag([Revenue])) / lag([Revenue]) * 100
+//   if([Region] == 'EMEA', 'Europe', [Region])
+//   round([Margin] * 100, 1)              year([Date]), concat(a, ' ', b), …
+//
+// Operators: + - * / %, == != < <= > >=, and / or / not (&& || ! too).
+// Arithmetic on a blank or non-numeric cell yields null rather than NaN, and
+// dividing by zero yields null. `==` compares numbers numerically and text
+// case-insensitively, like encoding filters.
+// ============================================================================
+
+import { toNumber } from '@/lib/utils/aggregation-engine';
+
+export type ExpressionValue = number | string | boolean | null;
+
+type BinaryOp = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or';
+
+export type Expression =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'column'; name: string }
+  | { type: 'unary'; op: '-' | 'not'; arg: Expression }
+  | { type: 'binary'; op: BinaryOp; left: Expression; right: Expression }
+  | { type: 'call'; name: string; args: Expression[] };
+
+export type ParsedExpression =
+  | { ok: true; expression: Expression; columns: string[] }
+  | { ok: false; error: string };
+
+const MAX_EXPRESSION_LENGTH = 500;
+const MAX_DEPTH = 32;
+const MAX_OFFSET = 1000;
+
+/** name → [min args, max args] */
+const FUNCTIONS: Record<string, [number, number]> = {
+  abs: [1, 1], floor: [1, 1], ceil: [1, 1], sqrt: [1, 1], round: [1, 2],
+  min: [1, 16], max: [1, 16],
+  if: [3, 3], coalesce: [1, 16],
+  lower: [1, 1], upper: [1, 1], trim: [1, 1], len: [1, 1], concat: [1, 16],
+  number: [1, 1], text: [1, 1],
+  year: [1, 1], quarter: [1, 1], month: [1, 1], day: [1, 1],
+  lag: [1, 2], lead: [1, 2],
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// ── Tokenizer ───────────────────────────────────────────────────────────────
+
+type Token =
+  | { t: 'num'; v: number; at: number }
+  | { t: 'str'; v: string; at: number }
+  | { t: 'col'; v: string; at: number }
+  | { t: 'ident'; v: string; at: number }
+  | { t: 'op'; v: string; at: number };
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '=', '!', '(', ')', ','];
+
+function tokenize(source: string): Token[] | string {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) { i++; continue; }
+
+    if (/[0-9.]/.test(c)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) return `Unexpected "${c}" at position ${i + 1}`;
+      tokens.push({ t: 'num', v: Number(match[0]), at: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (c === '"' || c === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== c) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j++];
+      }
+      if (j >= source.length) return `Unterminated text starting at position ${i + 1}`;
+      tokens.push({ t: 'str', v: value, at: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (c === '[') {
+      const end = source.indexOf(']', i + 1);
+      if (end === -1) return `Unclosed "[" at position ${i + 1}`;
+      const name = source.slice(i + 1, end).trim();
+      if (!name) return `Empty column name at position ${i + 1}`;
+      tokens.push({ t: 'col', v: name, at: i });
+      i = end + 1;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ t: 'ident', v: ident[0], at: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) return `Unexpected "${c}" at position ${i + 1}`;
+    tokens.push({ t: 'op', v: op, at: i });
+    i += op.length;
+  }
+  return tokens;
+}
+
+// ── Parser (recursive descent, lowest precedence first) ─────────────────────
+
+class ParseError extends Error {}
+
+function parseTokens(tokens: Token[]): Expression {
+  let pos = 0;
+  let depth = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (...ops: string[]) => peek()?.t === 'op' && ops.includes(peek()!.v as string);
+  const isWord = (...words: string[]) => peek()?.t === 'ident' && words.includes((peek()!.v as string).toLowerCase());
+  const describe = (token: Token | undefined) => token ? `"${token.v}" at position ${token.at + 1}` : 'end of expression';
+  const expectOp = (op: string) => {
+    if (!isOp(op)) throw new ParseError(`Expected "${op}" but found ${describe(peek())}`);
+    pos++;
+  };
+  const nested = <T,>(fn: () => T): T => {
+    if (++depth > MAX_DEPTH) throw new ParseError('Expression is nested too deeply');
+    try { return fn(); } finally { depth--; }
+  };
+
+  const binaryLevel = (next: () => Expression, match: () => BinaryOp | null) => (): Expression => {
+    let left = next();
+    for (let op = match(); op; op = match()) {
+      pos++;
+      left = { type: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): Expression => nested(() => {
+    const token = peek();
+    if (!token) throw new ParseError('Expression ends unexpectedly');
+    pos++;
+
+    if (token.t === 'num') return { type: 'literal', value: token.v };
+    if (token.t === 'str') return { type: 'literal', value: token.v };
+    if (token.t === 'col') return { type: 'column', name: token.v };
+    if (token.t === 'op' && token.v === '(') {
+      const inner = or();
+      expectOp(')');
+      return inner;
+    }
+    if (token.t === 'ident') {
+      const word = token.v.toLowerCase();
+      if (word === 'true' || word === 'false') return { type: 'literal', value: word === 'true' };
+      if (word === 'null') return { type: 'literal', value: null };
+      if (!isOp('(')) return { type: 'column', name: token.v };
+
+      // Own keys only — `constructor(` or `toString(` aren't functions here.
+      const spec = Object.hasOwn(FUNCTIONS, word) ? FUNCTIONS[word] : undefined;
+      if (!spec) throw new ParseError(`Unknown function "${token.v}" — available: ${EXPRESSION_FUNCTIONS.join(', ')}`);
+      pos++;
+      const args: Expression[] = [];
+      if (!isOp(')')) {
+        args.push(or());
+        while (isOp(',')) { pos++; args.push(or()); }
+      }
+      expectOp(')');
+      if (args.length < spec[0] || args.length > spec[1]) {
+        const arity = spec[0] === spec[1] ? `${spec[0]}` : `${spec[0]}–${spec[1]}`;
+        throw new ParseError(`${word}() takes ${arity} argument${spec[1] === 1 ? '' : 's'} (got ${args.length})`);
+      }
+      if ((word === 'lag' || word === 'lead') && args[0].type !== 'column') {
+        throw new ParseError(`${word}() needs a column as its first argument, e.g. ${word}([Revenue])`);
+      }
+      if ((word === 'lag' || word === 'lead') && args[1]) {
+        const n = args[1].type === 'literal' ? args[1].value : null;
+        if (typeof n !== 'number' || !Number.isInteger(n) || n < 1 || n > MAX_OFFSET) {
+          throw new ParseError(`${word}()'s offset must be a whole number between 1 and ${MAX_OFFSET}`);
+        }
+      }
+      return { type: 'call', name: word, args };
+    }
+    throw new ParseError(`Unexpected ${describe(token)}`);
+  });
+
+  const unary = (): Expression => nested(() => {
+    if (isOp('-')) { pos++; return { type: 'unary', op: '-', arg: unary() }; }
+    if (isOp('!') || isWord('not')) { pos++; return { type: 'unary', op: 'not', arg: unary() }; }
+    return primary();
+  });
+
+  const multiplicative = binaryLevel(unary, () => (isOp('*', '/', '%') ? (peek()!.v as BinaryOp) : null));
+  const additive = binaryLevel(multiplicative, () => (isOp('+', '-') ? (peek()!.v as BinaryOp) : null));
+  const comparison = (): Expression => {
+    const left = additive();
+    if (!isOp('==', '=', '!=', '<', '<=', '>', '>=')) return left;
+    const raw = peek()!.v as string;
+    pos++;
+    return { type: 'binary', op: (raw === '=' ? '==' : raw) as BinaryOp, left, right: additive() };
+  };
+  const and = binaryLevel(comparison, () => (isOp('&&') || isWord('and') ? 'and' : null));
+  const or: () => Expression = binaryLevel(and, () => (isOp('||') || isWord('or') ? 'or' : null));
+
+  const expression = or();
+  if (pos < tokens.length) throw new ParseError(`Unexpected ${describe(peek())}`);
+  return expression;
+}
+
+function collectColumns(expression: Expression, into: Set<string>): Set<string> {
+  switch (expression.type) {
+    case 'column': into.add(expression.name); break;
+    case 'unary': collectColumns(expression.arg, into); break;
+    case 'binary': collectColumns(expression.left, into); collectColumns(expression.right, into); break;
+    case 'call': expression.args.forEach(a => collectColumns(a, into)); break;
+  }
+  return into;
+}
+
+/** Parse `source`, returning the syntax tree and every column it reads — or a message saying what's wrong. */
+export function parseExpression(source: string): ParsedExpression {
+  if (typeof source !== 'string' || !source.trim()) return { ok: false, error: 'Expression is empty' };
+  if (source.length > MAX_EXPRESSION_LENGTH) return { ok: false, error: `Expression is longer than ${MAX_EXPRESSION_LENGTH} characters` };
+
+  const tokens = tokenize(source);
+  if (typeof tokens === 'string') return { ok: false, error: tokens };
+  try {
+    const expression = parseTokens(tokens);
+    return { ok: true, expression, columns: [...collectColumns(expression, new Set())] };
+  } catch (error) {
+    if (error instanceof ParseError) return { ok: false, error: error.message };
+    throw error;
+  }
+}
+
+// ── Evaluation ──────────────────────────────────────────────────────────────
+
+type Row = Record<string, unknown>;
+
+function asValue(cell: unknown): ExpressionValue {
+  if (cell === undefined || cell === null) return null;
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null;
+  if (typeof cell === 'string' || typeof cell === 'boolean') return cell;
+  return String(cell);
+}
+
+/** `row[column]`, ignoring inherited keys — a column named `constructor` or `__proto__` that the row lacks reads as null. */
+function cellValue(row: Row | undefined, column: string): ExpressionValue {
+  return asValue(row && Object.hasOwn(row, column) ? row[column] : undefined);
+}
+
+function asNumber(value: ExpressionValue): number | null {
+  return typeof value === 'boolean' ? Number(value) : toNumber(value);
+}
+
+function asText(value: ExpressionValue): string {
+  return value === null ? '' : String(value);
+}
+
+function isTruthy(value: ExpressionValue): boolean {
+  return value !== null && value !== false && value !== 0 && value !== '';
+}
+
+/** Strip float noise (0.1 + 0.2 → 0.3), matching the aggregation engine. */
+function finite(n: number): number | null {
+  return Number.isFinite(n) ? Number(n.toPrecision(12)) : null;
+}
+
+function dateParts(value: ExpressionValue): Date | null {
+  if (value === null || typeof value === 'boolean') return null;
+  const time = Date.parse(String(value).trim());
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+function compare(left: ExpressionValue, right: ExpressionValue): number | null {
+  if (left === null || right === null) return null;
+  const a = asNumber(left);
+  const b = asNumber(right);
+  if (a !== null && b !== null) return a - b;
+  return asText(left).toLowerCase().localeCompare(asText(right).toLowerCase(), undefined, { numeric: true });
+}
+
+function evaluateBinary(op: BinaryOp, left: ExpressionValue, right: ExpressionValue): ExpressionValue {
+  switch (op) {
+    case '==':
+    case '!=': {
+      const equal = left === null || right === null ? left === right : compare(left, right) === 0;
+      return op === '==' ? equal : !equal;
+    }
+    case '<': case '<=': case '>': case '>=': {
+      const diff = compare(left, right);
+      if (diff === null) return null;
+      return op === '<' ? diff < 0 : op === '<=' ? diff <= 0 : op === '>' ? diff > 0 : diff >= 0;
+    }
+    default: {
+      const a = asNumber(left);
+      const b = asNumber(right);
+      if (a === null || b === null) return null;
+      if (op === '+') return finite(a + b);
+      if (op === '-') return finite(a - b);
+      if (op === '*') return finite(a * b);
+      if (b === 0) return null;
+      return finite(op === '/' ? a / b : a % b);
+    }
+  }
+}
+
+/**
+ * Evaluate a parsed expression against `rows[index]`. `rows` is the whole
+ * table in its current order, so `lag` / `lead` can look at neighbours.
+ */
+export function evaluateExpression(expression: Expression, rows: Row[], index: number): ExpressionValue {
+  const evaluate = (node: Expression): ExpressionValue => {
+    switch (node.type) {
+      case 'literal': return node.value;
+      case 'column': return cellValue(rows[index], node.name);
+      case 'unary': {
+        const arg = evaluate(node.arg);
+        if (node.op === 'not') return !isTruthy(arg);
+        const n = asNumber(arg);
+        return n === null ? null : -n;
+      }
+      case 'binary': {
+        if (node.op === 'and') return isTruthy(evaluate(node.left)) && isTruthy(evaluate(node.right));
+        if (node.op === 'or') return isTruthy(evaluate(node.left)) || isTruthy(evaluate(node.right));
+        return evaluateBinary(node.op, evaluate(node.left), evaluate(node.right));
+      }
+      case 'call': return call(node.name, node.args);
+    }
+  };
+
+  const call = (name: string, args: Expression[]): ExpressionValue => {
+    if (name === 'if') return isTruthy(evaluate(args[0])) ? evaluate(args[1]) : evaluate(args[2]);
+    if (name === 'lag' || name === 'lead') {
+      const offset = args[1] ? (args[1] as { value: number }).value : 1;
+      const target = name === 'lag' ? index - offset : index + offset;
+      return cellValue(rows[target], (args[0] as { name: string }).name);
+    }
+
+    const values = args.map(evaluate);
+    const [first] = values;
+    const n = asNumber(first);
+    switch (name) {
+      case 'abs': return n === null ? null : Math.abs(n);
+      case 'floor': return n === null ? null : Math.floor(n);
+      case 'ceil': return n === null ? null : Math.ceil(n);
+      case 'sqrt': return n === null || n < 0 ? null : finite(Math.sqrt(n));
+      case 'round': {
+        const digits = values[1] === undefined ? 0 : asNumber(values[1]);
+        if (n === null || digits === null) return null;
+        const factor = 10 ** Math.max(0, Math.min(10, Math.trunc(digits)));
+        return finite(Math.round(n * factor) / factor);
+      }
+      case 'min':
+      case 'max': {
+        const numbers = values.map(asNumber).filter((v): v is number => v !== null);
+        if (numbers.length === 0) return null;
+        return name === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+      }
+      case 'coalesce': return values.find(v => v !== null && v !== '') ?? null;
+      case 'lower': return first === null ? null : asText(first).toLowerCase();
+      case 'upper': return first === null ? null : asText(first).toUpperCase();
+      case 'trim': return first === null ? null : asText(first).trim();
+      case 'len': return first === null ? null : asText(first).length;
+      case 'concat': return values.map(asText).join('');
+      case 'number': return n;
+      case 'text': return first === null ? null : asText(first);
+      default: {
+        const date = dateParts(first);
+        if (!date) return null;
+        if (name === 'year') return date.getUTCFullYear();
+        if (name === 'quarter') return Math.floor(date.getUTCMonth() / 3) + 1;
+        if (name === 'month') return date.getUTCMonth() + 1;
+        return date.getUTCDate();
+      }
+    }
+  };
+
+  return evaluate(expression);
+}
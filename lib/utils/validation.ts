@@ -1,6 +1,7 @@
 import { Types } from 'mongoose';
 export { VALIDATION_LIMITS } from './constants';
 import { VALIDATION_LIMITS } from './constants';
+import { getProviderPricing, type AIProviderName } from './ai-provider-config';
 
 /**
  * Token economy — gpt-5.4-mini, June 2026 pricing.
@@ -8,22 +9,24 @@ import { VALIDATION_LIMITS } from './constants';
  * All operations use gpt-5.4-mini ($0.75/1M in · $4.50/1M out).
  *
  * Real cost per call:
- *   Generate: ~700 in  + 2000 out = $0.009525
- *   Edit:    ~4000 in  + 3000 out = $0.016500  ← most expensive
+ *   Generate:   ~700 in  + 2000 out = $0.009525
+ *   Patch edit: ~4000 in +  400 out = $0.004800
+ *   Full edit:  ~4000 in + 3000 out = $0.016500  ← most expensive (patch fallback)
  *
- * Unit token price anchored to the most expensive op (edit):
+ * Unit token price anchored to the most expensive op (full edit):
  *   $0.016500 ÷ 18 = $0.000917 / token
  *
  * Token costs (rounded UP to protect budget):
- *   Generate: $0.009525 ÷ $0.000917 = 10.39 → 11 tokens
- *   Edit:     $0.016500 ÷ $0.000917 = 18.00 → 18 tokens
+ *   Generate:   $0.009525 ÷ $0.000917 = 10.39 → 11 tokens
+ *   Patch edit: $0.004800 ÷ $0.000917 =  5.23 →  6 tokens
+ *   Full edit:  $0.016500 ÷ $0.000917 = 18.00 → 18 tokens
  *
  * Pro monthly limit = $5.00 ÷ $0.000917 = 5,453 → floored to 5,400.
  *
  * PROOF no combination can exceed $5:
- *   All edits:    5,400÷18 = 300  × $0.016500 = $4.95 < $5 ✓
- *   All generates: 5,400÷11 = 490 × $0.009525 = $4.67 < $5 ✓
- *   Any mix: max = 5,400 × $0.000917            = $4.95 < $5 ✓
+ *   All full edits: 5,400÷18 = 300 × $0.016500 = $4.95 < $5 ✓
+ *   All generates:  5,400÷11 = 490 × $0.009525 = $4.67 < $5 ✓
+ *   Any mix: max = 5,400 × $0.000917             = $4.95 < $5 ✓
  */
 
 export const TOKEN_LIMITS = {
@@ -35,7 +38,9 @@ export const TOKEN_LIMITS = {
 export const TOKEN_COSTS = {
   // Derived from $0.000917/token (anchored to edit, the most expensive op)
   GENERATE_VISUALIZATION: 11,   // $0.009525 actual → 10.39 → 11
-  EDIT_VISUALIZATION: 18,       // $0.016500 actual → 18.00 → 18
+  EDIT_VISUALIZATION: 6,        // $0.004800 actual → 5.23 → 6 (patch edit)
+  // A patch edit that falls back to rewriting the whole option.
+  EDIT_VISUALIZATION_FULL: 18,  // $0.016500 actual → 18.00 → 18
 
   // Database operations (no AI call)
   SAVE_VISUALIZATION: 0,
@@ -48,22 +53,21 @@ export const TOKEN_COSTS = {
   GET_VISUALIZATION: 0,
 };
 
-// gpt-5.4-mini pricing constants used to convert real OpenAI token usage → internal tokens
-const MODEL_PRICING = {
-  INPUT_PER_TOKEN:  0.75  / 1_000_000,  // $0.00000075 per input token
-  OUTPUT_PER_TOKEN: 4.50  / 1_000_000,  // $0.0000045  per output token
-  UNIT_TOKEN_PRICE: 0.000917,            // internal token unit (anchored to edit cost ÷ 18)
-} as const;
+// Internal token unit (anchored to gpt-5.4-mini edit cost ÷ 18). Per-token
+// USD rates come from the active provider — see PROVIDER_PRICING.
+const UNIT_TOKEN_PRICE = 0.000917;
 
 /**
- * Convert actual OpenAI token usage to internal tokens.
+ * Convert actual AI token usage to internal tokens, priced at the rates of
+ * `provider` (defaults to the one selected by `AI_PROVIDER`).
  * Used by all action functions instead of flat TOKEN_COSTS estimates.
  */
-export function calcInternalTokens(promptTokens: number, completionTokens: number): number {
+export function calcInternalTokens(promptTokens: number, completionTokens: number, provider?: AIProviderName): number {
+  const pricing = getProviderPricing(provider);
   const actualCost =
-    promptTokens   * MODEL_PRICING.INPUT_PER_TOKEN +
-    completionTokens * MODEL_PRICING.OUTPUT_PER_TOKEN;
-  return Math.max(1, Math.ceil(actualCost / MODEL_PRICING.UNIT_TOKEN_PRICE));
+    promptTokens   * pricing.INPUT_PER_TOKEN +
+    completionTokens * pricing.OUTPUT_PER_TOKEN;
+  return Math.max(1, Math.ceil(actualCost / UNIT_TOKEN_PRICE));
 }
 
 /**
@@ -0,0 +1,10 @@
+// Runs the spec-generation eval harness (lib/evals/cli.ts) outside Next.js.
+// jiti transpiles the TypeScript on the fly and resolves the `@/` path alias.
+import { createJiti } from 'jiti';
+import { fileURLToPath } from 'url';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const jiti = createJiti(import.meta.url, { alias: { '@/': root } });
+const { main } = await jiti.import('../lib/evals/cli.ts');
+
+process.exitCode = await main(process.argv.slice(2));